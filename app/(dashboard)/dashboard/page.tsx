@@ -1,23 +1,24 @@
 'use client'
 
-import { useState } from 'react'
-import { useSession } from 'next-auth/react'
-import { useRouter } from 'next/navigation'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Navbar } from '@/components/layout/navbar'
-import { Tabs, TabsContent } from '@/components/ui/tabs'
-import { Skeleton } from '@/components/ui/skeleton'
 import {
   TrendingUp,
   Calendar,
-  Search
+  Search,
+  Target
 } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { useSession } from 'next-auth/react'
+import { useState } from 'react'
 
-// Import components
-import { PortfolioTab } from '@/components/portfolio/portfolio-tab'
 import { DividendsTab } from '@/components/dividends/dividends-tab'
-import { ScreenerTab } from '@/components/screener/screener-tab'
+import { Navbar } from '@/components/layout/navbar'
+import { PlanningTab } from '@/components/planning/planning-tab'
+import { PortfolioTab } from '@/components/portfolio/portfolio-tab'
 import { SummaryCards } from '@/components/portfolio/summary-cards'
+import { ScreenerTab } from '@/components/screener/screener-tab'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Tabs, TabsContent } from '@/components/ui/tabs'
 
 const tabs = [
   {
@@ -44,6 +45,14 @@ const tabs = [
     color: 'text-blue-600',
     bgColor: 'bg-blue-50',
   },
+  {
+    id: 'planning',
+    label: 'Planning',
+    icon: Target,
+    description: 'Project your portfolio toward a goal',
+    color: 'text-violet-600',
+    bgColor: 'bg-violet-50',
+  },
 ]
 
 export default function DashboardPage() {
@@ -187,6 +196,10 @@ export default function DashboardPage() {
                 <TabsContent value="screener" className="mt-0">
                   <ScreenerTab />
                 </TabsContent>
+
+                <TabsContent value="planning" className="mt-0">
+                  <PlanningTab />
+                </TabsContent>
               </motion.div>
             </AnimatePresence>
           </Tabs>
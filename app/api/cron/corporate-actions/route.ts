@@ -0,0 +1,97 @@
+/**
+ * app/api/cron/corporate-actions/route.ts
+ * Scheduled job - applies splits, reverse splits, spinoffs and symbol
+ * changes that have taken effect to every position holding the stock, and
+ * registers newly announced actions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { isAuthorized } from '@/lib/cron';
+import { applyDueCorporateActions, saveCorporateActions } from '@/lib/portfolio/corporate-actions';
+import { corporateActionBatchSchema } from '@/lib/validations';
+
+/**
+ * GET /api/cron/corporate-actions
+ * Apply every pending action whose effective date has passed. Requires
+ * `Authorization: Bearer <CRON_SECRET>`, which Vercel Cron sends
+ * automatically. Failed actions stay pending for the next run.
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const run = await applyDueCorporateActions();
+
+    return NextResponse.json({
+      success: true,
+      data: run,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/cron/corporate-actions
+ * Register announced actions, e.g. from a data feed. Body is an array of
+ * `{ type, ticker, effectiveDate, ratio?, newTicker?, costAllocation?, notes? }`.
+ * Actions already registered for the same stock, type and date are ignored.
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const validation = corporateActionBatchSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const added = await saveCorporateActions(validation.data);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { added, skipped: validation.data.length - added },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * app/api/cron/options/route.ts
+ * Scheduled job - settles options whose expiry has passed, exercising or
+ * assigning those that expired in the money
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { isAuthorized } from '@/lib/cron';
+import { settleExpiredOptions } from '@/lib/portfolio/options';
+
+/**
+ * GET /api/cron/options
+ * Settle every open option past its expiry day. Requires
+ * `Authorization: Bearer <CRON_SECRET>`, which Vercel Cron sends
+ * automatically. Options without a closing price for their underlying, or
+ * whose assignment the position cannot take, stay open for the next run.
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const run = await settleExpiredOptions();
+
+    return NextResponse.json({
+      success: true,
+      data: run,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * app/api/cron/snapshots/route.ts
+ * Scheduled job - records every user's daily portfolio snapshots after the
+ * market close
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { isAuthorized } from '@/lib/cron';
+import { recordAllSnapshots } from '@/lib/portfolio/snapshots';
+
+/**
+ * GET /api/cron/snapshots
+ * Backfill missed days and record today's snapshot for each user with
+ * positions or cash, a batch of users at a time. Runs repeat through the
+ * evening, each resuming where the last stopped. Requires
+ * `Authorization: Bearer <CRON_SECRET>`, which Vercel Cron sends
+ * automatically.
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const run = await recordAllSnapshots();
+
+    return NextResponse.json({
+      success: true,
+      data: run,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
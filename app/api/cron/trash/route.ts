@@ -0,0 +1,44 @@
+/**
+ * app/api/cron/trash/route.ts
+ * Scheduled job - purges positions that have been in the trash longer than
+ * the retention period
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { isAuthorized } from '@/lib/cron';
+import { purgeExpiredTrash } from '@/lib/portfolio/trash';
+
+/**
+ * GET /api/cron/trash
+ * Delete every trashed position past its retention period for good.
+ * Requires `Authorization: Bearer <CRON_SECRET>`, which Vercel Cron sends
+ * automatically.
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const run = await purgeExpiredTrash();
+
+    return NextResponse.json({
+      success: true,
+      data: run,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
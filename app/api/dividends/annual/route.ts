@@ -8,15 +8,17 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/db';
 import realDataClient from '@/lib/api/real-data-client';
+import { resolvePortfolioScope } from '@/lib/portfolio/accounts';
 import { DividendSummary, MonthlyDividend, StockDividend } from '@/types';
-import { ERROR_MESSAGES } from '@/lib/constants';
+import { ALL_ACCOUNTS, ERROR_MESSAGES } from '@/lib/constants';
 import cache from '@/lib/cache';
 
 /**
  * GET /api/dividends/annual
  * Calculate annual dividend income projections
+ * Query params: ?portfolioId=<account id> or `all` (default)
  */
-export async function GET(_request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
     // Get user session
     const session = await getServerSession(authOptions);
@@ -28,8 +30,24 @@ export async function GET(_request: NextRequest) {
       );
     }
 
-    // Try cache first (user-specific)
-    const cacheKey = `dividends:annual:${session.user.id}`;
+    const portfolioId = await resolvePortfolioScope(
+      session.user.id,
+      request.nextUrl.searchParams.get('portfolioId'),
+    );
+
+    if (portfolioId === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    // Try cache first (user and account specific)
+    const cacheKey = `dividends:annual:${session.user.id}:${portfolioId ?? ALL_ACCOUNTS}`;
     const cached = await cache.get<DividendSummary>(cacheKey);
     if (cached) {
       return NextResponse.json({
@@ -40,7 +58,7 @@ export async function GET(_request: NextRequest) {
     
     // Fetch user's portfolio assets
     const assets = await prisma.asset.findMany({
-      where: { userId: session.user.id },
+      where: { userId: session.user.id, deletedAt: null, ...(portfolioId && { portfolioId }) },
     });
     
     if (assets.length === 0) {
@@ -55,7 +55,7 @@ export async function GET(request: NextRequest) {
     
     // Fetch user's portfolio assets
     const assets = await prisma.asset.findMany({
-      where: { userId: session.user.id },
+      where: { userId: session.user.id, deletedAt: null },
     });
     
     if (assets.length === 0) {
@@ -5,20 +5,22 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
+
+import realDataClient from '@/lib/api/real-data-client';
 import { authOptions } from '@/lib/auth';
-import prisma from '@/lib/db';
 import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
-import { z } from 'zod';
-
-const updateAssetSchema = z.object({
-  shares: z.number().min(0.0001).max(1000000).optional(),
-  avgPrice: z.number().min(0.01).max(1000000).optional(),
-  notes: z.string().max(500).optional().nullable(),
-});
+import prisma from '@/lib/db';
+import { invalidatePortfolioCache } from '@/lib/portfolio/accounts';
+import { AssetNotFoundError, PortfolioError } from '@/lib/portfolio/errors';
+import { updateAsset } from '@/lib/portfolio/ledger';
+import { trashAsset } from '@/lib/portfolio/trash';
+import { quoteSymbol } from '@/lib/portfolio/valuations';
+import { updateAssetSchema } from '@/lib/validations';
 
 /**
  * DELETE /api/portfolio/[id]
- * Remove an asset from the portfolio
+ * Move an asset to the trash. It can be restored from there until it is
+ * purged after the retention period.
  */
 export async function DELETE(
   _request: NextRequest,
@@ -48,34 +50,9 @@ export async function DELETE(
       );
     }
     
-    // Check if asset exists and belongs to user
-    const asset = await prisma.asset.findFirst({
-      where: { 
-        id,
-        userId: session.user.id,
-      },
-    });
-    
-    if (!asset) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: ERROR_MESSAGES.NOT_FOUND,
-          message: 'Asset not found in portfolio',
-        },
-        { status: 404 }
-      );
-    }
-    
-    // Delete the asset
-    await prisma.asset.delete({
-      where: { id },
-    });
-    
-    // Also delete any related dividends
-    await prisma.dividend.deleteMany({
-      where: { assetId: id },
-    });
+    const userId = session.user.id;
+    const asset = await prisma.$transaction((tx) => trashAsset(tx, userId, id));
+    await invalidatePortfolioCache(userId);
     
     return NextResponse.json({
       success: true,
@@ -86,17 +63,27 @@ export async function DELETE(
       },
     });
   } catch (error) {
-    
-    // Handle Prisma specific errors
-    if (error instanceof Error && error.message.includes('Record to delete does not exist')) {
+    if (error instanceof AssetNotFoundError) {
       return NextResponse.json(
         {
           success: false,
           error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Asset not found in portfolio',
         },
         { status: 404 }
       );
     }
+
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
     
     return NextResponse.json(
       {
@@ -111,11 +98,15 @@ export async function DELETE(
 
 /**
  * PATCH /api/portfolio/[id]
- * Update an existing asset in the portfolio
+ * Update an existing asset in the portfolio. A new ticker renames the whole
+ * position and must have a market quote, unless the asset is manually
+ * priced. Shares, average price and purchase date are derived from the
+ * ledger, so they can only be corrected here while the position consists
+ * of a single opening trade.
  */
 export async function PATCH(
   request: NextRequest,
-  { params }: { params: { id: string } }
+  { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     // Get user session
@@ -127,8 +118,9 @@ export async function PATCH(
         { status: 401 }
       );
     }
+    const userId = session.user.id;
 
-    const { id } = params;
+    const { id } = await params;
     const body = await request.json();
 
     // Validate ID format
@@ -156,13 +148,12 @@ export async function PATCH(
       );
     }
 
-    const { shares, avgPrice, notes } = validation.data;
-
     // Check if asset exists and belongs to user
     const asset = await prisma.asset.findFirst({
       where: {
         id,
-        userId: session.user.id,
+        userId,
+        deletedAt: null,
       },
     });
 
@@ -176,16 +167,27 @@ export async function PATCH(
         { status: 404 }
       );
     }
-    
-    // Update the asset
-    const updatedAsset = await prisma.asset.update({
-      where: { id },
-      data: {
-        ...(shares !== undefined && { shares }),
-        ...(avgPrice !== undefined && { avgPrice }),
-        ...(notes !== undefined && { notes }),
-      },
-    });
+
+    // Verify a new ticker is valid by fetching its quote
+    const { ticker } = validation.data;
+    if (ticker && ticker !== asset.ticker && asset.assetClass !== 'MANUAL') {
+      const quote = await realDataClient
+        .getQuote(quoteSymbol({ ticker, assetClass: asset.assetClass, currency: asset.currency }))
+        .catch(() => null);
+      if (!quote || quote.price === 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: ERROR_MESSAGES.INVALID_TICKER,
+            message: `Unable to find stock with ticker: ${ticker}`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updatedAsset = await prisma.$transaction((tx) => updateAsset(tx, userId, id, validation.data));
+    await invalidatePortfolioCache(userId);
     
     return NextResponse.json({
       success: true,
@@ -193,6 +195,17 @@ export async function PATCH(
       message: SUCCESS_MESSAGES.ASSET_UPDATED,
     });
   } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       {
         success: false,
@@ -202,4 +215,4 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
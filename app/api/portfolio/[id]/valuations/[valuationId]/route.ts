@@ -0,0 +1,66 @@
+/**
+ * app/api/portfolio/[id]/valuations/[valuationId]/route.ts
+ * Valuation endpoint for individual valuations - DELETE
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { invalidatePortfolioCache } from '@/lib/portfolio/accounts';
+import { PortfolioError } from '@/lib/portfolio/errors';
+import { deleteValuation } from '@/lib/portfolio/valuations';
+
+/**
+ * DELETE /api/portfolio/[id]/valuations/[valuationId]
+ * Remove a valuation of a manually priced asset
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; valuationId: string }> }
+) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const { id, valuationId } = await params;
+
+    await prisma.$transaction((tx) => deleteValuation(tx, userId, id, valuationId));
+    await invalidatePortfolioCache(userId);
+
+    return NextResponse.json({
+      success: true,
+      message: SUCCESS_MESSAGES.VALUATION_DELETED,
+    });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * app/api/portfolio/[id]/valuations/route.ts
+ * Valuations of a manually priced asset - GET the history, POST a new one
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { invalidatePortfolioCache } from '@/lib/portfolio/accounts';
+import { PortfolioError } from '@/lib/portfolio/errors';
+import { listValuations, recordValuation } from '@/lib/portfolio/valuations';
+import { recordValuationSchema } from '@/lib/validations';
+
+/**
+ * GET /api/portfolio/[id]/valuations
+ * List the valuations of a manually priced asset, newest first
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const valuations = await listValuations(session.user.id, id);
+
+    return NextResponse.json({
+      success: true,
+      data: valuations,
+    });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/portfolio/[id]/valuations
+ * Value a manually priced asset. Body is `{ price, date, notes? }` with the
+ * price per unit in the asset's currency; a valuation already entered for
+ * the day is replaced.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const { id } = await params;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = recordValuationSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const valuation = await prisma.$transaction((tx) => recordValuation(tx, userId, id, validation.data));
+    await invalidatePortfolioCache(userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: valuation,
+        message: SUCCESS_MESSAGES.VALUATION_RECORDED,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * app/api/portfolio/accounts/[id]/route.ts
+ * Individual account endpoints - PATCH rename or make default, DELETE
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { invalidatePortfolioCache } from '@/lib/portfolio/accounts';
+import { loadCashSummaries } from '@/lib/portfolio/cash';
+import { syncWashSales } from '@/lib/portfolio/ledger';
+import { updateAccountSchema } from '@/lib/validations';
+
+/**
+ * PATCH /api/portfolio/accounts/[id]
+ * Rename an account, or make it the default for new trades
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const { id } = await params;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = updateAccountSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, isDefault } = validation.data;
+
+    const portfolio = await prisma.portfolio.findFirst({
+      where: { id, userId },
+    });
+
+    if (!portfolio) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (name && name !== portfolio.name) {
+      const existing = await prisma.portfolio.findUnique({
+        where: { userId_name: { userId, name } },
+      });
+      if (existing) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: ERROR_MESSAGES.VALIDATION,
+            message: `An account named "${name}" already exists`,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Only one account can be the default
+      if (isDefault) {
+        await tx.portfolio.updateMany({
+          where: { userId, isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+      return tx.portfolio.update({
+        where: { id },
+        data: {
+          ...(name && { name }),
+          ...(isDefault && { isDefault }),
+        },
+      });
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+      message: SUCCESS_MESSAGES.ACCOUNT_UPDATED,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/portfolio/accounts/[id]
+ * Delete an account. The default account, and accounts that still hold
+ * open positions or cash, cannot be deleted.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const { id } = await params;
+
+    const portfolio = await prisma.portfolio.findFirst({
+      where: { id, userId },
+      include: {
+        _count: { select: { assets: { where: { shares: { gt: 0 }, deletedAt: null } } } },
+      },
+    });
+
+    if (!portfolio) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (portfolio.isDefault) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: 'The default account cannot be deleted. Make another account the default first.',
+        },
+        { status: 409 }
+      );
+    }
+
+    if (portfolio._count.assets > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: 'This account still holds positions. Sell or remove them first.',
+        },
+        { status: 409 }
+      );
+    }
+
+    const cash = await loadCashSummaries(userId, id);
+    if (Math.abs(cash.get(id)?.balance ?? 0) >= 0.005) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: 'This account still holds cash. Record a withdrawal first.',
+        },
+        { status: 409 }
+      );
+    }
+
+    // Closed and trashed positions, their trade history and the cash ledger
+    // go with the account, along with any wash sales they were part of
+    await prisma.$transaction(async (tx) => {
+      const closed = await tx.asset.findMany({
+        where: { portfolioId: id },
+        select: { ticker: true },
+      });
+      await tx.portfolio.delete({ where: { id } });
+      await syncWashSales(tx, userId, closed.map((asset) => asset.ticker));
+    });
+    await invalidatePortfolioCache(userId);
+
+    return NextResponse.json({
+      success: true,
+      message: SUCCESS_MESSAGES.ACCOUNT_DELETED,
+      data: { id },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
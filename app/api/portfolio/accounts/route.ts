@@ -0,0 +1,149 @@
+/**
+ * app/api/portfolio/accounts/route.ts
+ * Portfolio account endpoints - GET all accounts, POST new account
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES, PORTFOLIO_LIMITS, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { ensureDefaultPortfolio } from '@/lib/portfolio/accounts';
+import { createAccountSchema } from '@/lib/validations';
+import { PortfolioAccount } from '@/types';
+
+/**
+ * GET /api/portfolio/accounts
+ * List the user's accounts, default first, with their open position counts
+ */
+export async function GET(_request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const portfolios = await prisma.portfolio.findMany({
+      where: { userId },
+      include: {
+        _count: { select: { assets: { where: { shares: { gt: 0 }, deletedAt: null } } } },
+      },
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    const accounts: PortfolioAccount[] = portfolios.map(({ _count, ...portfolio }) => ({
+      ...portfolio,
+      assetCount: _count.assets,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: accounts,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/portfolio/accounts
+ * Create a new account
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = createAccountSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name } = validation.data;
+
+    await ensureDefaultPortfolio(prisma, userId);
+
+    const [count, existing] = await Promise.all([
+      prisma.portfolio.count({ where: { userId } }),
+      prisma.portfolio.findUnique({ where: { userId_name: { userId, name } } }),
+    ]);
+
+    if (count >= PORTFOLIO_LIMITS.MAX_ACCOUNTS) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: `You can have up to ${PORTFOLIO_LIMITS.MAX_ACCOUNTS} accounts`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: `An account named "${name}" already exists`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const portfolio = await prisma.portfolio.create({
+      data: { name, userId },
+    });
+
+    const account: PortfolioAccount = { ...portfolio, assetCount: 0 };
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: account,
+        message: SUCCESS_MESSAGES.ACCOUNT_CREATED,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * app/api/portfolio/benchmark/route.ts
+ * Benchmark comparison endpoint - GET the portfolio's cumulative return next
+ * to benchmark tickers
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { DEFAULT_BENCHMARKS, ERROR_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { resolvePortfolioScope } from '@/lib/portfolio/accounts';
+import { loadBenchmarkComparison } from '@/lib/portfolio/benchmark';
+import { recordSnapshots } from '@/lib/portfolio/snapshots';
+import { benchmarkQuerySchema } from '@/lib/validations';
+
+/**
+ * GET /api/portfolio/benchmark
+ * Compare the portfolio's time-weighted return with benchmarks over every
+ * performance range, with a cumulative series for the selected one.
+ * Query params: ?range=1M|3M|YTD|1Y|ALL (default 1M),
+ * ?tickers=SPY,QQQ (default the saved benchmarks),
+ * ?portfolioId=<account id> or `all` (default)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const searchParams = request.nextUrl.searchParams;
+    const validation = benchmarkQuerySchema.safeParse({
+      range: searchParams.get('range') ?? undefined,
+      tickers: searchParams.get('tickers') ?? undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const portfolioId = await resolvePortfolioScope(userId, searchParams.get('portfolioId'));
+
+    if (portfolioId === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    let tickers = validation.data.tickers;
+    if (!tickers) {
+      const settings = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { benchmarks: true },
+      });
+      tickers = settings?.benchmarks.length ? settings.benchmarks : DEFAULT_BENCHMARKS;
+    }
+
+    await recordSnapshots(userId);
+    const comparison = await loadBenchmarkComparison(userId, portfolioId, validation.data.range, tickers);
+
+    return NextResponse.json({
+      success: true,
+      data: comparison,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
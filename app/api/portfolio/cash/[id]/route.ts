@@ -0,0 +1,93 @@
+/**
+ * app/api/portfolio/cash/[id]/route.ts
+ * Cash ledger endpoint for individual cash transactions - DELETE
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { clearSnapshotsFrom, invalidatePortfolioCache } from '@/lib/portfolio/accounts';
+
+/**
+ * DELETE /api/portfolio/cash/[id]
+ * Remove a deposit, withdrawal or income entry. Entries that settle a trade
+ * or an option premium are removed by deleting the trade or option.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const { id } = await params;
+
+    const cashTransaction = await prisma.cashTransaction.findFirst({
+      where: { id, userId },
+    });
+
+    if (!cashTransaction) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Cash transaction not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (cashTransaction.transactionId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: 'This entry settles a trade. Delete the trade to remove it.',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (cashTransaction.optionId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: 'This entry is an option premium. Delete the option to remove it.',
+        },
+        { status: 400 }
+      );
+    }
+
+    await prisma.cashTransaction.delete({ where: { id } });
+    await clearSnapshotsFrom(prisma, cashTransaction.portfolioId, cashTransaction.date);
+    await invalidatePortfolioCache(userId);
+
+    return NextResponse.json({
+      success: true,
+      message: SUCCESS_MESSAGES.CASH_DELETED,
+      data: { id },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
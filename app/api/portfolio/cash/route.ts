@@ -0,0 +1,168 @@
+/**
+ * app/api/portfolio/cash/route.ts
+ * Cash ledger endpoints - GET balance and history, POST deposit, withdrawal,
+ * interest or dividend
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES, PAGINATION, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import {
+  clearSnapshotsFrom,
+  invalidatePortfolioCache,
+  resolvePortfolioScope,
+  resolveTargetPortfolio,
+} from '@/lib/portfolio/accounts';
+import { ACTIVE_CASH_WHERE, combineCashSummaries, loadCashSummaries, signCashAmount } from '@/lib/portfolio/cash';
+import { PortfolioError } from '@/lib/portfolio/errors';
+import { recordCashSchema } from '@/lib/validations';
+import { CashReport } from '@/types';
+
+/**
+ * GET /api/portfolio/cash
+ * Get the cash balance, contributions and income, with the most recent
+ * cash transactions
+ * Query params: ?portfolioId=<account id> or `all` (default)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const portfolioId = await resolvePortfolioScope(
+      userId,
+      request.nextUrl.searchParams.get('portfolioId'),
+    );
+
+    if (portfolioId === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const [summaries, transactions] = await Promise.all([
+      loadCashSummaries(userId, portfolioId),
+      prisma.cashTransaction.findMany({
+        where: { userId, ...(portfolioId && { portfolioId }), ...ACTIVE_CASH_WHERE },
+        orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+        take: PAGINATION.MAX_PAGE_SIZE,
+      }),
+    ]);
+
+    const report: CashReport = {
+      ...combineCashSummaries(summaries.values()),
+      transactions,
+    };
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/portfolio/cash
+ * Record a deposit, withdrawal, interest payment or dividend in the
+ * `portfolioId` account, or the default account
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = recordCashSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { type, amount, ticker, date, notes } = validation.data;
+
+    const portfolio = await resolveTargetPortfolio(prisma, userId, validation.data.portfolioId);
+    const cashTransaction = await prisma.cashTransaction.create({
+      data: {
+        type,
+        amount: signCashAmount(type, amount),
+        ticker: type === 'DIVIDEND' ? ticker : undefined,
+        date: date || new Date(),
+        notes,
+        portfolioId: portfolio.id,
+        userId,
+      },
+    });
+    await clearSnapshotsFrom(prisma, portfolio.id, cashTransaction.date);
+    await invalidatePortfolioCache(userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: cashTransaction,
+        message: SUCCESS_MESSAGES.CASH_RECORDED,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * app/api/portfolio/corporate-actions/route.ts
+ * Corporate actions endpoint - history of the splits, spinoffs and symbol
+ * changes applied to the user's positions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { resolvePortfolioScope } from '@/lib/portfolio/accounts';
+import { loadCorporateActionAudits } from '@/lib/portfolio/corporate-actions';
+
+/**
+ * GET /api/portfolio/corporate-actions
+ * Get the latest corporate actions applied to the user's positions, with
+ * the shares and average price before and after each
+ * Query params: ?portfolioId=<account id> or `all` (default)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const portfolioId = await resolvePortfolioScope(
+      userId,
+      request.nextUrl.searchParams.get('portfolioId'),
+    );
+
+    if (portfolioId === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const entries = await loadCorporateActionAudits(userId, portfolioId);
+
+    return NextResponse.json({
+      success: true,
+      data: entries,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
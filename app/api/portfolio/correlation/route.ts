@@ -0,0 +1,80 @@
+/**
+ * app/api/portfolio/correlation/route.ts
+ * Correlation endpoint - GET pairwise return correlations between holdings
+ * with a diversification score and correlated clusters
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { resolvePortfolioScope } from '@/lib/portfolio/accounts';
+import { loadCorrelationMatrix } from '@/lib/portfolio/correlation';
+import { correlationQuerySchema } from '@/lib/validations';
+
+/**
+ * GET /api/portfolio/correlation
+ * Get the correlation matrix of open positions from daily returns.
+ * Query params: ?window=3M|6M|1Y|3Y (default 1Y),
+ * ?portfolioId=<account id> or `all` (default)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const searchParams = request.nextUrl.searchParams;
+    const validation = correlationQuerySchema.safeParse({
+      window: searchParams.get('window') ?? undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const portfolioId = await resolvePortfolioScope(userId, searchParams.get('portfolioId'));
+
+    if (portfolioId === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const correlation = await loadCorrelationMatrix(userId, portfolioId, validation.data.window);
+
+    return NextResponse.json({
+      success: true,
+      data: correlation,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
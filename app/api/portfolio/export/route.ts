@@ -0,0 +1,134 @@
+/**
+ * app/api/portfolio/export/route.ts
+ * Portfolio export endpoint - GET positions as CSV, OFX or a JSON backup
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { resolvePortfolioScope } from '@/lib/portfolio/accounts';
+import { buildBackup, toCsvLines, toOfxLines } from '@/lib/portfolio/export';
+import { loadBaseCurrency } from '@/lib/portfolio/fx';
+import { enrichPositions, loadPositions } from '@/lib/portfolio/positions';
+import { exportQuerySchema } from '@/lib/validations';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ofx: 'application/x-ofx; charset=utf-8',
+} as const;
+
+/**
+ * Streams generated lines as a response body
+ */
+function streamLines(lines: Iterable<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = lines[Symbol.iterator]();
+
+  return new ReadableStream({
+    pull(controller) {
+      const { value, done } = iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(value));
+      }
+    },
+  });
+}
+
+/**
+ * GET /api/portfolio/export
+ * Download the user's open positions with market values
+ * Query params: ?format=csv|json|ofx (default csv), ?portfolioId=<account id>
+ * or `all` (default)
+ * The JSON format is a full backup (settings, accounts and the complete
+ * ledger, including closed positions) that POST /api/portfolio/restore
+ * accepts. It always covers every account.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const validation = exportQuerySchema.safeParse({
+      format: request.nextUrl.searchParams.get('format') ?? undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { format } = validation.data;
+
+    const portfolioId = format === 'json'
+      ? null
+      : await resolvePortfolioScope(userId, request.nextUrl.searchParams.get('portfolioId'));
+
+    if (portfolioId === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const [positions, baseCurrency] = await Promise.all([
+      loadPositions(userId, portfolioId),
+      loadBaseCurrency(userId),
+    ]);
+    const assets = await enrichPositions(positions.filter(asset => asset.shares > 0), baseCurrency);
+
+    let lines: Iterable<string>;
+    switch (format) {
+      case 'json':
+        lines = [JSON.stringify(await buildBackup(userId, assets), null, 2)];
+        break;
+      case 'ofx':
+        lines = toOfxLines(assets, portfolioId ?? userId, baseCurrency);
+        break;
+      case 'csv':
+      default:
+        lines = toCsvLines(assets);
+    }
+
+    const date = new Date().toISOString().split('T')[0];
+
+    return new NextResponse(streamLines(lines), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="stocklio-portfolio-${date}.${format}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
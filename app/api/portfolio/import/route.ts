@@ -0,0 +1,232 @@
+/**
+ * app/api/portfolio/import/route.ts
+ * Broker CSV import endpoint - POST to preview, POST with commit to import
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES, IMPORT_LIMITS, PORTFOLIO_LIMITS, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { invalidatePortfolioCache, resolveTargetPortfolio } from '@/lib/portfolio/accounts';
+import { PortfolioError } from '@/lib/portfolio/errors';
+import { buildImportRows, detectColumns, ExistingPurchase, parseCsv } from '@/lib/portfolio/import';
+import { recordTrade } from '@/lib/portfolio/ledger';
+import { importRequestSchema } from '@/lib/validations';
+import { ImportPreview, ImportResult } from '@/types';
+
+/**
+ * POST /api/portfolio/import
+ * Parse a broker CSV export into purchases. Returns a preview with each
+ * row's status (valid, invalid or duplicate) unless `commit` is set, in
+ * which case the valid rows are recorded as buys in a single transaction.
+ * Duplicates are skipped unless `includeDuplicates` is set. Rows go to the
+ * `portfolioId` account, or the default account.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = importRequestSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { csv, commit, includeDuplicates } = validation.data;
+    const portfolio = await resolveTargetPortfolio(prisma, userId, validation.data.portfolioId);
+
+    const table = parseCsv(csv);
+    const detected = detectColumns(table);
+    const mapping = validation.data.mapping ?? detected.mapping;
+    const dataRows = table.slice(detected.headerIndex + 1);
+
+    if (dataRows.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: 'The file has no data rows',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (dataRows.length > IMPORT_LIMITS.MAX_ROWS) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: `Files are limited to ${IMPORT_LIMITS.MAX_ROWS} rows`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Purchases already recorded in the account, including positions from
+    // before the ledger
+    const [assets, assetCount] = await Promise.all([
+      prisma.asset.findMany({
+        where: { userId, portfolioId: portfolio.id, deletedAt: null },
+        include: { transactions: { where: { type: { in: ['BUY', 'TRANSFER_IN'] } } } },
+      }),
+      prisma.asset.count({ where: { userId, deletedAt: null } }),
+    ]);
+    const existing: ExistingPurchase[] = assets.flatMap((asset) =>
+      asset.transactions.length > 0
+        ? asset.transactions.map((t) => ({
+            ticker: t.ticker,
+            shares: t.shares,
+            price: t.price,
+            date: t.date,
+          }))
+        : [{
+            ticker: asset.ticker,
+            shares: asset.shares,
+            price: asset.avgPrice,
+            date: asset.purchaseDate,
+          }],
+    );
+
+    const rows = buildImportRows(
+      dataRows,
+      detected.headers,
+      mapping,
+      existing,
+      detected.headerIndex + 2,
+    );
+
+    const heldTickers = new Set(assets.map((asset) => asset.ticker));
+    const toImport = rows.filter(
+      (row) => row.status === 'valid' || (includeDuplicates && row.status === 'duplicate'),
+    );
+    const newTickers = [...new Set(
+      toImport
+        .flatMap((row) => (row.data ? [row.data.ticker] : []))
+        .filter((ticker) => !heldTickers.has(ticker)),
+    )];
+    const remainingAssetSlots = Math.max(PORTFOLIO_LIMITS.MAX_ASSETS - assetCount, 0);
+
+    if (!commit) {
+      const preview: ImportPreview = {
+        broker: detected.broker,
+        headers: detected.headers,
+        mapping,
+        rows,
+        validCount: rows.filter((row) => row.status === 'valid').length,
+        invalidCount: rows.filter((row) => row.status === 'invalid').length,
+        duplicateCount: rows.filter((row) => row.status === 'duplicate').length,
+        newTickers,
+        remainingAssetSlots,
+      };
+
+      return NextResponse.json({
+        success: true,
+        data: preview,
+      });
+    }
+
+    if (toImport.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: 'No valid rows to import',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (newTickers.length > remainingAssetSlots) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: `This import adds ${newTickers.length} new positions but your portfolio ` +
+            `is limited to ${PORTFOLIO_LIMITS.MAX_ASSETS} (${remainingAssetSlots} remaining)`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Record oldest purchases first so each position's ledger replays in
+    // order; undated purchases are recorded today
+    const now = Date.now();
+    const purchases = toImport
+      .flatMap((row) => (row.data ? [row.data] : []))
+      .sort((a, b) => (a.purchaseDate?.getTime() ?? now) - (b.purchaseDate?.getTime() ?? now));
+
+    await prisma.$transaction(
+      async (tx) => {
+        for (const purchase of purchases) {
+          await recordTrade(tx, userId, {
+            ticker: purchase.ticker,
+            type: 'BUY',
+            shares: purchase.shares,
+            price: purchase.avgPrice,
+            fees: purchase.fees,
+            date: purchase.purchaseDate,
+            notes: purchase.notes,
+            portfolioId: portfolio.id,
+          });
+        }
+      },
+      { timeout: IMPORT_LIMITS.TRANSACTION_TIMEOUT_MS },
+    );
+    await invalidatePortfolioCache(userId);
+
+    const result: ImportResult = {
+      imported: purchases.length,
+      skipped: rows.length - purchases.length,
+      tickers: [...new Set(purchases.map((purchase) => purchase.ticker))],
+    };
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result,
+        message: SUCCESS_MESSAGES.IMPORT_COMPLETED,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * app/api/portfolio/look-through/route.ts
+ * Look-through endpoint - GET the user's exposure to the companies and
+ * sectors held inside their funds, and how much those funds overlap
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { resolvePortfolioScope } from '@/lib/portfolio/accounts';
+import { loadLookThrough } from '@/lib/portfolio/look-through';
+
+/**
+ * GET /api/portfolio/look-through
+ * Get the look-through report, in the base currency. Funds without stored
+ * holdings are treated as single holdings.
+ * Query params: ?portfolioId=<account id> or `all` (default)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const portfolioId = await resolvePortfolioScope(
+      userId,
+      request.nextUrl.searchParams.get('portfolioId'),
+    );
+
+    if (portfolioId === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const report = await loadLookThrough(userId, portfolioId);
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * app/api/portfolio/lots/route.ts
+ * Tax lot endpoint - open lots and realized short/long-term gains
+ */
+
+import { RealizedGain } from '@prisma/client';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { resolvePortfolioScope } from '@/lib/portfolio/accounts';
+import { PortfolioError } from '@/lib/portfolio/errors';
+import { getHoldingTerm, LEDGER_ENTRY_INCLUDE, replayLots, TaxLot } from '@/lib/portfolio/lots';
+import { PortfolioLotReport, TickerLotReport } from '@/types';
+
+/**
+ * Sums realized gains by holding term
+ */
+function sumGains(gains: Array<Pick<RealizedGain, 'gain' | 'term'>>) {
+  const shortTermGain = gains
+    .filter((g) => g.term === 'SHORT')
+    .reduce((sum, g) => sum + g.gain, 0);
+  const longTermGain = gains
+    .filter((g) => g.term === 'LONG')
+    .reduce((sum, g) => sum + g.gain, 0);
+
+  return {
+    shortTermGain,
+    longTermGain,
+    totalGain: shortTermGain + longTermGain,
+  };
+}
+
+/**
+ * GET /api/portfolio/lots
+ * Get open tax lots and realized gains per position
+ * Query params: ?ticker=AAPL (optional), ?portfolioId=<account id> or `all`
+ * (default)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const ticker = request.nextUrl.searchParams.get('ticker')?.toUpperCase();
+    const portfolioId = await resolvePortfolioScope(
+      userId,
+      request.nextUrl.searchParams.get('portfolioId'),
+    );
+
+    if (portfolioId === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const [user, assets, realizedGains] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { lotMethod: true },
+      }),
+      prisma.asset.findMany({
+        where: { userId, deletedAt: null, ...(ticker && { ticker }), ...(portfolioId && { portfolioId }) },
+        include: { transactions: { include: LEDGER_ENTRY_INCLUDE } },
+        orderBy: { ticker: 'asc' },
+      }),
+      prisma.realizedGain.findMany({
+        where: {
+          userId,
+          ...(ticker && { ticker }),
+          asset: { deletedAt: null, ...(portfolioId && { portfolioId }) },
+        },
+        orderBy: [{ soldAt: 'desc' }, { acquiredAt: 'asc' }],
+      }),
+    ]);
+
+    const now = new Date();
+    const positions: TickerLotReport[] = assets.map((asset) => {
+      // Positions from before the ledger are a single lot keyed by the asset ID
+      const lots: TaxLot[] = asset.transactions.length > 0
+        ? replayLots(asset.transactions).lots
+        : [{
+            id: asset.id,
+            acquiredAt: asset.purchaseDate,
+            shares: asset.shares,
+            remainingShares: asset.shares,
+            costPerShare: asset.avgPrice,
+          }];
+      const gains = realizedGains.filter((g) => g.assetId === asset.id);
+
+      return {
+        ticker: asset.ticker,
+        currency: asset.currency,
+        openLots: lots
+          .filter((lot) => lot.remainingShares > 0)
+          .map((lot) => ({
+            ...lot,
+            costBasis: lot.remainingShares * lot.costPerShare,
+            term: getHoldingTerm(lot.acquiredAt, now),
+          })),
+        realizedGains: gains,
+        ...sumGains(gains),
+      };
+    });
+
+    const report: PortfolioLotReport = {
+      lotMethod: user?.lotMethod ?? 'FIFO',
+      positions,
+      ...sumGains(realizedGains),
+    };
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
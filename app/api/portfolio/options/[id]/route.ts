@@ -0,0 +1,153 @@
+/**
+ * app/api/portfolio/options/[id]/route.ts
+ * Option endpoints for individual options - PATCH to close, exercise or
+ * expire, DELETE
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { invalidatePortfolioCache } from '@/lib/portfolio/accounts';
+import { PortfolioError } from '@/lib/portfolio/errors';
+import { closeOption, deleteOption, exerciseOption, expireOption } from '@/lib/portfolio/options';
+import { optionActionSchema } from '@/lib/validations';
+
+/**
+ * PATCH /api/portfolio/options/[id]
+ * Settle an open option. Body is `{ action: 'CLOSE', premium, fees?, date? }`
+ * to buy or sell it back, `{ action: 'EXERCISE', date? }` to exercise it (or
+ * record its assignment if written) as a trade in the underlying, or
+ * `{ action: 'EXPIRE' }` once it has expired worthless.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const { id } = await params;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = optionActionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const input = validation.data;
+    const option = await prisma.$transaction(
+      async (tx) => {
+        switch (input.action) {
+          case 'CLOSE':
+            return closeOption(tx, userId, id, input);
+          case 'EXERCISE':
+            return (await exerciseOption(tx, userId, id, input.date)).option;
+          case 'EXPIRE':
+            return expireOption(tx, userId, id);
+        }
+      },
+      { timeout: 60_000 },
+    );
+    await invalidatePortfolioCache(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: option,
+      message: SUCCESS_MESSAGES.OPTION_SETTLED,
+    });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/portfolio/options/[id]
+ * Remove an option and its premium cash entries. An exercised option's
+ * trade in the underlying has to be deleted first.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const { id } = await params;
+
+    await prisma.$transaction((tx) => deleteOption(tx, userId, id));
+    await invalidatePortfolioCache(userId);
+
+    return NextResponse.json({
+      success: true,
+      message: SUCCESS_MESSAGES.OPTION_DELETED,
+    });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * app/api/portfolio/options/route.ts
+ * Option endpoints - GET open and settled options valued against their
+ * underlying, POST a bought or written option
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { invalidatePortfolioCache, resolvePortfolioScope } from '@/lib/portfolio/accounts';
+import { PortfolioError } from '@/lib/portfolio/errors';
+import { loadOptionsReport, openOption } from '@/lib/portfolio/options';
+import { openOptionSchema } from '@/lib/validations';
+
+/**
+ * GET /api/portfolio/options
+ * Get open options with their days to expiry, intrinsic and extrinsic
+ * value, estimated value and unrealized P/L, and recently settled options
+ * Query params: ?portfolioId=<account id> or `all` (default)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const portfolioId = await resolvePortfolioScope(
+      userId,
+      request.nextUrl.searchParams.get('portfolioId'),
+    );
+
+    if (portfolioId === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const report = await loadOptionsReport(userId, portfolioId);
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/portfolio/options
+ * Record option contracts bought or written in the `portfolioId` account,
+ * or the default account. Premiums move the account's cash unless
+ * `settleCash` is false.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = openOptionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const option = await prisma.$transaction((tx) => openOption(tx, userId, validation.data));
+    await invalidatePortfolioCache(userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: option,
+        message: SUCCESS_MESSAGES.OPTION_OPENED,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
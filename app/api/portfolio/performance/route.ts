@@ -0,0 +1,83 @@
+/**
+ * app/api/portfolio/performance/route.ts
+ * Portfolio performance endpoint - GET value history from daily snapshots
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { resolvePortfolioScope } from '@/lib/portfolio/accounts';
+import { loadPerformance, recordSnapshots } from '@/lib/portfolio/snapshots';
+import { performanceQuerySchema } from '@/lib/validations';
+
+/**
+ * GET /api/portfolio/performance
+ * Get the daily value history of the portfolio. Missing snapshots are
+ * backfilled from historical prices and today's is refreshed first.
+ * Query params: ?range=1M|3M|YTD|1Y|ALL (default 1M),
+ * ?portfolioId=<account id> or `all` (default)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const validation = performanceQuerySchema.safeParse({
+      range: request.nextUrl.searchParams.get('range') ?? undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const portfolioId = await resolvePortfolioScope(
+      userId,
+      request.nextUrl.searchParams.get('portfolioId'),
+    );
+
+    if (portfolioId === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    await recordSnapshots(userId);
+    const performance = await loadPerformance(userId, portfolioId, validation.data.range);
+
+    return NextResponse.json({
+      success: true,
+      data: performance,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * app/api/portfolio/projection/route.ts
+ * Planning endpoint - GET a Monte Carlo projection of portfolio value with
+ * monthly contributions and the probability of reaching a goal
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { resolvePortfolioScope } from '@/lib/portfolio/accounts';
+import { loadProjection } from '@/lib/portfolio/projection';
+import { projectionQuerySchema } from '@/lib/validations';
+
+/**
+ * GET /api/portfolio/projection
+ * Simulate the portfolio's value by drawing months of historical returns of
+ * the current holdings, and return percentile bands by month.
+ * Query params: ?years=10, ?monthlyContribution=500, ?goal=1000000
+ * (optional), ?paths=2000, ?portfolioId=<account id> or `all` (default)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const searchParams = request.nextUrl.searchParams;
+    const validation = projectionQuerySchema.safeParse({
+      years: searchParams.get('years') ?? undefined,
+      monthlyContribution: searchParams.get('monthlyContribution') ?? undefined,
+      goal: searchParams.get('goal') ?? undefined,
+      paths: searchParams.get('paths') ?? undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const portfolioId = await resolvePortfolioScope(userId, searchParams.get('portfolioId'));
+
+    if (portfolioId === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const projection = await loadProjection(userId, portfolioId, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      data: projection,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
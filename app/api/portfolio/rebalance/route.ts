@@ -0,0 +1,87 @@
+/**
+ * app/api/portfolio/rebalance/route.ts
+ * Rebalancing endpoint - GET target drift and the trades that bring the
+ * portfolio back within its bands
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { resolvePortfolioScope } from '@/lib/portfolio/accounts';
+import { loadRebalancePlan } from '@/lib/portfolio/rebalance';
+import { rebalanceQuerySchema } from '@/lib/validations';
+
+/**
+ * GET /api/portfolio/rebalance
+ * Compare the current allocation with the saved targets and plan trades.
+ * Query params: ?mode=FULL|NEW_MONEY (default FULL; NEW_MONEY never sells),
+ * ?contribution=<new money to invest> (default 0),
+ * ?portfolioId=<account id> or `all` (default)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const searchParams = request.nextUrl.searchParams;
+    const validation = rebalanceQuerySchema.safeParse({
+      mode: searchParams.get('mode') ?? undefined,
+      contribution: searchParams.get('contribution') ?? undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const portfolioId = await resolvePortfolioScope(userId, searchParams.get('portfolioId'));
+
+    if (portfolioId === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const plan = await loadRebalancePlan(
+      userId,
+      portfolioId,
+      validation.data.mode,
+      validation.data.contribution,
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: plan,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * app/api/portfolio/restore/route.ts
+ * Portfolio restore endpoint - POST a JSON backup to replace the portfolio
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { invalidatePortfolioCache } from '@/lib/portfolio/accounts';
+import { PortfolioError } from '@/lib/portfolio/errors';
+import { restoreBackup } from '@/lib/portfolio/export';
+import { portfolioBackupSchema } from '@/lib/validations';
+
+/**
+ * POST /api/portfolio/restore
+ * Replace every position and trade with the contents of a JSON backup
+ * from GET /api/portfolio/export?format=json
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = portfolioBackupSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await prisma.$transaction(
+      (tx) => restoreBackup(tx, userId, validation.data),
+      { timeout: 60_000 },
+    );
+    await invalidatePortfolioCache(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: SUCCESS_MESSAGES.BACKUP_RESTORED,
+    });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: `The backup could not be restored. ${error.message}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * app/api/portfolio/risk/route.ts
+ * Risk analytics endpoint - GET volatility, beta, Sharpe and Sortino ratios,
+ * maximum drawdown and Value at Risk
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { DEFAULT_BENCHMARK, ERROR_MESSAGES, RISK_CONFIG } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { resolvePortfolioScope } from '@/lib/portfolio/accounts';
+import { loadRiskReport } from '@/lib/portfolio/risk';
+import { riskQuerySchema } from '@/lib/validations';
+
+/**
+ * GET /api/portfolio/risk
+ * Get risk metrics of each open position and of the portfolio weighted by
+ * market value, from a year of daily returns.
+ * Query params: ?benchmark=SPY (default the first saved benchmark),
+ * ?riskFreeRate=0.04 (default the saved rate),
+ * ?portfolioId=<account id> or `all` (default)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const searchParams = request.nextUrl.searchParams;
+    const validation = riskQuerySchema.safeParse({
+      benchmark: searchParams.get('benchmark') ?? undefined,
+      riskFreeRate: searchParams.get('riskFreeRate') ?? undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const portfolioId = await resolvePortfolioScope(userId, searchParams.get('portfolioId'));
+
+    if (portfolioId === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const settings = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { benchmarks: true, riskFreeRate: true },
+    });
+    const benchmark = validation.data.benchmark ?? settings?.benchmarks[0] ?? DEFAULT_BENCHMARK;
+    const riskFreeRate = validation.data.riskFreeRate
+      ?? settings?.riskFreeRate
+      ?? RISK_CONFIG.DEFAULT_RISK_FREE_RATE;
+
+    const report = await loadRiskReport(userId, portfolioId, benchmark, riskFreeRate);
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
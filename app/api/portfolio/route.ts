@@ -5,19 +5,26 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
+
+import realDataClient from '@/lib/api/real-data-client';
 import { authOptions } from '@/lib/auth';
+import { DEFAULT_CURRENCY, ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
 import prisma from '@/lib/db';
-import realDataClient from '@/lib/api/real-data-client';
+import { invalidatePortfolioCache, resolvePortfolioScope } from '@/lib/portfolio/accounts';
+import { PortfolioError } from '@/lib/portfolio/errors';
+import { loadBaseCurrency, loadFxRates } from '@/lib/portfolio/fx';
+import { recordTrade } from '@/lib/portfolio/ledger';
+import { enrichPositions, loadPositions, valuePosition } from '@/lib/portfolio/positions';
+import { loadQuotes, quoteSymbol } from '@/lib/portfolio/valuations';
 import { addAssetSchema } from '@/lib/validations';
 import { EnrichedAsset } from '@/types';
-import { calculateProfitLoss } from '@/lib/utils';
-import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
 
 /**
  * GET /api/portfolio
  * Fetch all portfolio assets with real-time market data
+ * Query params: ?portfolioId=<account id> or `all` (default)
  */
-export async function GET(_request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
     // Get user session
     const session = await getServerSession(authOptions);
@@ -29,13 +36,25 @@ export async function GET(_request: NextRequest) {
       );
     }
 
-    // Fetch user's assets from database
-    const assets = await prisma.asset.findMany({
-      where: { userId: session.user.id },
-      orderBy: {
-        createdAt: 'desc',
-      },
-    });
+    const portfolioId = await resolvePortfolioScope(
+      session.user.id,
+      request.nextUrl.searchParams.get('portfolioId'),
+    );
+
+    if (portfolioId === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    // Derive open positions from the ledger
+    const positions = await loadPositions(session.user.id, portfolioId);
+    const assets = positions.filter(asset => asset.shares > 0);
     
     if (assets.length === 0) {
       return NextResponse.json({
@@ -45,57 +64,8 @@ export async function GET(_request: NextRequest) {
       });
     }
     
-    // Fetch real-time quotes for all assets in parallel
-    const tickers = [...new Set(assets.map(a => a.ticker))];
-    const quotes = await Promise.all(
-      tickers.map(ticker => realDataClient.getQuote(ticker))
-    );
-    
-    // Create a map for quick quote lookup
-    const quoteMap = new Map(quotes.map(q => [q.ticker, q]));
-    
-    // Enrich assets with real-time data
-    const enrichedAssets: EnrichedAsset[] = assets.map(asset => {
-      const quote = quoteMap.get(asset.ticker);
-
-      // Validate quote and price data
-      if (!quote || typeof quote.price !== 'number' || isNaN(quote.price) || quote.price === 0) {
-        // If quote fetch failed or price is invalid, return asset with zero values
-        return {
-          ...asset,
-          currentPrice: 0,
-          totalValue: 0,
-          currentValue: 0,
-          totalCost: asset.shares * asset.avgPrice,
-          profitLoss: 0,
-          profitLossPercent: 0,
-          dayChange: 0,
-          dayChangePercent: 0,
-          companyName: `${asset.ticker} Corporation`,
-          sector: 'Technology',
-        };
-      }
-
-      const calculations = calculateProfitLoss(
-        quote.price,
-        asset.avgPrice,
-        asset.shares,
-      );
-
-      return {
-        ...asset,
-        currentPrice: quote.price,
-        totalValue: calculations.currentValue, // Added for compatibility
-        currentValue: calculations.currentValue,
-        totalCost: calculations.totalCost,
-        profitLoss: calculations.profitLoss,
-        profitLossPercent: calculations.returnPercent,
-        dayChange: (quote.change || 0) * asset.shares,
-        dayChangePercent: quote.changePercent || 0,
-        companyName: quote.name || `${asset.ticker} Corporation`,
-        sector: undefined, // Will be populated if we fetch company info
-      };
-    });
+    // Enrich assets with real-time data, valued in the base currency
+    const enrichedAssets = await enrichPositions(assets, await loadBaseCurrency(session.user.id));
     
     return NextResponse.json({
       success: true,
@@ -116,7 +86,7 @@ export async function GET(_request: NextRequest) {
 
 /**
  * POST /api/portfolio
- * Add a new asset to the portfolio
+ * Add shares to the portfolio by recording a BUY in the transaction ledger
  */
 export async function POST(request: NextRequest) {
   try {
@@ -129,6 +99,7 @@ export async function POST(request: NextRequest) {
         { status: 401 }
       );
     }
+    const userId = session.user.id;
 
     // Parse and validate request body
     const body = await request.json();
@@ -145,13 +116,18 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const { ticker, shares, avgPrice, purchaseDate, notes } = validation.data;
+    const { ticker, assetClass, shares, avgPrice, fees, purchaseDate, notes, currency, portfolioId } = validation.data;
     
-  // Verify ticker is valid by fetching quote
+  // Verify ticker is valid by fetching quote; manually priced assets
+  // have no market quote
   try {
-    const quote = await realDataClient.getQuote(ticker);
-    if (!quote || quote.price === 0) {
-      throw new Error('Invalid ticker');
+    if (assetClass !== 'MANUAL') {
+      const quote = await realDataClient.getQuote(
+        quoteSymbol({ ticker, assetClass: assetClass ?? 'EQUITY', currency: currency ?? DEFAULT_CURRENCY }),
+      );
+      if (!quote || quote.price === 0) {
+        throw new Error('Invalid ticker');
+      }
     }
   } catch (error) {
     return NextResponse.json(
@@ -164,70 +140,56 @@ export async function POST(request: NextRequest) {
     );
   }
     
-    // Check if asset already exists for this user (optional - allow multiple positions)
-    const existingAsset = await prisma.asset.findFirst({
-      where: {
-        ticker: ticker.toUpperCase(),
-        userId: session.user.id,
-      },
-    });
-    
-    if (existingAsset) {
-      // Update existing asset - calculate new average price
-      const totalShares = existingAsset.shares + shares;
-      const totalCost = (existingAsset.shares * existingAsset.avgPrice) + (shares * avgPrice);
-      const newAvgPrice = totalCost / totalShares;
-      
-      const updatedAsset = await prisma.asset.update({
-        where: {
-          id: existingAsset.id,
-        },
-        data: {
-          shares: totalShares,
-          avgPrice: newAvgPrice,
-          notes: notes || existingAsset.notes,
-        },
-      });
-      
-      return NextResponse.json({
-        success: true,
-        data: updatedAsset,
-        message: `Added ${shares} shares to existing ${ticker} position`,
-      });
-    }
-    
-    // Create new asset
-    const newAsset = await prisma.asset.create({
-      data: {
-        ticker: ticker.toUpperCase(),
+    // Record the purchase; the position is created on its first buy and
+    // its shares and average price are re-derived from the ledger
+    const { transaction, asset, position } = await prisma.$transaction((tx) =>
+      recordTrade(tx, userId, {
+        ticker,
+        assetClass,
+        type: 'BUY',
         shares,
-        avgPrice,
-        purchaseDate: purchaseDate || new Date(),
+        price: avgPrice,
+        fees,
+        date: purchaseDate,
         notes,
-        userId: session.user.id,
-      },
-    });
-    
-    // Fetch real-time data for the new asset
-    const quote = await realDataClient.getQuote(ticker);
+        currency,
+        portfolioId,
+      })
+    );
+    await invalidatePortfolioCache(userId);
+    
+    // Fetch real-time data for the updated position
+    const [quotes, baseCurrency, tradeCount] = await Promise.all([
+      loadQuotes([asset]),
+      loadBaseCurrency(userId),
+      prisma.transaction.count({ where: { assetId: asset.id } }),
+    ]);
+    const quote = quotes.get(asset.id);
+    const rates = await loadFxRates([asset.currency, baseCurrency]);
 
     // Ensure quote.price is valid
     const currentPrice = (quote && typeof quote.price === 'number' && !isNaN(quote.price))
       ? quote.price
-      : avgPrice; // Fallback to purchase price if quote is invalid
+      : asset.avgPrice; // Fallback to purchase price if quote is invalid
 
-    const calculations = calculateProfitLoss(currentPrice, avgPrice, shares);
+    const valued = valuePosition(
+      {
+        ...asset,
+        costBasis: position.costBasis,
+        realizedProfitLoss: position.realizedProfitLoss,
+        disallowedLoss: position.disallowedLoss,
+        deferredLoss: position.deferredLoss,
+        openLots: position.openLots,
+        closedLots: position.closedLots,
+        openingPrice: tradeCount === 1 ? transaction.price : null,
+      },
+      quote && { ...quote, price: currentPrice },
+      rates,
+      baseCurrency,
+    );
 
     const enrichedAsset: EnrichedAsset = {
-      ...newAsset,
-      currentPrice,
-      totalValue: calculations.currentValue, // Added for compatibility
-      currentValue: calculations.currentValue,
-      totalCost: calculations.totalCost,
-      profitLoss: calculations.profitLoss,
-      profitLossPercent: calculations.returnPercent,
-      dayChange: (quote?.change || 0) * shares,
-      dayChangePercent: quote?.changePercent || 0,
+      ...valued,
       companyName: quote?.name || `${ticker} Corporation`,
     };
     
@@ -235,11 +197,23 @@ export async function POST(request: NextRequest) {
       {
         success: true,
         data: enrichedAsset,
-        message: SUCCESS_MESSAGES.ASSET_ADDED,
+        message: asset.shares > shares
+          ? `Added ${shares} shares to existing ${ticker} position`
+          : SUCCESS_MESSAGES.ASSET_ADDED,
       },
       { status: 201 }
     );
   } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
     
     return NextResponse.json(
       {
@@ -0,0 +1,152 @@
+/**
+ * app/api/portfolio/settings/route.ts
+ * Portfolio settings endpoint - GET and PATCH the default lot disposal method,
+ * the benchmarks performance is compared against, the risk-free rate and
+ * the base currency
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { invalidatePortfolioCache } from '@/lib/portfolio/accounts';
+import { PortfolioError } from '@/lib/portfolio/errors';
+import { changeBaseCurrency } from '@/lib/portfolio/fx';
+import { portfolioSettingsSchema } from '@/lib/validations';
+
+const SETTINGS_SELECT = {
+  lotMethod: true,
+  benchmarks: true,
+  riskFreeRate: true,
+  baseCurrency: true,
+} as const;
+
+/**
+ * GET /api/portfolio/settings
+ * Get the user's portfolio settings
+ */
+export async function GET(_request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const settings = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: SETTINGS_SELECT,
+    });
+
+    if (!settings) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'User not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/portfolio/settings
+ * Update the default lot disposal method, the benchmark tickers, the
+ * risk-free rate and/or the base currency.
+ * A new lot method only applies to future sales; recorded sales keep the
+ * method they were made with. A new base currency converts the cash ledger
+ * at historical rates and rebuilds snapshots.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = portfolioSettingsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const userId = session.user.id;
+    const { baseCurrency, ...data } = validation.data;
+    const settings = await prisma.$transaction(async (tx) => {
+      if (baseCurrency) {
+        await changeBaseCurrency(tx, userId, baseCurrency);
+      }
+      return tx.user.update({
+        where: { id: userId },
+        data,
+        select: SETTINGS_SELECT,
+      });
+    });
+
+    if (baseCurrency) {
+      await invalidatePortfolioCache(userId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: settings,
+      message: SUCCESS_MESSAGES.SETTINGS_SAVED,
+    });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
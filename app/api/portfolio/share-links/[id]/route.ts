@@ -0,0 +1,64 @@
+/**
+ * app/api/portfolio/share-links/[id]/route.ts
+ * Single share link endpoint - DELETE revokes it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { PortfolioError } from '@/lib/portfolio/errors';
+import { revokeShareLink } from '@/lib/portfolio/share-links';
+
+/**
+ * DELETE /api/portfolio/share-links/[id]
+ * Revoke a share link. Its dashboard stops opening immediately.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const { id } = await params;
+
+    await prisma.$transaction((tx) => revokeShareLink(tx, userId, id));
+
+    return NextResponse.json({
+      success: true,
+      message: SUCCESS_MESSAGES.SHARE_LINK_REVOKED,
+    });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * app/api/portfolio/share-links/route.ts
+ * Share link endpoints - GET active read-only links to the dashboard, POST
+ * a new one
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { PortfolioError } from '@/lib/portfolio/errors';
+import { createShareLink, listShareLinks } from '@/lib/portfolio/share-links';
+import { createShareLinkSchema } from '@/lib/validations';
+
+/**
+ * GET /api/portfolio/share-links
+ * Get the user's unexpired, unrevoked share links
+ */
+export async function GET() {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const links = await listShareLinks(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: links,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/portfolio/share-links
+ * Create a read-only link to the `portfolioId` account, or to every
+ * account. Body is `{ name?, portfolioId?, expiresInDays, maskValues }`;
+ * masked links show percentages but no amounts.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = createShareLinkSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const link = await prisma.$transaction((tx) => createShareLink(tx, userId, validation.data));
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: link,
+        message: SUCCESS_MESSAGES.SHARE_LINK_CREATED,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
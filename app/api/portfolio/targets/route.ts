@@ -0,0 +1,101 @@
+/**
+ * app/api/portfolio/targets/route.ts
+ * Allocation targets endpoint - GET and PUT target weights by ticker,
+ * sector or custom bucket, with drift bands
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { loadAllocationTargets, saveAllocationTargets } from '@/lib/portfolio/rebalance';
+import { allocationTargetsSchema } from '@/lib/validations';
+
+/**
+ * GET /api/portfolio/targets
+ * Get the user's allocation targets
+ */
+export async function GET(_request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const targets = await loadAllocationTargets(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: targets,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/portfolio/targets
+ * Replace the allocation targets. Targets apply to every account; each
+ * account, and all of them together, is rebalanced toward the same weights.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = allocationTargetsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction((tx) => saveAllocationTargets(tx, userId, validation.data));
+    const targets = await loadAllocationTargets(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: targets,
+      message: SUCCESS_MESSAGES.SETTINGS_SAVED,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
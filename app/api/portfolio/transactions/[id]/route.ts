@@ -0,0 +1,116 @@
+/**
+ * app/api/portfolio/transactions/[id]/route.ts
+ * Transaction ledger endpoint for individual trades - DELETE
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { clearSnapshotsFrom, invalidatePortfolioCache } from '@/lib/portfolio/accounts';
+import { PortfolioError } from '@/lib/portfolio/errors';
+import { syncAssetPosition, syncWashSales } from '@/lib/portfolio/ledger';
+
+/**
+ * DELETE /api/portfolio/transactions/[id]
+ * Remove a trade from the ledger and re-derive its position.
+ * The position itself is removed once its last trade is deleted.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const { id } = await params;
+
+    // Validate ID format (should be a cuid)
+    if (!id || id.length < 20) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid transaction ID',
+        },
+        { status: 400 }
+      );
+    }
+
+    const transaction = await prisma.transaction.findFirst({
+      where: { id, userId, asset: { deletedAt: null } },
+      include: { asset: { select: { portfolioId: true } } },
+    });
+
+    if (!transaction) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Transaction not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.transaction.delete({ where: { id } });
+      if (transaction.asset.portfolioId) {
+        await clearSnapshotsFrom(tx, transaction.asset.portfolioId, transaction.date);
+      }
+
+      const remaining = await tx.transaction.count({
+        where: { assetId: transaction.assetId },
+      });
+
+      if (remaining === 0) {
+        await tx.asset.delete({ where: { id: transaction.assetId } });
+        await syncWashSales(tx, userId, [transaction.ticker]);
+        return;
+      }
+
+      // Throws (and rolls back) if later sells no longer have shares to draw from
+      await syncAssetPosition(tx, transaction.assetId);
+    });
+    await invalidatePortfolioCache(userId);
+
+    return NextResponse.json({
+      success: true,
+      message: SUCCESS_MESSAGES.TRADE_DELETED,
+      data: {
+        id,
+        ticker: transaction.ticker,
+      },
+    });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: `Deleting this trade would break the ledger. ${error.message}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
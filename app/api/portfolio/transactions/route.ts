@@ -0,0 +1,172 @@
+/**
+ * app/api/portfolio/transactions/route.ts
+ * Transaction ledger endpoints - GET trade history, POST record a trade
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import realDataClient from '@/lib/api/real-data-client';
+import { authOptions } from '@/lib/auth';
+import { DEFAULT_CURRENCY, ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { invalidatePortfolioCache, resolvePortfolioScope } from '@/lib/portfolio/accounts';
+import { PortfolioError } from '@/lib/portfolio/errors';
+import { recordTrade } from '@/lib/portfolio/ledger';
+import { quoteSymbol } from '@/lib/portfolio/valuations';
+import { recordTransactionSchema } from '@/lib/validations';
+
+/**
+ * GET /api/portfolio/transactions
+ * List the user's trades, newest first
+ * Query params: ?ticker=AAPL (optional), ?portfolioId=<account id> or
+ * `all` (default)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.user.id;
+
+    const portfolioId = await resolvePortfolioScope(
+      userId,
+      request.nextUrl.searchParams.get('portfolioId'),
+    );
+
+    if (portfolioId === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const ticker = request.nextUrl.searchParams.get('ticker');
+
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        userId,
+        asset: { deletedAt: null, ...(portfolioId && { portfolioId }) },
+        ...(ticker && { ticker: ticker.toUpperCase() }),
+      },
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: transactions,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/portfolio/transactions
+ * Record a buy, sell, split or transfer and re-derive the position
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = recordTransactionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    const input = validation.data;
+
+    // Only new positions need the ticker verified; manually priced assets
+    // have no market quote
+    if ((input.type === 'BUY' || input.type === 'TRANSFER_IN') && input.assetClass !== 'MANUAL') {
+      try {
+        const quote = await realDataClient.getQuote(quoteSymbol({
+          ticker: input.ticker,
+          assetClass: input.assetClass ?? 'EQUITY',
+          currency: input.currency ?? DEFAULT_CURRENCY,
+        }));
+        if (!quote || quote.price === 0) {
+          throw new Error('Invalid ticker');
+        }
+      } catch {
+        return NextResponse.json(
+          {
+            success: false,
+            error: ERROR_MESSAGES.INVALID_TICKER,
+            message: `Unable to find stock with ticker: ${input.ticker}`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const result = await prisma.$transaction((tx) => recordTrade(tx, userId, input));
+    await invalidatePortfolioCache(userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result,
+        message: SUCCESS_MESSAGES.TRADE_RECORDED,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * app/api/portfolio/trash/route.ts
+ * Trash endpoint - GET deleted positions that can still be restored
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { listTrash } from '@/lib/portfolio/trash';
+
+/**
+ * GET /api/portfolio/trash
+ * Get the user's trashed positions, most recently deleted first, with the
+ * day each is purged. Positions past their retention period are purged
+ * before listing.
+ */
+export async function GET() {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const assets = await listTrash(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: assets,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
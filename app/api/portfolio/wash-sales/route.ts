@@ -0,0 +1,152 @@
+/**
+ * app/api/portfolio/wash-sales/route.ts
+ * Wash sales endpoint - GET the wash sales detected in the user's positions
+ * and PUT the groups of substantially identical tickers
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+
+import { authOptions } from '@/lib/auth';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { invalidatePortfolioCache, resolvePortfolioScope } from '@/lib/portfolio/accounts';
+import { PortfolioError } from '@/lib/portfolio/errors';
+import { syncWashSales } from '@/lib/portfolio/ledger';
+import { loadWashSaleGroups, loadWashSales, saveWashSaleGroups } from '@/lib/portfolio/wash-sales';
+import { washSaleGroupsSchema } from '@/lib/validations';
+import { WashSaleReport } from '@/types';
+
+/**
+ * GET /api/portfolio/wash-sales
+ * Get the user's groups of substantially identical tickers and the wash
+ * sales whose sale or replacement is in the account
+ * Query params: ?portfolioId=<account id> or `all` (default)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    const portfolioId = await resolvePortfolioScope(
+      userId,
+      request.nextUrl.searchParams.get('portfolioId'),
+    );
+
+    if (portfolioId === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'Account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const [groups, washSales] = await Promise.all([
+      loadWashSaleGroups(userId),
+      loadWashSales(userId, portfolioId),
+    ]);
+    const report: WashSaleReport = { groups, washSales };
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/portfolio/wash-sales
+ * Replace the groups of substantially identical tickers. Wash sales of
+ * every ticker in the old or new groups are re-detected across all
+ * accounts.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // Get user session
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const userId = session.user.id;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = washSaleGroupsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction(
+      async (tx) => {
+        const tickers = await saveWashSaleGroups(tx, userId, validation.data.groups);
+        await syncWashSales(tx, userId, tickers);
+      },
+      { timeout: 60_000 },
+    );
+    await invalidatePortfolioCache(userId);
+
+    const [groups, washSales] = await Promise.all([
+      loadWashSaleGroups(userId),
+      loadWashSales(userId, null),
+    ]);
+    const report: WashSaleReport = { groups, washSales };
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      message: SUCCESS_MESSAGES.SETTINGS_SAVED,
+    });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          message: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
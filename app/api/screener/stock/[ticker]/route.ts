@@ -82,6 +82,7 @@ export async function GET(
           week52Low: quote.week52Low,
           sector: companyInfo?.sector || stock.sector,
           industry: companyInfo?.industry || stock.industry,
+          country: companyInfo?.country || stock.country,
           lastUpdated: new Date(),
         },
       });
@@ -99,6 +100,7 @@ export async function GET(
           week52Low: quote.week52Low,
           sector: companyInfo?.sector,
           industry: companyInfo?.industry,
+          country: companyInfo?.country,
         },
       });
     }
@@ -0,0 +1,53 @@
+/**
+ * app/api/share/[token]/route.ts
+ * Public shared dashboard endpoint - the holdings a share link opens.
+ * Reached without a session; the token is the only credential.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { loadSharedPortfolio, resolveShareLink } from '@/lib/portfolio/share-links';
+
+/**
+ * GET /api/share/[token]
+ * Get the link's name, expiry and base currency, whether it masks amounts,
+ * and the shared holdings
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const link = await resolveShareLink(token);
+
+    // Expired and revoked links look the same as unknown ones
+    if (!link) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'This link has expired or was revoked',
+        },
+        { status: 404 }
+      );
+    }
+
+    const portfolio = await loadSharedPortfolio(link);
+
+    return NextResponse.json({
+      success: true,
+      data: portfolio,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
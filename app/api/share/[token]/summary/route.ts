@@ -0,0 +1,71 @@
+/**
+ * app/api/share/[token]/summary/route.ts
+ * Public shared summary endpoint - statistics and allocation of the
+ * accounts a share link opens, with amounts masked if the link hides them
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { ERROR_MESSAGES } from '@/lib/constants';
+import { resolveShareLink, toSharedSummary } from '@/lib/portfolio/share-links';
+import { loadPortfolioSummary } from '@/lib/portfolio/summary';
+import { summaryQuerySchema } from '@/lib/validations';
+
+/**
+ * GET /api/share/[token]/summary
+ * Get the shared portfolio summary
+ * Query params: ?period=1M|3M|YTD|1Y|ALL (default ALL) for the time- and
+ * money-weighted returns
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const link = await resolveShareLink(token);
+
+    if (!link) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.NOT_FOUND,
+          message: 'This link has expired or was revoked',
+        },
+        { status: 404 }
+      );
+    }
+
+    const validation = summaryQuerySchema.safeParse({
+      period: request.nextUrl.searchParams.get('period') ?? undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: ERROR_MESSAGES.VALIDATION,
+          details: validation.error.errors.map(e => e.message).join(', '),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Viewing a share link never writes to the owner's portfolio
+    const summary = await loadPortfolioSummary(link.userId, link.portfolioId, validation.data.period, true);
+
+    return NextResponse.json({
+      success: true,
+      data: toSharedSummary(summary, link.maskValues),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: ERROR_MESSAGES.DATABASE_ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
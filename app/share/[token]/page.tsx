@@ -0,0 +1,110 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { motion } from 'framer-motion'
+import { EyeOff, Link2Off } from 'lucide-react'
+import { useParams } from 'next/navigation'
+
+import { Logo } from '@/components/layout/logo'
+import { AllocationChart } from '@/components/portfolio/allocation-chart'
+import { SharedHoldingsTable } from '@/components/portfolio/shared-holdings-table'
+import { SummaryCards } from '@/components/portfolio/summary-cards'
+import { Badge } from '@/components/ui/badge'
+import { Card } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { SharedPortfolioProvider } from '@/hooks/use-shared-portfolio'
+import { formatDate } from '@/lib/utils'
+import { SharedPortfolio } from '@/types'
+
+async function fetchSharedPortfolio(token: string): Promise<SharedPortfolio> {
+  const response = await fetch(`/api/share/${token}`)
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || 'Failed to load shared portfolio')
+  }
+  return data.data
+}
+
+/**
+ * Read-only dashboard opened by a share link, reached without signing in
+ */
+export default function SharedPortfolioPage() {
+  const { token } = useParams<{ token: string }>()
+
+  const { data: portfolio, isLoading, error } = useQuery({
+    queryKey: ['shared-portfolio', token],
+    queryFn: () => fetchSharedPortfolio(token),
+    refetchInterval: 60000,
+    retry: false, // Expired links stay expired
+  })
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100">
+      <header className="border-b border-slate-200/50 bg-white/80 backdrop-blur-sm">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+          <Logo />
+          <Badge variant="outline" className="font-normal">Read-only</Badge>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isLoading && (
+          <div className="space-y-8">
+            <Skeleton className="h-16 w-full" />
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-32" />
+              ))}
+            </div>
+            <Skeleton className="h-96 w-full" />
+          </div>
+        )}
+
+        {error && (
+          <Card className="max-w-md mx-auto p-12 text-center bg-white/80 backdrop-blur-sm border-slate-200/50">
+            <Link2Off className="h-10 w-10 text-slate-400 mx-auto mb-4" />
+            <h1 className="text-lg font-semibold text-slate-800 mb-2">Link unavailable</h1>
+            <p className="text-sm text-slate-600">{(error as Error).message}</p>
+          </Card>
+        )}
+
+        {portfolio && (
+          <SharedPortfolioProvider
+            value={{ token, masked: portfolio.masked, baseCurrency: portfolio.baseCurrency }}
+          >
+            <motion.div
+              className="mb-8"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.5 }}
+            >
+              <h1 className="text-4xl font-bold text-slate-800 mb-2">
+                {portfolio.accountName ?? 'Portfolio'}
+                {portfolio.name && <span className="text-slate-500 font-normal"> • shared with {portfolio.name}</span>}
+              </h1>
+              <p className="text-lg text-slate-600 flex items-center gap-2">
+                Shared read-only until {formatDate(portfolio.expiresAt)}
+                {portfolio.masked && (
+                  <Badge variant="outline" className="font-normal">
+                    <EyeOff className="h-3 w-3 mr-1" />
+                    Amounts hidden
+                  </Badge>
+                )}
+              </p>
+            </motion.div>
+
+            <div className="space-y-8">
+              <SummaryCards />
+              <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
+                <div className="xl:col-span-2">
+                  <SharedHoldingsTable holdings={portfolio.holdings} masked={portfolio.masked} />
+                </div>
+                <AllocationChart />
+              </div>
+            </div>
+          </SharedPortfolioProvider>
+        )}
+      </main>
+    </div>
+  )
+}
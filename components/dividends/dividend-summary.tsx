@@ -12,6 +12,7 @@ import {
   Clock,
   Coins
 } from 'lucide-react'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
 import { formatCurrency } from '@/lib/utils'
 
 interface DividendSummaryData {
@@ -51,8 +52,8 @@ async function fetchUpcomingDividends(): Promise<DividendSummaryData> {
   return data.data
 }
 
-async function fetchAnnualDividends(): Promise<AnnualDividendData> {
-  const response = await fetch('/api/dividends/annual')
+async function fetchAnnualDividends(accountId: string): Promise<AnnualDividendData> {
+  const response = await fetch(`/api/dividends/annual?portfolioId=${accountId}`)
   if (!response.ok) {
     throw new Error('Failed to fetch annual dividends')
   }
@@ -62,6 +63,7 @@ async function fetchAnnualDividends(): Promise<AnnualDividendData> {
 
 export function DividendSummary() {
   const { data: session } = useSession()
+  const { accountId } = usePortfolioAccount()
   
   const { data: upcoming, isLoading: upcomingLoading } = useQuery({
     queryKey: ['dividends-upcoming', session?.user?.id],
@@ -71,8 +73,8 @@ export function DividendSummary() {
   })
 
   const { data: annual, isLoading: annualLoading } = useQuery({
-    queryKey: ['dividends-annual', session?.user?.id],
-    queryFn: fetchAnnualDividends,
+    queryKey: ['dividends-annual', session?.user?.id, accountId],
+    queryFn: () => fetchAnnualDividends(accountId),
     refetchInterval: 300000, // 5 minutes
     enabled: !!session?.user?.id, // Only run when user is authenticated
   })
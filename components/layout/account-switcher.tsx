@@ -0,0 +1,276 @@
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  Wallet,
+  ChevronDown,
+  Check,
+  Layers,
+  Plus,
+  Pencil,
+  Star,
+  Trash2,
+  Loader2,
+} from 'lucide-react'
+import { useState } from 'react'
+
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { invalidatePortfolioQueries } from '@/hooks/invalidate-portfolio-queries'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { useToast } from '@/hooks/use-toast'
+import { ALL_ACCOUNTS, PORTFOLIO_LIMITS } from '@/lib/constants'
+import { PortfolioAccount } from '@/types'
+
+async function saveAccount({ id, ...body }: { id?: string; name?: string; isDefault?: true }) {
+  const response = await fetch(id ? `/api/portfolio/accounts/${id}` : '/api/portfolio/accounts', {
+    method: id ? 'PATCH' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.details || 'Failed to save account')
+  }
+  return data.data as PortfolioAccount
+}
+
+async function deleteAccount(id: string) {
+  const response = await fetch(`/api/portfolio/accounts/${id}`, {
+    method: 'DELETE',
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || 'Failed to delete account')
+  }
+  return data
+}
+
+export function AccountSwitcher() {
+  const [nameDialog, setNameDialog] = useState<'create' | 'rename' | null>(null)
+  const [name, setName] = useState('')
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  const { accountId, setAccountId, accounts, currentAccount } = usePortfolioAccount()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const invalidate = () => invalidatePortfolioQueries(queryClient)
+
+  const saveMutation = useMutation({
+    mutationFn: saveAccount,
+    onSuccess: (account, variables) => {
+      invalidate()
+      if (!variables.id) {
+        setAccountId(account.id)
+        toast({ title: 'Account created', description: `Now viewing ${account.name}.` })
+      } else {
+        toast({ title: 'Account updated' })
+      }
+      setNameDialog(null)
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error saving account',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteAccount,
+    onSuccess: () => {
+      invalidate()
+      setAccountId(ALL_ACCOUNTS)
+      toast({ title: 'Account deleted' })
+      setConfirmDelete(false)
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error deleting account',
+        description: error.message,
+        variant: 'destructive',
+      })
+      setConfirmDelete(false)
+    },
+  })
+
+  const openNameDialog = (mode: 'create' | 'rename') => {
+    setName(mode === 'rename' ? currentAccount?.name ?? '' : '')
+    setNameDialog(mode)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) {
+      return
+    }
+    saveMutation.mutate(
+      nameDialog === 'rename' && currentAccount
+        ? { id: currentAccount.id, name: name.trim() }
+        : { name: name.trim() }
+    )
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2 max-w-[180px]">
+            <Wallet className="h-4 w-4 shrink-0" />
+            <span className="truncate">{currentAccount?.name ?? 'All accounts'}</span>
+            <ChevronDown className="h-3 w-3 shrink-0 opacity-60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-60">
+          <DropdownMenuLabel>Accounts</DropdownMenuLabel>
+          <DropdownMenuItem onSelect={() => setAccountId(ALL_ACCOUNTS)}>
+            <Layers className="mr-2 h-4 w-4" />
+            <span className="flex-1">All accounts</span>
+            {accountId === ALL_ACCOUNTS && <Check className="h-4 w-4" />}
+          </DropdownMenuItem>
+          {accounts.map((account) => (
+            <DropdownMenuItem key={account.id} onSelect={() => setAccountId(account.id)}>
+              <Wallet className="mr-2 h-4 w-4" />
+              <span className="flex-1 truncate">{account.name}</span>
+              {account.isDefault && <Star className="ml-2 h-3 w-3 text-amber-500" />}
+              <span className="ml-2 text-xs text-muted-foreground">{account.assetCount}</span>
+              {accountId === account.id && <Check className="ml-2 h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onSelect={() => openNameDialog('create')}
+            disabled={accounts.length >= PORTFOLIO_LIMITS.MAX_ACCOUNTS}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            New account...
+          </DropdownMenuItem>
+          {currentAccount && (
+            <>
+              <DropdownMenuItem onSelect={() => openNameDialog('rename')}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Rename {currentAccount.name}...
+              </DropdownMenuItem>
+              {!currentAccount.isDefault && (
+                <>
+                  <DropdownMenuItem
+                    onSelect={() => saveMutation.mutate({ id: currentAccount.id, isDefault: true })}
+                  >
+                    <Star className="mr-2 h-4 w-4" />
+                    Make default
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={() => setConfirmDelete(true)}
+                    className="text-red-600 focus:text-red-600"
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete account
+                  </DropdownMenuItem>
+                </>
+              )}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!nameDialog} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="sm:max-w-[400px] bg-white/95 backdrop-blur-sm">
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle className="text-xl font-bold text-slate-800">
+                {nameDialog === 'rename' ? 'Rename Account' : 'New Account'}
+              </DialogTitle>
+              <DialogDescription className="text-slate-600">
+                {nameDialog === 'rename'
+                  ? 'Give this account a new name.'
+                  : 'Keep positions for a separate brokerage, retirement or custodial account.'}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="account-name">Name</Label>
+              <Input
+                id="account-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Roth IRA"
+                maxLength={50}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setNameDialog(null)}
+                disabled={saveMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim() || saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {nameDialog === 'rename' ? 'Save' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent className="sm:max-w-[450px] bg-white/95 backdrop-blur-sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-xl font-bold text-slate-800">
+              Delete {currentAccount?.name}?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-slate-600">
+              Only accounts without open positions can be deleted. The trade history of
+              closed positions in this account is deleted with it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteMutation.isPending}>Cancel</AlertDialogCancel>
+            <Button
+              variant="destructive"
+              onClick={() => currentAccount && deleteMutation.mutate(currentAccount.id)}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
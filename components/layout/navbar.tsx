@@ -1,10 +1,20 @@
 'use client'
 
 import { motion } from 'framer-motion'
+import {
+  TrendingUp,
+  Calendar,
+  Search,
+  Target,
+  Settings,
+  Bell,
+  User,
+  LogOut
+} from 'lucide-react'
 import { useSession, signOut } from 'next-auth/react'
-import { Logo } from './logo'
-import { Button } from '@/components/ui/button'
+
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -13,15 +23,9 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
-import { 
-  TrendingUp, 
-  Calendar, 
-  Search, 
-  Settings,
-  Bell,
-  User,
-  LogOut
-} from 'lucide-react'
+
+import { AccountSwitcher } from './account-switcher'
+import { Logo } from './logo'
 
 interface NavbarProps {
   activeTab?: string
@@ -62,10 +66,19 @@ export function Navbar({ activeTab = 'portfolio', onTabChange }: NavbarProps) {
               active={activeTab === 'screener'}
               onClick={() => onTabChange?.('screener')}
             />
+            <NavItem 
+              icon={Target} 
+              label="Planning" 
+              active={activeTab === 'planning'}
+              onClick={() => onTabChange?.('planning')}
+            />
           </div>
 
           {/* Right Side Actions */}
           <div className="flex items-center space-x-3">
+            {/* Account Switcher */}
+            {session?.user && <AccountSwitcher />}
+
             {/* Market Status Badge */}
             <Badge 
               variant="outline" 
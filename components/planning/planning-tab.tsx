@@ -0,0 +1,29 @@
+'use client'
+
+import { motion } from 'framer-motion'
+
+import { ProjectionCard } from './projection-card'
+
+export function PlanningTab() {
+  return (
+    <div className="space-y-8">
+      {/* Monte Carlo Projection */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-slate-800 mb-2">
+            Will You Reach Your Goal?
+          </h2>
+          <p className="text-slate-600">
+            Project your portfolio with monthly contributions and see the odds of reaching a target value.
+          </p>
+        </div>
+
+        <ProjectionCard />
+      </motion.div>
+    </div>
+  )
+}
@@ -0,0 +1,304 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { Target } from 'lucide-react'
+import { useSession } from 'next-auth/react'
+import { useState } from 'react'
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts'
+
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useBaseCurrency } from '@/hooks/use-base-currency'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { CHART_COLORS, PROJECTION_CONFIG } from '@/lib/constants'
+import { cn, formatLargeNumber, formatPercentage } from '@/lib/utils'
+import { ProjectionPoint, ProjectionResult } from '@/types'
+
+interface ProjectionInputs {
+  years: number
+  monthlyContribution: number
+  goal: number | null
+}
+
+async function fetchProjection(accountId: string, inputs: ProjectionInputs): Promise<ProjectionResult> {
+  const params = new URLSearchParams({
+    years: String(inputs.years),
+    monthlyContribution: String(inputs.monthlyContribution),
+    portfolioId: accountId,
+  })
+  if (inputs.goal !== null) {
+    params.set('goal', String(inputs.goal))
+  }
+
+  const response = await fetch(`/api/portfolio/projection?${params}`)
+  if (!response.ok) {
+    throw new Error('Failed to fetch projection')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+function probabilityColor(probability: number) {
+  if (probability >= 0.75) {
+    return 'text-green-600'
+  }
+  return probability >= 0.5 ? 'text-amber-600' : 'text-red-600'
+}
+
+function formatMonth(date: string, options: Intl.DateTimeFormatOptions) {
+  return new Date(date).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' })
+}
+
+export function ProjectionCard() {
+  const [inputs, setInputs] = useState<ProjectionInputs>({
+    years: PROJECTION_CONFIG.DEFAULT_YEARS,
+    monthlyContribution: 0,
+    goal: null,
+  })
+  const [yearsInput, setYearsInput] = useState(String(PROJECTION_CONFIG.DEFAULT_YEARS))
+  const [contributionInput, setContributionInput] = useState('')
+  const [goalInput, setGoalInput] = useState('')
+  const { data: session } = useSession()
+  const { accountId } = usePortfolioAccount()
+  const { formatMoney } = useBaseCurrency()
+
+  const { data: projection, isLoading, error } = useQuery({
+    queryKey: ['projection', session?.user?.id, accountId, inputs],
+    queryFn: () => fetchProjection(accountId, inputs),
+    enabled: !!session?.user?.id, // Only run when user is authenticated
+    staleTime: 5 * 60 * 1000, // Simulations are deterministic for the same inputs
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const years = parseInt(yearsInput, 10)
+    const contribution = parseFloat(contributionInput)
+    const goal = parseFloat(goalInput)
+    setInputs({
+      years: Number.isFinite(years)
+        ? Math.min(Math.max(years, 1), PROJECTION_CONFIG.MAX_YEARS)
+        : PROJECTION_CONFIG.DEFAULT_YEARS,
+      monthlyContribution: Number.isFinite(contribution) && contribution > 0
+        ? Math.min(contribution, PROJECTION_CONFIG.MAX_CONTRIBUTION)
+        : 0,
+      goal: Number.isFinite(goal) && goal > 0 ? goal : null,
+    })
+  }
+
+  // Range areas take [low, high] pairs
+  const chartData = projection?.points.map((point) => ({
+    ...point,
+    outer: [point.p5, point.p95],
+    inner: [point.p25, point.p75],
+  }))
+  const final = projection?.points[projection.points.length - 1]
+
+  const stats = projection && final
+    ? [
+        { label: 'Median outcome', value: formatMoney(final.p50) },
+        { label: 'Likely range (5th–95th)', value: `${formatMoney(final.p5)} – ${formatMoney(final.p95)}` },
+        { label: 'Total contributed', value: formatMoney(final.contributed) },
+        {
+          label: 'Historical return / volatility',
+          value: projection.annualReturn !== null && projection.annualVolatility !== null
+            ? `${formatPercentage(projection.annualReturn, 1)} / ${formatPercentage(projection.annualVolatility, 1)}`
+            : '—',
+        },
+      ]
+    : []
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-slate-200/50">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-200/50">
+        <div className="flex items-center gap-2">
+          <Target className="h-5 w-5 text-navy-600" />
+          <h3 className="text-lg font-semibold text-slate-800">Portfolio Projection</h3>
+        </div>
+        <p className="text-sm text-slate-500 mt-1">
+          Monte Carlo simulation drawing months of historical returns of your current holdings
+        </p>
+
+        <form onSubmit={handleSubmit} className="mt-4 grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="projection-goal">Goal</Label>
+            <Input
+              id="projection-goal"
+              type="number"
+              step="1000"
+              min="0"
+              placeholder="e.g. 1000000"
+              value={goalInput}
+              onChange={(e) => setGoalInput(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="projection-years">Years</Label>
+            <Input
+              id="projection-years"
+              type="number"
+              step="1"
+              min="1"
+              max={PROJECTION_CONFIG.MAX_YEARS}
+              value={yearsInput}
+              onChange={(e) => setYearsInput(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="projection-contribution">Monthly contribution</Label>
+            <Input
+              id="projection-contribution"
+              type="number"
+              step="50"
+              min="0"
+              placeholder="0"
+              value={contributionInput}
+              onChange={(e) => setContributionInput(e.target.value)}
+            />
+          </div>
+          <Button type="submit" className="bg-navy-600 hover:bg-navy-700">
+            Simulate
+          </Button>
+        </form>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {isLoading && <Skeleton className="h-80 w-full" />}
+
+        {!isLoading && (error || !projection) && (
+          <p className="h-80 flex items-center justify-center text-red-600">
+            Failed to load projection
+          </p>
+        )}
+
+        {projection && projection.points.length === 0 && (
+          <p className="h-80 flex items-center justify-center text-sm text-slate-600 text-center">
+            Not enough price history to project. Add positions with at least six months of trading history.
+          </p>
+        )}
+
+        {projection && chartData && chartData.length > 0 && (
+          <>
+            {/* Goal probability */}
+            {projection.goal !== null && projection.goalProbability !== null && (
+              <div className="flex flex-wrap items-baseline gap-2">
+                <span className={cn('text-3xl font-bold', probabilityColor(projection.goalProbability))}>
+                  {formatPercentage(projection.goalProbability, 0)}
+                </span>
+                <span className="text-sm text-slate-600">
+                  chance of reaching {formatMoney(projection.goal)} in {projection.years}{' '}
+                  {projection.years === 1 ? 'year' : 'years'}
+                </span>
+              </div>
+            )}
+
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={(date: string) => formatMonth(date, { month: 'short', year: '2-digit' })}
+                    tick={{ fontSize: 12, fill: '#64748b' }}
+                    minTickGap={32}
+                  />
+                  <YAxis
+                    tickFormatter={(value: number) => formatLargeNumber(value)}
+                    tick={{ fontSize: 12, fill: '#64748b' }}
+                    width={70}
+                  />
+                  <Tooltip
+                    content={({ active, payload }) => {
+                      if (active && payload && payload[0]) {
+                        const point = payload[0].payload as ProjectionPoint
+                        return (
+                          <div className="bg-white/95 backdrop-blur-sm border border-slate-200 rounded-lg p-3 shadow-lg">
+                            <p className="font-semibold text-slate-800">
+                              {formatMonth(point.date, { month: 'short', year: 'numeric' })}
+                            </p>
+                            <p className="text-sm text-slate-600">95th: {formatMoney(point.p95)}</p>
+                            <p className="text-sm text-slate-600">75th: {formatMoney(point.p75)}</p>
+                            <p className="text-sm font-medium text-slate-800">Median: {formatMoney(point.p50)}</p>
+                            <p className="text-sm text-slate-600">25th: {formatMoney(point.p25)}</p>
+                            <p className="text-sm text-slate-600">5th: {formatMoney(point.p5)}</p>
+                            <p className="text-sm text-slate-500">Contributed: {formatMoney(point.contributed)}</p>
+                          </div>
+                        )
+                      }
+                      return null
+                    }}
+                  />
+                  <Area
+                    type="monotone"
+                    dataKey="outer"
+                    stroke="none"
+                    fill={CHART_COLORS.INFO}
+                    fillOpacity={0.15}
+                  />
+                  <Area
+                    type="monotone"
+                    dataKey="inner"
+                    stroke="none"
+                    fill={CHART_COLORS.INFO}
+                    fillOpacity={0.3}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="p50"
+                    stroke={CHART_COLORS.PRIMARY}
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="contributed"
+                    stroke={CHART_COLORS.CASH}
+                    strokeWidth={1.5}
+                    strokeDasharray="4 4"
+                    dot={false}
+                  />
+                  {projection.goal !== null && (
+                    <ReferenceLine
+                      y={projection.goal}
+                      stroke={CHART_COLORS.SUCCESS}
+                      strokeDasharray="6 3"
+                      label={{ value: 'Goal', position: 'insideTopRight', fill: CHART_COLORS.SUCCESS, fontSize: 12 }}
+                    />
+                  )}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {stats.map(({ label, value }) => (
+                <div key={label}>
+                  <p className="text-xs text-slate-500">{label}</p>
+                  <p className="text-sm font-medium text-slate-800">{value}</p>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-slate-500">
+              {projection.paths.toLocaleString()} paths from {formatMoney(projection.startValue)}, drawing from{' '}
+              {projection.historyDays.toLocaleString()} days of returns at today&apos;s weights. Cash is assumed
+              invested at the same weights. Past returns do not guarantee future results.
+            </p>
+          </>
+        )}
+      </div>
+    </Card>
+  )
+}
@@ -1,16 +1,28 @@
 'use client'
 
-import { useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
-import { useSession } from 'next-auth/react'
 import { motion } from 'framer-motion'
+import { PieChart as PieChartIcon, BarChart3, Layers } from 'lucide-react'
+import { useSession } from 'next-auth/react'
+import { useState } from 'react'
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts'
-import { Card } from '@/components/ui/card'
+
 import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Skeleton } from '@/components/ui/skeleton'
-import { PieChart as PieChartIcon, BarChart3 } from 'lucide-react'
-import { formatCurrency, formatPercentage } from '@/lib/utils'
-import { PortfolioSummary } from '@/types'
+import { useBaseCurrency } from '@/hooks/use-base-currency'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { useSharedPortfolio } from '@/hooks/use-shared-portfolio'
+import { ALL_ACCOUNTS } from '@/lib/constants'
+import { formatPercentage } from '@/lib/utils'
+import { LookThroughReport, PortfolioSummary } from '@/types'
 
 const COLORS = [
   '#1E40AF', // Navy
@@ -25,8 +37,27 @@ const COLORS = [
   '#6B7280', // Gray
 ]
 
-async function fetchPortfolioSummary(): Promise<PortfolioSummary> {
-  const response = await fetch('/api/portfolio/summary')
+const VIEW_MODES = {
+  sector: { label: 'By Sector', unit: 'sectors', title: 'Sectors' },
+  industry: { label: 'By Industry', unit: 'industries', title: 'Industries' },
+  country: { label: 'By Country', unit: 'countries', title: 'Countries' },
+  marketCap: { label: 'By Market Cap', unit: 'market-cap ranges', title: 'Cap Ranges' },
+  assetClass: { label: 'By Asset Class', unit: 'asset classes', title: 'Classes' },
+  assets: { label: 'By Asset', unit: 'assets', title: 'Assets' },
+  tags: { label: 'By Tag', unit: 'tags', title: 'Tags' },
+  accounts: { label: 'By Account', unit: 'accounts', title: 'Accounts' },
+}
+
+type ViewMode = keyof typeof VIEW_MODES
+
+// Views that look-through mode breaks funds down for
+const LOOK_THROUGH_MODES: ViewMode[] = ['sector', 'assets']
+
+async function fetchPortfolioSummary(accountId: string, shareToken?: string): Promise<PortfolioSummary> {
+  // Shared dashboards read the summary through their link's token
+  const response = await fetch(
+    shareToken ? `/api/share/${shareToken}/summary` : `/api/portfolio/summary?portfolioId=${accountId}`
+  )
   if (!response.ok) {
     throw new Error('Failed to fetch portfolio summary')
   }
@@ -34,15 +65,36 @@ async function fetchPortfolioSummary(): Promise<PortfolioSummary> {
   return data.data
 }
 
+async function fetchLookThrough(accountId: string): Promise<LookThroughReport> {
+  const response = await fetch(`/api/portfolio/look-through?portfolioId=${accountId}`)
+  if (!response.ok) {
+    throw new Error('Failed to fetch look-through exposure')
+  }
+  const data = await response.json()
+  return data.data
+}
+
 export function AllocationChart() {
-  const [viewMode, setViewMode] = useState<'sector' | 'assets'>('sector')
+  const [viewMode, setViewMode] = useState<ViewMode>('sector')
+  const [lookThrough, setLookThrough] = useState(false)
   const { data: session } = useSession()
+  const { accountId } = usePortfolioAccount()
+  const { formatMoney } = useBaseCurrency()
+  const shared = useSharedPortfolio()
+  const masked = !!shared?.masked
   
   const { data: summary, isLoading, error } = useQuery({
-    queryKey: ['portfolio-summary', session?.user?.id],
-    queryFn: fetchPortfolioSummary,
+    queryKey: ['portfolio-summary', ...(shared ? ['share', shared.token] : [session?.user?.id, accountId])],
+    queryFn: () => fetchPortfolioSummary(accountId, shared?.token),
     refetchInterval: 60000,
-    enabled: !!session?.user?.id, // Only run when user is authenticated
+    enabled: !!shared || !!session?.user?.id, // Only run when user is authenticated
+  })
+
+  // Share links don't expose the look-through report
+  const { data: report } = useQuery({
+    queryKey: ['look-through', session?.user?.id, accountId],
+    queryFn: () => fetchLookThrough(accountId),
+    enabled: !!session?.user?.id && !shared,
   })
 
   if (isLoading) {
@@ -61,8 +113,30 @@ export function AllocationChart() {
     return <EmptyAllocation />
   }
 
+  // The accounts view only applies to the aggregate of several accounts
+  const canViewAccounts = (!!shared || accountId === ALL_ACCOUNTS) && summary.allocationByAccount.length > 1
+  const mode = viewMode === 'accounts' && !canViewAccounts ? 'sector' : viewMode
+
+  // Look-through only applies when a held fund has holdings data
+  const canLookThrough = !!report && report.funds.length > 0 && LOOK_THROUGH_MODES.includes(mode)
+  const lookingThrough = lookThrough && canLookThrough
+
   // Prepare data based on view mode
-  const sourceData = viewMode === 'sector' ? summary.allocation : summary.allocationByAsset;
+  const sourceData = lookingThrough
+    ? {
+        sector: report.sectors,
+        assets: report.holdings.slice(0, 10).map((holding) => ({ ...holding, name: holding.ticker })),
+      }[mode as 'sector' | 'assets']
+    : {
+        sector: summary.allocation,
+        industry: summary.allocationByIndustry,
+        country: summary.allocationByCountry,
+        marketCap: summary.allocationByMarketCap,
+        assetClass: summary.allocationByAssetClass,
+        assets: summary.allocationByAsset.slice(0, 10), // Top 10 for cleaner chart
+        tags: summary.allocationByTag,
+        accounts: summary.allocationByAccount,
+      }[mode]
   const chartData = sourceData.map((item, index) => ({
     name: item.name,
     value: item.value,
@@ -81,27 +155,40 @@ export function AllocationChart() {
           </div>
           
           <div className="flex items-center gap-2">
-            <Button
-              variant={viewMode === 'sector' ? 'default' : 'outline'}
-              size="sm"
-              onClick={() => setViewMode('sector')}
-              className={viewMode === 'sector' ? 'bg-navy-600 hover:bg-navy-700' : ''}
-            >
-              By Sector
-            </Button>
-            <Button
-              variant={viewMode === 'assets' ? 'default' : 'outline'}
-              size="sm"
-              onClick={() => setViewMode('assets')}
-              className={viewMode === 'assets' ? 'bg-navy-600 hover:bg-navy-700' : ''}
-            >
-              By Asset
-            </Button>
+            {canLookThrough && (
+              <Button
+                variant={lookingThrough ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setLookThrough(!lookThrough)}
+                className={lookingThrough ? 'bg-navy-600 hover:bg-navy-700' : ''}
+                title="Break funds down into the companies they hold"
+              >
+                <Layers className="h-4 w-4 mr-1" />
+                Look-through
+              </Button>
+            )}
+            <Select value={mode} onValueChange={(value) => setViewMode(value as ViewMode)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(VIEW_MODES) as ViewMode[])
+                  .filter((option) => option !== 'accounts' || canViewAccounts)
+                  .map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {VIEW_MODES[option].label}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
           </div>
         </div>
         
         <p className="text-sm text-slate-600">
-          Diversification across {chartData.length} {viewMode === 'sector' ? 'sectors' : 'assets'}
+          Diversification across {chartData.length} {VIEW_MODES[mode].unit}
+          {mode === 'tags' && ' • positions with several tags count toward each'}
+          {lookingThrough &&
+            ` • looking through ${report.funds.join(', ')} (${formatPercentage(report.fundShare)} of holdings, excluding cash)`}
         </p>
       </div>
 
@@ -117,7 +204,7 @@ export function AllocationChart() {
                 innerRadius={60}
                 outerRadius={120}
                 paddingAngle={2}
-                dataKey="value"
+                dataKey={masked ? 'percentage' : 'value'}
                 animationBegin={0}
                 animationDuration={800}
               >
@@ -138,7 +225,9 @@ export function AllocationChart() {
                       <div className="bg-white/95 backdrop-blur-sm border border-slate-200 rounded-lg p-3 shadow-lg">
                         <p className="font-semibold text-slate-800">{data.name}</p>
                         <p className="text-sm text-slate-600">
-                          {formatCurrency(data.value)} ({formatPercentage(data.percentage)})
+                          {masked
+                            ? formatPercentage(data.percentage)
+                            : `${formatMoney(data.value)} (${formatPercentage(data.percentage)})`}
                         </p>
                       </div>
                     )
@@ -169,10 +258,12 @@ export function AllocationChart() {
               </div>
               
               <div className="text-right">
-                <p className="font-semibold text-slate-800">
-                  {formatCurrency(item.value)}
-                </p>
-                <p className="text-sm text-slate-600">
+                {!masked && (
+                  <p className="font-semibold text-slate-800">
+                    {formatMoney(item.value)}
+                  </p>
+                )}
+                <p className={masked ? 'font-semibold text-slate-800' : 'text-sm text-slate-600'}>
                   {formatPercentage(item.percentage)}
                 </p>
               </div>
@@ -180,6 +271,24 @@ export function AllocationChart() {
           ))}
         </div>
 
+        {/* Fund Overlap */}
+        {lookingThrough && report.overlaps.length > 0 && (
+          <div className="mt-6 pt-6 border-t border-slate-200">
+            <h4 className="text-sm font-semibold text-slate-800 mb-3">Fund Overlap</h4>
+            <div className="space-y-2">
+              {report.overlaps.map((pair) => (
+                <div key={pair.funds.join('-')} className="flex items-center justify-between text-sm">
+                  <span className="text-slate-700">
+                    {pair.funds[0]} &amp; {pair.funds[1]}
+                    <span className="text-slate-500"> • {pair.sharedHoldings} shared holdings</span>
+                  </span>
+                  <span className="font-semibold text-slate-800">{formatPercentage(pair.overlap)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Summary Stats */}
         <div className="mt-6 pt-6 border-t border-slate-200">
           <div className="grid grid-cols-2 gap-4">
@@ -188,12 +297,12 @@ export function AllocationChart() {
                 {chartData.length}
               </p>
               <p className="text-sm text-slate-600">
-                {viewMode === 'sector' ? 'Sectors' : 'Assets'}
+                {VIEW_MODES[mode].title}
               </p>
             </div>
             <div className="text-center">
               <p className="text-2xl font-bold text-slate-800">
-                {formatCurrency(summary.totalValue)}
+                {formatMoney(lookingThrough ? report.totalValue : summary.totalValue)}
               </p>
               <p className="text-sm text-slate-600">Total Value</p>
             </div>
@@ -0,0 +1,155 @@
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Plus, X, Loader2 } from 'lucide-react'
+import { useState } from 'react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { invalidatePortfolioQueries } from '@/hooks/invalidate-portfolio-queries'
+import { useToast } from '@/hooks/use-toast'
+import { SUGGESTED_TAGS, TAG_LIMITS } from '@/lib/constants'
+import { EnrichedAsset } from '@/types'
+
+async function saveTags({ id, tags }: { id: string; tags: string[] }) {
+  const response = await fetch(`/api/portfolio/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ tags }),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || 'Failed to save tags')
+  }
+  return data.data
+}
+
+interface AssetTagsDialogProps {
+  asset: EnrichedAsset
+  onClose: () => void
+  knownTags: string[] // Tags already used on other positions
+}
+
+export function AssetTagsDialog({ asset, onClose, knownTags }: AssetTagsDialogProps) {
+  const [tags, setTags] = useState<string[]>(asset.tags)
+  const [draft, setDraft] = useState('')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const saveMutation = useMutation({
+    mutationFn: saveTags,
+    onSuccess: () => {
+      invalidatePortfolioQueries(queryClient)
+      toast({ title: 'Tags saved' })
+      onClose()
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error saving tags',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const addTag = (value: string) => {
+    const tag = value.trim().toLowerCase().slice(0, TAG_LIMITS.MAX_LENGTH)
+    if (tag && !tags.includes(tag) && tags.length < TAG_LIMITS.MAX_TAGS) {
+      setTags((current) => [...current, tag])
+    }
+    setDraft('')
+  }
+
+  const suggestions = [...new Set([...SUGGESTED_TAGS, ...knownTags])].filter((tag) => !tags.includes(tag))
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[460px] bg-white/95 backdrop-blur-sm">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-slate-800">Tags for {asset.ticker}</DialogTitle>
+          <DialogDescription className="text-slate-600">
+            Group positions your own way, e.g. by strategy or goal, to filter holdings and view allocation by tag.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex flex-wrap gap-2 min-h-[28px]">
+            {tags.length === 0 && <span className="text-sm text-slate-500">No tags yet</span>}
+            {tags.map((tag) => (
+              <Badge key={tag} variant="secondary" className="gap-1">
+                {tag}
+                <button
+                  type="button"
+                  onClick={() => setTags((current) => current.filter((t) => t !== tag))}
+                  className="text-slate-500 hover:text-slate-800"
+                  aria-label={`Remove ${tag}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              addTag(draft)
+            }}
+          >
+            <Input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Add a tag"
+              maxLength={TAG_LIMITS.MAX_LENGTH}
+              disabled={tags.length >= TAG_LIMITS.MAX_TAGS}
+            />
+            <Button type="submit" variant="outline" disabled={!draft.trim() || tags.length >= TAG_LIMITS.MAX_TAGS}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+
+          {suggestions.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {suggestions.map((tag) => (
+                <Badge
+                  key={tag}
+                  variant="outline"
+                  className="cursor-pointer font-normal hover:bg-slate-100"
+                  onClick={() => addTag(tag)}
+                >
+                  + {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate({ id: asset.id, tags })}
+            disabled={saveMutation.isPending}
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Tags
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,210 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import { invalidatePortfolioQueries } from '@/hooks/invalidate-portfolio-queries'
+import { useToast } from '@/hooks/use-toast'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { AssetValuation, EnrichedAsset } from '@/types'
+
+async function fetchValuations(assetId: string): Promise<AssetValuation[]> {
+  const response = await fetch(`/api/portfolio/${assetId}/valuations`)
+  if (!response.ok) {
+    throw new Error('Failed to fetch valuations')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+async function recordValuation({ assetId, ...body }: { assetId: string; price: number; date: string; notes?: string }) {
+  const response = await fetch(`/api/portfolio/${assetId}/valuations`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.details || 'Failed to record valuation')
+  }
+  return data.data
+}
+
+async function deleteValuation({ assetId, valuationId }: { assetId: string; valuationId: string }) {
+  const response = await fetch(`/api/portfolio/${assetId}/valuations/${valuationId}`, {
+    method: 'DELETE',
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || 'Failed to delete valuation')
+  }
+}
+
+interface AssetValuationsDialogProps {
+  asset: EnrichedAsset
+  onClose: () => void
+}
+
+export function AssetValuationsDialog({ asset, onClose }: AssetValuationsDialogProps) {
+  const [price, setPrice] = useState('')
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'))
+  const [notes, setNotes] = useState('')
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: valuations, isLoading } = useQuery({
+    queryKey: ['valuations', asset.id],
+    queryFn: () => fetchValuations(asset.id),
+  })
+
+  // A new valuation reprices the position and its history
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['valuations', asset.id] })
+    invalidatePortfolioQueries(queryClient)
+  }
+
+  const recordMutation = useMutation({
+    mutationFn: recordValuation,
+    onSuccess: () => {
+      invalidate()
+      toast({ title: 'Valuation recorded' })
+      setPrice('')
+      setNotes('')
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error recording valuation',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteValuation,
+    onSuccess: () => {
+      invalidate()
+      toast({ title: 'Valuation removed' })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error removing valuation',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const parsedPrice = parseFloat(price)
+  const canSubmit = parsedPrice > 0 && !!date && !recordMutation.isPending
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px] bg-white/95 backdrop-blur-sm">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-slate-800">Valuations of {asset.ticker}</DialogTitle>
+          <DialogDescription className="text-slate-600">
+            {asset.ticker} has no market price. It is valued at the latest price per unit you enter here, in {asset.currency}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="grid grid-cols-2 gap-4 py-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (canSubmit) {
+              recordMutation.mutate({ assetId: asset.id, price: parsedPrice, date, notes: notes || undefined })
+            }
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="valuation-price">Price per Unit</Label>
+            <Input
+              id="valuation-price"
+              type="number"
+              step="any"
+              min="0"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              placeholder="0.00"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="valuation-date">Date</Label>
+            <Input
+              id="valuation-date"
+              type="date"
+              value={date}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+          <div className="col-span-2 flex gap-2">
+            <Input
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Notes (optional), e.g. appraisal"
+              maxLength={500}
+            />
+            <Button type="submit" disabled={!canSubmit} className="bg-navy-600 hover:bg-navy-700">
+              {recordMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            </Button>
+          </div>
+        </form>
+
+        <div className="max-h-64 overflow-y-auto divide-y divide-slate-200/50">
+          {isLoading && <Skeleton className="h-10 w-full" />}
+          {valuations?.length === 0 && (
+            <p className="text-sm text-slate-500 py-2">No valuations yet</p>
+          )}
+          {valuations?.map((valuation) => (
+            <div key={valuation.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className="font-medium text-slate-800">
+                  {formatCurrency(valuation.price, { currency: asset.currency })}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {formatDate(valuation.date)}
+                  {valuation.notes && ` • ${valuation.notes}`}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteMutation.mutate({ assetId: asset.id, valuationId: valuation.id })}
+                disabled={deleteMutation.isPending}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,338 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { motion } from 'framer-motion'
+import { Banknote, Plus, Trash2, Loader2 } from 'lucide-react'
+import { useSession } from 'next-auth/react'
+import { useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { invalidatePortfolioQueries } from '@/hooks/invalidate-portfolio-queries'
+import { useBaseCurrency } from '@/hooks/use-base-currency'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { useToast } from '@/hooks/use-toast'
+import { CASH_TRANSACTION_TYPE_LABELS, MANUAL_CASH_TRANSACTION_TYPES } from '@/lib/constants'
+import { cn, formatDate } from '@/lib/utils'
+import { CashReport } from '@/types'
+
+type ManualCashType = (typeof MANUAL_CASH_TRANSACTION_TYPES)[number]
+
+const RECENT_LIMIT = 5
+
+async function fetchCash(accountId: string): Promise<CashReport> {
+  const response = await fetch(`/api/portfolio/cash?portfolioId=${accountId}`)
+  if (!response.ok) {
+    throw new Error('Failed to fetch cash')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+async function recordCash(body: {
+  type: ManualCashType
+  amount: number
+  ticker?: string
+  date?: string
+  portfolioId?: string
+}) {
+  const response = await fetch('/api/portfolio/cash', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.details || 'Failed to record cash')
+  }
+  return data.data
+}
+
+async function deleteCash(id: string) {
+  const response = await fetch(`/api/portfolio/cash/${id}`, {
+    method: 'DELETE',
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || 'Failed to delete cash transaction')
+  }
+  return data
+}
+
+export function CashCard() {
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [type, setType] = useState<ManualCashType>('DEPOSIT')
+  const [amount, setAmount] = useState('')
+  const [ticker, setTicker] = useState('')
+  const [date, setDate] = useState('')
+
+  const { data: session } = useSession()
+  const { accountId, targetAccount } = usePortfolioAccount()
+  const { formatMoney } = useBaseCurrency()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: cash, isLoading, error } = useQuery({
+    queryKey: ['cash', session?.user?.id, accountId],
+    queryFn: () => fetchCash(accountId),
+    enabled: !!session?.user?.id, // Only run when user is authenticated
+  })
+
+  const invalidate = () => invalidatePortfolioQueries(queryClient)
+
+  const recordMutation = useMutation({
+    mutationFn: recordCash,
+    onSuccess: (_data, variables) => {
+      invalidate()
+      toast({
+        title: 'Cash recorded',
+        description: `${CASH_TRANSACTION_TYPE_LABELS[variables.type]} of ${formatMoney(variables.amount)} added.`,
+      })
+      setDialogOpen(false)
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error recording cash',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteCash,
+    onSuccess: () => {
+      invalidate()
+      toast({ title: 'Cash transaction removed' })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const openDialog = () => {
+    setType('DEPOSIT')
+    setAmount('')
+    setTicker('')
+    setDate('')
+    setDialogOpen(true)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const value = parseFloat(amount)
+    if (!(value > 0)) {
+      return
+    }
+    recordMutation.mutate({
+      type,
+      amount: value,
+      ticker: type === 'DIVIDEND' && ticker ? ticker.toUpperCase() : undefined,
+      date: date ? new Date(date).toISOString() : undefined,
+      portfolioId: targetAccount?.id,
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <Card className="p-6">
+        <Skeleton className="h-6 w-24 mb-4" />
+        <Skeleton className="h-8 w-32 mb-4" />
+        <Skeleton className="h-16 w-full" />
+      </Card>
+    )
+  }
+
+  if (error || !cash) {
+    return (
+      <Card className="p-6 bg-red-50 border-red-200">
+        <p className="text-red-600 text-center">Failed to load cash</p>
+      </Card>
+    )
+  }
+
+  const stats = [
+    { label: 'Net Contributions', value: cash.netContributions },
+    { label: 'Interest & Dividends', value: cash.income },
+    { label: 'From Trades', value: cash.tradeFlows },
+  ]
+
+  return (
+    <>
+      <Card className="bg-white/80 backdrop-blur-sm border-slate-200/50">
+        <div className="p-6 border-b border-slate-200/50">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <Banknote className="h-5 w-5 text-navy-600" />
+              <h3 className="text-lg font-semibold text-slate-800">Cash</h3>
+            </div>
+            <Button variant="outline" size="sm" onClick={openDialog}>
+              <Plus className="h-4 w-4 mr-1" />
+              Record
+            </Button>
+          </div>
+          <p className={cn('text-3xl font-bold', cash.balance < 0 ? 'text-red-600' : 'text-slate-800')}>
+            {formatMoney(cash.balance)}
+          </p>
+          {cash.balance < 0 && (
+            <p className="text-xs text-red-600 mt-1">
+              Buys exceed recorded deposits. Record a deposit to cover them.
+            </p>
+          )}
+        </div>
+
+        <div className="p-6 space-y-3">
+          {stats.map(({ label, value }) => (
+            <div key={label} className="flex items-center justify-between text-sm">
+              <span className="text-slate-600">{label}</span>
+              <span className="font-medium text-slate-800">{formatMoney(value)}</span>
+            </div>
+          ))}
+
+          {cash.transactions.length > 0 && (
+            <div className="pt-4 mt-2 border-t border-slate-200 space-y-2">
+              {cash.transactions.slice(0, RECENT_LIMIT).map((entry, index) => (
+                <motion.div
+                  key={entry.id}
+                  initial={{ opacity: 0, x: 20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                  className="flex items-center justify-between text-sm group"
+                >
+                  <div>
+                    <span className="font-medium text-slate-800">
+                      {CASH_TRANSACTION_TYPE_LABELS[entry.type]}
+                      {entry.ticker && ` ${entry.ticker}`}
+                    </span>
+                    <span className="ml-2 text-xs text-slate-500">{formatDate(entry.date)}</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <span className={entry.amount >= 0 ? 'text-green-600' : 'text-red-600'}>
+                      {formatMoney(entry.amount)}
+                    </span>
+                    {!entry.transactionId && !entry.optionId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 text-red-600 hover:text-red-700 hover:bg-red-50"
+                        onClick={() => deleteMutation.mutate(entry.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                </motion.div>
+              ))}
+            </div>
+          )}
+        </div>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[400px] bg-white/95 backdrop-blur-sm">
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle className="text-xl font-bold text-slate-800">Record Cash</DialogTitle>
+              <DialogDescription className="text-slate-600">
+                Log a deposit, withdrawal, interest payment or dividend
+                {targetAccount ? ` in ${targetAccount.name}` : ''}.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={type} onValueChange={(value) => setType(value as ManualCashType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MANUAL_CASH_TRANSACTION_TYPES.map((cashType) => (
+                      <SelectItem key={cashType} value={cashType}>
+                        {CASH_TRANSACTION_TYPE_LABELS[cashType]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cash-amount">Amount</Label>
+                <Input
+                  id="cash-amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0.00"
+                  autoFocus
+                />
+              </div>
+              {type === 'DIVIDEND' && (
+                <div className="space-y-2">
+                  <Label htmlFor="cash-ticker">Paid by (optional)</Label>
+                  <Input
+                    id="cash-ticker"
+                    value={ticker}
+                    onChange={(e) => setTicker(e.target.value.toUpperCase())}
+                    placeholder="e.g. AAPL"
+                    maxLength={8}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="cash-date">Date (optional)</Label>
+                <Input
+                  id="cash-date"
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDialogOpen(false)}
+                disabled={recordMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!(parseFloat(amount) > 0) || recordMutation.isPending}>
+                {recordMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Record
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { motion } from 'framer-motion'
+import { History } from 'lucide-react'
+import { useSession } from 'next-auth/react'
+
+import { Badge } from '@/components/ui/badge'
+import { Card } from '@/components/ui/card'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { CORPORATE_ACTION_TYPE_LABELS } from '@/lib/constants'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { CorporateActionEntry } from '@/types'
+
+async function fetchCorporateActions(accountId: string): Promise<CorporateActionEntry[]> {
+  const response = await fetch(`/api/portfolio/corporate-actions?portfolioId=${accountId}`)
+  if (!response.ok) {
+    throw new Error('Failed to fetch corporate actions')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+const formatShares = (shares: number) => Number(shares.toFixed(4)).toLocaleString()
+
+export function CorporateActionsCard() {
+  const { data: session } = useSession()
+  const { accountId } = usePortfolioAccount()
+
+  const { data: entries } = useQuery({
+    queryKey: ['corporate-actions', session?.user?.id, accountId],
+    queryFn: () => fetchCorporateActions(accountId),
+    enabled: !!session?.user?.id, // Only run when user is authenticated
+  })
+
+  // Nothing to explain until an action has changed a position
+  if (!entries || entries.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-slate-200/50">
+      <div className="p-6 border-b border-slate-200/50">
+        <div className="flex items-center gap-2">
+          <History className="h-5 w-5 text-navy-600" />
+          <h3 className="text-lg font-semibold text-slate-800">Corporate Actions</h3>
+        </div>
+        <p className="text-sm text-slate-500 mt-1">
+          Splits, spinoffs and symbol changes applied to your positions
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {entries.map((entry, index) => (
+          <motion.div
+            key={entry.id}
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: index * 0.05 }}
+            className="text-sm"
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-slate-800">{entry.ticker}</span>
+                <Badge variant="secondary">{CORPORATE_ACTION_TYPE_LABELS[entry.type]}</Badge>
+              </div>
+              <span className="text-xs text-slate-500">{formatDate(entry.effectiveDate)}</span>
+            </div>
+            <p className="text-slate-600 mt-1">{entry.description}</p>
+            <p className="text-xs text-slate-500 mt-1">
+              {formatShares(entry.sharesBefore)} → {formatShares(entry.sharesAfter)} shares • avg{' '}
+              {formatCurrency(entry.avgPriceBefore, { currency: entry.currency })} →{' '}
+              {formatCurrency(entry.avgPriceAfter, { currency: entry.currency })}
+            </p>
+          </motion.div>
+        ))}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,195 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { Grid3X3, AlertTriangle } from 'lucide-react'
+import { useSession } from 'next-auth/react'
+import { useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { CORRELATION_CONFIG, CORRELATION_WINDOWS } from '@/lib/constants'
+import { cn, formatPercentage } from '@/lib/utils'
+import { CorrelationMatrix, CorrelationWindow } from '@/types'
+
+async function fetchCorrelation(accountId: string, window: CorrelationWindow): Promise<CorrelationMatrix> {
+  const response = await fetch(`/api/portfolio/correlation?window=${window}&portfolioId=${accountId}`)
+  if (!response.ok) {
+    throw new Error('Failed to fetch correlations')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+// Red for holdings that move together, blue for ones that move apart
+function cellColor(correlation: number | null) {
+  if (correlation === null) {
+    return '#f1f5f9'
+  }
+  const alpha = Math.abs(correlation).toFixed(2)
+  return correlation >= 0 ? `rgba(239, 68, 68, ${alpha})` : `rgba(59, 130, 246, ${alpha})`
+}
+
+function scoreLabel(score: number) {
+  if (score >= 70) {
+    return { label: 'Well diversified', className: 'text-green-600' }
+  }
+  if (score >= 40) {
+    return { label: 'Moderately diversified', className: 'text-amber-600' }
+  }
+  return { label: 'Concentrated', className: 'text-red-600' }
+}
+
+export function CorrelationHeatmap() {
+  const [range, setRange] = useState<CorrelationWindow>('1Y')
+  const { data: session } = useSession()
+  const { accountId } = usePortfolioAccount()
+
+  const { data: correlation, isLoading, error } = useQuery({
+    queryKey: ['portfolio-correlation', session?.user?.id, accountId, range],
+    queryFn: () => fetchCorrelation(accountId, range),
+    enabled: !!session?.user?.id, // Only run when user is authenticated
+  })
+
+  const clustered = new Set(correlation?.clusters.flatMap((cluster) => cluster.tickers))
+  const rating = correlation ? scoreLabel(correlation.diversification.score) : null
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-slate-200/50">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-200/50">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Grid3X3 className="h-5 w-5 text-navy-600" />
+            <h3 className="text-lg font-semibold text-slate-800">Correlation</h3>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {CORRELATION_WINDOWS.map((option) => (
+              <Button
+                key={option}
+                variant={range === option ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setRange(option)}
+                className={range === option ? 'bg-navy-600 hover:bg-navy-700' : ''}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6">
+        {isLoading && <Skeleton className="h-72 w-full" />}
+
+        {!isLoading && (error || !correlation) && (
+          <p className="h-72 flex items-center justify-center text-red-600">
+            Failed to load correlations
+          </p>
+        )}
+
+        {correlation && correlation.tickers.length < 2 && (
+          <p className="py-6 text-center text-sm text-slate-600">
+            Hold at least two positions to compare how they move together.
+          </p>
+        )}
+
+        {correlation && rating && correlation.tickers.length >= 2 && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Heatmap */}
+            <div className="lg:col-span-2 overflow-x-auto">
+              <table className="border-separate border-spacing-0.5 text-xs">
+                <thead>
+                  <tr>
+                    <th />
+                    {correlation.tickers.map((ticker) => (
+                      <th
+                        key={ticker}
+                        className={cn(
+                          'px-1 pb-1 font-medium text-slate-600',
+                          clustered.has(ticker) && 'text-red-600'
+                        )}
+                      >
+                        {ticker}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {correlation.matrix.map((row, i) => (
+                    <tr key={correlation.tickers[i]}>
+                      <th
+                        className={cn(
+                          'pr-2 text-right font-medium text-slate-600',
+                          clustered.has(correlation.tickers[i] ?? '') && 'text-red-600'
+                        )}
+                      >
+                        {correlation.tickers[i]}
+                      </th>
+                      {row.map((value, j) => (
+                        <td
+                          key={correlation.tickers[j]}
+                          title={`${correlation.tickers[i]} / ${correlation.tickers[j]}: ${value === null ? 'not enough history' : value.toFixed(2)}`}
+                          className={cn(
+                            'h-10 w-10 min-w-10 rounded text-center text-slate-800',
+                            value !== null && i !== j && value >= CORRELATION_CONFIG.HIGH_CORRELATION && 'ring-1 ring-red-500'
+                          )}
+                          style={{ backgroundColor: cellColor(value) }}
+                        >
+                          {value === null ? '—' : value.toFixed(2)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-3 text-xs text-slate-500">
+                Pearson correlation of daily returns over {range}. Red cells move together, blue cells move apart.
+              </p>
+            </div>
+
+            {/* Score and clusters */}
+            <div className="space-y-6">
+              <div className="rounded-lg bg-slate-50 p-4">
+                <p className="text-sm font-medium text-slate-600">Diversification Score</p>
+                <p className="text-3xl font-bold text-slate-800">{correlation.diversification.score}</p>
+                <p className={cn('text-sm font-medium', rating.className)}>{rating.label}</p>
+                <p className="mt-2 text-xs text-slate-500">
+                  Risk of about {correlation.diversification.effectiveHoldings.toFixed(1)} independent positions
+                  {correlation.diversification.averageCorrelation !== null &&
+                    `, average correlation ${correlation.diversification.averageCorrelation.toFixed(2)}`}
+                </p>
+              </div>
+
+              <div className="space-y-3">
+                <p className="text-sm font-medium text-slate-600">Correlated Clusters</p>
+                {correlation.clusters.length === 0 && (
+                  <p className="text-sm text-slate-500">
+                    No holdings have a correlation of {CORRELATION_CONFIG.HIGH_CORRELATION} or more.
+                  </p>
+                )}
+                {correlation.clusters.map((cluster) => (
+                  <div key={cluster.tickers.join(',')} className="rounded-lg border border-red-200 bg-red-50/50 p-3">
+                    <p className="font-medium text-slate-800">{cluster.tickers.join(', ')}</p>
+                    <p className="text-xs text-slate-600">
+                      {formatPercentage(cluster.weight, 1)} of positions, average correlation{' '}
+                      {cluster.averageCorrelation.toFixed(2)}
+                    </p>
+                    {cluster.sectors.length > 1 && (
+                      <p className="mt-1 flex items-center gap-1 text-xs text-amber-700">
+                        <AlertTriangle className="h-3 w-3" />
+                        Spans {cluster.sectors.join(', ')}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,77 @@
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { invalidatePortfolioQueries } from '@/hooks/invalidate-portfolio-queries'
+import { useBaseCurrency } from '@/hooks/use-base-currency'
+import { useToast } from '@/hooks/use-toast'
+import { CURRENCIES, CURRENCY_LABELS } from '@/lib/constants'
+import { Currency } from '@/types'
+
+async function saveBaseCurrency(baseCurrency: Currency) {
+  const response = await fetch('/api/portfolio/settings', {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ baseCurrency }),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.details || 'Failed to change base currency')
+  }
+  return data.data
+}
+
+export function CurrencySelect() {
+  const { baseCurrency } = useBaseCurrency()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const currencyMutation = useMutation({
+    mutationFn: saveBaseCurrency,
+    onSuccess: (_data, currency) => {
+      // Every value, the cash ledger and the snapshots change currency
+      invalidatePortfolioQueries(queryClient)
+      queryClient.invalidateQueries({ queryKey: ['portfolio-settings'] })
+      toast({
+        title: 'Base currency changed',
+        description: `Values are now reported in ${CURRENCY_LABELS[currency]}.`,
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error changing base currency',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  return (
+    <Select
+      value={baseCurrency}
+      onValueChange={(value) => currencyMutation.mutate(value as Currency)}
+      disabled={currencyMutation.isPending}
+    >
+      <SelectTrigger className="w-24" title="Base currency">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {CURRENCIES.map((currency) => (
+          <SelectItem key={currency} value={currency}>
+            {currency}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
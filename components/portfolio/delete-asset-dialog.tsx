@@ -1,6 +1,8 @@
 'use client'
 
 import { motion } from 'framer-motion'
+import { Loader2, AlertTriangle, TrendingUp, TrendingDown } from 'lucide-react'
+
 import {
   AlertDialog,
   AlertDialogCancel,
@@ -10,9 +12,10 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
-import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { Loader2, AlertTriangle, TrendingUp, TrendingDown } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useBaseCurrency } from '@/hooks/use-base-currency'
+import { TRASH_CONFIG } from '@/lib/constants'
 import { formatCurrency, formatPercentage } from '@/lib/utils'
 import { EnrichedAsset } from '@/types'
 
@@ -24,6 +27,8 @@ interface DeleteAssetDialogProps {
 }
 
 export function DeleteAssetDialog({ asset, onClose, onConfirm, isLoading }: DeleteAssetDialogProps) {
+  const { formatMoney } = useBaseCurrency()
+
   if (!asset) return null
 
   const isProfitable = asset.profitLoss >= 0
@@ -41,7 +46,7 @@ export function DeleteAssetDialog({ asset, onClose, onConfirm, isLoading }: Dele
                 Delete Asset
               </AlertDialogTitle>
               <AlertDialogDescription className="text-slate-600 mt-1">
-                This action cannot be undone.
+                You can restore it from the trash for {TRASH_CONFIG.RETENTION_DAYS} days.
               </AlertDialogDescription>
             </div>
           </div>
@@ -71,15 +76,15 @@ export function DeleteAssetDialog({ asset, onClose, onConfirm, isLoading }: Dele
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
                   <p className="text-slate-500">Avg Price</p>
-                  <p className="font-medium text-slate-800">{formatCurrency(asset.avgPrice)}</p>
+                  <p className="font-medium text-slate-800">{formatCurrency(asset.avgPrice, { currency: asset.currency })}</p>
                 </div>
                 <div>
                   <p className="text-slate-500">Current Price</p>
-                  <p className="font-medium text-slate-800">{formatCurrency(asset.currentPrice)}</p>
+                  <p className="font-medium text-slate-800">{formatCurrency(asset.currentPrice, { currency: asset.currency })}</p>
                 </div>
                 <div>
                   <p className="text-slate-500">Total Value</p>
-                  <p className="font-semibold text-slate-800">{formatCurrency(asset.totalValue)}</p>
+                  <p className="font-semibold text-slate-800">{formatMoney(asset.totalValue)}</p>
                 </div>
                 <div>
                   <p className="text-slate-500">P&L</p>
@@ -91,7 +96,7 @@ export function DeleteAssetDialog({ asset, onClose, onConfirm, isLoading }: Dele
                     ) : (
                       <TrendingDown className="h-3 w-3" />
                     )}
-                    {formatCurrency(asset.profitLoss)} ({formatPercentage(asset.profitLossPercent)})
+                    {formatMoney(asset.profitLoss)} ({formatPercentage(asset.profitLossPercent)})
                   </div>
                 </div>
               </div>
@@ -108,8 +113,8 @@ export function DeleteAssetDialog({ asset, onClose, onConfirm, isLoading }: Dele
                 Are you sure you want to delete this asset?
               </p>
               <p className="text-amber-700">
-                This will permanently remove <strong>{asset.ticker}</strong> from your portfolio. 
-                All associated dividend records will also be deleted.
+                This moves <strong>{asset.ticker}</strong> and its trades and dividends to the trash.
+                They are deleted permanently after {TRASH_CONFIG.RETENTION_DAYS} days.
               </p>
             </div>
           </div>
@@ -0,0 +1,138 @@
+'use client'
+
+import { format } from 'date-fns'
+import { useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useUpdateAsset } from '@/hooks/use-update-asset'
+import { VALIDATION } from '@/lib/constants'
+import { EnrichedAsset, UpdateAssetInput } from '@/types'
+
+interface EditAssetDialogProps {
+  asset: EnrichedAsset
+  onClose: () => void
+}
+
+export function EditAssetDialog({ asset, onClose }: EditAssetDialogProps) {
+  const purchaseDate = format(new Date(asset.purchaseDate), 'yyyy-MM-dd')
+  const [ticker, setTicker] = useState(asset.ticker)
+  const [shares, setShares] = useState(String(asset.shares))
+  const [price, setPrice] = useState(String(asset.openingPrice ?? asset.avgPrice))
+  const [date, setDate] = useState(purchaseDate)
+  const [notes, setNotes] = useState(asset.notes ?? '')
+  const updateMutation = useUpdateAsset()
+  // Shares, price and date come from the transactions once there are several
+  const editsTrade = asset.openingPrice !== null
+
+  // Only changed fields are sent. The price is that of the opening buy,
+  // before fees, not the average cost shown in the table.
+  const changes: UpdateAssetInput = {
+    ...(ticker.trim().toUpperCase() !== asset.ticker && { ticker: ticker.trim().toUpperCase() }),
+    ...(editsTrade && parseFloat(shares) !== asset.shares && { shares: parseFloat(shares) }),
+    ...(editsTrade && parseFloat(price) !== asset.openingPrice && { avgPrice: parseFloat(price) }),
+    ...(editsTrade && date !== purchaseDate && { purchaseDate: date }),
+    ...(notes !== (asset.notes ?? '') && { notes: notes || null }),
+  }
+  const isValid = !!ticker.trim() && parseFloat(shares) > 0 && parseFloat(price) > 0 && !!date
+  const canSubmit = isValid && Object.keys(changes).length > 0
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px] bg-white/95 backdrop-blur-sm">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-slate-800">Edit {asset.ticker}</DialogTitle>
+          <DialogDescription className="text-slate-600">
+            Correct a typo in the ticker or the details of the purchase. The price is before fees. Shares, price and
+            date can only be changed while the position has a single buy; otherwise edit its transactions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="grid grid-cols-2 gap-4 py-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (canSubmit) {
+              updateMutation.mutate({ id: asset.id, ...changes })
+              onClose()
+            }
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="edit-ticker">Ticker</Label>
+            <Input
+              id="edit-ticker"
+              value={ticker}
+              onChange={(e) => setTicker(e.target.value.toUpperCase())}
+              maxLength={VALIDATION.SYMBOL.MAX_LENGTH}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-date">Purchase Date</Label>
+            <Input
+              id="edit-date"
+              type="date"
+              value={date}
+              disabled={!editsTrade}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-shares">Shares</Label>
+            <Input
+              id="edit-shares"
+              type="number"
+              step="any"
+              min="0"
+              value={shares}
+              disabled={!editsTrade}
+              onChange={(e) => setShares(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-price">Price per Share ({asset.currency})</Label>
+            <Input
+              id="edit-price"
+              type="number"
+              step="any"
+              min="0"
+              value={price}
+              disabled={!editsTrade}
+              onChange={(e) => setPrice(e.target.value)}
+            />
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="edit-notes">Notes</Label>
+            <Textarea
+              id="edit-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Investment thesis, reminders..."
+              maxLength={500}
+            />
+          </div>
+
+          <DialogFooter className="col-span-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit} className="bg-navy-600 hover:bg-navy-700">
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
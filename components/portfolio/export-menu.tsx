@@ -0,0 +1,168 @@
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Download, FileText, FileJson, Landmark, History, Loader2 } from 'lucide-react'
+import { useRef, useState } from 'react'
+
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { invalidatePortfolioQueries } from '@/hooks/invalidate-portfolio-queries'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { useToast } from '@/hooks/use-toast'
+import { PortfolioBackup } from '@/types'
+
+const EXPORT_OPTIONS = [
+  { format: 'csv', label: 'CSV (spreadsheet)', icon: FileText },
+  { format: 'ofx', label: 'OFX (finance apps)', icon: Landmark },
+  { format: 'json', label: 'JSON (full backup)', icon: FileJson },
+] as const
+
+async function restoreBackup(backup: PortfolioBackup) {
+  const response = await fetch('/api/portfolio/restore', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(backup),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.details || 'Failed to restore backup')
+  }
+  return data.data as { assets: number; transactions: number }
+}
+
+export function ExportMenu() {
+  const [pendingBackup, setPendingBackup] = useState<PortfolioBackup | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const { toast } = useToast()
+  const { accountId, currentAccount } = usePortfolioAccount()
+  const queryClient = useQueryClient()
+
+  const restoreMutation = useMutation({
+    mutationFn: restoreBackup,
+    onSuccess: (result) => {
+      invalidatePortfolioQueries(queryClient)
+      queryClient.invalidateQueries({ queryKey: ['portfolio-settings'] })
+      queryClient.invalidateQueries({ queryKey: ['allocation-targets'] })
+      toast({
+        title: 'Backup restored',
+        description: `Restored ${result.assets} positions and ${result.transactions} trades.`,
+      })
+      setPendingBackup(null)
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error restoring backup',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) {
+      return
+    }
+    try {
+      setPendingBackup(JSON.parse(await file.text()))
+    } catch {
+      toast({
+        title: 'Invalid backup',
+        description: 'The file is not a Stocklio JSON backup.',
+        variant: 'destructive',
+      })
+    } finally {
+      // Allow picking the same file again
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ''
+      }
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>
+            Download {currentAccount ? currentAccount.name : 'holdings'}
+          </DropdownMenuLabel>
+          {EXPORT_OPTIONS.map(({ format, label, icon: Icon }) => (
+            <DropdownMenuItem key={format} asChild>
+              <a href={`/api/portfolio/export?format=${format}&portfolioId=${accountId}`} download>
+                <Icon className="h-4 w-4 mr-2" />
+                {label}
+              </a>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <History className="h-4 w-4 mr-2" />
+            Restore from backup...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+
+      <AlertDialog open={!!pendingBackup} onOpenChange={(open) => !open && setPendingBackup(null)}>
+        <AlertDialogContent className="sm:max-w-[500px] bg-white/95 backdrop-blur-sm">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-xl font-bold text-slate-800">
+              Restore Backup
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-slate-600">
+              This replaces all of your accounts, positions and trades with the{' '}
+              {pendingBackup?.assets?.length ?? 0} positions in the backup
+              {pendingBackup?.exportedAt && ` from ${new Date(pendingBackup.exportedAt).toLocaleDateString()}`}.
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restoreMutation.isPending}>Cancel</AlertDialogCancel>
+            <Button
+              variant="destructive"
+              onClick={() => pendingBackup && restoreMutation.mutate(pendingBackup)}
+              disabled={restoreMutation.isPending}
+            >
+              {restoreMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Restore
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
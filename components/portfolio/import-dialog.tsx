@@ -0,0 +1,340 @@
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { motion } from 'framer-motion'
+import { Loader2, FileUp, AlertTriangle } from 'lucide-react'
+import { useEffect, useState } from 'react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { invalidatePortfolioQueries } from '@/hooks/invalidate-portfolio-queries'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { useToast } from '@/hooks/use-toast'
+import { IMPORT_FIELDS, IMPORT_FIELD_LABELS, IMPORT_LIMITS } from '@/lib/constants'
+import type { ImportColumnMapping, ImportRowStatus } from '@/lib/portfolio/import'
+import { formatCurrency } from '@/lib/utils'
+import { ImportPreview, ImportResult } from '@/types'
+
+// Select value for a field that is not read from any column
+const UNMAPPED = '__none__'
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  valid: 'bg-green-100 text-green-700 border-green-200',
+  invalid: 'bg-red-100 text-red-700 border-red-200',
+  duplicate: 'bg-amber-100 text-amber-700 border-amber-200',
+}
+
+interface ImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+interface ImportRequest {
+  csv: string
+  mapping?: ImportColumnMapping
+  commit?: boolean
+  includeDuplicates?: boolean
+  portfolioId?: string
+}
+
+async function postImport<T>(request: ImportRequest): Promise<T> {
+  const response = await fetch('/api/portfolio/import', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.details || 'Failed to import file')
+  }
+  return data.data
+}
+
+export function ImportDialog({ open, onOpenChange }: ImportDialogProps) {
+  const [csv, setCsv] = useState<string | null>(null)
+  const [fileName, setFileName] = useState('')
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [includeDuplicates, setIncludeDuplicates] = useState(false)
+
+  const { toast } = useToast()
+  const { targetAccount } = usePortfolioAccount()
+  const queryClient = useQueryClient()
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setCsv(null)
+      setFileName('')
+      setPreview(null)
+      setIncludeDuplicates(false)
+    }
+  }, [open])
+
+  const previewMutation = useMutation({
+    mutationFn: (request: ImportRequest) =>
+      postImport<ImportPreview>({ ...request, portfolioId: targetAccount?.id }),
+    onSuccess: setPreview,
+    onError: (error: Error) => {
+      toast({
+        title: 'Unable to read file',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const importMutation = useMutation({
+    mutationFn: (request: ImportRequest) =>
+      postImport<ImportResult>({ ...request, portfolioId: targetAccount?.id }),
+    onSuccess: (result) => {
+      invalidatePortfolioQueries(queryClient)
+      const skipped = result.skipped > 0 ? `, skipped ${result.skipped}` : ''
+      toast({
+        title: 'Import complete',
+        description: `Imported ${result.imported} ${result.imported === 1 ? 'purchase' : 'purchases'}${skipped}.`,
+      })
+      onOpenChange(false)
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Import failed',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) {
+      return
+    }
+    if (file.size > IMPORT_LIMITS.MAX_FILE_SIZE) {
+      toast({
+        title: 'File too large',
+        description: 'CSV files are limited to 1 MB.',
+        variant: 'destructive',
+      })
+      return
+    }
+
+    const text = await file.text()
+    setCsv(text)
+    setFileName(file.name)
+    previewMutation.mutate({ csv: text })
+  }
+
+  const handleMappingChange = (field: (typeof IMPORT_FIELDS)[number], header: string) => {
+    if (!csv || !preview) {
+      return
+    }
+    const mapping = { ...preview.mapping }
+    if (header === UNMAPPED) {
+      delete mapping[field]
+    } else {
+      mapping[field] = header
+    }
+    previewMutation.mutate({ csv, mapping })
+  }
+
+  const importCount = preview
+    ? preview.validCount + (includeDuplicates ? preview.duplicateCount : 0)
+    : 0
+  const overLimit = !!preview && preview.newTickers.length > preview.remainingAssetSlots
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] bg-white/95 backdrop-blur-sm">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold text-slate-800">
+            Import from Broker
+          </DialogTitle>
+          <DialogDescription className="text-slate-600">
+            Upload a CSV export of your positions or purchases. Each row is recorded as a buy
+            {targetAccount ? ` in ${targetAccount.name}` : ''}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* File Picker */}
+          <div className="space-y-2">
+            <Label htmlFor="import-file" className="flex items-center gap-2">
+              <FileUp className="h-4 w-4" />
+              CSV File
+            </Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              disabled={previewMutation.isPending || importMutation.isPending}
+            />
+            {fileName && preview && (
+              <p className="text-sm text-slate-600">
+                {fileName} • {preview.broker ? `Detected ${preview.broker} format` : 'Generic CSV format'}
+              </p>
+            )}
+          </div>
+
+          {previewMutation.isPending && !preview && (
+            <div className="flex items-center gap-2 text-sm text-slate-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Reading file...
+            </div>
+          )}
+
+          {preview && (
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="space-y-6"
+            >
+              {/* Column Mapping */}
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {IMPORT_FIELDS.map((field) => (
+                  <div key={field} className="space-y-1">
+                    <Label className="text-xs text-slate-500">{IMPORT_FIELD_LABELS[field]}</Label>
+                    <Select
+                      value={preview.mapping[field] ?? UNMAPPED}
+                      onValueChange={(value) => handleMappingChange(field, value)}
+                      disabled={previewMutation.isPending}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                        {preview.headers.filter(Boolean).map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              {/* Summary */}
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge className={STATUS_STYLES.valid}>{preview.validCount} ready</Badge>
+                <Badge className={STATUS_STYLES.duplicate}>{preview.duplicateCount} duplicates</Badge>
+                <Badge className={STATUS_STYLES.invalid}>{preview.invalidCount} invalid</Badge>
+                {preview.duplicateCount > 0 && (
+                  <label className="ml-auto flex items-center gap-2 text-sm text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={includeDuplicates}
+                      onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                    />
+                    Import duplicates anyway
+                  </label>
+                )}
+              </div>
+
+              {overLimit && (
+                <div className="flex items-center gap-2 p-3 rounded-xl bg-red-50 border border-red-200 text-sm text-red-700">
+                  <AlertTriangle className="h-4 w-4" />
+                  This file adds {preview.newTickers.length} new positions but only{' '}
+                  {preview.remainingAssetSlots} more fit in your portfolio.
+                </div>
+              )}
+
+              {/* Row Preview */}
+              <div className="max-h-72 overflow-y-auto rounded-xl border border-slate-200">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Ticker</TableHead>
+                      <TableHead className="text-right">Shares</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row) => (
+                      <TableRow key={row.row}>
+                        <TableCell className="text-slate-500">{row.row}</TableCell>
+                        <TableCell className="font-medium">{row.data?.ticker ?? row.values.ticker ?? '—'}</TableCell>
+                        <TableCell className="text-right">{row.data?.shares ?? row.values.shares ?? '—'}</TableCell>
+                        <TableCell className="text-right">
+                          {row.data ? formatCurrency(row.data.avgPrice) : row.values.price ?? '—'}
+                        </TableCell>
+                        <TableCell>
+                          {row.data?.purchaseDate
+                            ? new Date(row.data.purchaseDate).toLocaleDateString()
+                            : row.values.date ?? 'Today'}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_STYLES[row.status]}>{row.status}</Badge>
+                          {row.errors.length > 0 && (
+                            <p className="text-xs text-red-600 mt-1">{row.errors.join(', ')}</p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </motion.div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={importMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => csv && preview && importMutation.mutate({
+              csv,
+              mapping: preview.mapping,
+              commit: true,
+              includeDuplicates,
+            })}
+            disabled={!preview || importCount === 0 || overLimit || previewMutation.isPending || importMutation.isPending}
+            className="bg-navy-600 hover:bg-navy-700"
+          >
+            {importMutation.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Import {importCount} {importCount === 1 ? 'Row' : 'Rows'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
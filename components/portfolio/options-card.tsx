@@ -0,0 +1,689 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Timer, Plus, MoreHorizontal, Loader2 } from 'lucide-react'
+import { useSession } from 'next-auth/react'
+import { useState } from 'react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { invalidatePortfolioQueries } from '@/hooks/invalidate-portfolio-queries'
+import { useBaseCurrency } from '@/hooks/use-base-currency'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { useToast } from '@/hooks/use-toast'
+import {
+  OPTION_CONFIG,
+  OPTION_SIDE_LABELS,
+  OPTION_SIDES,
+  OPTION_STATUS_LABELS,
+  OPTION_TYPES,
+} from '@/lib/constants'
+import { cn, formatCurrency, formatDate } from '@/lib/utils'
+import { OptionPositionSummary, OptionsReport } from '@/types'
+
+type OptionType = (typeof OPTION_TYPES)[number]
+type OptionSide = (typeof OPTION_SIDES)[number]
+
+type OptionAction =
+  | { action: 'CLOSE'; premium: number; fees?: number; date?: string }
+  | { action: 'EXERCISE' }
+  | { action: 'EXPIRE' }
+
+const SETTLED_LIMIT = 5
+
+async function fetchOptions(accountId: string): Promise<OptionsReport> {
+  const response = await fetch(`/api/portfolio/options?portfolioId=${accountId}`)
+  if (!response.ok) {
+    throw new Error('Failed to fetch options')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+async function openOption(body: {
+  underlying: string
+  type: OptionType
+  side: OptionSide
+  strike: number
+  expiry: string
+  contracts: number
+  multiplier: number
+  premium: number
+  fees?: number
+  openedAt?: string
+  settleCash: boolean
+  portfolioId?: string
+}) {
+  const response = await fetch('/api/portfolio/options', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.details || 'Failed to record option')
+  }
+  return data.data
+}
+
+async function settleOption({ id, ...body }: OptionAction & { id: string }) {
+  const response = await fetch(`/api/portfolio/options/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.details || 'Failed to update option')
+  }
+  return data.data
+}
+
+async function deleteOption(id: string) {
+  const response = await fetch(`/api/portfolio/options/${id}`, {
+    method: 'DELETE',
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || 'Failed to delete option')
+  }
+  return data
+}
+
+const EMPTY_FORM = {
+  underlying: '',
+  type: 'CALL' as OptionType,
+  side: 'SHORT' as OptionSide,
+  strike: '',
+  expiry: '',
+  contracts: '1',
+  multiplier: String(OPTION_CONFIG.DEFAULT_MULTIPLIER),
+  premium: '',
+  fees: '',
+  openedAt: '',
+  settleCash: true,
+}
+
+export function OptionsCard() {
+  const [addOpen, setAddOpen] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [closing, setClosing] = useState<OptionPositionSummary | null>(null)
+  const [closePremium, setClosePremium] = useState('')
+  const [closeFees, setCloseFees] = useState('')
+  const [closeDate, setCloseDate] = useState('')
+
+  const { data: session } = useSession()
+  const { accountId, targetAccount } = usePortfolioAccount()
+  const { formatMoney } = useBaseCurrency()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: report, isLoading, error } = useQuery({
+    queryKey: ['options', session?.user?.id, accountId],
+    queryFn: () => fetchOptions(accountId),
+    enabled: !!session?.user?.id, // Only run when user is authenticated
+  })
+
+  // Exercise and assignment trade the underlying, so every position view refreshes
+  const invalidate = () => {
+    invalidatePortfolioQueries(queryClient)
+  }
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Error',
+      description: error.message,
+      variant: 'destructive',
+    })
+  }
+
+  const openMutation = useMutation({
+    mutationFn: openOption,
+    onSuccess: (_data, variables) => {
+      invalidate()
+      toast({
+        title: 'Option recorded',
+        description: `${OPTION_SIDE_LABELS[variables.side]} ${variables.contracts} ${variables.underlying} ${variables.type.toLowerCase()}${variables.contracts === 1 ? '' : 's'}.`,
+      })
+      setAddOpen(false)
+    },
+    onError,
+  })
+
+  const settleMutation = useMutation({
+    mutationFn: settleOption,
+    onSuccess: () => {
+      invalidate()
+      toast({ title: 'Option updated' })
+      setClosing(null)
+    },
+    onError,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteOption,
+    onSuccess: () => {
+      invalidate()
+      toast({ title: 'Option removed' })
+    },
+    onError,
+  })
+
+  const updateForm = (changes: Partial<typeof EMPTY_FORM>) => setForm((current) => ({ ...current, ...changes }))
+
+  const openAddDialog = () => {
+    setForm(EMPTY_FORM)
+    setAddOpen(true)
+  }
+
+  const openCloseDialog = (option: OptionPositionSummary) => {
+    setClosePremium(option.markPrice.toFixed(2))
+    setCloseFees('')
+    setCloseDate('')
+    setClosing(option)
+  }
+
+  const formValid =
+    form.underlying.length > 0 &&
+    parseFloat(form.strike) > 0 &&
+    form.expiry.length > 0 &&
+    parseInt(form.contracts) > 0 &&
+    parseInt(form.multiplier) > 0 &&
+    parseFloat(form.premium) >= 0
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formValid) {
+      return
+    }
+    const fees = parseFloat(form.fees)
+    openMutation.mutate({
+      underlying: form.underlying.toUpperCase(),
+      type: form.type,
+      side: form.side,
+      strike: parseFloat(form.strike),
+      expiry: form.expiry,
+      contracts: parseInt(form.contracts),
+      multiplier: parseInt(form.multiplier),
+      premium: parseFloat(form.premium),
+      fees: fees > 0 ? fees : undefined,
+      openedAt: form.openedAt ? new Date(form.openedAt).toISOString() : undefined,
+      settleCash: form.settleCash,
+      portfolioId: targetAccount?.id,
+    })
+  }
+
+  const handleClose = (e: React.FormEvent) => {
+    e.preventDefault()
+    const premium = parseFloat(closePremium)
+    if (!closing || !(premium >= 0)) {
+      return
+    }
+    const fees = parseFloat(closeFees)
+    settleMutation.mutate({
+      id: closing.id,
+      action: 'CLOSE',
+      premium,
+      fees: fees > 0 ? fees : undefined,
+      date: closeDate ? new Date(closeDate).toISOString() : undefined,
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <Card className="p-6">
+        <Skeleton className="h-6 w-24 mb-4" />
+        <Skeleton className="h-32 w-full" />
+      </Card>
+    )
+  }
+
+  if (error || !report) {
+    return (
+      <Card className="p-6 bg-red-50 border-red-200">
+        <p className="text-red-600 text-center">Failed to load options</p>
+      </Card>
+    )
+  }
+
+  const stats = [
+    { label: 'Open Value', value: report.totalValue, signed: false },
+    { label: 'Unrealized P/L', value: report.unrealizedProfitLoss, signed: true },
+    { label: 'Realized P/L', value: report.realizedProfitLoss, signed: true },
+  ]
+
+  return (
+    <>
+      <Card className="bg-white/80 backdrop-blur-sm border-slate-200/50">
+        <div className="p-6 border-b border-slate-200/50">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Timer className="h-5 w-5 text-navy-600" />
+              <h3 className="text-lg font-semibold text-slate-800">Options</h3>
+            </div>
+            <Button variant="outline" size="sm" onClick={openAddDialog}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Option
+            </Button>
+          </div>
+          {(report.open.length > 0 || report.settled.length > 0) && (
+            <div className="mt-4 flex flex-wrap gap-6">
+              {stats.map(({ label, value, signed }) => (
+                <div key={label}>
+                  <p className="text-xs text-slate-500">{label}</p>
+                  <p
+                    className={cn(
+                      'text-lg font-semibold text-slate-800',
+                      signed && (value >= 0 ? 'text-green-600' : 'text-red-600')
+                    )}
+                  >
+                    {formatMoney(value)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6">
+          {report.open.length === 0 && report.settled.length === 0 && (
+            <p className="py-6 text-center text-sm text-slate-600">
+              Record calls and puts you have bought or written to track their value, expiry and assignment.
+            </p>
+          )}
+
+          {report.open.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 text-left text-slate-600">
+                    <th className="py-2 font-medium">Contract</th>
+                    <th className="py-2 font-medium text-right">Qty</th>
+                    <th className="py-2 font-medium text-right">Expiry</th>
+                    <th className="py-2 font-medium text-right">Underlying</th>
+                    <th className="py-2 font-medium text-right">Intrinsic / Extrinsic</th>
+                    <th className="py-2 font-medium text-right">Value</th>
+                    <th className="py-2 font-medium text-right">P/L</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.open.map((option) => {
+                    const money = (value: number) => formatCurrency(value, { currency: option.currency })
+                    return (
+                      <tr key={option.id} className="border-b border-slate-100">
+                        <td className="py-2">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-slate-800">
+                              {option.underlying} {money(option.strike)} {option.type === 'CALL' ? 'Call' : 'Put'}
+                            </span>
+                            <Badge variant="secondary">{OPTION_SIDE_LABELS[option.side]}</Badge>
+                            {option.covered === false && (
+                              <Badge variant="outline" className="border-amber-300 text-amber-700">Uncovered</Badge>
+                            )}
+                          </div>
+                          <p className="text-xs text-slate-500">{option.symbol}</p>
+                        </td>
+                        <td className="py-2 text-right text-slate-800">
+                          {option.contracts}
+                          <p className="text-xs text-slate-500">× {option.multiplier}</p>
+                        </td>
+                        <td className="py-2 text-right text-slate-800">
+                          {formatDate(option.expiry)}
+                          <p className={cn('text-xs', option.daysToExpiry <= 7 ? 'text-amber-600' : 'text-slate-500')}>
+                            {option.daysToExpiry} days
+                          </p>
+                        </td>
+                        <td className="py-2 text-right text-slate-800">
+                          {option.underlyingPrice === null ? '—' : money(option.underlyingPrice)}
+                        </td>
+                        <td className="py-2 text-right text-slate-600">
+                          {money(option.intrinsicValue)} / {money(option.extrinsicValue)}
+                        </td>
+                        <td className="py-2 text-right text-slate-800">
+                          {formatMoney(option.marketValue)}
+                          <p className="text-xs text-slate-500">{money(option.markPrice)} / share</p>
+                        </td>
+                        <td
+                          className={cn(
+                            'py-2 text-right font-medium',
+                            option.profitLoss >= 0 ? 'text-green-600' : 'text-red-600'
+                          )}
+                        >
+                          {formatMoney(option.profitLoss)}
+                        </td>
+                        <td className="py-2 text-right">
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={() => openCloseDialog(option)}>
+                                {option.side === 'LONG' ? 'Sell to Close' : 'Buy to Close'}
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => settleMutation.mutate({ id: option.id, action: 'EXERCISE' })}
+                              >
+                                {option.side === 'LONG' ? 'Exercise' : 'Record Assignment'}
+                              </DropdownMenuItem>
+                              {option.daysToExpiry === 0 && (
+                                <DropdownMenuItem
+                                  onClick={() => settleMutation.mutate({ id: option.id, action: 'EXPIRE' })}
+                                >
+                                  Expired Worthless
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                className="text-red-600"
+                                onClick={() => deleteMutation.mutate(option.id)}
+                              >
+                                Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {report.settled.length > 0 && (
+            <div className={cn('space-y-2', report.open.length > 0 && 'pt-4 mt-4 border-t border-slate-200')}>
+              <p className="text-sm font-medium text-slate-600">Recently Settled</p>
+              {report.settled.slice(0, SETTLED_LIMIT).map((option) => (
+                <div key={option.id} className="flex items-center justify-between text-sm group">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-slate-800">{option.symbol}</span>
+                    <Badge variant="outline">{OPTION_STATUS_LABELS[option.status]}</Badge>
+                    {option.closedAt && (
+                      <span className="text-xs text-slate-500">{formatDate(option.closedAt)}</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={option.profitLoss >= 0 ? 'text-green-600' : 'text-red-600'}>
+                      {option.status === 'EXERCISED' ? 'In trade' : formatMoney(option.profitLoss)}
+                    </span>
+                    {!option.transactionId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 opacity-0 group-hover:opacity-100 text-xs text-red-600 hover:text-red-700 hover:bg-red-50"
+                        onClick={() => deleteMutation.mutate(option.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        Delete
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </Card>
+
+      <Dialog open={addOpen} onOpenChange={setAddOpen}>
+        <DialogContent className="sm:max-w-[480px] bg-white/95 backdrop-blur-sm">
+          <form onSubmit={handleAdd}>
+            <DialogHeader>
+              <DialogTitle className="text-xl font-bold text-slate-800">Add Option</DialogTitle>
+              <DialogDescription className="text-slate-600">
+                Record contracts bought or written{targetAccount ? ` in ${targetAccount.name}` : ''}. Premiums
+                are per share.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid grid-cols-2 gap-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="option-underlying">Underlying</Label>
+                <Input
+                  id="option-underlying"
+                  value={form.underlying}
+                  onChange={(e) => updateForm({ underlying: e.target.value.toUpperCase() })}
+                  placeholder="e.g. AAPL"
+                  maxLength={8}
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={form.type} onValueChange={(value) => updateForm({ type: value as OptionType })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OPTION_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type === 'CALL' ? 'Call' : 'Put'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Position</Label>
+                <Select value={form.side} onValueChange={(value) => updateForm({ side: value as OptionSide })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OPTION_SIDES.map((side) => (
+                      <SelectItem key={side} value={side}>
+                        {OPTION_SIDE_LABELS[side]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="option-strike">Strike</Label>
+                <Input
+                  id="option-strike"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={form.strike}
+                  onChange={(e) => updateForm({ strike: e.target.value })}
+                  placeholder="0.00"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="option-expiry">Expiry</Label>
+                <Input
+                  id="option-expiry"
+                  type="date"
+                  value={form.expiry}
+                  onChange={(e) => updateForm({ expiry: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="option-premium">Premium</Label>
+                <Input
+                  id="option-premium"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.premium}
+                  onChange={(e) => updateForm({ premium: e.target.value })}
+                  placeholder="0.00"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="option-contracts">Contracts</Label>
+                <Input
+                  id="option-contracts"
+                  type="number"
+                  step="1"
+                  min="1"
+                  max={OPTION_CONFIG.MAX_CONTRACTS}
+                  value={form.contracts}
+                  onChange={(e) => updateForm({ contracts: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="option-multiplier">Multiplier</Label>
+                <Input
+                  id="option-multiplier"
+                  type="number"
+                  step="1"
+                  min="1"
+                  max={OPTION_CONFIG.MAX_MULTIPLIER}
+                  value={form.multiplier}
+                  onChange={(e) => updateForm({ multiplier: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="option-fees">Fees (optional)</Label>
+                <Input
+                  id="option-fees"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.fees}
+                  onChange={(e) => updateForm({ fees: e.target.value })}
+                  placeholder="0.00"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="option-opened">Opened (optional)</Label>
+                <Input
+                  id="option-opened"
+                  type="date"
+                  value={form.openedAt}
+                  onChange={(e) => updateForm({ openedAt: e.target.value })}
+                />
+              </div>
+              <div className="col-span-2 flex items-center justify-between">
+                <Label>Settle premium in cash</Label>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={form.settleCash ? 'default' : 'outline'}
+                  className={form.settleCash ? 'bg-navy-600 hover:bg-navy-700' : ''}
+                  onClick={() => updateForm({ settleCash: !form.settleCash })}
+                >
+                  {form.settleCash ? 'On' : 'Off'}
+                </Button>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setAddOpen(false)}
+                disabled={openMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!formValid || openMutation.isPending}>
+                {openMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add Option
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!closing} onOpenChange={(open) => !open && setClosing(null)}>
+        <DialogContent className="sm:max-w-[400px] bg-white/95 backdrop-blur-sm">
+          <form onSubmit={handleClose}>
+            <DialogHeader>
+              <DialogTitle className="text-xl font-bold text-slate-800">Close Option</DialogTitle>
+              <DialogDescription className="text-slate-600">
+                {closing && `${closing.side === 'LONG' ? 'Sell' : 'Buy'} back ${closing.symbol}.`} The estimated
+                premium is filled in.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="close-premium">Premium per share</Label>
+                <Input
+                  id="close-premium"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={closePremium}
+                  onChange={(e) => setClosePremium(e.target.value)}
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="close-fees">Fees (optional)</Label>
+                <Input
+                  id="close-fees"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={closeFees}
+                  onChange={(e) => setCloseFees(e.target.value)}
+                  placeholder="0.00"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="close-date">Date (optional)</Label>
+                <Input
+                  id="close-date"
+                  type="date"
+                  value={closeDate}
+                  onChange={(e) => setCloseDate(e.target.value)}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setClosing(null)}
+                disabled={settleMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!(parseFloat(closePremium) >= 0) || settleMutation.isPending}>
+                {settleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Close
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,436 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { LineChart as LineChartIcon, Plus, X } from 'lucide-react'
+import { useSession } from 'next-auth/react'
+import { useState } from 'react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts'
+
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useBaseCurrency } from '@/hooks/use-base-currency'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { useToast } from '@/hooks/use-toast'
+import {
+  BENCHMARK_LIMITS,
+  CHART_COLORS,
+  PERFORMANCE_RANGES,
+  PERFORMANCE_RANGE_LABELS,
+  VALIDATION,
+} from '@/lib/constants'
+import { cn, formatLargeNumber, formatPercentage } from '@/lib/utils'
+import { BenchmarkComparison, PerformanceData, PerformanceRange } from '@/types'
+
+type ChartMode = 'value' | 'return'
+
+// Benchmark lines skip the navy used by the portfolio
+const BENCHMARK_COLORS = CHART_COLORS.SECTORS.slice(3)
+
+async function fetchPerformance(accountId: string, range: PerformanceRange): Promise<PerformanceData> {
+  const response = await fetch(`/api/portfolio/performance?range=${range}&portfolioId=${accountId}`)
+  if (!response.ok) {
+    throw new Error('Failed to fetch performance')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+async function fetchBenchmark(accountId: string, range: PerformanceRange): Promise<BenchmarkComparison> {
+  const response = await fetch(`/api/portfolio/benchmark?range=${range}&portfolioId=${accountId}`)
+  if (!response.ok) {
+    throw new Error('Failed to fetch benchmark comparison')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+async function saveBenchmarks(benchmarks: string[]) {
+  const response = await fetch('/api/portfolio/settings', {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ benchmarks }),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.details || 'Failed to save benchmarks')
+  }
+  return data.data
+}
+
+function formatSignedPercentage(value: number | null) {
+  if (value === null) {
+    return '—'
+  }
+  return `${value >= 0 ? '+' : ''}${formatPercentage(value)}`
+}
+
+// Snapshot dates are calendar days; format them without shifting time zones
+function formatDay(date: string, options: Intl.DateTimeFormatOptions) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' })
+}
+
+export function PerformanceChart() {
+  const [range, setRange] = useState<PerformanceRange>('1M')
+  const [mode, setMode] = useState<ChartMode>('value')
+  const [newBenchmark, setNewBenchmark] = useState('')
+  const { data: session } = useSession()
+  const { accountId } = usePortfolioAccount()
+  const { formatMoney } = useBaseCurrency()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: performance, isLoading, error } = useQuery({
+    queryKey: ['portfolio-performance', session?.user?.id, accountId, range],
+    queryFn: () => fetchPerformance(accountId, range),
+    enabled: !!session?.user?.id, // Only run when user is authenticated
+  })
+
+  const { data: comparison, isLoading: comparisonLoading } = useQuery({
+    queryKey: ['benchmark', session?.user?.id, accountId, range],
+    queryFn: () => fetchBenchmark(accountId, range),
+    enabled: !!session?.user?.id && mode === 'return',
+  })
+
+  const benchmarkMutation = useMutation({
+    mutationFn: saveBenchmarks,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['benchmark'] })
+      queryClient.invalidateQueries({ queryKey: ['portfolio-settings'] })
+      queryClient.invalidateQueries({ queryKey: ['portfolio-risk'] })
+      setNewBenchmark('')
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error saving benchmarks',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const tickers = comparison?.tickers ?? []
+  const candidate = newBenchmark.trim().toUpperCase()
+  const canAdd =
+    VALIDATION.TICKER.PATTERN.test(candidate) &&
+    !tickers.includes(candidate) &&
+    tickers.length < BENCHMARK_LIMITS.MAX_BENCHMARKS
+
+  const addBenchmark = () => {
+    if (canAdd) {
+      benchmarkMutation.mutate([...tickers, candidate])
+    }
+  }
+
+  const longRange = range === '1Y' || range === 'ALL'
+  // Cost basis plus cash, so the gap to the value line is the unrealized gain
+  const chartData = performance?.snapshots.map((point) => ({
+    ...point,
+    invested: point.costBasis + point.cashBalance,
+  }))
+  // Benchmarks are keyed by ticker so each gets its own line
+  const returnData = comparison?.series.map((point) => ({
+    date: point.date,
+    portfolio: point.portfolio,
+    ...point.benchmarks,
+  }))
+  const dateAxis = (
+    <XAxis
+      dataKey="date"
+      tickFormatter={(date: string) =>
+        formatDay(date, longRange ? { month: 'short', year: '2-digit' } : { month: 'short', day: 'numeric' })
+      }
+      tick={{ fontSize: 12, fill: '#64748b' }}
+      minTickGap={24}
+    />
+  )
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-slate-200/50">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-200/50">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <LineChartIcon className="h-5 w-5 text-navy-600" />
+            <h3 className="text-lg font-semibold text-slate-800">Performance</h3>
+            {performance && performance.snapshots.length > 1 && (
+              <span
+                className={cn(
+                  'ml-2 text-sm font-medium',
+                  performance.change >= 0 ? 'text-green-600' : 'text-red-600'
+                )}
+              >
+                {performance.change >= 0 ? '+' : ''}
+                {formatMoney(performance.change)} ({formatPercentage(performance.changePercent)})
+              </span>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex items-center gap-1 mr-2">
+              <Button
+                variant={mode === 'value' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setMode('value')}
+                className={mode === 'value' ? 'bg-navy-600 hover:bg-navy-700' : ''}
+              >
+                Value
+              </Button>
+              <Button
+                variant={mode === 'return' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setMode('return')}
+                className={mode === 'return' ? 'bg-navy-600 hover:bg-navy-700' : ''}
+              >
+                vs Benchmarks
+              </Button>
+            </div>
+            {PERFORMANCE_RANGES.map((option) => (
+              <Button
+                key={option}
+                variant={range === option ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setRange(option)}
+                className={range === option ? 'bg-navy-600 hover:bg-navy-700' : ''}
+              >
+                {PERFORMANCE_RANGE_LABELS[option]}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Chart */}
+      <div className="p-6">
+        {isLoading && <Skeleton className="h-72 w-full" />}
+
+        {!isLoading && (error || !performance) && (
+          <p className="h-72 flex items-center justify-center text-red-600">
+            Failed to load performance
+          </p>
+        )}
+
+        {performance && performance.snapshots.length === 0 && (
+          <p className="h-72 flex items-center justify-center text-sm text-slate-600">
+            Add assets or record a deposit to start tracking performance.
+          </p>
+        )}
+
+        {mode === 'value' && chartData && chartData.length > 0 && (
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+                {dateAxis}
+                <YAxis
+                  tickFormatter={(value: number) => formatLargeNumber(value)}
+                  tick={{ fontSize: 12, fill: '#64748b' }}
+                  width={70}
+                  domain={['auto', 'auto']}
+                />
+                <Tooltip
+                  content={({ active, payload }) => {
+                    if (active && payload && payload[0]) {
+                      const point = payload[0].payload as PerformanceData['snapshots'][number]
+                      return (
+                        <div className="bg-white/95 backdrop-blur-sm border border-slate-200 rounded-lg p-3 shadow-lg">
+                          <p className="font-semibold text-slate-800">
+                            {formatDay(point.date, { month: 'short', day: 'numeric', year: 'numeric' })}
+                          </p>
+                          <p className="text-sm text-slate-600">Value: {formatMoney(point.totalValue)}</p>
+                          <p className="text-sm text-slate-600">Cost: {formatMoney(point.costBasis)}</p>
+                          {point.cashBalance !== 0 && (
+                            <p className="text-sm text-slate-600">Cash: {formatMoney(point.cashBalance)}</p>
+                          )}
+                        </div>
+                      )
+                    }
+                    return null
+                  }}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="totalValue"
+                  name="Value"
+                  stroke={CHART_COLORS.PRIMARY}
+                  strokeWidth={2}
+                  dot={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="invested"
+                  name="Cost"
+                  stroke={CHART_COLORS.CASH}
+                  strokeWidth={1.5}
+                  strokeDasharray="4 4"
+                  dot={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {mode === 'return' && performance && performance.snapshots.length > 0 && (
+          <div className="space-y-4">
+            {/* Benchmarks */}
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-slate-600">Benchmarks:</span>
+              {tickers.map((ticker) => (
+                <span
+                  key={ticker}
+                  className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2.5 py-1 text-xs font-medium text-slate-700"
+                >
+                  {ticker}
+                  {tickers.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => benchmarkMutation.mutate(tickers.filter((t) => t !== ticker))}
+                      disabled={benchmarkMutation.isPending}
+                      className="text-slate-400 hover:text-red-600"
+                      aria-label={`Remove ${ticker}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </span>
+              ))}
+              {comparison && tickers.length < BENCHMARK_LIMITS.MAX_BENCHMARKS && (
+                <form
+                  className="flex items-center gap-1"
+                  onSubmit={(event) => {
+                    event.preventDefault()
+                    addBenchmark()
+                  }}
+                >
+                  <Input
+                    value={newBenchmark}
+                    onChange={(event) => setNewBenchmark(event.target.value)}
+                    placeholder="Add ticker"
+                    className="h-8 w-28"
+                    maxLength={8}
+                  />
+                  <Button type="submit" variant="outline" size="sm" disabled={!canAdd || benchmarkMutation.isPending}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </form>
+              )}
+            </div>
+
+            {comparisonLoading && <Skeleton className="h-72 w-full" />}
+
+            {returnData && returnData.length > 0 && (
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={returnData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+                    {dateAxis}
+                    <YAxis
+                      tickFormatter={(value: number) => formatPercentage(value, 0)}
+                      tick={{ fontSize: 12, fill: '#64748b' }}
+                      width={55}
+                      domain={['auto', 'auto']}
+                    />
+                    <Tooltip
+                      labelFormatter={(date) => formatDay(String(date), { month: 'short', day: 'numeric', year: 'numeric' })}
+                      formatter={(value) => formatSignedPercentage(typeof value === 'number' ? value : null)}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 12 }} />
+                    <Line
+                      type="monotone"
+                      dataKey="portfolio"
+                      name="Portfolio"
+                      stroke={CHART_COLORS.PRIMARY}
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                    {tickers.map((ticker, index) => (
+                      <Line
+                        key={ticker}
+                        type="monotone"
+                        dataKey={ticker}
+                        name={ticker}
+                        stroke={BENCHMARK_COLORS[index % BENCHMARK_COLORS.length]}
+                        strokeWidth={1.5}
+                        dot={false}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            {/* Returns by period */}
+            {comparison && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-slate-500">
+                      <th className="py-2 pr-4 text-left font-medium">Return</th>
+                      {comparison.periods.map((period) => (
+                        <th key={period.range} className="py-2 px-2 text-right font-medium">
+                          {PERFORMANCE_RANGE_LABELS[period.range]}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    <tr>
+                      <td className="py-2 pr-4 font-medium text-slate-800">Portfolio</td>
+                      {comparison.periods.map((period) => (
+                        <td key={period.range} className="py-2 px-2 text-right text-slate-800">
+                          {formatSignedPercentage(period.portfolio)}
+                        </td>
+                      ))}
+                    </tr>
+                    {tickers.map((ticker, index) => (
+                      <tr key={ticker}>
+                        <td className="py-2 pr-4 text-slate-700">{ticker}</td>
+                        {comparison.periods.map((period) => {
+                          const benchmark = period.benchmarks[index]
+                          const relative = benchmark?.relative ?? null
+                          return (
+                            <td key={period.range} className="py-2 px-2 text-right text-slate-700">
+                              {formatSignedPercentage(benchmark?.cumulativeReturn ?? null)}
+                              {relative !== null && (
+                                <span
+                                  className={cn(
+                                    'block text-xs',
+                                    relative >= 0 ? 'text-green-600' : 'text-red-600'
+                                  )}
+                                >
+                                  {formatSignedPercentage(relative)}
+                                </span>
+                              )}
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="mt-2 text-xs text-slate-500">
+                  Portfolio returns are time-weighted, so deposits and trades don&apos;t count as gains.
+                  Colored figures are the portfolio&apos;s return less the benchmark&apos;s.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </Card>
+  )
+}
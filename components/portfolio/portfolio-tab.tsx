@@ -1,9 +1,18 @@
 'use client'
 
 import { motion } from 'framer-motion'
-import { SummaryCards } from './summary-cards'
-import { PortfolioTable } from './portfolio-table'
+
 import { AllocationChart } from './allocation-chart'
+import { CashCard } from './cash-card'
+import { CorporateActionsCard } from './corporate-actions-card'
+import { CorrelationHeatmap } from './correlation-heatmap'
+import { OptionsCard } from './options-card'
+import { PerformanceChart } from './performance-chart'
+import { PortfolioTable } from './portfolio-table'
+import { RebalanceCard } from './rebalance-card'
+import { RiskCard } from './risk-card'
+import { SummaryCards } from './summary-cards'
+import { WashSalesCard } from './wash-sales-card'
 
 export function PortfolioTab() {
   return (
@@ -17,6 +26,15 @@ export function PortfolioTab() {
         <SummaryCards />
       </motion.div>
 
+      {/* Performance History */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.05 }}
+      >
+        <PerformanceChart />
+      </motion.div>
+
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
         {/* Portfolio Table - Takes 2/3 on large screens */}
@@ -29,16 +47,55 @@ export function PortfolioTab() {
           <PortfolioTable />
         </motion.div>
 
-        {/* Allocation Chart - Takes 1/3 on large screens */}
+        {/* Allocation Chart, Cash, Corporate Actions and Wash Sales - Take 1/3 on large screens */}
         <motion.div
-          className="xl:col-span-1"
+          className="xl:col-span-1 space-y-8"
           initial={{ opacity: 0, x: 20 }}
           animate={{ opacity: 1, x: 0 }}
           transition={{ duration: 0.5, delay: 0.2 }}
         >
           <AllocationChart />
+          <CashCard />
+          <CorporateActionsCard />
+          <WashSalesCard />
         </motion.div>
       </div>
+
+      {/* Options */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.22 }}
+      >
+        <OptionsCard />
+      </motion.div>
+
+      {/* Rebalancing */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.25 }}
+      >
+        <RebalanceCard />
+      </motion.div>
+
+      {/* Risk Analytics */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.3 }}
+      >
+        <RiskCard />
+      </motion.div>
+
+      {/* Correlation */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.35 }}
+      >
+        <CorrelationHeatmap />
+      </motion.div>
     </div>
   )
 }
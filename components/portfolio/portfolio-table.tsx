@@ -1,12 +1,28 @@
 'use client'
 
-import { useState } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { useSession } from 'next-auth/react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Card } from '@/components/ui/card'
-import { Button } from '@/components/ui/button'
+import { 
+  Plus, 
+  Trash2, 
+  TrendingUp, 
+  TrendingDown,
+  ArrowUpDown,
+  ArrowLeftRight,
+  Upload,
+  Tag,
+  Landmark,
+  Share2,
+  Archive,
+  Pencil,
+} from 'lucide-react'
+import { useSession } from 'next-auth/react'
+import { useState } from 'react'
+
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
 import { Skeleton } from '@/components/ui/skeleton'
 import {
   Table,
@@ -16,24 +32,32 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
-import { 
-  Plus, 
-  Trash2, 
-  TrendingUp, 
-  TrendingDown,
-  ArrowUpDown,
-} from 'lucide-react'
-import { formatCurrency, formatPercentage } from '@/lib/utils'
+import { ToastAction } from '@/components/ui/toast'
+import { invalidatePortfolioQueries } from '@/hooks/invalidate-portfolio-queries'
+import { useBaseCurrency } from '@/hooks/use-base-currency'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { useToast } from '@/hooks/use-toast'
+import { useUpdateAsset } from '@/hooks/use-update-asset'
+import { ASSET_CLASS_LABELS, TRASH_CONFIG, UNTAGGED_LABEL } from '@/lib/constants'
+import { cn, formatCurrency, formatPercentage } from '@/lib/utils'
 import { EnrichedAsset } from '@/types'
-import { AddAssetDialog } from './add-asset-dialog'
+
+import { AssetTagsDialog } from './asset-tags-dialog'
+import { AssetValuationsDialog } from './asset-valuations-dialog'
+import { CurrencySelect } from './currency-select'
 import { DeleteAssetDialog } from './delete-asset-dialog'
-import { useToast } from '@/hooks/use-toast'
+import { EditAssetDialog } from './edit-asset-dialog'
+import { ExportMenu } from './export-menu'
+import { ImportDialog } from './import-dialog'
+import { RecordTradeDialog } from './record-trade-dialog'
+import { ShareLinksDialog } from './share-links-dialog'
+import { TrashDialog } from './trash-dialog'
 
 type SortField = 'ticker' | 'shares' | 'avgPrice' | 'currentPrice' | 'totalValue' | 'profitLoss' | 'profitLossPercent'
 type SortDirection = 'asc' | 'desc'
 
-async function fetchPortfolio(): Promise<EnrichedAsset[]> {
-  const response = await fetch('/api/portfolio')
+async function fetchPortfolio(accountId: string): Promise<EnrichedAsset[]> {
+  const response = await fetch(`/api/portfolio?portfolioId=${accountId}`)
   if (!response.ok) {
     throw new Error('Failed to fetch portfolio')
   }
@@ -50,31 +74,81 @@ async function deleteAsset(id: string): Promise<void> {
   }
 }
 
+async function restoreAsset(id: string): Promise<void> {
+  const response = await fetch(`/api/portfolio/trash/${id}`, {
+    method: 'POST',
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || 'Failed to restore asset')
+  }
+}
+
 export function PortfolioTable() {
   const [sortField, setSortField] = useState<SortField>('totalValue')
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
-  const [showAddDialog, setShowAddDialog] = useState(false)
+  const [tradeDialog, setTradeDialog] = useState<{
+    open: boolean
+    ticker?: string
+    type?: 'BUY' | 'SELL'
+    assetClass?: EnrichedAsset['assetClass']
+    portfolioId?: string
+  }>({ open: false })
+  const [importOpen, setImportOpen] = useState(false)
+  const [shareOpen, setShareOpen] = useState(false)
+  const [trashOpen, setTrashOpen] = useState(false)
   const [deleteAssetState, setDeleteAssetState] = useState<EnrichedAsset | null>(null)
+  const [editAsset, setEditAsset] = useState<EnrichedAsset | null>(null)
+  const [tagsAsset, setTagsAsset] = useState<EnrichedAsset | null>(null)
+  const [valuationsAsset, setValuationsAsset] = useState<EnrichedAsset | null>(null)
+  const [tagFilter, setTagFilter] = useState<string | null>(null)
   
   const { data: session } = useSession()
+  const { accountId, accounts, currentAccount } = usePortfolioAccount()
+  const { baseCurrency, formatMoney } = useBaseCurrency()
   const { toast } = useToast()
   const queryClient = useQueryClient()
+  const updateMutation = useUpdateAsset()
 
   const { data: assets = [], isLoading, error } = useQuery({
-    queryKey: ['portfolio', session?.user?.id],
-    queryFn: fetchPortfolio,
+    queryKey: ['portfolio', session?.user?.id, accountId],
+    queryFn: () => fetchPortfolio(accountId),
     refetchInterval: 60000, // Refetch every minute
     enabled: !!session?.user?.id, // Only run when user is authenticated
   })
 
+  // Deleting or restoring a position changes every view of the portfolio
+  const invalidatePortfolio = () => invalidatePortfolioQueries(queryClient)
+
+  const restoreMutation = useMutation({
+    mutationFn: restoreAsset,
+    onSuccess: () => {
+      invalidatePortfolio()
+      toast({ title: 'Asset restored' })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error restoring asset',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
   const deleteMutation = useMutation({
     mutationFn: deleteAsset,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['portfolio'] })
-      queryClient.invalidateQueries({ queryKey: ['portfolio-summary'] })
+    onSuccess: (_data, id) => {
+      invalidatePortfolio()
       toast({
-        title: 'Asset deleted',
-        description: 'The asset has been removed from your portfolio.',
+        title: 'Asset moved to trash',
+        description: `You can restore it from the trash for ${TRASH_CONFIG.RETENTION_DAYS} days.`,
+        duration: TRASH_CONFIG.UNDO_DURATION_MS,
+        action: (
+          <ToastAction altText="Undo" onClick={() => restoreMutation.mutate(id)}>
+            Undo
+          </ToastAction>
+        ),
       })
       setDeleteAssetState(null)
     },
@@ -145,6 +219,16 @@ export function PortfolioTable() {
     return 0
   })
 
+  // Filter by tag; a filter on a tag no longer in use shows everything
+  const allTags = [...new Set(assets.flatMap((asset) => asset.tags))].sort()
+  const activeTag = tagFilter === UNTAGGED_LABEL || (tagFilter && allTags.includes(tagFilter)) ? tagFilter : null
+  const visibleAssets = sortedAssets.filter((asset) => {
+    if (activeTag === null) {
+      return true
+    }
+    return activeTag === UNTAGGED_LABEL ? asset.tags.length === 0 : asset.tags.includes(activeTag)
+  })
+
   if (error) {
     return (
       <Card className="p-8 text-center">
@@ -163,26 +247,65 @@ export function PortfolioTable() {
             <div>
               <h2 className="text-2xl font-bold text-slate-800">Portfolio Holdings</h2>
               <p className="text-slate-600 mt-1">
-                {assets.length} {assets.length === 1 ? 'asset' : 'assets'} • Updated just now
+                {assets.length} {assets.length === 1 ? 'asset' : 'assets'}
+                {currentAccount && ` in ${currentAccount.name}`}
+                {!currentAccount && accounts.length > 1 && ' across all accounts'}
+                {' '}• Updated just now
               </p>
             </div>
             
-            <Button 
-              onClick={() => setShowAddDialog(true)}
-              className="bg-navy-600 hover:bg-navy-700 text-white shadow-lg hover:shadow-xl transition-all duration-200"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Asset
-            </Button>
+            <div className="flex items-center gap-2">
+              <CurrencySelect />
+              <ExportMenu />
+              <Button variant="outline" onClick={() => setShareOpen(true)}>
+                <Share2 className="h-4 w-4 mr-2" />
+                Share
+              </Button>
+              <Button variant="outline" onClick={() => setTrashOpen(true)}>
+                <Archive className="h-4 w-4 mr-2" />
+                Trash
+              </Button>
+              <Button variant="outline" onClick={() => setImportOpen(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV
+              </Button>
+              <Button 
+                onClick={() => setTradeDialog({ open: true })}
+                className="bg-navy-600 hover:bg-navy-700 text-white shadow-lg hover:shadow-xl transition-all duration-200"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Record Trade
+              </Button>
+            </div>
           </div>
         </div>
 
+        {/* Tag filter */}
+        {allTags.length > 0 && (
+          <div className="px-6 py-3 border-b border-slate-200/50 flex flex-wrap items-center gap-2">
+            <Tag className="h-4 w-4 text-slate-500" />
+            {[null, ...allTags, UNTAGGED_LABEL].map((tag) => (
+              <Badge
+                key={tag ?? 'all'}
+                variant="outline"
+                onClick={() => setTagFilter(tag)}
+                className={cn(
+                  'cursor-pointer font-normal',
+                  activeTag === tag ? 'bg-navy-600 border-navy-600 text-white' : 'hover:bg-slate-100'
+                )}
+              >
+                {tag ?? 'All'}
+              </Badge>
+            ))}
+          </div>
+        )}
+
         {/* Table */}
         <div className="overflow-x-auto">
           {isLoading ? (
             <PortfolioTableSkeleton />
           ) : assets.length === 0 ? (
-            <EmptyPortfolio onAddAsset={() => setShowAddDialog(true)} />
+            <EmptyPortfolio onAddAsset={() => setTradeDialog({ open: true })} />
           ) : (
             <Table>
               <TableHeader>
@@ -248,7 +371,7 @@ export function PortfolioTable() {
               </TableHeader>
               <TableBody>
                 <AnimatePresence>
-                  {sortedAssets.map((asset, index) => (
+                  {visibleAssets.map((asset, index) => (
                     <motion.tr
                       key={asset.id}
                       initial={{ opacity: 0, y: 20 }}
@@ -265,14 +388,56 @@ export function PortfolioTable() {
                           <div>
                             <div className="font-semibold text-slate-800">{asset.ticker}</div>
                             <div className="text-sm text-slate-500">{asset.name || 'Unknown Company'}</div>
+                            {asset.assetClass !== 'EQUITY' && (
+                              <Badge variant="outline" className="mt-1 mr-1 text-xs font-normal">
+                                {ASSET_CLASS_LABELS[asset.assetClass]}
+                              </Badge>
+                            )}
+                            {!currentAccount && accounts.length > 1 && (
+                              <Badge variant="outline" className="mt-1 text-xs font-normal">
+                                {accounts.find((account) => account.id === asset.portfolioId)?.name}
+                              </Badge>
+                            )}
+                            {asset.tags.map((tag) => (
+                              <Badge key={tag} variant="secondary" className="mt-1 mr-1 text-xs font-normal">
+                                {tag}
+                              </Badge>
+                            ))}
+                            {(asset.disallowedLoss > 0 || asset.deferredLoss > 0) && (
+                              <Badge
+                                variant="outline"
+                                className="mt-1 ml-1 text-xs font-normal bg-amber-50 border-amber-200 text-amber-700"
+                                title={`Disallowed loss: ${formatCurrency(asset.disallowedLoss, { currency: asset.currency })} • Deferred into basis: ${formatCurrency(asset.deferredLoss, { currency: asset.currency })}`}
+                              >
+                                Wash sale
+                              </Badge>
+                            )}
                           </div>
                         </div>
                       </TableCell>
-                      <TableCell>{asset.shares.toLocaleString()}</TableCell>
-                      <TableCell>{formatCurrency(asset.avgPrice)}</TableCell>
+                      <TableCell>
+                        <EditableCell
+                          value={asset.openingPrice !== null ? asset.shares : null}
+                          title="Click to edit"
+                          onSave={(shares) => updateMutation.mutate({ id: asset.id, shares })}
+                        >
+                          {asset.shares.toLocaleString()}
+                        </EditableCell>
+                      </TableCell>
+                      {/* Prices are in the listing's currency, values in the base currency */}
+                      <TableCell>
+                        {/* Edits the price of the opening buy; the average adds fees on top */}
+                        <EditableCell
+                          value={asset.openingPrice}
+                          title="Click to edit the purchase price before fees"
+                          onSave={(avgPrice) => updateMutation.mutate({ id: asset.id, avgPrice })}
+                        >
+                          {formatCurrency(asset.avgPrice, { currency: asset.currency })}
+                        </EditableCell>
+                      </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
-                          {formatCurrency(asset.currentPrice)}
+                          {formatCurrency(asset.currentPrice, { currency: asset.currency })}
                           <Badge 
                             variant="outline"
                             className={`
@@ -287,7 +452,7 @@ export function PortfolioTable() {
                         </div>
                       </TableCell>
                       <TableCell className="font-semibold">
-                        {formatCurrency(asset.totalValue)}
+                        {formatMoney(asset.totalValue)}
                       </TableCell>
                       <TableCell>
                         <div className={`flex items-center gap-1 ${
@@ -298,8 +463,13 @@ export function PortfolioTable() {
                           ) : (
                             <TrendingDown className="h-4 w-4" />
                           )}
-                          {formatCurrency(asset.profitLoss)}
+                          {formatMoney(asset.profitLoss)}
                         </div>
+                        {asset.currency !== baseCurrency && (
+                          <div className="text-xs text-slate-500">
+                            Price {formatMoney(asset.priceProfitLoss)} • FX {formatMoney(asset.fxProfitLoss)}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
                         <Badge 
@@ -316,6 +486,50 @@ export function PortfolioTable() {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Record a trade"
+                            onClick={() => setTradeDialog({
+                              open: true,
+                              ticker: asset.ticker,
+                              type: 'SELL',
+                              assetClass: asset.assetClass,
+                              portfolioId: asset.portfolioId ?? undefined,
+                            })}
+                            className="text-navy-600 hover:text-navy-700 hover:bg-navy-50"
+                          >
+                            <ArrowLeftRight className="h-4 w-4" />
+                          </Button>
+                          {asset.assetClass === 'MANUAL' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Enter valuations"
+                              onClick={() => setValuationsAsset(asset)}
+                              className="text-slate-600 hover:text-slate-700 hover:bg-slate-100"
+                            >
+                              <Landmark className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Edit asset"
+                            onClick={() => setEditAsset(asset)}
+                            className="text-slate-600 hover:text-slate-700 hover:bg-slate-100"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Edit tags"
+                            onClick={() => setTagsAsset(asset)}
+                            className="text-slate-600 hover:text-slate-700 hover:bg-slate-100"
+                          >
+                            <Tag className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -336,11 +550,46 @@ export function PortfolioTable() {
       </Card>
 
       {/* Dialogs */}
-      <AddAssetDialog 
-        open={showAddDialog} 
-        onOpenChange={setShowAddDialog}
+      <RecordTradeDialog 
+        open={tradeDialog.open} 
+        onOpenChange={(open) => setTradeDialog((prev) => ({ ...prev, open }))}
+        defaultTicker={tradeDialog.ticker}
+        defaultType={tradeDialog.type}
+        defaultAssetClass={tradeDialog.assetClass}
+        portfolioId={tradeDialog.portfolioId}
       />
+
+      <ImportDialog open={importOpen} onOpenChange={setImportOpen} />
+
+      <ShareLinksDialog open={shareOpen} onOpenChange={setShareOpen} />
+
+      <TrashDialog open={trashOpen} onOpenChange={setTrashOpen} onRestored={invalidatePortfolio} />
+
+      {editAsset && (
+        <EditAssetDialog
+          key={editAsset.id}
+          asset={editAsset}
+          onClose={() => setEditAsset(null)}
+        />
+      )}
+
+      {tagsAsset && (
+        <AssetTagsDialog
+          key={tagsAsset.id}
+          asset={tagsAsset}
+          onClose={() => setTagsAsset(null)}
+          knownTags={allTags}
+        />
+      )}
       
+      {valuationsAsset && (
+        <AssetValuationsDialog
+          key={valuationsAsset.id}
+          asset={valuationsAsset}
+          onClose={() => setValuationsAsset(null)}
+        />
+      )}
+
       <DeleteAssetDialog
         asset={deleteAssetState}
         onClose={() => setDeleteAssetState(null)}
@@ -351,6 +600,66 @@ export function PortfolioTable() {
   )
 }
 
+interface EditableCellProps {
+  value: number | null // Null when the value cannot be edited here
+  title: string
+  onSave: (value: number) => void
+  children: React.ReactNode
+}
+
+/**
+ * Number that turns into an input on click. Enter or leaving the field
+ * saves a changed positive value; Escape cancels.
+ */
+function EditableCell({ value, title, onSave, children }: EditableCellProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  if (value === null) {
+    return <>{children}</>
+  }
+
+  if (draft === null) {
+    return (
+      <button
+        type="button"
+        title={title}
+        onClick={() => setDraft(String(value))}
+        className="rounded px-1 -mx-1 text-left hover:bg-slate-100 cursor-text"
+      >
+        {children}
+      </button>
+    )
+  }
+
+  const commit = () => {
+    const parsed = parseFloat(draft)
+    if (parsed > 0 && parsed !== value) {
+      onSave(parsed)
+    }
+    setDraft(null)
+  }
+
+  return (
+    <Input
+      type="number"
+      step="any"
+      min="0"
+      autoFocus
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          commit()
+        } else if (e.key === 'Escape') {
+          setDraft(null)
+        }
+      }}
+      className="h-8 w-28"
+    />
+  )
+}
+
 interface SortableHeaderProps {
   field: SortField
   currentField: SortField
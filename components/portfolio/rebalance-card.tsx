@@ -0,0 +1,262 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { Scale, Settings2, AlertTriangle } from 'lucide-react'
+import { useSession } from 'next-auth/react'
+import { useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useBaseCurrency } from '@/hooks/use-base-currency'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { REBALANCE_MODES, REBALANCE_MODE_LABELS, TARGET_KIND_LABELS } from '@/lib/constants'
+import { cn, formatPercentage } from '@/lib/utils'
+import { AllocationTargets, PortfolioSummary, RebalanceMode, RebalancePlan } from '@/types'
+
+import { TargetsDialog } from './targets-dialog'
+
+async function fetchTargets(): Promise<AllocationTargets> {
+  const response = await fetch('/api/portfolio/targets')
+  if (!response.ok) {
+    throw new Error('Failed to fetch targets')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+async function fetchRebalancePlan(
+  accountId: string,
+  mode: RebalanceMode,
+  contribution: number
+): Promise<RebalancePlan> {
+  const response = await fetch(
+    `/api/portfolio/rebalance?mode=${mode}&contribution=${contribution}&portfolioId=${accountId}`
+  )
+  if (!response.ok) {
+    throw new Error('Failed to fetch rebalancing plan')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+async function fetchPortfolioSummary(accountId: string): Promise<PortfolioSummary> {
+  const response = await fetch(`/api/portfolio/summary?portfolioId=${accountId}`)
+  if (!response.ok) {
+    throw new Error('Failed to fetch portfolio summary')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+function formatShares(shares: number) {
+  return shares.toLocaleString('en-US', { maximumFractionDigits: 2 })
+}
+
+export function RebalanceCard() {
+  const [mode, setMode] = useState<RebalanceMode>('FULL')
+  const [contribution, setContribution] = useState(0)
+  const [contributionInput, setContributionInput] = useState('')
+  const [editing, setEditing] = useState(false)
+  const { data: session } = useSession()
+  const { accountId } = usePortfolioAccount()
+  const { formatMoney } = useBaseCurrency()
+
+  const { data: targets, isLoading: targetsLoading } = useQuery({
+    queryKey: ['allocation-targets', session?.user?.id],
+    queryFn: fetchTargets,
+    enabled: !!session?.user?.id, // Only run when user is authenticated
+  })
+
+  const hasTargets = !!targets && targets.targets.length > 0
+
+  const { data: plan, isLoading: planLoading, error } = useQuery({
+    queryKey: ['rebalance', session?.user?.id, accountId, mode, contribution],
+    queryFn: () => fetchRebalancePlan(accountId, mode, contribution),
+    enabled: !!session?.user?.id && hasTargets,
+  })
+
+  // Shares the summary cache with the other portfolio cards
+  const { data: summary } = useQuery({
+    queryKey: ['portfolio-summary', session?.user?.id, accountId],
+    queryFn: () => fetchPortfolioSummary(accountId),
+    enabled: !!session?.user?.id && editing,
+  })
+
+  const suggestions = targets?.kind === 'SECTOR'
+    ? summary?.allocation.map((slice) => slice.sector) ?? []
+    : summary?.allocationByAsset.map((slice) => slice.name) ?? []
+
+  const handleContribution = (e: React.FormEvent) => {
+    e.preventDefault()
+    const amount = parseFloat(contributionInput)
+    setContribution(Number.isFinite(amount) && amount > 0 ? amount : 0)
+  }
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-slate-200/50">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-200/50">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Scale className="h-5 w-5 text-navy-600" />
+            <h3 className="text-lg font-semibold text-slate-800">Rebalancing</h3>
+            {hasTargets && (
+              <span className="text-sm text-slate-500">{TARGET_KIND_LABELS[targets.kind]}</span>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {REBALANCE_MODES.map((option) => (
+              <Button
+                key={option}
+                variant={mode === option ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setMode(option)}
+                className={mode === option ? 'bg-navy-600 hover:bg-navy-700' : ''}
+              >
+                {REBALANCE_MODE_LABELS[option]}
+              </Button>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setEditing(true)} disabled={!targets}>
+              <Settings2 className="h-4 w-4 mr-1" />
+              Edit Targets
+            </Button>
+          </div>
+        </div>
+
+        <form onSubmit={handleContribution} className="mt-4 flex items-center gap-2">
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder="New money to invest"
+            value={contributionInput}
+            onChange={(e) => setContributionInput(e.target.value)}
+            className="w-48"
+          />
+          <Button type="submit" variant="outline" size="sm">
+            Plan
+          </Button>
+        </form>
+      </div>
+
+      <div className="p-6">
+        {(targetsLoading || (hasTargets && planLoading)) && <Skeleton className="h-48 w-full" />}
+
+        {!targetsLoading && targets && !hasTargets && (
+          <div className="py-6 text-center">
+            <p className="text-sm text-slate-600">
+              Set target weights by ticker, sector or custom bucket to see how far the portfolio has drifted
+              and which trades bring it back.
+            </p>
+            <Button className="mt-4 bg-navy-600 hover:bg-navy-700" size="sm" onClick={() => setEditing(true)}>
+              Set Targets
+            </Button>
+          </div>
+        )}
+
+        {hasTargets && !planLoading && (error || !plan) && (
+          <p className="h-48 flex items-center justify-center text-red-600">
+            Failed to load rebalancing plan
+          </p>
+        )}
+
+        {hasTargets && plan && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Drift */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 text-left text-slate-600">
+                    <th className="py-2 font-medium">Target</th>
+                    <th className="py-2 font-medium text-right">Target</th>
+                    <th className="py-2 font-medium text-right">Current</th>
+                    <th className="py-2 font-medium text-right">Drift</th>
+                    <th className="py-2 font-medium text-right">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.drift.map((row) => (
+                    <tr key={row.key} className="border-b border-slate-100">
+                      <td className="py-2 font-medium text-slate-800">
+                        <span className="flex items-center gap-1">
+                          {row.key}
+                          {row.outOfBand && <AlertTriangle className="h-3 w-3 text-amber-600" />}
+                        </span>
+                      </td>
+                      <td className="py-2 text-right text-slate-600">
+                        {formatPercentage(row.targetWeight, 1)} ± {formatPercentage(row.band, 1)}
+                      </td>
+                      <td className="py-2 text-right text-slate-800">{formatPercentage(row.currentWeight, 1)}</td>
+                      <td
+                        className={cn(
+                          'py-2 text-right',
+                          row.outOfBand ? 'font-medium text-amber-600' : 'text-slate-600'
+                        )}
+                      >
+                        {row.drift > 0 ? '+' : ''}
+                        {formatPercentage(row.drift, 1)}
+                      </td>
+                      <td className="py-2 text-right text-slate-600">{formatPercentage(row.projectedWeight, 1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Trades */}
+            <div className="space-y-3">
+              <p className="text-sm font-medium text-slate-600">Suggested Trades</p>
+              {plan.trades.length === 0 && (
+                <p className="text-sm text-slate-500">
+                  {plan.drift.some((row) => row.outOfBand)
+                    ? 'No whole-share trades can bring the portfolio closer to its targets.'
+                    : 'Every target is within its band. No trades needed.'}
+                </p>
+              )}
+              {plan.trades.map((trade) => (
+                <div
+                  key={`${trade.action}-${trade.ticker}`}
+                  className="flex items-center justify-between rounded-lg bg-slate-50 px-3 py-2 text-sm"
+                >
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={cn(
+                        'rounded px-2 py-0.5 text-xs font-semibold',
+                        trade.action === 'BUY' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                      )}
+                    >
+                      {trade.action}
+                    </span>
+                    <span className="text-slate-800">
+                      {formatShares(trade.shares)} {trade.ticker}
+                    </span>
+                    <span className="text-xs text-slate-500">@ {formatMoney(trade.price)}</span>
+                  </div>
+                  <span className="font-medium text-slate-800">{formatMoney(trade.amount)}</span>
+                </div>
+              ))}
+              {plan.unplaced.map((item) => (
+                <p key={item.group} className="flex items-center gap-1 text-xs text-amber-700">
+                  <AlertTriangle className="h-3 w-3" />
+                  {formatMoney(item.amount)} for {item.group} has no ticker to buy. Add one to the target.
+                </p>
+              ))}
+              <p className="pt-2 text-xs text-slate-500">
+                Cash {formatMoney(plan.cashBefore)} → {formatMoney(plan.cashAfter)}
+                {plan.contribution > 0 && ` including ${formatMoney(plan.contribution)} new money`}
+                {plan.fractionalShares ? ', fractional shares allowed' : ', whole shares only'}
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {editing && targets && (
+        <TargetsDialog open={editing} onOpenChange={setEditing} targets={targets} suggestions={suggestions} />
+      )}
+    </Card>
+  )
+}
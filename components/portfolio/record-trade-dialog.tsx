@@ -0,0 +1,906 @@
+'use client'
+
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { motion } from 'framer-motion'
+import { Loader2, Calendar as CalendarIcon, DollarSign, Hash, FileText, ArrowLeftRight, Split, Layers, Wallet, Coins, Receipt, Shapes } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { z } from 'zod'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { TickerSearch } from '@/components/ui/ticker-search'
+import { invalidatePortfolioQueries } from '@/hooks/invalidate-portfolio-queries'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { useToast } from '@/hooks/use-toast'
+import {
+  ASSET_CLASSES,
+  ASSET_CLASS_LABELS,
+  ASSET_SYMBOL_RULES,
+  CLASSIFIED_ASSET_CLASSES,
+  CURRENCIES,
+  CURRENCY_LABELS,
+  LOT_METHODS,
+  LOT_METHOD_LABELS,
+  TRANSACTION_TYPES,
+  TRANSACTION_TYPE_LABELS,
+  VALIDATION,
+} from '@/lib/constants'
+import { cn, formatCurrency } from '@/lib/utils'
+import { PortfolioLotReport } from '@/types'
+
+type TradeType = (typeof TRANSACTION_TYPES)[number]
+
+type AssetClass = (typeof ASSET_CLASSES)[number]
+
+// Sentinel for "use the account's default lot method"
+const DEFAULT_LOT_METHOD = 'DEFAULT'
+
+// Sentinel for "use the currency the stock is listed in"
+const LISTING_CURRENCY = 'LISTING'
+
+const recordTradeSchema = z.object({
+  type: z.enum(TRANSACTION_TYPES),
+  assetClass: z.enum(ASSET_CLASSES),
+  ticker: z.string()
+    .min(1, 'Ticker is required')
+    .max(VALIDATION.SYMBOL.MAX_LENGTH, `Ticker must be ${VALIDATION.SYMBOL.MAX_LENGTH} characters or less`),
+  shares: z.number()
+    .min(0, 'Shares cannot be negative'),
+  price: z.number()
+    .min(0, 'Price cannot be negative'),
+  fees: z.number()
+    .min(0, 'Fees cannot be negative')
+    .max(1000000, 'Fees cannot exceed $1,000,000'),
+  ratio: z.number().min(0, 'Ratio cannot be negative'),
+  lotMethod: z.enum([DEFAULT_LOT_METHOD, ...LOT_METHODS]),
+  currency: z.enum([LISTING_CURRENCY, ...CURRENCIES]),
+  lots: z.record(z.number().min(0, 'Shares cannot be negative')),
+  date: z.date().optional(),
+  notes: z.string().max(500, 'Notes cannot exceed 500 characters').optional(),
+  portfolioId: z.string().optional(),
+  settleCash: z.boolean(),
+}).superRefine((data, ctx) => {
+  const symbolRule = ASSET_SYMBOL_RULES[data.assetClass]
+  if (!symbolRule.PATTERN.test(data.ticker.toUpperCase())) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['ticker'], message: symbolRule.MESSAGE })
+  }
+  if (data.type === 'SPLIT') {
+    if (data.ratio <= 0 || data.ratio === 1) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['ratio'], message: 'Enter a split ratio such as 2 or 0.5' })
+    }
+    return
+  }
+  // Crypto is traded in fractions of a coin at fractions of a cent
+  const limits = data.assetClass === 'CRYPTO'
+    ? { shares: VALIDATION.CRYPTO_UNITS, price: VALIDATION.CRYPTO_PRICE }
+    : { shares: VALIDATION.SHARES, price: VALIDATION.PRICE }
+  if (data.shares < limits.shares.MIN || data.shares > limits.shares.MAX) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['shares'], message: limits.shares.MESSAGE })
+  }
+  if (data.price < limits.price.MIN || data.price > limits.price.MAX) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['price'], message: limits.price.MESSAGE })
+  }
+  if (isDisposal(data.type) && data.lotMethod === 'SPECIFIC') {
+    const selected = Object.values(data.lots).reduce((sum, shares) => sum + shares, 0)
+    if (Math.abs(selected - data.shares) > 1e-9) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['lots'], message: `Selected lots cover ${selected} of ${data.shares} shares` })
+    }
+  }
+})
+
+type RecordTradeFormData = z.infer<typeof recordTradeSchema>
+
+// Trades that carry commissions and fees
+function hasFees(type: TradeType) {
+  return type === 'BUY' || type === 'SELL'
+}
+
+function isDisposal(type: TradeType) {
+  return type === 'SELL' || type === 'TRANSFER_OUT'
+}
+
+// Trades that can open a position, and so set its currency
+function isAcquisition(type: TradeType) {
+  return type === 'BUY' || type === 'TRANSFER_IN'
+}
+
+// Whether the ticker search knows an asset class's listings
+function isListed(assetClass: AssetClass) {
+  return (CLASSIFIED_ASSET_CLASSES as readonly string[]).includes(assetClass)
+}
+
+const SYMBOL_FIELDS: Record<AssetClass, { label: string; placeholder: string }> = {
+  EQUITY: { label: 'Stock Ticker', placeholder: 'e.g., AAPL' },
+  ETF: { label: 'Fund Ticker', placeholder: 'e.g., VTI' },
+  CRYPTO: { label: 'Crypto Symbol', placeholder: 'e.g., BTC' },
+  BOND: { label: 'CUSIP or Ticker', placeholder: 'e.g., 912828YK0' },
+  CASH_EQUIVALENT: { label: 'Fund Ticker', placeholder: 'e.g., SGOV' },
+  MANUAL: { label: 'Asset Name', placeholder: 'e.g., HOUSE' },
+}
+
+const PRICE_LABELS: Record<TradeType, string> = {
+  BUY: 'Price per Share',
+  SELL: 'Sale Price',
+  SPLIT: 'Price',
+  TRANSFER_IN: 'Cost Basis per Share',
+  TRANSFER_OUT: 'Cost Basis per Share',
+}
+
+interface RecordTradeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  defaultTicker?: string
+  defaultType?: TradeType
+  /** Asset class of the position traded; defaults to a stock */
+  defaultAssetClass?: AssetClass
+  /** Account the trade goes to; defaults to the selected account */
+  portfolioId?: string
+}
+
+async function fetchLots(ticker: string, portfolioId?: string): Promise<PortfolioLotReport> {
+  const params = new URLSearchParams({ ticker })
+  if (portfolioId) {
+    params.set('portfolioId', portfolioId)
+  }
+  const response = await fetch(`/api/portfolio/lots?${params}`)
+  if (!response.ok) {
+    throw new Error('Failed to fetch tax lots')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+async function recordTrade(data: RecordTradeFormData) {
+  const isSplit = data.type === 'SPLIT'
+  const lotMethod = isDisposal(data.type) && data.lotMethod !== DEFAULT_LOT_METHOD
+    ? data.lotMethod
+    : undefined
+  const response = await fetch('/api/portfolio/transactions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      type: data.type,
+      ticker: data.ticker.toUpperCase(),
+      assetClass: data.assetClass,
+      shares: isSplit ? undefined : data.shares,
+      price: isSplit ? undefined : data.price,
+      fees: hasFees(data.type) && data.fees > 0 ? data.fees : undefined,
+      ratio: isSplit ? data.ratio : undefined,
+      lotMethod,
+      currency: isAcquisition(data.type) && data.currency !== LISTING_CURRENCY ? data.currency : undefined,
+      lots: lotMethod === 'SPECIFIC'
+        ? Object.entries(data.lots)
+          .filter(([, shares]) => shares > 0)
+          .map(([lotId, shares]) => ({ lotId, shares }))
+        : undefined,
+      date: data.date?.toISOString(),
+      notes: data.notes || undefined,
+      portfolioId: data.portfolioId,
+      settleCash: data.settleCash,
+    }),
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.message || error.details || 'Failed to record trade')
+  }
+
+  return response.json()
+}
+
+export function RecordTradeDialog({
+  open,
+  onOpenChange,
+  defaultTicker,
+  defaultType = 'BUY',
+  defaultAssetClass = 'EQUITY',
+  portfolioId,
+}: RecordTradeDialogProps) {
+  const [tickerValidation, setTickerValidation] = useState<{
+    isValid: boolean
+    companyName?: string
+    currentPrice?: number
+  } | null>(null)
+
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const { accounts, targetAccount } = usePortfolioAccount()
+  const defaultPortfolioId = portfolioId ?? targetAccount?.id
+
+  const form = useForm<RecordTradeFormData>({
+    resolver: zodResolver(recordTradeSchema),
+    defaultValues: {
+      type: defaultType,
+      assetClass: defaultAssetClass,
+      ticker: defaultTicker ?? '',
+      shares: 0,
+      price: 0,
+      fees: 0,
+      ratio: 2,
+      lotMethod: DEFAULT_LOT_METHOD,
+      currency: LISTING_CURRENCY,
+      lots: {},
+      notes: '',
+      portfolioId: defaultPortfolioId,
+      settleCash: true,
+    },
+  })
+
+  // Re-seed the form when opened for a specific position (e.g. "Sell" on a row)
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        type: defaultType,
+        assetClass: defaultAssetClass,
+        ticker: defaultTicker ?? '',
+        shares: 0,
+        price: 0,
+        fees: 0,
+        ratio: 2,
+        currency: LISTING_CURRENCY,
+        notes: '',
+        portfolioId: defaultPortfolioId,
+        settleCash: true,
+      })
+      setTickerValidation(defaultTicker ? { isValid: true } : null)
+    }
+  }, [open, defaultTicker, defaultType, defaultAssetClass, defaultPortfolioId, form])
+
+  const recordTradeMutation = useMutation({
+    mutationFn: recordTrade,
+    onSuccess: (_data, variables) => {
+      invalidatePortfolioQueries(queryClient)
+      toast({
+        title: 'Trade recorded',
+        description: `${TRANSACTION_TYPE_LABELS[variables.type]} of ${variables.ticker} added to your ledger.`,
+      })
+      onOpenChange(false)
+      form.reset()
+      setTickerValidation(null)
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error recording trade',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const validateTicker = async (ticker: string) => {
+    // Only listed stocks and funds can be looked up
+    if (!ticker || ticker.length < 1 || !isListed(form.getValues('assetClass'))) {
+      setTickerValidation(null)
+      return
+    }
+
+    try {
+      // Use the search API instead which is simpler and doesn't require complex auth
+      const response = await fetch(`/api/search/tickers?q=${ticker.toUpperCase()}`)
+      if (response.ok) {
+        const data = await response.json()
+        const stock = data.data.find((s: any) => s.ticker === ticker.toUpperCase())
+
+        if (stock) {
+          setTickerValidation({
+            isValid: true,
+            companyName: stock.name,
+            currentPrice: stock.price || 0,
+          })
+
+          // Auto-fill current price if not set
+          if (!form.getValues('price') && stock.price) {
+            form.setValue('price', stock.price)
+          }
+        } else {
+          setTickerValidation({ isValid: false })
+        }
+      } else {
+        setTickerValidation({ isValid: false })
+      }
+    } catch (error) {
+      setTickerValidation({ isValid: false })
+    }
+  }
+
+  const onSubmit = (data: RecordTradeFormData) => {
+    recordTradeMutation.mutate(data)
+  }
+
+  const tradeType = form.watch('type')
+  const assetClass = form.watch('assetClass')
+  const unitStep = assetClass === 'CRYPTO' ? 'any' : '0.01'
+  const isSplit = tradeType === 'SPLIT'
+  // Fees add to the cost of a buy and come out of a sale's proceeds
+  const fees = hasFees(tradeType) ? form.watch('fees') : 0
+  const totalAmount = form.watch('shares') * form.watch('price') + (tradeType === 'SELL' ? -fees : fees)
+  const ticker = form.watch('ticker')
+  const lotMethod = form.watch('lotMethod')
+  const tradePortfolioId = form.watch('portfolioId')
+  const pickLots = isDisposal(tradeType) && lotMethod === 'SPECIFIC' && !!ticker
+
+  const { data: lotReport, isLoading: lotsLoading } = useQuery({
+    queryKey: ['tax-lots', ticker, tradePortfolioId],
+    queryFn: () => fetchLots(ticker, tradePortfolioId),
+    enabled: open && pickLots,
+  })
+  const openLots = lotReport?.positions[0]?.openLots ?? []
+  const lotCurrency = lotReport?.positions[0]?.currency
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] bg-white/95 backdrop-blur-sm">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold text-slate-800">
+            Record Trade
+          </DialogTitle>
+          <DialogDescription className="text-slate-600">
+            Log a buy, sell, split or transfer. Your positions are calculated from this history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            {/* Account (only when there is more than one) */}
+            {accounts.length > 1 && (
+              <FormField
+                control={form.control}
+                name="portfolioId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="flex items-center gap-2">
+                      <Wallet className="h-4 w-4" />
+                      Account
+                    </FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select an account" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* Trade Type and Ticker Row */}
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="flex items-center gap-2">
+                      <ArrowLeftRight className="h-4 w-4" />
+                      Trade Type
+                    </FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {TRANSACTION_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {TRANSACTION_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="ticker"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="flex items-center gap-2">
+                      <Hash className="h-4 w-4" />
+                      {SYMBOL_FIELDS[assetClass].label}
+                    </FormLabel>
+                    <FormControl>
+                      <TickerSearch
+                        value={field.value}
+                        onChange={(value) => {
+                          field.onChange(value)
+                          validateTicker(value)
+                        }}
+                        onSelect={(suggestion) => {
+                          field.onChange(suggestion.ticker)
+                          validateTicker(suggestion.ticker)
+                          // Auto-fill current price if available
+                          if (suggestion.price && !form.getValues('price')) {
+                            form.setValue('price', suggestion.price)
+                          }
+                        }}
+                        placeholder={SYMBOL_FIELDS[assetClass].placeholder}
+                        disabled={recordTradeMutation.isPending}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Asset Class */}
+            <FormField
+              control={form.control}
+              name="assetClass"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center gap-2">
+                    <Shapes className="h-4 w-4" />
+                    Asset Class
+                  </FormLabel>
+                  <Select
+                    value={field.value}
+                    onValueChange={(value) => {
+                      field.onChange(value)
+                      setTickerValidation(null)
+                    }}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {ASSET_CLASSES.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {ASSET_CLASS_LABELS[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {assetClass === 'MANUAL' && (
+                    <FormDescription>
+                      Valued at the prices you enter, starting with this trade&apos;s.
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Ticker Validation Feedback */}
+            {tickerValidation && (
+              <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+              >
+                {tickerValidation.isValid ? (
+                  <div className="flex items-center gap-2">
+                    <Badge className="bg-green-100 text-green-700 border-green-200">
+                      ✓ Valid Ticker
+                    </Badge>
+                    {tickerValidation.companyName && (
+                      <span className="text-sm text-slate-600">
+                        {tickerValidation.companyName}
+                      </span>
+                    )}
+                  </div>
+                ) : (
+                  <Badge variant="destructive">
+                    ✗ Invalid Ticker
+                  </Badge>
+                )}
+              </motion.div>
+            )}
+
+            {isSplit ? (
+              <FormField
+                control={form.control}
+                name="ratio"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="flex items-center gap-2">
+                      <Split className="h-4 w-4" />
+                      Split Ratio
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="any"
+                        min="0"
+                        placeholder="2"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      New shares per old share: 2 for a 2-for-1 split, 0.1 for a 1-for-10 reverse split.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <>
+                {/* Shares and Price Row */}
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="shares"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2">
+                          <Hash className="h-4 w-4" />
+                          Shares
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step={unitStep}
+                            min="0"
+                            placeholder="10"
+                            {...field}
+                            onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="price"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2">
+                          <DollarSign className="h-4 w-4" />
+                          {PRICE_LABELS[tradeType]}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step={unitStep}
+                            min="0"
+                            placeholder="150.00"
+                            {...field}
+                            onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Fees (buys and sells) */}
+                {hasFees(tradeType) && (
+                  <FormField
+                    control={form.control}
+                    name="fees"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2">
+                          <Receipt className="h-4 w-4" />
+                          Fees
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            placeholder="0.00"
+                            {...field}
+                            onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Commissions and other charges, e.g. ADR fees. Added to the cost basis of a buy and deducted from a sale&apos;s proceeds.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {/* Total Amount Display */}
+                {totalAmount > 0 && (
+                  <motion.div
+                    initial={{ opacity: 0, scale: 0.95 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    className="p-4 bg-slate-50 rounded-xl border border-slate-200"
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-slate-600">
+                        {tradeType === 'SELL' ? 'Total Proceeds:' : 'Total Amount:'}
+                      </span>
+                      <span className="text-lg font-bold text-slate-800">
+                        ${totalAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      </span>
+                    </div>
+                  </motion.div>
+                )}
+              </>
+            )}
+
+            {/* Currency (buys and transfers in) */}
+            {isAcquisition(tradeType) && (
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="flex items-center gap-2">
+                      <Coins className="h-4 w-4" />
+                      Currency
+                    </FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={LISTING_CURRENCY}>Listing currency</SelectItem>
+                        {CURRENCIES.map((currency) => (
+                          <SelectItem key={currency} value={currency}>
+                            {currency} - {CURRENCY_LABELS[currency]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      The price is in this currency. Positions already held keep theirs.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* Lot Selection (sales and transfers out) */}
+            {isDisposal(tradeType) && (
+              <FormField
+                control={form.control}
+                name="lotMethod"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="flex items-center gap-2">
+                      <Layers className="h-4 w-4" />
+                      Lots to Dispose
+                    </FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_LOT_METHOD}>Account default</SelectItem>
+                        {LOT_METHODS.map((method) => (
+                          <SelectItem key={method} value={method}>
+                            {LOT_METHOD_LABELS[method]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {pickLots && (
+              <FormField
+                control={form.control}
+                name="lots"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="space-y-2 rounded-xl border border-slate-200 p-3">
+                      {lotsLoading && (
+                        <div className="flex items-center gap-2 text-sm text-slate-500">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Loading lots...
+                        </div>
+                      )}
+                      {!lotsLoading && openLots.length === 0 && (
+                        <p className="text-sm text-slate-500">No open lots for {ticker}.</p>
+                      )}
+                      {!lotsLoading &&
+                        openLots.map((lot) => (
+                          <div key={lot.id} className="grid grid-cols-[1fr_auto] items-center gap-3">
+                            <div className="text-sm">
+                              <div className="font-medium text-slate-800">
+                                {format(new Date(lot.acquiredAt), 'MMM d, yyyy')}
+                                <Badge variant="outline" className="ml-2 text-xs">
+                                  {lot.term === 'LONG' ? 'Long-term' : 'Short-term'}
+                                </Badge>
+                              </div>
+                              <div className="text-slate-500">
+                                {lot.remainingShares} shares @ {formatCurrency(lot.costPerShare, { currency: lotCurrency })}
+                              </div>
+                            </div>
+                            <Input
+                              type="number"
+                              step="any"
+                              min="0"
+                              max={lot.remainingShares}
+                              className="w-28"
+                              value={field.value[lot.id] ?? ''}
+                              onChange={(e) =>
+                                field.onChange({ ...field.value, [lot.id]: parseFloat(e.target.value) || 0 })
+                              }
+                            />
+                          </div>
+                        ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* Trade Date */}
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel className="flex items-center gap-2">
+                    <CalendarIcon className="h-4 w-4" />
+                    Trade Date (Optional)
+                  </FormLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant="outline"
+                          className={cn(
+                            "w-full pl-3 text-left font-normal",
+                            !field.value && "text-muted-foreground"
+                          )}
+                        >
+                          {field.value ? (
+                            format(field.value, "PPP")
+                          ) : (
+                            <span>Today</span>
+                          )}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={field.value}
+                        onSelect={field.onChange}
+                        disabled={(date) =>
+                          date > new Date() || date < new Date("1900-01-01")
+                        }
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Cash settlement (buys and sells only) */}
+            {(tradeType === 'BUY' || tradeType === 'SELL') && (
+              <FormField
+                control={form.control}
+                name="settleCash"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <input
+                        type="checkbox"
+                        checked={field.value}
+                        onChange={(e) => field.onChange(e.target.checked)}
+                        className="h-4 w-4 rounded border-slate-300 accent-navy-600"
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">
+                      {tradeType === 'BUY'
+                        ? 'Pay from the account\'s cash'
+                        : 'Credit proceeds to the account\'s cash'}
+                    </FormLabel>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* Notes */}
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center gap-2">
+                    <FileText className="h-4 w-4" />
+                    Notes (Optional)
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Add any notes about this trade..."
+                      className="resize-none"
+                      rows={3}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    {field.value?.length || 0}/500 characters
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={recordTradeMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={recordTradeMutation.isPending || !tickerValidation?.isValid}
+                className="bg-navy-600 hover:bg-navy-700"
+              >
+                {recordTradeMutation.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Record {TRANSACTION_TYPE_LABELS[tradeType]}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,286 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { ShieldAlert } from 'lucide-react'
+import { useSession } from 'next-auth/react'
+import { useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useBaseCurrency } from '@/hooks/use-base-currency'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { useToast } from '@/hooks/use-toast'
+import { RISK_CONFIG } from '@/lib/constants'
+import { cn, formatPercentage } from '@/lib/utils'
+import { PortfolioSettings, RiskMetrics, RiskReport } from '@/types'
+
+async function fetchRisk(accountId: string, benchmark?: string): Promise<RiskReport> {
+  const params = new URLSearchParams({ portfolioId: accountId })
+  if (benchmark) {
+    params.set('benchmark', benchmark)
+  }
+  const response = await fetch(`/api/portfolio/risk?${params}`)
+  if (!response.ok) {
+    throw new Error('Failed to fetch risk metrics')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+async function fetchSettings(): Promise<PortfolioSettings> {
+  const response = await fetch('/api/portfolio/settings')
+  if (!response.ok) {
+    throw new Error('Failed to fetch settings')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+async function saveRiskFreeRate(riskFreeRate: number) {
+  const response = await fetch('/api/portfolio/settings', {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ riskFreeRate }),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.details || 'Failed to save risk-free rate')
+  }
+  return data.data
+}
+
+function formatRatio(value: number | null) {
+  return value === null ? '—' : value.toFixed(2)
+}
+
+function formatFraction(value: number | null) {
+  return value === null ? '—' : formatPercentage(value)
+}
+
+export function RiskCard() {
+  const [benchmark, setBenchmark] = useState<string>()
+  const [rateInput, setRateInput] = useState<string>()
+  const { data: session } = useSession()
+  const { accountId } = usePortfolioAccount()
+  const { formatMoney } = useBaseCurrency()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: settings } = useQuery({
+    queryKey: ['portfolio-settings', session?.user?.id],
+    queryFn: fetchSettings,
+    enabled: !!session?.user?.id, // Only run when user is authenticated
+  })
+
+  const { data: risk, isLoading, error } = useQuery({
+    queryKey: ['portfolio-risk', session?.user?.id, accountId, benchmark],
+    queryFn: () => fetchRisk(accountId, benchmark),
+    enabled: !!session?.user?.id,
+  })
+
+  const rateMutation = useMutation({
+    mutationFn: saveRiskFreeRate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portfolio-risk'] })
+      queryClient.invalidateQueries({ queryKey: ['portfolio-settings'] })
+      setRateInput(undefined)
+      toast({ title: 'Risk-free rate saved' })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error saving risk-free rate',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  // The input holds a percentage; the setting is a fraction
+  const savedRate = risk ? (risk.riskFreeRate * 100).toFixed(2) : ''
+  const rate = rateInput ?? savedRate
+  const submitRate = () => {
+    const value = Number(rate)
+    if (rate !== savedRate && Number.isFinite(value)) {
+      rateMutation.mutate(value / 100)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Card className="p-6 bg-white/80 backdrop-blur-sm border-slate-200/50">
+        <Skeleton className="h-6 w-32 mb-6" />
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+          {[...Array(6)].map((_, i) => (
+            <Skeleton key={i} className="h-16 w-full" />
+          ))}
+        </div>
+      </Card>
+    )
+  }
+
+  if (error || !risk) {
+    return (
+      <Card className="p-6 bg-red-50 border-red-200">
+        <p className="text-red-600 text-center">Failed to load risk metrics</p>
+      </Card>
+    )
+  }
+
+  const { portfolio } = risk
+  const confidence = formatPercentage(risk.confidence, 0)
+  const metrics: Array<{ label: string; value: string; hint?: string; negative?: boolean }> = [
+    { label: 'Volatility', value: formatFraction(portfolio.volatility), hint: 'Annualized' },
+    { label: `Beta vs ${risk.benchmark}`, value: formatRatio(portfolio.beta) },
+    { label: 'Sharpe Ratio', value: formatRatio(portfolio.sharpe), negative: (portfolio.sharpe ?? 0) < 0 },
+    { label: 'Sortino Ratio', value: formatRatio(portfolio.sortino), negative: (portfolio.sortino ?? 0) < 0 },
+    {
+      label: 'Max Drawdown',
+      value: formatFraction(portfolio.maxDrawdown),
+      negative: (portfolio.maxDrawdown ?? 0) < 0,
+    },
+    {
+      label: `1-Day VaR (${confidence})`,
+      value: formatFraction(portfolio.valueAtRisk),
+      hint: portfolio.valueAtRisk !== null ? formatMoney(portfolio.valueAtRisk * portfolio.value) : undefined,
+    },
+  ]
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-slate-200/50">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-200/50">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-navy-600" />
+            <h3 className="text-lg font-semibold text-slate-800">Risk</h3>
+            <span className="text-sm text-slate-500">Past year of daily returns</span>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            {settings && settings.benchmarks.length > 1 && (
+              <div className="flex items-center gap-2">
+                <Label className="text-sm text-slate-600">Benchmark</Label>
+                <Select value={risk.benchmark} onValueChange={setBenchmark}>
+                  <SelectTrigger className="h-8 w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {settings.benchmarks.map((ticker) => (
+                      <SelectItem key={ticker} value={ticker}>
+                        {ticker}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <form
+              className="flex items-center gap-2"
+              onSubmit={(event) => {
+                event.preventDefault()
+                submitRate()
+              }}
+            >
+              <Label htmlFor="risk-free-rate" className="text-sm text-slate-600">
+                Risk-free rate (%)
+              </Label>
+              <Input
+                id="risk-free-rate"
+                type="number"
+                step="0.01"
+                min="0"
+                max={RISK_CONFIG.MAX_RISK_FREE_RATE * 100}
+                value={rate}
+                onChange={(e) => setRateInput(e.target.value)}
+                className="h-8 w-20"
+              />
+              {rate !== savedRate && (
+                <Button type="submit" size="sm" disabled={rateMutation.isPending}>
+                  Save
+                </Button>
+              )}
+            </form>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {portfolio.observations < 2 ? (
+          <p className="text-sm text-slate-600 text-center py-6">
+            Not enough price history to measure risk. Add positions to see their risk metrics.
+          </p>
+        ) : (
+          <>
+            {/* Portfolio metrics */}
+            <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+              {metrics.map((metric) => (
+                <div key={metric.label} className="rounded-lg bg-slate-50 p-3">
+                  <p className="text-xs font-medium text-slate-500">{metric.label}</p>
+                  <p className={cn('text-lg font-semibold', metric.negative ? 'text-red-600' : 'text-slate-800')}>
+                    {metric.value}
+                  </p>
+                  {metric.hint && <p className="text-xs text-slate-500">{metric.hint}</p>}
+                </div>
+              ))}
+            </div>
+
+            {/* Holdings */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-slate-500">
+                    <th className="py-2 pr-4 text-left font-medium">Holding</th>
+                    <th className="py-2 px-2 text-right font-medium">Weight</th>
+                    <th className="py-2 px-2 text-right font-medium">Volatility</th>
+                    <th className="py-2 px-2 text-right font-medium">Beta</th>
+                    <th className="py-2 px-2 text-right font-medium">Sharpe</th>
+                    <th className="py-2 px-2 text-right font-medium">Sortino</th>
+                    <th className="py-2 px-2 text-right font-medium">Max DD</th>
+                    <th className="py-2 pl-2 text-right font-medium">VaR</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {risk.holdings.map((holding) => (
+                    <HoldingRow key={holding.ticker} ticker={holding.ticker} weight={holding.weight} metrics={holding} />
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-slate-500">
+                Sharpe and Sortino use a {formatPercentage(risk.riskFreeRate)} risk-free rate. VaR is the one-day loss
+                not exceeded on {confidence} of days. Cash is excluded.
+              </p>
+            </div>
+          </>
+        )}
+      </div>
+    </Card>
+  )
+}
+
+function HoldingRow({ ticker, weight, metrics }: { ticker: string; weight: number; metrics: RiskMetrics }) {
+  return (
+    <tr className="text-slate-700">
+      <td className="py-2 pr-4 font-medium text-slate-800">{ticker}</td>
+      <td className="py-2 px-2 text-right">{formatPercentage(weight, 1)}</td>
+      <td className="py-2 px-2 text-right">{formatFraction(metrics.volatility)}</td>
+      <td className="py-2 px-2 text-right">{formatRatio(metrics.beta)}</td>
+      <td className="py-2 px-2 text-right">{formatRatio(metrics.sharpe)}</td>
+      <td className="py-2 px-2 text-right">{formatRatio(metrics.sortino)}</td>
+      <td className="py-2 px-2 text-right text-red-600">{formatFraction(metrics.maxDrawdown)}</td>
+      <td className="py-2 pl-2 text-right">{formatFraction(metrics.valueAtRisk)}</td>
+    </tr>
+  )
+}
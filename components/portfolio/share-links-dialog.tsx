@@ -0,0 +1,267 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Copy, EyeOff, Link2, Loader2, Trash2 } from 'lucide-react'
+import { useSession } from 'next-auth/react'
+import { useState } from 'react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { useToast } from '@/hooks/use-toast'
+import { SHARE_LINK_CONFIG } from '@/lib/constants'
+import { formatDate } from '@/lib/utils'
+import { ShareLinkSummary } from '@/types'
+
+async function fetchShareLinks(): Promise<ShareLinkSummary[]> {
+  const response = await fetch('/api/portfolio/share-links')
+  if (!response.ok) {
+    throw new Error('Failed to fetch share links')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+async function createShareLink(body: {
+  name?: string
+  portfolioId?: string
+  expiresInDays: number
+  maskValues: boolean
+}): Promise<ShareLinkSummary> {
+  const response = await fetch('/api/portfolio/share-links', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.details || 'Failed to create share link')
+  }
+  return data.data
+}
+
+async function revokeShareLink(id: string) {
+  const response = await fetch(`/api/portfolio/share-links/${id}`, {
+    method: 'DELETE',
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || 'Failed to revoke share link')
+  }
+}
+
+const shareUrl = (link: ShareLinkSummary) => `${window.location.origin}/share/${link.token}`
+
+interface ShareLinksDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function ShareLinksDialog({ open, onOpenChange }: ShareLinksDialogProps) {
+  const [name, setName] = useState('')
+  const [expiresInDays, setExpiresInDays] = useState<number>(SHARE_LINK_CONFIG.DEFAULT_EXPIRY_DAYS)
+  const [maskValues, setMaskValues] = useState(false)
+  const { data: session } = useSession()
+  const { currentAccount } = usePortfolioAccount()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: links, isLoading } = useQuery({
+    queryKey: ['share-links', session?.user?.id],
+    queryFn: fetchShareLinks,
+    enabled: open && !!session?.user?.id,
+  })
+
+  const copyLink = async (link: ShareLinkSummary) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(link))
+      toast({ title: 'Link copied' })
+    } catch {
+      toast({
+        title: 'Could not copy the link',
+        description: shareUrl(link),
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const createMutation = useMutation({
+    mutationFn: createShareLink,
+    onSuccess: (link) => {
+      queryClient.invalidateQueries({ queryKey: ['share-links'] })
+      setName('')
+      copyLink(link)
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error creating share link',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: revokeShareLink,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['share-links'] })
+      toast({ title: 'Share link revoked' })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error revoking share link',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] bg-white/95 backdrop-blur-sm">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-slate-800">Share Portfolio</DialogTitle>
+          <DialogDescription className="text-slate-600">
+            Anyone with a link can view {currentAccount ? currentAccount.name : 'all accounts'} read-only until it
+            expires or you revoke it. Masked links show percentages but no amounts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="grid grid-cols-2 gap-4 py-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            createMutation.mutate({
+              name: name || undefined,
+              portfolioId: currentAccount?.id,
+              expiresInDays,
+              maskValues,
+            })
+          }}
+        >
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="share-name">Shared With</Label>
+            <Input
+              id="share-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Optional, e.g. my advisor"
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Expires After</Label>
+            <Select value={String(expiresInDays)} onValueChange={(value) => setExpiresInDays(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_LINK_CONFIG.EXPIRY_DAYS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days === 1 ? '1 day' : `${days} days`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Amounts</Label>
+            <Button
+              type="button"
+              variant={maskValues ? 'default' : 'outline'}
+              onClick={() => setMaskValues(!maskValues)}
+              className={maskValues ? 'bg-navy-600 hover:bg-navy-700 w-full' : 'w-full'}
+            >
+              <EyeOff className="h-4 w-4 mr-2" />
+              {maskValues ? 'Hidden' : 'Hide amounts'}
+            </Button>
+          </div>
+          <Button
+            type="submit"
+            disabled={createMutation.isPending}
+            className="col-span-2 bg-navy-600 hover:bg-navy-700"
+          >
+            {createMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Link2 className="h-4 w-4 mr-2" />
+            )}
+            Create and Copy Link
+          </Button>
+        </form>
+
+        <div className="max-h-64 overflow-y-auto divide-y divide-slate-200/50">
+          {isLoading && <Skeleton className="h-10 w-full" />}
+          {links?.length === 0 && (
+            <p className="text-sm text-slate-500 py-2">No active share links</p>
+          )}
+          {links?.map((link) => (
+            <div key={link.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className="font-medium text-slate-800">
+                  {link.name || 'Unnamed link'}
+                  {link.maskValues && (
+                    <Badge variant="outline" className="ml-2 text-xs font-normal">Masked</Badge>
+                  )}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {link.accountName ?? 'All accounts'} • Expires {formatDate(link.expiresAt)}
+                  {link.lastViewedAt && ` • Viewed ${formatDate(link.lastViewedAt, 'relative')}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Copy link"
+                  onClick={() => copyLink(link)}
+                  className="text-slate-600 hover:text-slate-700 hover:bg-slate-100"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Revoke link"
+                  onClick={() => revokeMutation.mutate(link.id)}
+                  disabled={revokeMutation.isPending}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
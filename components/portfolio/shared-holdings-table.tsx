@@ -0,0 +1,116 @@
+'use client'
+
+import { Briefcase } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Card } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useBaseCurrency } from '@/hooks/use-base-currency'
+import { ASSET_CLASS_LABELS } from '@/lib/constants'
+import { formatCurrency, formatPercentage } from '@/lib/utils'
+import { SharedHolding } from '@/types'
+
+interface SharedHoldingsTableProps {
+  holdings: SharedHolding[]
+  /** Hide the shares, value and P&L columns */
+  masked: boolean
+}
+
+/**
+ * Read-only holdings of a share link, largest first
+ */
+export function SharedHoldingsTable({ holdings, masked }: SharedHoldingsTableProps) {
+  const { formatMoney } = useBaseCurrency()
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-slate-200/50">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-200/50">
+        <div className="flex items-center gap-2">
+          <Briefcase className="h-5 w-5 text-navy-600" />
+          <h3 className="text-lg font-semibold text-slate-800">Holdings</h3>
+        </div>
+        <p className="text-sm text-slate-600 mt-1">
+          {holdings.length} {holdings.length === 1 ? 'asset' : 'assets'}
+          {masked && ' • amounts are hidden'}
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        {holdings.length === 0 ? (
+          <p className="p-12 text-center text-slate-600 text-sm">No open positions</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-slate-200/50">
+                <TableHead>Asset</TableHead>
+                {!masked && <TableHead>Shares</TableHead>}
+                <TableHead>Current Price</TableHead>
+                {!masked && <TableHead>Total Value</TableHead>}
+                {!masked && <TableHead>P&L</TableHead>}
+                <TableHead>Return %</TableHead>
+                <TableHead className="text-right">Weight</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {holdings.map((holding, index) => (
+                <TableRow key={`${holding.ticker}-${index}`} className="border-slate-200/50">
+                  <TableCell className="font-medium">
+                    <div className="font-semibold text-slate-800">{holding.ticker}</div>
+                    <div className="text-sm text-slate-500">{holding.companyName}</div>
+                    {holding.assetClass !== 'EQUITY' && (
+                      <Badge variant="outline" className="mt-1 text-xs font-normal">
+                        {ASSET_CLASS_LABELS[holding.assetClass]}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  {!masked && <TableCell>{holding.shares.toLocaleString()}</TableCell>}
+                  {/* Prices are in the listing's currency, values in the base currency */}
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      {formatCurrency(holding.currentPrice, { currency: holding.currency })}
+                      <Badge
+                        variant="outline"
+                        className={holding.dayChangePercent >= 0
+                          ? 'bg-green-50 border-green-200 text-green-700'
+                          : 'bg-red-50 border-red-200 text-red-700'}
+                      >
+                        {holding.dayChangePercent >= 0 ? '+' : ''}{formatPercentage(holding.dayChangePercent)}
+                      </Badge>
+                    </div>
+                  </TableCell>
+                  {!masked && <TableCell className="font-semibold">{formatMoney(holding.currentValue)}</TableCell>}
+                  {!masked && (
+                    <TableCell className={holding.profitLoss >= 0 ? 'text-green-600' : 'text-red-600'}>
+                      {formatMoney(holding.profitLoss)}
+                    </TableCell>
+                  )}
+                  <TableCell>
+                    <Badge
+                      variant="outline"
+                      className={holding.profitLossPercent >= 0
+                        ? 'bg-green-50 border-green-200 text-green-700'
+                        : 'bg-red-50 border-red-200 text-red-700'}
+                    >
+                      {formatPercentage(holding.profitLossPercent)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right font-semibold text-slate-800">
+                    {formatPercentage(holding.weight)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </Card>
+  )
+}
@@ -1,10 +1,7 @@
 'use client'
 
 import { useQuery } from '@tanstack/react-query'
-import { useSession } from 'next-auth/react'
 import { motion } from 'framer-motion'
-import { Card } from '@/components/ui/card'
-import { Skeleton } from '@/components/ui/skeleton'
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -12,11 +9,26 @@ import {
   BarChart3,
   Percent
 } from 'lucide-react'
-import { formatCurrency, formatPercentage } from '@/lib/utils'
-import { PortfolioSummary } from '@/types'
+import { useSession } from 'next-auth/react'
+import { useState } from 'react'
+
+import { Card } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { useSharedPortfolio } from '@/hooks/use-shared-portfolio'
+import { MASKED_VALUE, PERFORMANCE_RANGES, PERFORMANCE_RANGE_LABELS } from '@/lib/constants'
+import { cn, formatCurrency, formatPercentage } from '@/lib/utils'
+import { PerformanceRange, PortfolioSummary } from '@/types'
 
-async function fetchPortfolioSummary(): Promise<PortfolioSummary> {
-  const response = await fetch('/api/portfolio/summary')
+async function fetchPortfolioSummary(
+  accountId: string,
+  period?: PerformanceRange,
+  shareToken?: string
+): Promise<PortfolioSummary> {
+  const periodParam = period ? `&period=${period}` : ''
+  // Shared dashboards read the summary through their link's token
+  const endpoint = shareToken ? `/api/share/${shareToken}/summary?` : `/api/portfolio/summary?portfolioId=${accountId}`
+  const response = await fetch(`${endpoint}${periodParam}`)
   if (!response.ok) {
     throw new Error('Failed to fetch portfolio summary')
   }
@@ -25,12 +37,23 @@ async function fetchPortfolioSummary(): Promise<PortfolioSummary> {
 }
 
 export function SummaryCards() {
+  const [period, setPeriod] = useState<PerformanceRange>('ALL')
   const { data: session } = useSession()
+  const { accountId } = usePortfolioAccount()
+  const shared = useSharedPortfolio()
+  // Shared dashboards are cached by their link rather than the signed-in user
+  const scope = shared ? ['share', shared.token] : [session?.user?.id, accountId]
   const { data: summary, isLoading, error } = useQuery({
-    queryKey: ['portfolio-summary', session?.user?.id],
-    queryFn: fetchPortfolioSummary,
+    queryKey: ['portfolio-summary', ...scope],
+    queryFn: () => fetchPortfolioSummary(accountId, undefined, shared?.token),
     refetchInterval: 60000, // Refetch every minute
-    enabled: !!session?.user?.id, // Only run when user is authenticated
+    enabled: !!shared || !!session?.user?.id, // Only run when user is authenticated
+  })
+  // Returns over a shorter period come from a second summary request
+  const { data: periodSummary } = useQuery({
+    queryKey: ['portfolio-summary', ...scope, period],
+    queryFn: () => fetchPortfolioSummary(accountId, period, shared?.token),
+    enabled: (!!shared || !!session?.user?.id) && period !== 'ALL',
   })
 
   if (isLoading) {
@@ -49,38 +72,90 @@ export function SummaryCards() {
     )
   }
 
-  const cards = [
+  const returns = period === 'ALL' ? summary.returns : periodSummary?.returns
+  // Fall back to the simple return until time-weighted history exists
+  const timeWeighted = returns?.timeWeighted ?? (period === 'ALL' ? summary.totalProfitLossPercent : null)
+  const moneyWeighted = returns?.moneyWeighted ?? null
+  const returnSuffix = returns?.annualized ? ' /yr' : ''
+
+  // Values are in the base currency the summary was built in; masked share
+  // links leave only the percentages
+  const formatMoney = (value: number) =>
+    shared?.masked ? MASKED_VALUE : formatCurrency(value, { currency: summary.baseCurrency })
+
+  const cards: SummaryCardProps[] = [
     {
       title: 'Total Value',
-      value: formatCurrency(summary.totalValue),
-      change: `${formatCurrency(summary.totalProfitLoss)} (${formatPercentage(summary.totalProfitLossPercent)})`,
-      positive: summary.totalProfitLoss >= 0,
+      value: formatMoney(summary.totalValue),
+      change: `${formatMoney(summary.totalProfitLoss)} (${formatPercentage(summary.totalProfitLossPercent)})`,
+      positive: summary.totalProfitLossPercent >= 0,
       icon: BarChart3,
       gradient: 'from-navy-500 to-navy-600',
+      // Holdings in other currencies also gain or lose on the exchange rate
+      footer: summary.fxProfitLoss !== 0 && (
+        <p className="text-xs text-slate-500">
+          Price {formatMoney(summary.priceProfitLoss)} • FX {formatMoney(summary.fxProfitLoss)}
+        </p>
+      ),
     },
     {
       title: 'Total Cost',
-      value: formatCurrency(summary.totalCost),
-      change: `${summary.assetCount} assets`,
+      value: formatMoney(summary.totalCost),
+      change: [
+        `${summary.assetCount} assets`,
+        summary.optionCount > 0 && `${summary.optionCount} options`,
+        summary.cashBalance !== 0 && `${formatMoney(summary.cashBalance)} cash`,
+      ].filter(Boolean).join(' + '),
       positive: true,
       icon: DollarSign,
       gradient: 'from-slate-500 to-slate-600',
+      // Fees are part of the cost of each trade; the last few years are listed
+      footer: summary.fees.total > 0 && (
+        <div className="text-xs text-slate-500">
+          <p>Fees paid {formatMoney(summary.fees.total)}</p>
+          <p>
+            {summary.fees.byYear
+              .slice(0, 3)
+              .map(({ year, amount }) => `${year}: ${formatMoney(amount)}`)
+              .join(' • ')}
+          </p>
+        </div>
+      ),
     },
     {
       title: "Today's Change",
-      value: formatCurrency(summary.dayChange),
+      value: formatMoney(summary.dayChange),
       change: formatPercentage(summary.dayChangePercent),
-      positive: summary.dayChange >= 0,
-      icon: summary.dayChange >= 0 ? TrendingUp : TrendingDown,
-      gradient: summary.dayChange >= 0 ? 'from-green-500 to-green-600' : 'from-red-500 to-red-600',
+      positive: summary.dayChangePercent >= 0,
+      icon: summary.dayChangePercent >= 0 ? TrendingUp : TrendingDown,
+      gradient: summary.dayChangePercent >= 0 ? 'from-green-500 to-green-600' : 'from-red-500 to-red-600',
     },
     {
-      title: 'Total Return',
-      value: formatPercentage(summary.totalProfitLossPercent),
-      change: formatCurrency(summary.totalProfitLoss),
-      positive: summary.totalProfitLoss >= 0,
+      title: 'Time-Weighted Return',
+      value: timeWeighted === null ? '—' : `${formatPercentage(timeWeighted)}${returnSuffix}`,
+      change: moneyWeighted === null
+        ? formatMoney(summary.totalProfitLoss)
+        : `XIRR ${formatPercentage(moneyWeighted)}${returnSuffix}`,
+      positive: (timeWeighted ?? summary.totalProfitLossPercent) >= 0,
       icon: Percent,
-      gradient: summary.totalProfitLoss >= 0 ? 'from-emerald-500 to-emerald-600' : 'from-red-500 to-red-600',
+      gradient: (timeWeighted ?? summary.totalProfitLossPercent) >= 0 ? 'from-emerald-500 to-emerald-600' : 'from-red-500 to-red-600',
+      footer: (
+        <div className="flex items-center gap-1">
+          {PERFORMANCE_RANGES.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setPeriod(option)}
+              className={cn(
+                'px-2 py-0.5 rounded text-xs font-medium transition-colors',
+                period === option ? 'bg-navy-600 text-white' : 'text-slate-500 hover:bg-slate-100'
+              )}
+            >
+              {PERFORMANCE_RANGE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      ),
     },
   ]
 
@@ -107,9 +182,10 @@ interface SummaryCardProps {
   positive: boolean
   icon: React.ElementType
   gradient: string
+  footer?: React.ReactNode
 }
 
-function SummaryCard({ title, value, change, positive, icon: Icon, gradient }: SummaryCardProps) {
+function SummaryCard({ title, value, change, positive, icon: Icon, gradient, footer }: SummaryCardProps) {
   return (
     <Card className="relative p-6 bg-white/80 backdrop-blur-sm border-slate-200/50 hover:shadow-lg transition-all duration-300 overflow-hidden group">
       {/* Background Gradient */}
@@ -152,6 +228,8 @@ function SummaryCard({ title, value, change, positive, icon: Icon, gradient }: S
             {change}
           </div>
         </div>
+
+        {footer && <div className="mt-3">{footer}</div>}
       </div>
     </Card>
   )
@@ -0,0 +1,262 @@
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Plus, Trash2, Loader2 } from 'lucide-react'
+import { useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { CASH_LABEL, REBALANCE_CONFIG, TARGET_KINDS, TARGET_KIND_LABELS } from '@/lib/constants'
+import { cn } from '@/lib/utils'
+import { AllocationTargets } from '@/types'
+
+type TargetKind = AllocationTargets['kind']
+
+// Column heading and example for the key of each target row
+const KEY_COLUMNS: Record<TargetKind, { label: string; placeholder: string }> = {
+  TICKER: { label: 'Ticker', placeholder: 'e.g. VTI' },
+  SECTOR: { label: 'Sector', placeholder: 'e.g. Technology' },
+  BUCKET: { label: 'Bucket', placeholder: 'e.g. Growth' },
+}
+
+// Percentages as typed, converted to fractions on save
+interface TargetRow {
+  key: string
+  weight: string
+  band: string
+  tickers: string
+}
+
+async function saveTargets(body: AllocationTargets) {
+  const response = await fetch('/api/portfolio/targets', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.details || 'Failed to save targets')
+  }
+  return data.data
+}
+
+function toRows(targets: AllocationTargets['targets']): TargetRow[] {
+  return targets.map((target) => ({
+    key: target.key,
+    weight: String(Number((target.weight * 100).toFixed(2))),
+    band: String(Number((target.band * 100).toFixed(2))),
+    tickers: target.tickers.join(', '),
+  }))
+}
+
+function emptyRow(): TargetRow {
+  return { key: '', weight: '', band: String(REBALANCE_CONFIG.DEFAULT_BAND * 100), tickers: '' }
+}
+
+interface TargetsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  targets: AllocationTargets
+  suggestions: string[] // Current tickers or sectors, offered as target names
+}
+
+export function TargetsDialog({ open, onOpenChange, targets, suggestions }: TargetsDialogProps) {
+  const [kind, setKind] = useState<TargetKind>(targets.kind)
+  const [fractionalShares, setFractionalShares] = useState(targets.fractionalShares)
+  const [rows, setRows] = useState<TargetRow[]>(() =>
+    targets.targets.length > 0 ? toRows(targets.targets) : [emptyRow()]
+  )
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const saveMutation = useMutation({
+    mutationFn: saveTargets,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['allocation-targets'] })
+      queryClient.invalidateQueries({ queryKey: ['rebalance'] })
+      toast({ title: 'Targets saved' })
+      onOpenChange(false)
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error saving targets',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const filled = rows.filter((row) => row.key.trim() !== '')
+  const total = filled.reduce((sum, row) => sum + (parseFloat(row.weight) || 0), 0)
+  const balanced = filled.length === 0 || Math.abs(total - 100) < REBALANCE_CONFIG.WEIGHT_TOLERANCE * 100
+
+  const updateRow = (index: number, changes: Partial<TargetRow>) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    saveMutation.mutate({
+      kind,
+      fractionalShares,
+      targets: filled.map((row) => ({
+        key: row.key.trim(),
+        weight: (parseFloat(row.weight) || 0) / 100,
+        band: (parseFloat(row.band) || 0) / 100,
+        tickers: row.tickers.split(',').map((ticker) => ticker.trim().toUpperCase()).filter(Boolean),
+      })),
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] bg-white/95 backdrop-blur-sm">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="text-xl font-bold text-slate-800">Target Allocation</DialogTitle>
+            <DialogDescription className="text-slate-600">
+              Set target weights and how far each may drift before it is rebalanced. Name a target
+              &quot;{CASH_LABEL}&quot; to keep part of the portfolio in cash.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label>Targets</Label>
+                <Select value={kind} onValueChange={(value) => setKind(value as TargetKind)}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TARGET_KINDS.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {TARGET_KIND_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <label className="flex items-center gap-2 pb-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={fractionalShares}
+                  onChange={(e) => setFractionalShares(e.target.checked)}
+                  className="h-4 w-4 rounded border-slate-300"
+                />
+                Allow fractional shares
+              </label>
+            </div>
+
+            <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+              <div className="grid grid-cols-12 gap-2 text-xs font-medium text-slate-500">
+                <span className={kind === 'BUCKET' ? 'col-span-3' : 'col-span-6'}>
+                  {KEY_COLUMNS[kind].label}
+                </span>
+                {kind === 'BUCKET' && <span className="col-span-3">Tickers</span>}
+                <span className="col-span-2">Weight %</span>
+                <span className="col-span-3">Band ± %</span>
+              </div>
+              {rows.map((row, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2">
+                  <Input
+                    value={row.key}
+                    onChange={(e) => updateRow(index, { key: e.target.value })}
+                    list="target-suggestions"
+                    placeholder={KEY_COLUMNS[kind].placeholder}
+                    className={kind === 'BUCKET' ? 'col-span-3' : 'col-span-6'}
+                  />
+                  {kind === 'BUCKET' && (
+                    <Input
+                      value={row.tickers}
+                      onChange={(e) => updateRow(index, { tickers: e.target.value })}
+                      placeholder="AAPL, MSFT"
+                      className="col-span-3"
+                    />
+                  )}
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    value={row.weight}
+                    onChange={(e) => updateRow(index, { weight: e.target.value })}
+                    className="col-span-2"
+                  />
+                  <Input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    max={REBALANCE_CONFIG.MAX_BAND * 100}
+                    value={row.band}
+                    onChange={(e) => updateRow(index, { band: e.target.value })}
+                    className="col-span-3"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="col-span-1 text-red-600 hover:text-red-700 hover:bg-red-50"
+                    onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <datalist id="target-suggestions">
+                {[...new Set([...suggestions, CASH_LABEL])].map((suggestion) => (
+                  <option key={suggestion} value={suggestion} />
+                ))}
+              </datalist>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Button type="button" variant="outline" size="sm" onClick={() => setRows((current) => [...current, emptyRow()])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Target
+              </Button>
+              <span className={cn('text-sm font-medium', balanced ? 'text-slate-600' : 'text-red-600')}>
+                Total {total.toFixed(2)}%
+              </span>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={saveMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!balanced || saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Targets
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
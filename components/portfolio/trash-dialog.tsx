@@ -0,0 +1,169 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { RotateCcw, Trash2 } from 'lucide-react'
+import { useSession } from 'next-auth/react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Skeleton } from '@/components/ui/skeleton'
+import { invalidatePortfolioQueries } from '@/hooks/invalidate-portfolio-queries'
+import { useToast } from '@/hooks/use-toast'
+import { ASSET_CLASS_LABELS, TRASH_CONFIG } from '@/lib/constants'
+import { formatDate } from '@/lib/utils'
+import { TrashedAsset } from '@/types'
+
+async function fetchTrash(): Promise<TrashedAsset[]> {
+  const response = await fetch('/api/portfolio/trash')
+  if (!response.ok) {
+    throw new Error('Failed to fetch trash')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+async function restoreAsset(id: string) {
+  const response = await fetch(`/api/portfolio/trash/${id}`, {
+    method: 'POST',
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || 'Failed to restore asset')
+  }
+}
+
+async function purgeAsset(id: string) {
+  const response = await fetch(`/api/portfolio/trash/${id}`, {
+    method: 'DELETE',
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || 'Failed to delete asset')
+  }
+}
+
+interface TrashDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onRestored: () => void
+}
+
+export function TrashDialog({ open, onOpenChange, onRestored }: TrashDialogProps) {
+  const { data: session } = useSession()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const { data: assets, isLoading } = useQuery({
+    queryKey: ['trash', session?.user?.id],
+    queryFn: fetchTrash,
+    enabled: open && !!session?.user?.id,
+  })
+
+  const restoreMutation = useMutation({
+    mutationFn: restoreAsset,
+    onSuccess: () => {
+      onRestored()
+      toast({ title: 'Asset restored' })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error restoring asset',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const purgeMutation = useMutation({
+    mutationFn: purgeAsset,
+    onSuccess: () => {
+      invalidatePortfolioQueries(queryClient)
+      toast({ title: 'Asset deleted permanently' })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error deleting asset',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] bg-white/95 backdrop-blur-sm">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold text-slate-800">Trash</DialogTitle>
+          <DialogDescription className="text-slate-600">
+            Deleted assets keep their trades and dividends here for {TRASH_CONFIG.RETENTION_DAYS} days, then
+            they are deleted permanently.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-80 overflow-y-auto divide-y divide-slate-200/50">
+          {isLoading && <Skeleton className="h-10 w-full" />}
+          {assets?.length === 0 && (
+            <p className="text-sm text-slate-500 py-2">The trash is empty</p>
+          )}
+          {assets?.map((asset) => (
+            <div key={asset.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className="font-medium text-slate-800">
+                  {asset.ticker}
+                  {asset.assetClass !== 'EQUITY' && (
+                    <Badge variant="outline" className="ml-2 text-xs font-normal">
+                      {ASSET_CLASS_LABELS[asset.assetClass]}
+                    </Badge>
+                  )}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {asset.shares.toLocaleString()} shares
+                  {asset.accountName && ` • ${asset.accountName}`}
+                  {` • Deleted ${formatDate(asset.deletedAt)} • Purged ${formatDate(asset.purgeAt)}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Restore"
+                  onClick={() => restoreMutation.mutate(asset.id)}
+                  disabled={restoreMutation.isPending}
+                  className="text-slate-600 hover:text-slate-700 hover:bg-slate-100"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Delete permanently"
+                  onClick={() => purgeMutation.mutate(asset.id)}
+                  disabled={purgeMutation.isPending}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
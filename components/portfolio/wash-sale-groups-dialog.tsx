@@ -0,0 +1,147 @@
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Plus, Trash2, Loader2 } from 'lucide-react'
+import { useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { invalidatePortfolioQueries } from '@/hooks/invalidate-portfolio-queries'
+import { useToast } from '@/hooks/use-toast'
+import { WASH_SALE_CONFIG } from '@/lib/constants'
+import { WashSaleReport } from '@/types'
+
+async function saveGroups(groups: string[][]): Promise<WashSaleReport> {
+  const response = await fetch('/api/portfolio/wash-sales', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ groups }),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.details || 'Failed to save identical tickers')
+  }
+  return data.data
+}
+
+const parseTickers = (value: string) =>
+  value.split(',').map((ticker) => ticker.trim().toUpperCase()).filter(Boolean)
+
+interface WashSaleGroupsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  groups: string[][]
+}
+
+export function WashSaleGroupsDialog({ open, onOpenChange, groups }: WashSaleGroupsDialogProps) {
+  // Each group is edited as a comma-separated list of tickers
+  const [rows, setRows] = useState<string[]>(() =>
+    groups.length > 0 ? groups.map((group) => group.join(', ')) : ['']
+  )
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const saveMutation = useMutation({
+    mutationFn: saveGroups,
+    onSuccess: () => {
+      // Re-detected wash sales change cost basis and realized gains
+      invalidatePortfolioQueries(queryClient)
+      toast({ title: 'Identical tickers saved' })
+      onOpenChange(false)
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error saving identical tickers',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const filled = rows.map(parseTickers).filter((tickers) => tickers.length > 0)
+  const valid = filled.every((tickers) => new Set(tickers).size >= 2)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    saveMutation.mutate(filled)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] bg-white/95 backdrop-blur-sm">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="text-xl font-bold text-slate-800">Substantially Identical Tickers</DialogTitle>
+            <DialogDescription className="text-slate-600">
+              Buying any ticker in a group within {WASH_SALE_CONFIG.WINDOW_DAYS} days of selling
+              another at a loss is treated as a wash sale, e.g. two funds tracking the same index.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 py-4 max-h-80 overflow-y-auto pr-1">
+            {rows.map((row, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  value={row}
+                  onChange={(e) =>
+                    setRows((current) => current.map((value, i) => (i === index ? e.target.value : value)))
+                  }
+                  placeholder="VOO, IVV, SPLG"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between pb-4">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={rows.length >= WASH_SALE_CONFIG.MAX_GROUPS}
+              onClick={() => setRows((current) => [...current, ''])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Group
+            </Button>
+            {!valid && <span className="text-sm font-medium text-red-600">Each group needs two tickers</span>}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={saveMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!valid || saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Groups
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { motion } from 'framer-motion'
+import { ShieldAlert, Settings2 } from 'lucide-react'
+import { useSession } from 'next-auth/react'
+import { useState } from 'react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { usePortfolioAccount } from '@/hooks/use-portfolio-account'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { WashSaleReport } from '@/types'
+
+import { WashSaleGroupsDialog } from './wash-sale-groups-dialog'
+
+async function fetchWashSales(accountId: string): Promise<WashSaleReport> {
+  const response = await fetch(`/api/portfolio/wash-sales?portfolioId=${accountId}`)
+  if (!response.ok) {
+    throw new Error('Failed to fetch wash sales')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+const formatShares = (shares: number) => Number(shares.toFixed(4)).toLocaleString()
+
+export function WashSalesCard() {
+  const { data: session } = useSession()
+  const { accountId } = usePortfolioAccount()
+  const [editing, setEditing] = useState(false)
+
+  const { data: report } = useQuery({
+    queryKey: ['wash-sales', session?.user?.id, accountId],
+    queryFn: () => fetchWashSales(accountId),
+    enabled: !!session?.user?.id, // Only run when user is authenticated
+  })
+
+  if (!report) {
+    return null
+  }
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-slate-200/50">
+      <div className="p-6 border-b border-slate-200/50">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-navy-600" />
+            <h3 className="text-lg font-semibold text-slate-800">Wash Sales</h3>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setEditing(true)} title="Identical tickers">
+            <Settings2 className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-sm text-slate-500 mt-1">
+          Losses disallowed and added to the basis of the replacement shares
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {report.washSales.length === 0 ? (
+          <p className="text-sm text-slate-500">No wash sales detected</p>
+        ) : (
+          report.washSales.map((washSale, index) => (
+            <motion.div
+              key={washSale.id}
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: index * 0.05 }}
+              className="text-sm"
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-slate-800">{washSale.ticker}</span>
+                  {washSale.replacementTicker !== washSale.ticker && (
+                    <Badge variant="secondary">→ {washSale.replacementTicker}</Badge>
+                  )}
+                </div>
+                <span className="text-xs text-slate-500">{formatDate(washSale.soldAt)}</span>
+              </div>
+              <p className="text-slate-600 mt-1">
+                {formatCurrency(washSale.disallowedLoss, { currency: washSale.currency })} disallowed on{' '}
+                {formatShares(washSale.shares)} shares
+              </p>
+              <p className="text-xs text-slate-500 mt-1">
+                Replaced by the purchase on {formatDate(washSale.replacementDate)}
+              </p>
+            </motion.div>
+          ))
+        )}
+        {report.groups.length > 0 && (
+          <div className="flex flex-wrap gap-1 pt-2 border-t border-slate-200/50">
+            {report.groups.map((group) => (
+              <Badge key={group.join(',')} variant="outline" className="text-xs font-normal">
+                {group.join(' = ')}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <WashSaleGroupsDialog open={editing} onOpenChange={setEditing} groups={report.groups} />
+      )}
+    </Card>
+  )
+}
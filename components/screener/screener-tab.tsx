@@ -71,7 +71,7 @@ export function ScreenerTab() {
   }
 
   const handleAddToPortfolio = (stock: ScreenerStock) => {
-    // This would typically open the AddAssetDialog with pre-filled data
+    // This would typically open the RecordTradeDialog with pre-filled data
     toast({
       title: 'Feature coming soon',
       description: `Adding ${stock.ticker} to portfolio will be available soon.`,
@@ -0,0 +1,33 @@
+import { QueryClient } from '@tanstack/react-query'
+
+// Every query derived from the user's positions, trades or cash
+const PORTFOLIO_QUERY_KEYS = [
+  'portfolio',
+  'portfolio-summary',
+  'portfolio-performance',
+  'benchmark',
+  'portfolio-risk',
+  'rebalance',
+  'portfolio-correlation',
+  'accounts',
+  'cash',
+  'transactions',
+  'tax-lots',
+  'wash-sales',
+  'look-through',
+  'options',
+  'trash',
+  'projection',
+  'dividends-annual',
+] as const
+
+/**
+ * Refetches every view of the portfolio after a change to its positions,
+ * trades or cash. Settings and targets are left to the callers that change
+ * them.
+ */
+export function invalidatePortfolioQueries(queryClient: QueryClient) {
+  for (const key of PORTFOLIO_QUERY_KEYS) {
+    queryClient.invalidateQueries({ queryKey: [key] })
+  }
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { useCallback } from 'react'
+
+import { DEFAULT_CURRENCY, MASKED_VALUE } from '@/lib/constants'
+import { formatCurrency } from '@/lib/utils'
+import { Currency, PortfolioSettings } from '@/types'
+
+import { useSharedPortfolio } from './use-shared-portfolio'
+
+async function fetchSettings(): Promise<PortfolioSettings> {
+  const response = await fetch('/api/portfolio/settings')
+  if (!response.ok) {
+    throw new Error('Failed to fetch settings')
+  }
+  const data = await response.json()
+  return data.data
+}
+
+/**
+ * Currency the user's values are reported in, and a formatter for amounts
+ * in it. Shares the settings cache with the other portfolio cards. On a
+ * share link the currency is the link's, and masked links format every
+ * amount as MASKED_VALUE.
+ */
+export function useBaseCurrency() {
+  const { data: session } = useSession()
+  const shared = useSharedPortfolio()
+
+  const { data: settings } = useQuery({
+    queryKey: ['portfolio-settings', session?.user?.id],
+    queryFn: fetchSettings,
+    enabled: !!session?.user?.id && !shared, // Only run when user is authenticated
+  })
+
+  const baseCurrency: Currency = shared?.baseCurrency ?? settings?.baseCurrency ?? DEFAULT_CURRENCY
+  const masked = !!shared?.masked
+
+  const formatMoney = useCallback(
+    (value: number, options: Intl.NumberFormatOptions = {}) =>
+      masked ? MASKED_VALUE : formatCurrency(value, { currency: baseCurrency, ...options }),
+    [baseCurrency, masked]
+  )
+
+  return { baseCurrency, formatMoney }
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+
+import { ALL_ACCOUNTS } from '@/lib/constants'
+import { PortfolioAccount } from '@/types'
+
+const STORAGE_KEY = 'stocklio:account'
+
+interface PortfolioAccountContextValue {
+  /** Selected account ID, or `all` for the aggregate of every account */
+  accountId: string
+  setAccountId: (accountId: string) => void
+  accounts: PortfolioAccount[]
+  /** Selected account, or undefined when viewing all accounts */
+  currentAccount?: PortfolioAccount
+  /** Account that new trades go to: the selected one, else the default */
+  targetAccount?: PortfolioAccount
+  isLoading: boolean
+}
+
+const PortfolioAccountContext = createContext<PortfolioAccountContextValue | null>(null)
+
+async function fetchAccounts(): Promise<PortfolioAccount[]> {
+  const response = await fetch('/api/portfolio/accounts')
+  if (!response.ok) {
+    throw new Error('Failed to fetch accounts')
+  }
+  const data = await response.json()
+  return data.data || []
+}
+
+export function PortfolioAccountProvider({ children }: { children: React.ReactNode }) {
+  const { data: session } = useSession()
+  const [selectedId, setSelectedId] = useState<string>(ALL_ACCOUNTS)
+
+  // Restore the last selected account
+  useEffect(() => {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    if (stored) {
+      setSelectedId(stored)
+    }
+  }, [])
+
+  const { data: accounts = [], isLoading } = useQuery({
+    queryKey: ['accounts', session?.user?.id],
+    queryFn: fetchAccounts,
+    enabled: !!session?.user?.id,
+  })
+
+  const setAccountId = useCallback((accountId: string) => {
+    setSelectedId(accountId)
+    window.localStorage.setItem(STORAGE_KEY, accountId)
+  }, [])
+
+  const value = useMemo(() => {
+    const currentAccount = accounts.find(account => account.id === selectedId)
+    // Fall back to all accounts when the selected one no longer exists
+    const accountId = currentAccount || isLoading ? selectedId : ALL_ACCOUNTS
+
+    return {
+      accountId,
+      setAccountId,
+      accounts,
+      currentAccount,
+      targetAccount: currentAccount ?? accounts.find(account => account.isDefault),
+      isLoading,
+    }
+  }, [accounts, selectedId, setAccountId, isLoading])
+
+  return (
+    <PortfolioAccountContext.Provider value={value}>
+      {children}
+    </PortfolioAccountContext.Provider>
+  )
+}
+
+export function usePortfolioAccount() {
+  const context = useContext(PortfolioAccountContext)
+  if (!context) {
+    throw new Error('usePortfolioAccount must be used within a PortfolioAccountProvider')
+  }
+  return context
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import { createContext, useContext } from 'react'
+
+import { Currency } from '@/types'
+
+interface SharedPortfolioContextValue {
+  /** Token of the share link the dashboard was opened with */
+  token: string
+  /** Whether the link hides amounts, leaving only percentages */
+  masked: boolean
+  baseCurrency: Currency
+}
+
+const SharedPortfolioContext = createContext<SharedPortfolioContextValue | null>(null)
+
+/**
+ * Marks the dashboard cards below it as a read-only view of a share link,
+ * read through the link's token instead of a session
+ */
+export function SharedPortfolioProvider({
+  value,
+  children,
+}: {
+  value: SharedPortfolioContextValue
+  children: React.ReactNode
+}) {
+  return (
+    <SharedPortfolioContext.Provider value={value}>
+      {children}
+    </SharedPortfolioContext.Provider>
+  )
+}
+
+/**
+ * Share link the dashboard was opened with, or null on the owner's own
+ * dashboard
+ */
+export function useSharedPortfolio() {
+  return useContext(SharedPortfolioContext)
+}
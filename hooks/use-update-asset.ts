@@ -0,0 +1,94 @@
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+
+import { EnrichedAsset, UpdateAssetInput } from '@/types'
+
+import { invalidatePortfolioQueries } from './invalidate-portfolio-queries'
+import { useToast } from './use-toast'
+
+type UpdateAssetVariables = UpdateAssetInput & { id: string }
+
+async function updateAsset({ id, ...body }: UpdateAssetVariables) {
+  const response = await fetch(`/api/portfolio/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.message || data.details || 'Failed to update asset')
+  }
+  return data.data
+}
+
+/**
+ * Applies an edit to a holdings row. `avgPrice` is the opening buy's price
+ * before fees, so the fees and any wash-sale adjustment already in the
+ * average cost are carried over. Value and P/L are estimated at today's
+ * exchange rate until the server's figures arrive.
+ */
+function applyEdit(asset: EnrichedAsset, { shares, avgPrice, purchaseDate, ...fields }: UpdateAssetInput): EnrichedAsset {
+  const edited = {
+    ...asset,
+    ...fields,
+    ...(purchaseDate !== undefined && { purchaseDate: new Date(purchaseDate) }),
+  }
+  if ((shares === undefined && avgPrice === undefined) || asset.openingPrice === null) {
+    return edited
+  }
+
+  const nextShares = shares ?? asset.shares
+  const nextPrice = avgPrice ?? asset.openingPrice
+  const adjustments = (asset.avgPrice - asset.openingPrice) * asset.shares
+  const currentValue = nextShares * asset.currentPrice * asset.fxRate
+  const totalCost = (nextShares * nextPrice + adjustments) * asset.fxRate
+  return {
+    ...edited,
+    shares: nextShares,
+    avgPrice: nextPrice + adjustments / nextShares,
+    openingPrice: nextPrice,
+    currentValue,
+    totalValue: currentValue,
+    totalCost,
+    profitLoss: currentValue - totalCost,
+    profitLossPercent: totalCost > 0 ? ((currentValue - totalCost) / totalCost) * 100 : 0,
+  }
+}
+
+/**
+ * Edits a position through PATCH /api/portfolio/[id]. Cached holdings show
+ * the edit immediately and are rolled back if the server rejects it.
+ */
+export function useUpdateAsset() {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: updateAsset,
+    onMutate: async ({ id, ...input }: UpdateAssetVariables) => {
+      await queryClient.cancelQueries({ queryKey: ['portfolio'] })
+      const previous = queryClient.getQueriesData<EnrichedAsset[]>({ queryKey: ['portfolio'] })
+      queryClient.setQueriesData<EnrichedAsset[]>({ queryKey: ['portfolio'] }, (assets) =>
+        assets?.map((asset) => (asset.id === id ? applyEdit(asset, input) : asset))
+      )
+      return { previous }
+    },
+    onError: (error: Error, _variables, context) => {
+      context?.previous.forEach(([queryKey, assets]) => queryClient.setQueryData(queryKey, assets))
+      toast({
+        title: 'Error updating asset',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+    onSuccess: () => {
+      toast({ title: 'Asset updated' })
+    },
+    // A corrected trade or ticker changes every view of the portfolio
+    onSettled: () => invalidatePortfolioQueries(queryClient),
+  })
+}
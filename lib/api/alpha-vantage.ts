@@ -101,6 +101,8 @@ class AlphaVantageClient {
         name: data.Name,
         sector: data.Sector,
         industry: data.Industry,
+        country: data.Country,
+        marketCap: parseFloat(data.MarketCapitalization) || undefined,
         description: data.Description,
         website: data.Website,
         employees: parseInt(data.FullTimeEmployees) || undefined,
@@ -97,6 +97,8 @@ class FinancialModelingPrepClient {
         name: data.companyName,
         sector: data.sector,
         industry: data.industry,
+        country: data.country,
+        marketCap: data.mktCap,
         description: data.description,
         website: data.website,
         employees: data.fullTimeEmployees,
@@ -140,17 +140,14 @@ class RealDataClient {
   }
   
   /**
-   * Generate mock company info for fallback
+   * Generate mock company info for fallback. Sector and industry are left
+   * unset so that unknown stocks are reported as unclassified rather than
+   * given a made-up classification.
    */
   private generateMockCompanyInfo(ticker: string): CompanyInfo {
-    const sectors = ['Technology', 'Healthcare', 'Financial Services', 'Consumer Cyclical', 'Industrials'];
-    const industries = ['Software', 'Biotechnology', 'Banks', 'Retail', 'Aerospace'];
-    
     return {
       ticker: ticker.toUpperCase(),
       name: `${ticker.toUpperCase()} Corporation`,
-      sector: sectors[Math.floor(Math.random() * sectors.length)],
-      industry: industries[Math.floor(Math.random() * industries.length)],
       description: `${ticker.toUpperCase()} Corporation is a leading company in its sector.`,
       website: `https://www.${ticker.toLowerCase()}.com`,
       employees: Math.floor(Math.random() * 100000) + 1000,
@@ -198,6 +195,7 @@ class RealDataClient {
           open: basePrice - dayChange + (Math.random() - 0.5) * 2,
           previousClose: basePrice - dayChange,
           volume: stock.volume || Math.floor(Math.random() * 5000000) + 1000000,
+          currency: stock.currency,
           timestamp: new Date(),
         };
 
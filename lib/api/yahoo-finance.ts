@@ -155,6 +155,7 @@ class YahooFinanceClient {
         name: data.longName || data.shortName,
         sector: data.sector,
         industry: data.industry,
+        country: data.country,
         description: data.longBusinessSummary,
         website: data.website,
         logo: `https://logo.clearbit.com/${data.website?.replace(/https?:\/\//, '')}`,
@@ -86,18 +86,323 @@ export const MARKET_CAP_RANGES = {
   MICRO: { max: 300_000_000, label: 'Micro Cap (<$300M)' },
 } as const;
 
+// Bucket of holdings whose sector, industry, country or market cap is unknown
+export const UNCLASSIFIED_LABEL = 'Unclassified';
+
 // ============================================
 // Portfolio Configuration
 // ============================================
 
 export const PORTFOLIO_LIMITS = {
   MAX_ASSETS: 100,
+  MAX_ACCOUNTS: 10,
   MIN_SHARES: 0.01,
   MAX_SHARES: 1_000_000,
   MIN_PRICE: 0.01,
   MAX_PRICE: 1_000_000,
 } as const;
 
+export const ASSET_CLASSES = ['EQUITY', 'ETF', 'CRYPTO', 'BOND', 'CASH_EQUIVALENT', 'MANUAL'] as const;
+
+export const ASSET_CLASS_LABELS: Record<(typeof ASSET_CLASSES)[number], string> = {
+  EQUITY: 'Stock',
+  ETF: 'ETF',
+  CRYPTO: 'Crypto',
+  BOND: 'Bond',
+  CASH_EQUIVALENT: 'Cash Equivalent',
+  MANUAL: 'Manually Priced',
+};
+
+// Classes whose listings carry sector, industry and country metadata
+export const CLASSIFIED_ASSET_CLASSES = ['EQUITY', 'ETF', 'CASH_EQUIVALENT'] as const;
+
+// Name of the account created for every user
+export const DEFAULT_ACCOUNT_NAME = 'Main';
+
+// Query value selecting the aggregate of all accounts
+export const ALL_ACCOUNTS = 'all';
+
+export const TRANSACTION_TYPES = [
+  'BUY',
+  'SELL',
+  'SPLIT',
+  'TRANSFER_IN',
+  'TRANSFER_OUT',
+] as const;
+
+export const TRANSACTION_TYPE_LABELS: Record<(typeof TRANSACTION_TYPES)[number], string> = {
+  BUY: 'Buy',
+  SELL: 'Sell',
+  SPLIT: 'Split',
+  TRANSFER_IN: 'Transfer In',
+  TRANSFER_OUT: 'Transfer Out',
+};
+
+// Ledger entries written by the corporate actions job, never entered directly
+export const CORPORATE_ACTION_TRANSACTION_TYPES = ['SPINOFF'] as const;
+
+export const CASH_TRANSACTION_TYPES = [
+  'DEPOSIT',
+  'WITHDRAWAL',
+  'INTEREST',
+  'DIVIDEND',
+  'BUY',
+  'SELL',
+  'OPTION_PREMIUM',
+] as const;
+
+// Cash entries a user records directly; the others come from trades and options
+export const MANUAL_CASH_TRANSACTION_TYPES = ['DEPOSIT', 'WITHDRAWAL', 'INTEREST', 'DIVIDEND'] as const;
+
+export const CASH_TRANSACTION_TYPE_LABELS: Record<(typeof CASH_TRANSACTION_TYPES)[number], string> = {
+  DEPOSIT: 'Deposit',
+  WITHDRAWAL: 'Withdrawal',
+  INTEREST: 'Interest',
+  DIVIDEND: 'Dividend',
+  BUY: 'Buy',
+  SELL: 'Sell',
+  OPTION_PREMIUM: 'Option Premium',
+};
+
+export const TRASH_CONFIG = {
+  RETENTION_DAYS: 30, // Deleted positions are purged for good after this long
+  UNDO_DURATION_MS: 10_000, // How long the undo toast stays up after a delete
+} as const;
+
+// Label of the cash slice in allocation charts
+export const CASH_LABEL = 'Cash';
+
+export const TAG_LIMITS = {
+  MAX_TAGS: 10, // Tags per position
+  MAX_LENGTH: 30,
+} as const;
+
+// Offered when tagging a position; any other tag can be typed
+export const SUGGESTED_TAGS = ['core', 'speculative', 'income', 'retirement'] as const;
+
+// Label of the slice of positions without tags
+export const UNTAGGED_LABEL = 'Untagged';
+
+export const LOT_METHODS = ['FIFO', 'LIFO', 'HIFO', 'SPECIFIC'] as const;
+
+export const LOT_METHOD_LABELS: Record<(typeof LOT_METHODS)[number], string> = {
+  FIFO: 'First In, First Out',
+  LIFO: 'Last In, First Out',
+  HIFO: 'Highest Cost, First Out',
+  SPECIFIC: 'Specific Lots',
+};
+
+// Lots held longer than this are long-term for tax purposes
+export const LONG_TERM_HOLDING_YEARS = 1;
+
+export const WASH_SALE_CONFIG = {
+  WINDOW_DAYS: 30, // Days before or after a loss sale a purchase replaces the shares
+  MAX_GROUPS: 20, // Groups of substantially identical tickers per user
+  MAX_GROUP_TICKERS: 10,
+} as const;
+
+// ============================================
+// Performance
+// ============================================
+
+export const PERFORMANCE_RANGES = ['1M', '3M', 'YTD', '1Y', 'ALL'] as const;
+
+export const PERFORMANCE_RANGE_LABELS: Record<(typeof PERFORMANCE_RANGES)[number], string> = {
+  '1M': '1M',
+  '3M': '3M',
+  YTD: 'YTD',
+  '1Y': '1Y',
+  ALL: 'All',
+};
+
+export const BENCHMARK_LIMITS = {
+  MAX_BENCHMARKS: 3,
+} as const;
+
+export const DEFAULT_BENCHMARK = 'SPY';
+
+export const DEFAULT_BENCHMARKS = [DEFAULT_BENCHMARK];
+
+export const RISK_CONFIG = {
+  LOOKBACK_DAYS: 365, // Calendar days of daily returns behind each metric
+  TRADING_DAYS_PER_YEAR: 252,
+  VAR_CONFIDENCE: 0.95, // One-day historical Value at Risk
+  DEFAULT_RISK_FREE_RATE: 0.04, // Matches the User.riskFreeRate column default
+  MAX_RISK_FREE_RATE: 0.2,
+} as const;
+
+export const CORRELATION_WINDOWS = ['3M', '6M', '1Y', '3Y'] as const;
+
+export const CORRELATION_WINDOW_DAYS: Record<(typeof CORRELATION_WINDOWS)[number], number> = {
+  '3M': 91,
+  '6M': 182,
+  '1Y': 365,
+  '3Y': 3 * 365,
+};
+
+export const CORRELATION_CONFIG = {
+  HIGH_CORRELATION: 0.7, // Holdings at or above this form a cluster
+  MIN_OBSERVATIONS: 20, // Shared trading days needed for a correlation
+} as const;
+
+export const SNAPSHOT_LIMITS = {
+  MAX_BACKFILL_DAYS: 5 * 365, // Oldest day rebuilt from historical prices
+  HISTORY_PERIOD: '5y', // Price history requested for backfills
+  REFRESH_INTERVAL: 15 * 60, // Seconds between snapshot refreshes per user
+  CRON_BATCH_SIZE: 10, // Users the daily job snapshots concurrently
+  CRON_TIME_BUDGET: 25, // Seconds the daily job starts batches for, within its 30s maxDuration
+  CRON_PROGRESS_TTL: 24 * 60 * 60, // Seconds the daily job's saved cursor is kept
+} as const;
+
+// ============================================
+// Rebalancing
+// ============================================
+
+export const TARGET_KINDS = ['TICKER', 'SECTOR', 'BUCKET'] as const;
+
+export const TARGET_KIND_LABELS: Record<(typeof TARGET_KINDS)[number], string> = {
+  TICKER: 'By Ticker',
+  SECTOR: 'By Sector',
+  BUCKET: 'Custom Buckets',
+};
+
+export const REBALANCE_MODES = ['FULL', 'NEW_MONEY'] as const;
+
+export const REBALANCE_MODE_LABELS: Record<(typeof REBALANCE_MODES)[number], string> = {
+  FULL: 'Buy and Sell',
+  NEW_MONEY: 'New Money Only',
+};
+
+export const REBALANCE_CONFIG = {
+  DEFAULT_BAND: 0.05, // Five percentage points either side of the target
+  MAX_BAND: 0.5,
+  WEIGHT_TOLERANCE: 0.0001, // Allowed rounding when weights must sum to 1
+  FRACTIONAL_INCREMENT: 0.01, // Smallest fractional share traded
+  MAX_CONTRIBUTION: 100_000_000,
+} as const;
+
+// Label of holdings matched by no target
+export const UNTARGETED_LABEL = 'Untargeted';
+
+// ============================================
+// Look-Through
+// ============================================
+
+export const LOOK_THROUGH_CONFIG = {
+  TOP_HOLDINGS: 15, // Underlying companies listed
+  MAX_OVERLAPS: 10, // Fund pairs listed
+  HOLDINGS_DIR: 'data/fund-holdings', // Default folder of <FUND>.csv holdings files
+  MAX_FUND_HOLDINGS: 5000,
+} as const;
+
+// Label of the part of a fund not covered by its listed holdings
+export const UNLISTED_HOLDINGS_LABEL = 'Other fund holdings';
+
+// ============================================
+// Planning
+// ============================================
+
+export const PROJECTION_CONFIG = {
+  DEFAULT_YEARS: 10,
+  MAX_YEARS: 50,
+  DEFAULT_PATHS: 2000, // Simulated paths per projection
+  MIN_PATHS: 100,
+  MAX_PATHS: 10000,
+  MAX_CONTRIBUTION: 1_000_000, // Largest monthly contribution accepted
+  TRADING_DAYS_PER_MONTH: 21, // Consecutive daily returns drawn as one month
+  MIN_HISTORY_DAYS: 126, // Daily returns needed before projecting
+  SEED: 20240601, // Fixed so the same inputs give the same bands
+} as const;
+
+// ============================================
+// Corporate Actions
+// ============================================
+
+export const CORPORATE_ACTION_TYPES = ['SPLIT', 'REVERSE_SPLIT', 'SPINOFF', 'SYMBOL_CHANGE'] as const;
+
+export const CORPORATE_ACTION_TYPE_LABELS: Record<(typeof CORPORATE_ACTION_TYPES)[number], string> = {
+  SPLIT: 'Stock Split',
+  REVERSE_SPLIT: 'Reverse Split',
+  SPINOFF: 'Spinoff',
+  SYMBOL_CHANGE: 'Symbol Change',
+};
+
+export const CORPORATE_ACTION_LIMITS = {
+  MAX_RATIO: 1000, // Largest split ratio, or its inverse for reverse splits
+  MAX_BATCH: 100, // Actions accepted per request
+  AUDIT_HISTORY: 50, // Audit entries returned to the dashboard
+} as const;
+
+// ============================================
+// Options
+// ============================================
+
+export const OPTION_TYPES = ['CALL', 'PUT'] as const;
+
+export const OPTION_SIDES = ['LONG', 'SHORT'] as const;
+
+export const OPTION_SIDE_LABELS: Record<(typeof OPTION_SIDES)[number], string> = {
+  LONG: 'Bought',
+  SHORT: 'Written',
+};
+
+export const OPTION_STATUSES = ['OPEN', 'CLOSED', 'EXPIRED', 'EXERCISED'] as const;
+
+export const OPTION_STATUS_LABELS: Record<(typeof OPTION_STATUSES)[number], string> = {
+  OPEN: 'Open',
+  CLOSED: 'Closed',
+  EXPIRED: 'Expired',
+  EXERCISED: 'Exercised',
+};
+
+export const OPTION_CONFIG = {
+  DEFAULT_MULTIPLIER: 100, // Shares per standard equity option contract
+  MAX_MULTIPLIER: 1000,
+  MAX_CONTRACTS: 10_000,
+  DAYS_PER_YEAR: 365, // Time to expiry is in calendar days
+  VOLATILITY_LOOKBACK_DAYS: 90, // Daily returns behind the historical volatility used to price options
+  HISTORY_LIMIT: 50, // Closed, expired and exercised options returned to the dashboard
+} as const;
+
+// ============================================
+// Sharing
+// ============================================
+
+export const SHARE_LINK_CONFIG = {
+  EXPIRY_DAYS: [1, 7, 30, 90], // Lifetimes offered when creating a link
+  DEFAULT_EXPIRY_DAYS: 7,
+  MAX_ACTIVE_LINKS: 20, // Unexpired, unrevoked links per user
+  TOKEN_BYTES: 24,
+  VIEW_RECORD_MINUTES: 15, // Last-viewed time is only updated once it is this old
+} as const;
+
+// Shown in place of amounts on a link that masks them
+export const MASKED_VALUE = '•••••';
+
+// ============================================
+// CSV Import
+// ============================================
+
+export const IMPORT_LIMITS = {
+  MAX_FILE_SIZE: 1024 * 1024, // 1 MB
+  MAX_ROWS: 1000,
+  TRANSACTION_TIMEOUT_MS: 60_000, // Within the import route's 90s maxDuration in vercel.json
+} as const;
+
+export const EXPORT_FORMATS = ['csv', 'json', 'ofx'] as const;
+
+export const IMPORT_FIELDS = ['ticker', 'shares', 'price', 'totalCost', 'fees', 'date', 'notes'] as const;
+
+export const IMPORT_FIELD_LABELS: Record<(typeof IMPORT_FIELDS)[number], string> = {
+  ticker: 'Ticker',
+  shares: 'Shares',
+  price: 'Price per Share',
+  totalCost: 'Total Cost',
+  fees: 'Fees',
+  date: 'Purchase Date',
+  notes: 'Notes',
+};
+
 // ============================================
 // Chart Configuration
 // ============================================
@@ -108,6 +413,7 @@ export const CHART_COLORS = {
   DANGER: '#ef4444', // Red
   WARNING: '#f59e0b', // Amber
   INFO: '#3b82f6', // Blue
+  CASH: '#94a3b8', // Slate
   SECTORS: [
     '#1e3a8a', // Navy
     '#10b981', // Green
@@ -139,9 +445,9 @@ export const CHART_CONFIG = {
 export const VALIDATION = {
   TICKER: {
     MIN_LENGTH: 1,
-    MAX_LENGTH: 5,
+    MAX_LENGTH: 8,
     PATTERN: /^[A-Z]{1,5}(\.[A-Z]{1,2})?$/,
-    MESSAGE: 'Ticker must be 1-5 uppercase letters',
+    MESSAGE: 'Ticker must be 1-5 uppercase letters, with an optional exchange suffix',
   },
   SHARES: {
     MIN: 0.01,
@@ -153,8 +459,45 @@ export const VALIDATION = {
     MAX: 1_000_000,
     MESSAGE: 'Price must be between $0.01 and $1,000,000',
   },
+  // Symbols of non-equity assets are longer than tickers
+  SYMBOL: {
+    MAX_LENGTH: 20,
+  },
+  CRYPTO_SYMBOL: {
+    PATTERN: /^[A-Z0-9]{2,10}(-[A-Z]{3,4})?$/,
+    MESSAGE: 'Crypto symbol must be 2-10 letters or digits, with an optional quote currency (e.g. BTC or BTC-USD)',
+  },
+  BOND_ID: {
+    PATTERN: /^([A-Z0-9]{9}|[A-Z]{1,5}(\.[A-Z]{1,2})?)$/,
+    MESSAGE: 'Bond must be a 9-character CUSIP or a fund ticker',
+  },
+  MANUAL_SYMBOL: {
+    PATTERN: /^[A-Z0-9][A-Z0-9._-]{0,19}$/,
+    MESSAGE: 'Name must be up to 20 letters, digits, dots, dashes or underscores',
+  },
+  // Crypto trades in fractions of a coin at any price
+  CRYPTO_UNITS: {
+    MIN: 0.00000001,
+    MAX: 1_000_000_000,
+    MESSAGE: 'Units must be between 0.00000001 and 1,000,000,000',
+  },
+  CRYPTO_PRICE: {
+    MIN: 0.00000001,
+    MAX: 10_000_000,
+    MESSAGE: 'Price must be between $0.00000001 and $10,000,000',
+  },
 } as const;
 
+// Symbol rule for each asset class
+export const ASSET_SYMBOL_RULES: Record<(typeof ASSET_CLASSES)[number], { PATTERN: RegExp; MESSAGE: string }> = {
+  EQUITY: VALIDATION.TICKER,
+  ETF: VALIDATION.TICKER,
+  CRYPTO: VALIDATION.CRYPTO_SYMBOL,
+  BOND: VALIDATION.BOND_ID,
+  CASH_EQUIVALENT: VALIDATION.TICKER,
+  MANUAL: VALIDATION.MANUAL_SYMBOL,
+};
+
 // ============================================
 // Error Messages
 // ============================================
@@ -178,7 +521,25 @@ export const ERROR_MESSAGES = {
 export const SUCCESS_MESSAGES = {
   ASSET_ADDED: 'Stock added to portfolio successfully!',
   ASSET_UPDATED: 'Stock updated successfully!',
-  ASSET_DELETED: 'Stock removed from portfolio.',
+  ASSET_DELETED: 'Stock moved to trash.',
+  ASSET_RESTORED: 'Stock restored from trash.',
+  ASSET_PURGED: 'Stock deleted permanently.',
+  TRADE_RECORDED: 'Trade recorded successfully!',
+  TRADE_DELETED: 'Trade removed from ledger.',
+  IMPORT_COMPLETED: 'Import completed successfully!',
+  BACKUP_RESTORED: 'Portfolio restored from backup.',
+  ACCOUNT_CREATED: 'Account created successfully!',
+  ACCOUNT_UPDATED: 'Account updated successfully!',
+  ACCOUNT_DELETED: 'Account deleted.',
+  CASH_RECORDED: 'Cash transaction recorded successfully!',
+  CASH_DELETED: 'Cash transaction removed.',
+  OPTION_OPENED: 'Option recorded successfully!',
+  OPTION_SETTLED: 'Option updated successfully!',
+  OPTION_DELETED: 'Option removed.',
+  VALUATION_RECORDED: 'Valuation recorded successfully!',
+  VALUATION_DELETED: 'Valuation removed.',
+  SHARE_LINK_CREATED: 'Share link created!',
+  SHARE_LINK_REVOKED: 'Share link revoked.',
   DATA_REFRESHED: 'Data refreshed successfully!',
   SETTINGS_SAVED: 'Settings saved successfully!',
 } as const;
@@ -196,6 +557,38 @@ export const DATE_FORMATS = {
   DAY_MONTH: 'MMM d',
 } as const;
 
+// ============================================
+// Currencies
+// ============================================
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'CHF', 'AUD'] as const;
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const CURRENCY_LABELS: Record<(typeof CURRENCIES)[number], string> = {
+  USD: 'US Dollar',
+  EUR: 'Euro',
+  GBP: 'British Pound',
+  JPY: 'Japanese Yen',
+  CAD: 'Canadian Dollar',
+  CHF: 'Swiss Franc',
+  AUD: 'Australian Dollar',
+};
+
+export const FX_CONFIG = {
+  PIVOT_CURRENCY: 'USD', // Rates are stored per US dollar
+  SEED_DAYS: 1095, // Days of history generated by the seed script
+  // Approximate units per US dollar, the starting point of seeded rates
+  REFERENCE_RATES: {
+    EUR: 0.92,
+    GBP: 0.79,
+    JPY: 150,
+    CAD: 1.36,
+    CHF: 0.88,
+    AUD: 1.52,
+  },
+} as const;
+
 // ============================================
 // Number Formats
 // ============================================
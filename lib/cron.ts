@@ -0,0 +1,17 @@
+/**
+ * lib/cron.ts
+ * Authorization of scheduled jobs
+ */
+
+import { NextRequest } from 'next/server';
+
+/**
+ * Checks the `Authorization: Bearer <CRON_SECRET>` header that Vercel Cron
+ * sends with every scheduled request. Always fails when CRON_SECRET is unset.
+ * @param request - Next.js request object
+ * @returns Whether the request may run the job
+ */
+export function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && request.headers.get('authorization') === `Bearer ${secret}`;
+}
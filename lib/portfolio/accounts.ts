@@ -0,0 +1,157 @@
+/**
+ * lib/portfolio/accounts.ts
+ * Portfolio accounts - default account, account scoping for queries and
+ * per-account cache keys and snapshots
+ */
+
+import { Portfolio, Prisma } from '@prisma/client';
+
+import cache from '@/lib/cache';
+import { ALL_ACCOUNTS, DEFAULT_ACCOUNT_NAME, PERFORMANCE_RANGES } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { PerformanceRange } from '@/types';
+
+import { PortfolioError } from './errors';
+
+/**
+ * Gets the user's default account, creating it on first use. Creating it
+ * moves any positions from before accounts existed into it; for users who
+ * only read, `npm run db:backfill-accounts` moves them once.
+ * @param client - Prisma client or transaction client
+ * @param userId - Owner of the account
+ * @returns Default account
+ */
+export async function ensureDefaultPortfolio(
+  client: Prisma.TransactionClient,
+  userId: string,
+): Promise<Portfolio> {
+  const existing = await client.portfolio.findFirst({
+    where: { userId, isDefault: true },
+  });
+  if (existing) {
+    return existing;
+  }
+
+  const portfolio = await client.portfolio.upsert({
+    where: { userId_name: { userId, name: DEFAULT_ACCOUNT_NAME } },
+    update: { isDefault: true },
+    create: { userId, name: DEFAULT_ACCOUNT_NAME, isDefault: true },
+  });
+  await client.asset.updateMany({
+    where: { userId, portfolioId: null },
+    data: { portfolioId: portfolio.id },
+  });
+
+  return portfolio;
+}
+
+/**
+ * Resolves the account a write goes to
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the account
+ * @param portfolioId - Requested account, or undefined for the default
+ * @returns Target account
+ * @throws PortfolioError if the account does not belong to the user
+ */
+export async function resolveTargetPortfolio(
+  client: Prisma.TransactionClient,
+  userId: string,
+  portfolioId?: string,
+): Promise<Portfolio> {
+  if (!portfolioId) {
+    return ensureDefaultPortfolio(client, userId);
+  }
+
+  const portfolio = await client.portfolio.findFirst({
+    where: { id: portfolioId, userId },
+  });
+  if (!portfolio) {
+    throw new PortfolioError('Account not found');
+  }
+  return portfolio;
+}
+
+/**
+ * Resolves the account scope of a read from a `portfolioId` query param
+ * @param userId - Owner of the accounts
+ * @param portfolioId - Account ID, `all`, or null for all accounts
+ * @returns The account ID (null for all accounts), or undefined if the
+ * account does not belong to the user
+ */
+export async function resolvePortfolioScope(
+  userId: string,
+  portfolioId: string | null,
+): Promise<string | null | undefined> {
+  if (!portfolioId || portfolioId === ALL_ACCOUNTS) {
+    return null;
+  }
+
+  const portfolio = await prisma.portfolio.findFirst({
+    where: { id: portfolioId, userId },
+    select: { id: true },
+  });
+  return portfolio?.id;
+}
+
+/**
+ * Cache key for an account's (or the aggregate) portfolio summary
+ * @param userId - Owner of the accounts
+ * @param portfolioId - Account ID, or null for all accounts
+ * @param period - Period the summary's returns cover
+ */
+export function summaryCacheKey(
+  userId: string,
+  portfolioId: string | null,
+  period: PerformanceRange = 'ALL',
+): string {
+  return `portfolio:summary:${userId}:${portfolioId ?? ALL_ACCOUNTS}:${period}`;
+}
+
+/**
+ * Cache key marking a user's snapshots as recently refreshed
+ */
+export function snapshotRefreshKey(userId: string): string {
+  return `snapshots:refreshed:${userId}`;
+}
+
+/**
+ * Discards an account's daily snapshots from a date on, after a change
+ * dated that day made them stale. They are rebuilt on the next refresh.
+ * @param client - Prisma client or transaction client
+ * @param portfolioId - Account that changed
+ * @param date - Date of the change
+ */
+export async function clearSnapshotsFrom(
+  client: Prisma.TransactionClient,
+  portfolioId: string,
+  date: Date,
+): Promise<void> {
+  const day = new Date(date);
+  await client.portfolioSnapshot.deleteMany({
+    where: {
+      portfolioId,
+      date: { gte: new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate())) },
+    },
+  });
+}
+
+/**
+ * Clears the cached summaries of every account and the aggregate, and lets
+ * the next performance request refresh the user's snapshots
+ * @param userId - Owner of the accounts
+ */
+export async function invalidatePortfolioCache(userId: string): Promise<void> {
+  const portfolios = await prisma.portfolio.findMany({
+    where: { userId },
+    select: { id: true },
+  });
+
+  const scopes = [null, ...portfolios.map((p) => p.id)];
+
+  await Promise.all([
+    cache.delete(snapshotRefreshKey(userId)),
+    ...scopes.flatMap((portfolioId) =>
+      PERFORMANCE_RANGES.map((period) => cache.delete(summaryCacheKey(userId, portfolioId, period))),
+    ),
+  ]);
+}
@@ -0,0 +1,104 @@
+/**
+ * lib/portfolio/benchmark.ts
+ * Benchmark comparison - the portfolio's time-weighted return next to the
+ * price return of benchmark tickers over the same days
+ */
+
+import realDataClient from '@/lib/api/real-data-client';
+import { PERFORMANCE_RANGES, SNAPSHOT_LIMITS } from '@/lib/constants';
+import { BenchmarkComparison, BenchmarkPeriod, BenchmarkPoint, PerformanceRange } from '@/types';
+
+import { loadPositionFlows, periodBaseIndex, timeWeightedSeries } from './returns';
+import { loadPerformance, rangeStart, toDayKey } from './snapshots';
+
+/**
+ * Closing prices of a ticker aligned to snapshot days. Each day takes the
+ * last close on or before it; days before the price history are null.
+ * Adjusted closes are preferred so benchmark returns include dividends.
+ */
+async function alignedCloses(ticker: string, days: string[]): Promise<Array<number | null>> {
+  const history = await realDataClient.getHistoricalData(ticker, SNAPSHOT_LIMITS.HISTORY_PERIOD);
+  const bars = history
+    .map((bar) => ({ dayKey: toDayKey(bar.date), close: bar.adjustedClose ?? bar.close }))
+    .sort((a, b) => a.dayKey.localeCompare(b.dayKey));
+
+  let cursor = 0;
+  let close: number | null = null;
+  return days.map((day) => {
+    for (let bar = bars[cursor]; bar && bar.dayKey <= day; bar = bars[cursor]) {
+      close = bar.close;
+      cursor++;
+    }
+    return close;
+  });
+}
+
+/**
+ * Return from one point of an index series to another
+ */
+function growthBetween(values: Array<number | null>, from: number, to: number): number | null {
+  const start = values[from];
+  const end = values[to];
+  return start && end !== null && end !== undefined ? end / start - 1 : null;
+}
+
+/**
+ * Compares the portfolio against benchmark tickers. The portfolio return is
+ * time-weighted from daily snapshots, so trades and deposits don't count as
+ * performance; benchmarks are measured from their close on the same days.
+ * @param userId - Owner of the accounts
+ * @param portfolioId - Account, or null for all accounts
+ * @param range - Range of the returned series
+ * @param tickers - Benchmark tickers
+ * @returns Cumulative series over the range and returns for every range
+ */
+export async function loadBenchmarkComparison(
+  userId: string,
+  portfolioId: string | null,
+  range: PerformanceRange,
+  tickers: string[],
+): Promise<BenchmarkComparison> {
+  const now = new Date();
+  const [performance, flows] = await Promise.all([
+    loadPerformance(userId, portfolioId, 'ALL'),
+    loadPositionFlows(userId, portfolioId),
+  ]);
+  const { snapshots } = performance;
+  const days = snapshots.map((snapshot) => snapshot.date);
+
+  const growth = timeWeightedSeries(snapshots, flows).map((point) => 1 + point.value);
+  const closes = new Map(
+    await Promise.all(tickers.map(async (ticker) => [ticker, await alignedCloses(ticker, days)] as const)),
+  );
+  const last = snapshots.length - 1;
+
+  const periods: BenchmarkPeriod[] = PERFORMANCE_RANGES.map((period) => {
+    const base = periodBaseIndex(snapshots, rangeStart(period, now));
+    const portfolio = base === null ? null : growthBetween(growth, base, last);
+    return {
+      range: period,
+      portfolio,
+      benchmarks: tickers.map((ticker) => {
+        const cumulativeReturn = base === null ? null : growthBetween(closes.get(ticker) ?? [], base, last);
+        return {
+          ticker,
+          cumulativeReturn,
+          relative: portfolio !== null && cumulativeReturn !== null ? portfolio - cumulativeReturn : null,
+        };
+      }),
+    };
+  });
+
+  const base = periodBaseIndex(snapshots, rangeStart(range, now));
+  const series: BenchmarkPoint[] = base === null
+    ? []
+    : snapshots.slice(base).map((snapshot, offset) => ({
+        date: snapshot.date,
+        portfolio: growthBetween(growth, base, base + offset) ?? 0,
+        benchmarks: Object.fromEntries(
+          tickers.map((ticker) => [ticker, growthBetween(closes.get(ticker) ?? [], base, base + offset)]),
+        ),
+      }));
+
+  return { range, tickers, series, periods };
+}
@@ -0,0 +1,179 @@
+/**
+ * lib/portfolio/cash.ts
+ * Cash ledger - deposits, withdrawals, income and trade settlement per
+ * account, and the balances derived from it
+ */
+
+import { Asset, CashTransactionType, Prisma, Transaction } from '@prisma/client';
+
+import prisma from '@/lib/db';
+
+import { tradeAmount } from './lots';
+
+const OUTFLOW_TYPES: CashTransactionType[] = ['WITHDRAWAL', 'BUY'];
+
+/**
+ * Cash balance of an account (or several), split by where the cash came from
+ */
+export interface CashSummary {
+  balance: number;
+  deposits: number;
+  withdrawals: number; // Positive amount withdrawn
+  netContributions: number; // Deposits less withdrawals
+  income: number; // Interest and dividends
+  tradeFlows: number; // Sale proceeds less purchase costs, and option premiums
+}
+
+/**
+ * Leaves out the entries of positions in the trash: the settlements of
+ * their trades and the dividends linked to them. They are removed with the
+ * position when it is purged, so the balance already reads as if they were
+ * gone.
+ */
+export const ACTIVE_CASH_WHERE = {
+  AND: [
+    { OR: [{ transactionId: null }, { transaction: { asset: { deletedAt: null } } }] },
+    { OR: [{ assetId: null }, { asset: { deletedAt: null } }] },
+  ],
+} satisfies Prisma.CashTransactionWhereInput;
+
+const EMPTY_CASH_SUMMARY: CashSummary = {
+  balance: 0,
+  deposits: 0,
+  withdrawals: 0,
+  netContributions: 0,
+  income: 0,
+  tradeFlows: 0,
+};
+
+/**
+ * Signs a cash amount by the direction of its type
+ * @param type - Cash transaction type
+ * @param amount - Positive amount
+ * @returns Negative for withdrawals and buys, positive otherwise
+ */
+export function signCashAmount(type: CashTransactionType, amount: number): number {
+  return OUTFLOW_TYPES.includes(type) ? -Math.abs(amount) : Math.abs(amount);
+}
+
+/**
+ * Records the cash side of a buy or sale: the purchase cost and fees are
+ * paid from the account's cash and sale proceeds net of fees are credited
+ * to it. Other trade types move no cash.
+ * @param client - Prisma transaction client
+ * @param portfolioId - Account the trade was made in
+ * @param transaction - The recorded trade
+ * @param fxRate - Base currency units per unit of the trade's currency
+ */
+export async function settleTradeCash(
+  client: Prisma.TransactionClient,
+  portfolioId: string,
+  transaction: Transaction,
+  fxRate: number = 1,
+): Promise<void> {
+  if (transaction.type !== 'BUY' && transaction.type !== 'SELL') {
+    return;
+  }
+
+  await client.cashTransaction.create({
+    data: {
+      type: transaction.type,
+      amount: signCashAmount(transaction.type, tradeAmount(transaction) * fxRate),
+      ticker: transaction.ticker,
+      date: transaction.date,
+      portfolioId,
+      userId: transaction.userId,
+      transactionId: transaction.id,
+    },
+  });
+}
+
+/**
+ * Links the dividends a position's stock paid into its account to the
+ * position, so they follow it into the trash. They stay unlinked while
+ * another open position in the account holds the same stock, as the two
+ * cannot be told apart.
+ * @param client - Prisma transaction client
+ * @param asset - Position being moved to the trash
+ */
+export async function linkDividendCash(
+  client: Prisma.TransactionClient,
+  asset: Pick<Asset, 'id' | 'ticker' | 'portfolioId'>,
+): Promise<void> {
+  if (!asset.portfolioId) {
+    return;
+  }
+
+  const sibling = await client.asset.findFirst({
+    where: { id: { not: asset.id }, portfolioId: asset.portfolioId, ticker: asset.ticker, deletedAt: null },
+    select: { id: true },
+  });
+  if (sibling) {
+    return;
+  }
+
+  await client.cashTransaction.updateMany({
+    where: { portfolioId: asset.portfolioId, ticker: asset.ticker, type: 'DIVIDEND', assetId: null },
+    data: { assetId: asset.id },
+  });
+}
+
+/**
+ * Adds up cash summaries, e.g. of every account
+ */
+export function combineCashSummaries(summaries: Iterable<CashSummary>): CashSummary {
+  const total = { ...EMPTY_CASH_SUMMARY };
+  for (const summary of summaries) {
+    for (const key of Object.keys(total) as Array<keyof CashSummary>) {
+      total[key] += summary[key];
+    }
+  }
+  return total;
+}
+
+/**
+ * Loads the cash summary of each of a user's accounts
+ * @param userId - Owner of the accounts
+ * @param portfolioId - Account to load, or null for all accounts
+ * @returns Cash summary by account ID; accounts without cash activity are omitted
+ */
+export async function loadCashSummaries(
+  userId: string,
+  portfolioId: string | null = null,
+): Promise<Map<string, CashSummary>> {
+  const sums = await prisma.cashTransaction.groupBy({
+    by: ['portfolioId', 'type'],
+    where: { userId, ...(portfolioId && { portfolioId }), ...ACTIVE_CASH_WHERE },
+    _sum: { amount: true },
+  });
+
+  const summaries = new Map<string, CashSummary>();
+  for (const { portfolioId: accountId, type, _sum } of sums) {
+    const amount = _sum.amount ?? 0;
+    const summary = summaries.get(accountId) ?? { ...EMPTY_CASH_SUMMARY };
+
+    summary.balance += amount;
+    switch (type) {
+      case 'DEPOSIT':
+        summary.deposits += amount;
+        summary.netContributions += amount;
+        break;
+      case 'WITHDRAWAL':
+        summary.withdrawals -= amount;
+        summary.netContributions += amount;
+        break;
+      case 'INTEREST':
+      case 'DIVIDEND':
+        summary.income += amount;
+        break;
+      case 'BUY':
+      case 'SELL':
+      case 'OPTION_PREMIUM':
+        summary.tradeFlows += amount;
+        break;
+    }
+    summaries.set(accountId, summary);
+  }
+
+  return summaries;
+}
@@ -0,0 +1,118 @@
+/**
+ * lib/portfolio/classification.ts
+ * Classification of holdings - sector, industry, country and market-cap
+ * bucket from the stocks table, falling back to company profiles, with
+ * anything unknown reported as unclassified. Assets without listing
+ * metadata, such as crypto and bonds, are classed by their asset class.
+ */
+
+import { Asset } from '@prisma/client';
+
+import realDataClient from '@/lib/api/real-data-client';
+import {
+  ASSET_CLASS_LABELS,
+  CLASSIFIED_ASSET_CLASSES,
+  MARKET_CAP_RANGES,
+  UNCLASSIFIED_LABEL,
+} from '@/lib/constants';
+import prisma from '@/lib/db';
+
+/**
+ * Classification of a ticker. Every field is a label, UNCLASSIFIED_LABEL
+ * when unknown.
+ */
+export interface Classification {
+  sector: string;
+  industry: string;
+  country: string;
+  marketCapRange: string;
+}
+
+/**
+ * Label of the market-cap bucket a capitalization falls in
+ * @param marketCap - Market capitalization in US dollars
+ */
+export function marketCapRange(marketCap: number | null | undefined): string {
+  if (!marketCap || marketCap <= 0) {
+    return UNCLASSIFIED_LABEL;
+  }
+  const range = Object.values(MARKET_CAP_RANGES).find(
+    (bucket) => (!('min' in bucket) || marketCap >= bucket.min) && (!('max' in bucket) || marketCap < bucket.max),
+  );
+  return range?.label ?? UNCLASSIFIED_LABEL;
+}
+
+/**
+ * Classifies tickers. The stocks table is used first; company profiles
+ * fill whatever it is missing, and are only fetched for those tickers.
+ * @param tickers - Tickers to classify
+ * @param fetchProfiles - Whether to fetch company profiles; turned off for
+ * long lists such as a fund's constituents
+ * @returns Classification by ticker
+ */
+export async function loadClassifications(
+  tickers: string[],
+  fetchProfiles = true,
+): Promise<Map<string, Classification>> {
+  const unique = [...new Set(tickers)];
+  const stocks = await prisma.stock.findMany({
+    where: { ticker: { in: unique } },
+    select: { ticker: true, sector: true, industry: true, country: true, marketCap: true },
+  });
+  const stockMap = new Map(stocks.map((stock) => [stock.ticker, stock]));
+
+  const incomplete = fetchProfiles
+    ? unique.filter((ticker) => {
+        const stock = stockMap.get(ticker);
+        return !stock?.sector || !stock.industry || !stock.country || !stock.marketCap;
+      })
+    : [];
+  const profiles = new Map(
+    await Promise.all(
+      incomplete.map(async (ticker) => [ticker, await realDataClient.getCompanyInfo(ticker).catch(() => null)] as const),
+    ),
+  );
+
+  return new Map(
+    unique.map((ticker) => {
+      const stock = stockMap.get(ticker);
+      const profile = profiles.get(ticker);
+      return [
+        ticker,
+        {
+          sector: stock?.sector || profile?.sector || UNCLASSIFIED_LABEL,
+          industry: stock?.industry || profile?.industry || UNCLASSIFIED_LABEL,
+          country: stock?.country || profile?.country || UNCLASSIFIED_LABEL,
+          marketCapRange: marketCapRange(stock?.marketCap || profile?.marketCap),
+        },
+      ];
+    }),
+  );
+}
+
+/**
+ * Classifies assets. Stocks and funds are classified from their listing;
+ * other asset classes take the class as their sector and are otherwise
+ * unclassified.
+ * @param assets - Assets to classify
+ * @returns Classification by asset ID
+ */
+export async function loadAssetClassifications(
+  assets: Pick<Asset, 'id' | 'ticker' | 'assetClass'>[],
+): Promise<Map<string, Classification>> {
+  const isListed = (asset: Pick<Asset, 'assetClass'>) =>
+    (CLASSIFIED_ASSET_CLASSES as readonly string[]).includes(asset.assetClass);
+  const classifications = await loadClassifications(assets.filter(isListed).map((asset) => asset.ticker));
+
+  return new Map(
+    assets.map((asset) => [
+      asset.id,
+      (isListed(asset) && classifications.get(asset.ticker)) || {
+        sector: isListed(asset) ? UNCLASSIFIED_LABEL : ASSET_CLASS_LABELS[asset.assetClass],
+        industry: UNCLASSIFIED_LABEL,
+        country: UNCLASSIFIED_LABEL,
+        marketCapRange: UNCLASSIFIED_LABEL,
+      },
+    ]),
+  );
+}
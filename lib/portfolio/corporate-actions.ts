@@ -0,0 +1,445 @@
+/**
+ * lib/portfolio/corporate-actions.ts
+ * Corporate actions - applies splits, reverse splits, spinoffs and symbol
+ * changes to every position holding a stock on the effective date, and
+ * records an audit entry for each position changed
+ */
+
+import { Asset, CorporateAction, Prisma, Transaction } from '@prisma/client';
+
+import { CORPORATE_ACTION_LIMITS, CORPORATE_ACTION_TYPE_LABELS } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { CorporateActionInput } from '@/lib/validations';
+import { CorporateActionEntry } from '@/types';
+
+import { clearSnapshotsFrom, invalidatePortfolioCache } from './accounts';
+import { LedgerError } from './errors';
+import { derivePosition, ensureOpeningTransaction, recordTrade, syncAssetPosition } from './ledger';
+import { LEDGER_ENTRY_INCLUDE, SHARE_EPSILON } from './lots';
+import { toDayKey } from './snapshots';
+
+type AssetWithLedger = Asset & { transactions: Transaction[] };
+
+/**
+ * Audit entry for one position, before it is written
+ */
+interface AuditDraft {
+  assetId: string;
+  ticker: string;
+  description: string;
+  sharesBefore: number;
+  sharesAfter: number;
+  avgPriceBefore: number;
+  avgPriceAfter: number;
+}
+
+/**
+ * Outcome of the corporate actions job
+ */
+export interface CorporateActionRun {
+  applied: number;
+  positions: number;
+  failed: string[];
+}
+
+// ============================================
+// Registering Actions
+// ============================================
+
+/**
+ * Stores announced corporate actions. An action already registered for
+ * the same stock, type and date is left as it is.
+ * @param actions - Validated actions
+ * @returns Number of actions added
+ */
+export async function saveCorporateActions(actions: CorporateActionInput[]): Promise<number> {
+  const { count } = await prisma.corporateAction.createMany({
+    data: actions.map((action) => ({
+      type: action.type,
+      ticker: action.ticker,
+      effectiveDate: action.effectiveDate,
+      ratio: action.ratio,
+      newTicker: action.newTicker,
+      costAllocation: action.costAllocation,
+      notes: action.notes,
+    })),
+    skipDuplicates: true,
+  });
+
+  return count;
+}
+
+// ============================================
+// Applying Actions
+// ============================================
+
+/**
+ * Describes a split ratio the way it is announced, e.g. "3-for-1" or "1-for-10"
+ */
+function describeRatio(ratio: number): string {
+  const round = (value: number) => Number(value.toFixed(4));
+  return ratio >= 1 ? `${round(ratio)}-for-1` : `1-for-${round(1 / ratio)}`;
+}
+
+/**
+ * Formats a share count for an audit description
+ */
+function describeShares(shares: number): string {
+  return `${Number(shares.toFixed(4))} shares`;
+}
+
+/**
+ * Applies a split or reverse split to a position by adding a SPLIT entry
+ * to its ledger. A split the user already recorded on that day is kept
+ * instead.
+ */
+async function applySplit(
+  tx: Prisma.TransactionClient,
+  action: CorporateAction,
+  asset: AssetWithLedger,
+): Promise<AuditDraft[]> {
+  const ratio = action.ratio ?? 1;
+  const day = toDayKey(action.effectiveDate);
+  const recorded = asset.transactions.some(
+    (entry) => entry.type === 'SPLIT' && toDayKey(entry.date) === day,
+  );
+  if (recorded) {
+    return [];
+  }
+
+  await tx.transaction.create({
+    data: {
+      type: 'SPLIT',
+      ticker: asset.ticker,
+      shares: 0,
+      price: 0,
+      ratio,
+      date: action.effectiveDate,
+      // Sorts ahead of trades already recorded for the same day
+      createdAt: action.effectiveDate,
+      notes: `${describeRatio(ratio)} ${CORPORATE_ACTION_TYPE_LABELS[action.type].toLowerCase()}`,
+      assetId: asset.id,
+      userId: asset.userId,
+    },
+  });
+  const { asset: updated } = await syncAssetPosition(tx, asset.id);
+
+  return [
+    {
+      assetId: asset.id,
+      ticker: asset.ticker,
+      description:
+        `${describeRatio(ratio)} ${CORPORATE_ACTION_TYPE_LABELS[action.type].toLowerCase()} ` +
+        `changed ${describeShares(asset.shares)} into ${describeShares(updated.shares)}`,
+      sharesBefore: asset.shares,
+      sharesAfter: updated.shares,
+      avgPriceBefore: asset.avgPrice,
+      avgPriceAfter: updated.avgPrice,
+    },
+  ];
+}
+
+/**
+ * Applies a spinoff: part of the parent's cost basis moves to the new
+ * company's shares, which are transferred into the same account
+ */
+async function applySpinoff(
+  tx: Prisma.TransactionClient,
+  action: CorporateAction,
+  asset: AssetWithLedger,
+  held: { shares: number; costBasis: number },
+): Promise<AuditDraft[]> {
+  const newTicker = action.newTicker;
+  const ratio = action.ratio ?? 0;
+  const costAllocation = action.costAllocation ?? 0;
+  if (!newTicker || ratio <= 0) {
+    throw new LedgerError(`Spinoff of ${action.ticker} is missing the new ticker or its ratio`);
+  }
+
+  const basisMoved = held.costBasis * costAllocation;
+  const spunOffShares = held.shares * ratio;
+
+  await tx.transaction.create({
+    data: {
+      type: 'SPINOFF',
+      ticker: asset.ticker,
+      shares: 0,
+      price: basisMoved,
+      ratio: 1 - costAllocation,
+      date: action.effectiveDate,
+      createdAt: action.effectiveDate,
+      notes: `Spun off ${newTicker}`,
+      assetId: asset.id,
+      userId: asset.userId,
+    },
+  });
+  const { asset: parent } = await syncAssetPosition(tx, asset.id);
+
+  const existing = await tx.asset.findFirst({
+    where: { ticker: newTicker, userId: asset.userId, portfolioId: asset.portfolioId, deletedAt: null },
+  });
+  const { asset: child } = await recordTrade(tx, asset.userId, {
+    portfolioId: asset.portfolioId ?? undefined,
+    ticker: newTicker,
+    type: 'TRANSFER_IN',
+    shares: spunOffShares,
+    price: basisMoved / spunOffShares,
+    date: action.effectiveDate,
+    notes: `Spun off from ${asset.ticker}`,
+    currency: asset.currency,
+    settleCash: false,
+  });
+
+  return [
+    {
+      assetId: asset.id,
+      ticker: asset.ticker,
+      description: `Spinoff of ${newTicker} moved ${(costAllocation * 100).toFixed(2)}% of the cost basis to ${newTicker}`,
+      sharesBefore: asset.shares,
+      sharesAfter: parent.shares,
+      avgPriceBefore: asset.avgPrice,
+      avgPriceAfter: parent.avgPrice,
+    },
+    {
+      assetId: child.id,
+      ticker: child.ticker,
+      description: `Received ${describeShares(spunOffShares)} of ${newTicker} spun off from ${asset.ticker}`,
+      sharesBefore: existing?.shares ?? 0,
+      sharesAfter: child.shares,
+      avgPriceBefore: existing?.avgPrice ?? 0,
+      avgPriceAfter: child.avgPrice,
+    },
+  ];
+}
+
+/**
+ * Applies a symbol change by renaming the position and its ledger, or by
+ * merging it into a position the account already holds under the new symbol
+ */
+async function applySymbolChange(
+  tx: Prisma.TransactionClient,
+  action: CorporateAction,
+  asset: AssetWithLedger,
+): Promise<AuditDraft[]> {
+  const newTicker = action.newTicker;
+  if (!newTicker) {
+    throw new LedgerError(`Symbol change of ${action.ticker} is missing the new ticker`);
+  }
+
+  if (asset.portfolioId) {
+    await tx.cashTransaction.updateMany({
+      where: { portfolioId: asset.portfolioId, ticker: asset.ticker },
+      data: { ticker: newTicker },
+    });
+  }
+
+  const target = await tx.asset.findFirst({
+    where: { ticker: newTicker, userId: asset.userId, portfolioId: asset.portfolioId, deletedAt: null },
+  });
+
+  if (!target) {
+    await tx.asset.update({ where: { id: asset.id }, data: { ticker: newTicker } });
+    await tx.transaction.updateMany({ where: { assetId: asset.id }, data: { ticker: newTicker } });
+    const { asset: renamed } = await syncAssetPosition(tx, asset.id);
+
+    return [
+      {
+        assetId: asset.id,
+        ticker: newTicker,
+        description: `${asset.ticker} now trades as ${newTicker}`,
+        sharesBefore: asset.shares,
+        sharesAfter: renamed.shares,
+        avgPriceBefore: asset.avgPrice,
+        avgPriceAfter: renamed.avgPrice,
+      },
+    ];
+  }
+
+  if (target.currency !== asset.currency) {
+    throw new LedgerError(
+      `Cannot merge ${asset.ticker} held in ${asset.currency} into ${newTicker} held in ${target.currency}`,
+    );
+  }
+
+  await ensureOpeningTransaction(tx, target);
+  await tx.transaction.updateMany({
+    where: { assetId: asset.id },
+    data: { assetId: target.id, ticker: newTicker },
+  });
+  await tx.dividend.updateMany({ where: { assetId: asset.id }, data: { assetId: target.id } });
+  await tx.asset.delete({ where: { id: asset.id } });
+  const { asset: merged } = await syncAssetPosition(tx, target.id);
+
+  return [
+    {
+      assetId: target.id,
+      ticker: newTicker,
+      description: `${asset.ticker} now trades as ${newTicker}; ${describeShares(asset.shares)} merged into the existing position`,
+      sharesBefore: target.shares,
+      sharesAfter: merged.shares,
+      avgPriceBefore: target.avgPrice,
+      avgPriceAfter: merged.avgPrice,
+    },
+  ];
+}
+
+/**
+ * Applies one corporate action to every position holding its stock on the
+ * effective date, adjusts the stock's dividend history, and marks the
+ * action applied. Positions already audited for the action are skipped.
+ * @param action - Action to apply
+ * @returns Users and number of positions changed
+ * @throws LedgerError if a position cannot take the action
+ */
+export async function applyCorporateAction(
+  action: CorporateAction,
+): Promise<{ userIds: string[]; positions: number }> {
+  return prisma.$transaction(
+    async (tx) => {
+      // Dividends per share from before a split are restated in post-split shares
+      if (action.type === 'SPLIT' || action.type === 'REVERSE_SPLIT') {
+        await tx.dividend.updateMany({
+          where: { ticker: action.ticker, exDate: { lt: action.effectiveDate } },
+          data: { amount: { divide: action.ratio ?? 1 } },
+        });
+      }
+      if (action.type === 'SYMBOL_CHANGE' && action.newTicker) {
+        await tx.dividend.updateMany({
+          where: { ticker: action.ticker },
+          data: { ticker: action.newTicker },
+        });
+      }
+
+      const audited = await tx.corporateActionAudit.findMany({
+        where: { actionId: action.id },
+        select: { assetId: true },
+      });
+      const skip = new Set(audited.map((audit) => audit.assetId));
+
+      // Positions in the trash are restored as they were deleted
+      const assets = await tx.asset.findMany({
+        where: { ticker: action.ticker, id: { notIn: [...skip] }, deletedAt: null },
+      });
+
+      const userIds = new Set<string>();
+      let positions = 0;
+      for (const asset of assets) {
+        await ensureOpeningTransaction(tx, asset);
+        const transactions = await tx.transaction.findMany({
+          where: { assetId: asset.id },
+          include: LEDGER_ENTRY_INCLUDE,
+        });
+
+        // Only shares held going into the effective date take the action
+        const held = derivePosition(transactions.filter((entry) => entry.date < action.effectiveDate));
+        if (held.shares <= SHARE_EPSILON) {
+          continue;
+        }
+
+        const withLedger = { ...asset, transactions };
+        let drafts: AuditDraft[];
+        switch (action.type) {
+          case 'SPLIT':
+          case 'REVERSE_SPLIT':
+            drafts = await applySplit(tx, action, withLedger);
+            break;
+          case 'SPINOFF':
+            drafts = await applySpinoff(tx, action, withLedger, held);
+            break;
+          case 'SYMBOL_CHANGE':
+            drafts = await applySymbolChange(tx, action, withLedger);
+            break;
+        }
+        if (drafts.length === 0) {
+          continue;
+        }
+
+        await tx.corporateActionAudit.createMany({
+          data: drafts.map((draft) => ({ ...draft, actionId: action.id, userId: asset.userId })),
+        });
+        if (asset.portfolioId) {
+          await clearSnapshotsFrom(tx, asset.portfolioId, action.effectiveDate);
+        }
+        userIds.add(asset.userId);
+        positions++;
+      }
+
+      await tx.corporateAction.update({
+        where: { id: action.id },
+        data: { appliedAt: new Date() },
+      });
+
+      return { userIds: [...userIds], positions };
+    },
+    { timeout: 60_000 },
+  );
+}
+
+/**
+ * Applies every corporate action that has taken effect and has not been
+ * applied yet, oldest first. A failed action is left pending for the next run.
+ * @param now - Time to apply actions up to
+ * @returns Actions applied, positions changed and IDs of failed actions
+ */
+export async function applyDueCorporateActions(now: Date = new Date()): Promise<CorporateActionRun> {
+  const actions = await prisma.corporateAction.findMany({
+    where: { appliedAt: null, effectiveDate: { lte: now } },
+    orderBy: [{ effectiveDate: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  const run: CorporateActionRun = { applied: 0, positions: 0, failed: [] };
+  for (const action of actions) {
+    try {
+      const { userIds, positions } = await applyCorporateAction(action);
+      await Promise.all(userIds.map((userId) => invalidatePortfolioCache(userId)));
+      run.applied++;
+      run.positions += positions;
+    } catch (error) {
+      console.error(`Corporate action ${action.id} failed:`, error);
+      run.failed.push(action.id);
+    }
+  }
+
+  return run;
+}
+
+// ============================================
+// Audit History
+// ============================================
+
+/**
+ * Loads the corporate actions applied to a user's positions, newest first
+ * @param userId - Owner of the positions
+ * @param portfolioId - Account to list, or null for every account
+ * @returns Audit entries with the action that caused them
+ */
+export async function loadCorporateActionAudits(
+  userId: string,
+  portfolioId: string | null,
+): Promise<CorporateActionEntry[]> {
+  const audits = await prisma.corporateActionAudit.findMany({
+    where: { userId, ...(portfolioId && { asset: { portfolioId } }) },
+    include: {
+      action: true,
+      asset: { select: { currency: true, portfolioId: true } },
+    },
+    orderBy: { appliedAt: 'desc' },
+    take: CORPORATE_ACTION_LIMITS.AUDIT_HISTORY,
+  });
+
+  return audits.map((audit) => ({
+    id: audit.id,
+    type: audit.action.type,
+    ticker: audit.ticker,
+    actionTicker: audit.action.ticker,
+    effectiveDate: audit.action.effectiveDate.toISOString(),
+    description: audit.description,
+    sharesBefore: audit.sharesBefore,
+    sharesAfter: audit.sharesAfter,
+    avgPriceBefore: audit.avgPriceBefore,
+    avgPriceAfter: audit.avgPriceAfter,
+    currency: audit.asset.currency,
+    portfolioId: audit.asset.portfolioId,
+    appliedAt: audit.appliedAt.toISOString(),
+  }));
+}
@@ -0,0 +1,181 @@
+/**
+ * lib/portfolio/correlation.ts
+ * Correlation analysis - pairwise return correlations between holdings,
+ * a diversification score and clusters of holdings that move together
+ */
+
+import { CORRELATION_CONFIG, CORRELATION_WINDOW_DAYS, UNCLASSIFIED_LABEL } from '@/lib/constants';
+import { CorrelationCluster, CorrelationMatrix, CorrelationWindow, DiversificationScore } from '@/types';
+
+import { loadClassifications } from './classification';
+import { loadBaseCurrency } from './fx';
+import { loadHoldingValues } from './positions';
+import { loadDailyReturns, ReturnSeries } from './risk';
+import { toDayKey } from './snapshots';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Pearson correlation of two return series over the days both have
+ * @returns Correlation, or null with too few shared days or a flat series
+ */
+export function correlate(a: ReturnSeries, b: ReturnSeries): number | null {
+  const pairs: Array<[number, number]> = [];
+  for (const [day, r] of a) {
+    const other = b.get(day);
+    if (other !== undefined) {
+      pairs.push([r, other]);
+    }
+  }
+  if (pairs.length < CORRELATION_CONFIG.MIN_OBSERVATIONS) {
+    return null;
+  }
+
+  const meanA = pairs.reduce((sum, [x]) => sum + x, 0) / pairs.length;
+  const meanB = pairs.reduce((sum, [, y]) => sum + y, 0) / pairs.length;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (const [x, y] of pairs) {
+    covariance += (x - meanA) * (y - meanB);
+    varianceA += (x - meanA) ** 2;
+    varianceB += (y - meanB) ** 2;
+  }
+  if (varianceA === 0 || varianceB === 0) {
+    return null;
+  }
+  return Math.max(-1, Math.min(1, covariance / Math.sqrt(varianceA * varianceB)));
+}
+
+/**
+ * Scores diversification from weights and correlations. Assuming equal
+ * volatilities, the portfolio's variance relative to a single holding is
+ * HHI + (1 - HHI) x average correlation, where HHI is the sum of squared
+ * weights. The score is the share of that single-holding risk diversified
+ * away. Negative average correlations count as zero, and pairs without
+ * enough history count as fully correlated so unknowns earn no credit.
+ * @param weights - Holding weights summing to 1
+ * @param matrix - Pairwise correlations
+ * @returns Diversification score
+ */
+export function scoreDiversification(
+  weights: number[],
+  matrix: Array<Array<number | null>>,
+): DiversificationScore {
+  const concentration = weights.reduce((sum, w) => sum + w * w, 0);
+
+  let weighted = 0;
+  let pairWeight = 0;
+  let knownWeight = 0;
+  let knownCorrelation = 0;
+  for (let i = 0; i < weights.length; i++) {
+    for (let j = i + 1; j < weights.length; j++) {
+      const w = (weights[i] ?? 0) * (weights[j] ?? 0);
+      const correlation = matrix[i]?.[j] ?? null;
+      pairWeight += w;
+      weighted += w * (correlation ?? 1);
+      if (correlation !== null) {
+        knownWeight += w;
+        knownCorrelation += w * correlation;
+      }
+    }
+  }
+
+  const averageCorrelation = pairWeight > 0 ? weighted / pairWeight : 1;
+  const relativeVariance = weights.length > 0
+    ? concentration + (1 - concentration) * Math.max(averageCorrelation, 0)
+    : 1;
+
+  return {
+    score: Math.round((1 - relativeVariance) * 100),
+    averageCorrelation: knownWeight > 0 ? knownCorrelation / knownWeight : null,
+    effectiveHoldings: relativeVariance > 0 ? 1 / relativeVariance : 0,
+  };
+}
+
+/**
+ * Groups holdings linked by correlations at or above the threshold. A
+ * holding joins a cluster if it is highly correlated with any member.
+ * @returns Index groups of two or more holdings
+ */
+function findClusters(matrix: Array<Array<number | null>>): number[][] {
+  const parent = matrix.map((_, index) => index);
+  const root = (index: number): number => {
+    let current = index;
+    while (parent[current] !== current) {
+      current = parent[current] ?? current;
+    }
+    return current;
+  };
+
+  for (let i = 0; i < matrix.length; i++) {
+    for (let j = i + 1; j < matrix.length; j++) {
+      if ((matrix[i]?.[j] ?? -1) >= CORRELATION_CONFIG.HIGH_CORRELATION) {
+        parent[root(j)] = root(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  matrix.forEach((_, index) => {
+    const group = groups.get(root(index)) ?? [];
+    group.push(index);
+    groups.set(root(index), group);
+  });
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+/**
+ * Computes the correlation matrix of a user's open positions over a window,
+ * with holdings of the same ticker across accounts combined
+ * @param userId - Owner of the positions
+ * @param portfolioId - Account, or null for all accounts
+ * @param window - Window of daily returns
+ * @returns Correlation matrix, diversification score and clusters
+ */
+export async function loadCorrelationMatrix(
+  userId: string,
+  portfolioId: string | null,
+  window: CorrelationWindow,
+): Promise<CorrelationMatrix> {
+  const values = await loadHoldingValues(userId, portfolioId, await loadBaseCurrency(userId));
+  const totalValue = [...values.values()].reduce((sum, value) => sum + value, 0);
+  const tickers = [...values.keys()].sort((a, b) => (values.get(b) ?? 0) - (values.get(a) ?? 0));
+  const weights = tickers.map((ticker) => (totalValue > 0 ? (values.get(ticker) ?? 0) / totalValue : 0));
+
+  const sinceKey = toDayKey(new Date(Date.now() - CORRELATION_WINDOW_DAYS[window] * DAY_MS));
+  const [returns, classifications] = await Promise.all([
+    Promise.all(tickers.map((ticker) => loadDailyReturns(ticker, sinceKey))),
+    loadClassifications(tickers),
+  ]);
+
+  const matrix = tickers.map((_, i) =>
+    tickers.map((__, j) => (i === j ? 1 : correlate(returns[i] ?? new Map(), returns[j] ?? new Map()))),
+  );
+
+  const clusters: CorrelationCluster[] = findClusters(matrix)
+    .map((members) => {
+      const correlations = members.flatMap((i, position) =>
+        members.slice(position + 1).map((j) => matrix[i]?.[j] ?? null),
+      ).filter((correlation): correlation is number => correlation !== null);
+      const sectors = members
+        .map((index) => classifications.get(tickers[index] ?? '')?.sector)
+        .filter((sector): sector is string => !!sector && sector !== UNCLASSIFIED_LABEL);
+      return {
+        tickers: members.map((index) => tickers[index] ?? ''),
+        averageCorrelation: correlations.reduce((sum, c) => sum + c, 0) / correlations.length,
+        weight: members.reduce((sum, index) => sum + (weights[index] ?? 0), 0),
+        sectors: [...new Set(sectors)].sort(),
+      };
+    })
+    .sort((a, b) => b.weight - a.weight);
+
+  return {
+    window,
+    tickers,
+    weights,
+    matrix,
+    diversification: scoreDiversification(weights, matrix),
+    clusters,
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * lib/portfolio/errors.ts
+ * Error types for portfolio domain logic
+ */
+
+/**
+ * Raised when a request conflicts with the user's portfolio (e.g. an
+ * account that is not theirs). Routes answer it with a 400 and its message.
+ */
+export class PortfolioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PortfolioError';
+  }
+}
+
+/**
+ * Raised when an asset does not exist or is not the user's. Routes answer
+ * it with a 404.
+ */
+export class AssetNotFoundError extends PortfolioError {
+  constructor(message = 'Asset not found') {
+    super(message);
+    this.name = 'AssetNotFoundError';
+  }
+}
+
+/**
+ * Raised when a ledger cannot be replayed (e.g. selling more shares than held)
+ */
+export class LedgerError extends PortfolioError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+/**
+ * Raised when an amount cannot be converted because a currency has no
+ * stored exchange rates
+ */
+export class FxRateError extends LedgerError {
+  constructor(currency: string) {
+    super(
+      `No exchange rates stored for ${currency}. Add its daily rates per US dollar to the fx_rates table, ` +
+        'or run npm run db:seed for a local history of the supported currencies.',
+    );
+    this.name = 'FxRateError';
+  }
+}
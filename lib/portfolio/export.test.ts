@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { portfolioBackupSchema } from '@/lib/validations';
+
+import { BACKUP_VERSION } from './export';
+
+const backup = {
+  exportedAt: '2024-06-01T00:00:00.000Z',
+  settings: { lotMethod: 'FIFO' },
+  assets: [
+    {
+      ticker: 'VOO',
+      shares: 10,
+      avgPrice: 400,
+      purchaseDate: '2024-01-02',
+      notes: null,
+      transactions: [
+        {
+          id: 't1',
+          type: 'BUY',
+          shares: 10,
+          price: 400,
+          ratio: null,
+          lotMethod: null,
+          date: '2024-01-02',
+          notes: null,
+        },
+      ],
+    },
+  ],
+};
+
+describe('portfolioBackupSchema', () => {
+  test('reads the current version with its wash-sale groups', () => {
+    const parsed = portfolioBackupSchema.parse({
+      ...backup,
+      version: BACKUP_VERSION,
+      washSaleGroups: [['VOO', 'IVV', 'voo']],
+    });
+    assert.deepEqual(parsed.washSaleGroups, [['VOO', 'IVV']]);
+  });
+
+  test('still reads version 1 backups, which have no wash-sale groups', () => {
+    const parsed = portfolioBackupSchema.parse({ ...backup, version: 1 });
+    assert.equal(parsed.washSaleGroups, undefined);
+    assert.equal(parsed.assets[0]?.transactions[0]?.fees, 0);
+  });
+
+  test('rejects versions it does not know', () => {
+    assert.equal(portfolioBackupSchema.safeParse({ ...backup, version: BACKUP_VERSION + 1 }).success, false);
+  });
+});
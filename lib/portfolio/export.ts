@@ -0,0 +1,452 @@
+/**
+ * lib/portfolio/export.ts
+ * Portfolio export - CSV and OFX position statements, and JSON backups
+ * that restore the full ledger
+ */
+
+import { Asset, Prisma } from '@prisma/client';
+
+import { DEFAULT_ACCOUNT_NAME, DEFAULT_BENCHMARKS, DEFAULT_CURRENCY, RISK_CONFIG } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { PortfolioBackupInput } from '@/lib/validations';
+import { EnrichedAsset, PortfolioBackup } from '@/types';
+
+import { ensureDefaultPortfolio } from './accounts';
+import { linkDividendCash } from './cash';
+import { LedgerError } from './errors';
+import { loadBaseCurrency } from './fx';
+import { syncAssetPosition } from './ledger';
+import { loadAllocationTargets, saveAllocationTargets } from './rebalance';
+import { loadWashSaleGroups, saveWashSaleGroups } from './wash-sales';
+
+export const BACKUP_VERSION = 2;
+
+// ============================================
+// CSV
+// ============================================
+
+const CSV_COLUMNS: Array<[string, (asset: EnrichedAsset) => string | number]> = [
+  ['Ticker', (a) => a.ticker],
+  ['Company', (a) => a.companyName ?? ''],
+  ['Shares', (a) => a.shares],
+  ['Currency', (a) => a.currency],
+  ['Avg Price', (a) => a.avgPrice.toFixed(2)],
+  ['Purchase Date', (a) => new Date(a.purchaseDate).toISOString().split('T')[0] ?? ''],
+  ['Notes', (a) => a.notes ?? ''],
+  ['Tags', (a) => a.tags.join('; ')],
+  ['Current Price', (a) => a.currentPrice.toFixed(2)],
+  ['Current Value', (a) => a.currentValue.toFixed(2)],
+  ['Total Cost', (a) => a.totalCost.toFixed(2)],
+  ['Profit/Loss', (a) => a.profitLoss.toFixed(2)],
+  ['Profit/Loss %', (a) => a.profitLossPercent.toFixed(2)],
+  ['FX Profit/Loss', (a) => a.fxProfitLoss.toFixed(2)],
+  ['Realized P/L', (a) => a.realizedProfitLoss.toFixed(2)],
+];
+
+/**
+ * Quotes a CSV cell when it contains a delimiter, quote or line break
+ */
+function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Yields a CSV of positions, one line at a time. Prices are in each
+ * position's currency and values in the base currency.
+ * @param assets - Enriched positions
+ */
+export function* toCsvLines(assets: EnrichedAsset[]): Generator<string> {
+  yield `${CSV_COLUMNS.map(([header]) => header).join(',')}\r\n`;
+  for (const asset of assets) {
+    yield `${CSV_COLUMNS.map(([, value]) => escapeCsv(value(asset))).join(',')}\r\n`;
+  }
+}
+
+// ============================================
+// OFX
+// ============================================
+
+/**
+ * Formats a date as an OFX timestamp (YYYYMMDDHHMMSS)
+ */
+function ofxDate(date: Date): string {
+  return new Date(date).toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Yields an OFX 2.2 investment statement listing each position and its
+ * security, one line at a time. Positions in another currency than the
+ * statement's carry their currency and its rate.
+ * @param assets - Enriched positions
+ * @param accountId - Account identifier for the statement
+ * @param currency - Statement currency (the base currency)
+ * @param asOf - Statement date
+ */
+export function* toOfxLines(
+  assets: EnrichedAsset[],
+  accountId: string,
+  currency: string,
+  asOf: Date = new Date(),
+): Generator<string> {
+  const now = ofxDate(asOf);
+
+  yield '<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n';
+  yield '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>\n';
+  yield '<OFX>\n';
+  yield '<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>';
+  yield `<DTSERVER>${now}</DTSERVER><LANGUAGE>ENG</LANGUAGE></SONRS></SIGNONMSGSRSV1>\n`;
+  yield '<INVSTMTMSGSRSV1><INVSTMTTRNRS><TRNUID>0</TRNUID>';
+  yield '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>\n';
+  yield `<INVSTMTRS><DTASOF>${now}</DTASOF><CURDEF>${currency}</CURDEF>\n`;
+  yield `<INVACCTFROM><BROKERID>stocklio</BROKERID><ACCTID>${escapeXml(accountId)}</ACCTID></INVACCTFROM>\n`;
+
+  yield '<INVPOSLIST>\n';
+  for (const asset of assets) {
+    yield '<POSSTOCK><INVPOS>';
+    yield `<SECID><UNIQUEID>${escapeXml(asset.ticker)}</UNIQUEID><UNIQUEIDTYPE>TICKER</UNIQUEIDTYPE></SECID>`;
+    yield '<HELDINACCT>CASH</HELDINACCT><POSTYPE>LONG</POSTYPE>';
+    yield `<UNITS>${asset.shares}</UNITS><UNITPRICE>${asset.currentPrice.toFixed(2)}</UNITPRICE>`;
+    yield `<MKTVAL>${(asset.shares * asset.currentPrice).toFixed(2)}</MKTVAL><DTPRICEASOF>${now}</DTPRICEASOF>`;
+    if (asset.currency !== currency) {
+      yield `<CURRENCY><CURRATE>${asset.fxRate}</CURRATE><CURSYM>${asset.currency}</CURSYM></CURRENCY>`;
+    }
+    if (asset.notes) {
+      yield `<MEMO>${escapeXml(asset.notes)}</MEMO>`;
+    }
+    yield '</INVPOS></POSSTOCK>\n';
+  }
+  yield '</INVPOSLIST>\n';
+  yield '</INVSTMTRS></INVSTMTTRNRS></INVSTMTMSGSRSV1>\n';
+
+  yield '<SECLISTMSGSRSV1><SECLIST>\n';
+  for (const asset of assets) {
+    yield '<STOCKINFO><SECINFO>';
+    yield `<SECID><UNIQUEID>${escapeXml(asset.ticker)}</UNIQUEID><UNIQUEIDTYPE>TICKER</UNIQUEIDTYPE></SECID>`;
+    yield `<SECNAME>${escapeXml(asset.companyName ?? asset.ticker)}</SECNAME>`;
+    yield `<TICKER>${escapeXml(asset.ticker)}</TICKER>`;
+    yield '</SECINFO></STOCKINFO>\n';
+  }
+  yield '</SECLIST></SECLISTMSGSRSV1>\n';
+  yield '</OFX>\n';
+}
+
+// ============================================
+// JSON Backup
+// ============================================
+
+/**
+ * Builds a backup of the user's settings, accounts, full ledger, options,
+ * cash and wash-sale groups. Open positions
+ * also carry their current market values for reference; these are ignored
+ * on restore. Positions in the trash are kept, and restored into the trash.
+ * @param userId - Owner of the portfolio
+ * @param enriched - Enriched open positions
+ * @returns Backup document
+ */
+export async function buildBackup(
+  userId: string,
+  enriched: EnrichedAsset[],
+): Promise<PortfolioBackup> {
+  const defaultPortfolio = await ensureDefaultPortfolio(prisma, userId);
+  const [user, baseCurrency, portfolios, assets, cash, options, targets, washSaleGroups] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { lotMethod: true, benchmarks: true, riskFreeRate: true },
+    }),
+    loadBaseCurrency(userId),
+    prisma.portfolio.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.asset.findMany({
+      where: { userId },
+      include: {
+        portfolio: { select: { name: true } },
+        transactions: {
+          include: { lotSelections: true },
+          orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+        },
+        valuations: { orderBy: { date: 'asc' } },
+      },
+      orderBy: { ticker: 'asc' },
+    }),
+    prisma.cashTransaction.findMany({
+      where: { userId },
+      include: { portfolio: { select: { name: true } } },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    }),
+    prisma.optionPosition.findMany({
+      where: { userId },
+      include: { portfolio: { select: { name: true } } },
+      orderBy: [{ openedAt: 'asc' }, { createdAt: 'asc' }],
+    }),
+    loadAllocationTargets(userId),
+    loadWashSaleGroups(userId),
+  ]);
+  const enrichedMap = new Map(enriched.map((asset) => [asset.id, asset]));
+
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings: {
+      lotMethod: user?.lotMethod ?? 'FIFO',
+      benchmarks: user?.benchmarks ?? DEFAULT_BENCHMARKS,
+      riskFreeRate: user?.riskFreeRate ?? RISK_CONFIG.DEFAULT_RISK_FREE_RATE,
+      baseCurrency,
+    },
+    targets,
+    washSaleGroups,
+    accounts: portfolios.map((p) => ({ name: p.name, isDefault: p.isDefault })),
+    assets: assets.map((asset) => {
+      const market = enrichedMap.get(asset.id);
+      return {
+        account: asset.portfolio?.name ?? defaultPortfolio.name,
+        ticker: asset.ticker,
+        shares: asset.shares,
+        avgPrice: asset.avgPrice,
+        purchaseDate: asset.purchaseDate.toISOString(),
+        notes: asset.notes,
+        currency: asset.currency,
+        tags: asset.tags,
+        assetClass: asset.assetClass,
+        valuations: asset.valuations.map((v) => ({
+          price: v.price,
+          date: v.date.toISOString(),
+          notes: v.notes,
+        })),
+        deletedAt: asset.deletedAt?.toISOString() ?? null,
+        currentValue: market?.currentValue ?? 0,
+        profitLoss: market?.profitLoss ?? 0,
+        transactions: asset.transactions.map((t) => ({
+          id: t.id,
+          type: t.type,
+          shares: t.shares,
+          price: t.price,
+          fees: t.fees,
+          ratio: t.ratio,
+          lotMethod: t.lotMethod,
+          date: t.date.toISOString(),
+          notes: t.notes,
+          lots: t.lotSelections.map((s) => ({ lotId: s.lotId, shares: s.shares })),
+        })),
+      };
+    }),
+    cash: cash.map((c) => ({
+      account: c.portfolio.name,
+      type: c.type,
+      amount: c.amount,
+      ticker: c.ticker,
+      date: c.date.toISOString(),
+      notes: c.notes,
+      transactionId: c.transactionId,
+      optionId: c.optionId,
+    })),
+    options: options.map((o) => ({
+      id: o.id,
+      account: o.portfolio.name,
+      underlying: o.underlying,
+      type: o.type,
+      side: o.side,
+      strike: o.strike,
+      expiry: o.expiry.toISOString(),
+      multiplier: o.multiplier,
+      contracts: o.contracts,
+      premium: o.premium,
+      fees: o.fees,
+      currency: o.currency,
+      openedAt: o.openedAt.toISOString(),
+      status: o.status,
+      closedAt: o.closedAt?.toISOString() ?? null,
+      closePremium: o.closePremium,
+      notes: o.notes,
+      transactionId: o.transactionId,
+    })),
+  };
+}
+
+/**
+ * Replaces the user's accounts, positions, options and cash with the contents of a backup.
+ * Targets and wash-sale groups are replaced when the backup has them.
+ * Transaction and option IDs are regenerated, and specific-lot selections,
+ * exercises and premiums are remapped to them. Positions without an account go to the default account.
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the portfolio
+ * @param backup - Validated backup document
+ * @returns Number of positions and transactions restored
+ * @throws LedgerError if a restored ledger is inconsistent
+ */
+export async function restoreBackup(
+  client: Prisma.TransactionClient,
+  userId: string,
+  backup: PortfolioBackupInput,
+): Promise<{ assets: number; transactions: number }> {
+  await client.asset.deleteMany({ where: { userId } });
+  await client.portfolio.deleteMany({ where: { userId } });
+  await client.user.update({
+    where: { id: userId },
+    data: {
+      lotMethod: backup.settings.lotMethod,
+      benchmarks: backup.settings.benchmarks ?? DEFAULT_BENCHMARKS,
+      riskFreeRate: backup.settings.riskFreeRate ?? RISK_CONFIG.DEFAULT_RISK_FREE_RATE,
+      baseCurrency: backup.settings.baseCurrency ?? DEFAULT_CURRENCY,
+    },
+  });
+  if (backup.targets) {
+    await saveAllocationTargets(client, userId, backup.targets);
+  }
+  // Groups are restored first so the positions' wash sales are detected with them
+  if (backup.washSaleGroups) {
+    await saveWashSaleGroups(client, userId, backup.washSaleGroups);
+  }
+
+  // Backups from before accounts existed restore into a single default account
+  const accounts = backup.accounts.length > 0
+    ? backup.accounts
+    : [{ name: DEFAULT_ACCOUNT_NAME, isDefault: true }];
+  const defaultName = (accounts.find((a) => a.isDefault) ?? accounts[0])?.name;
+  const portfolioIds = new Map<string, string>();
+  for (const account of accounts) {
+    if (portfolioIds.has(account.name)) {
+      throw new LedgerError(`Backup lists the account "${account.name}" more than once`);
+    }
+    const portfolio = await client.portfolio.create({
+      data: { name: account.name, isDefault: account.name === defaultName, userId },
+    });
+    portfolioIds.set(account.name, portfolio.id);
+  }
+
+  let transactions = 0;
+  // Backup transaction ID -> restored transaction ID, for cash settlements
+  const restoredIds = new Map<string, string>();
+  // Positions restored into the trash, which take back their dividends
+  const trashed: Asset[] = [];
+
+  for (const entry of backup.assets) {
+    const portfolioId = portfolioIds.get(entry.account ?? defaultName ?? '');
+    if (!portfolioId) {
+      throw new LedgerError(`Backup for ${entry.ticker} is in an account that is not in the backup`);
+    }
+
+    const asset = await client.asset.create({
+      data: {
+        ticker: entry.ticker,
+        shares: entry.shares,
+        avgPrice: entry.avgPrice,
+        purchaseDate: entry.purchaseDate,
+        notes: entry.notes,
+        currency: entry.currency ?? DEFAULT_CURRENCY,
+        tags: entry.tags ?? [],
+        assetClass: entry.assetClass,
+        deletedAt: entry.deletedAt,
+        userId,
+        portfolioId,
+      },
+    });
+    if (asset.deletedAt) {
+      trashed.push(asset);
+    }
+    if (entry.valuations.length > 0) {
+      await client.manualValuation.createMany({
+        data: entry.valuations.map((v) => ({ ...v, assetId: asset.id })),
+      });
+    }
+
+    // Old transaction ID -> restored transaction ID
+    const idMap = new Map<string, string>();
+    for (const t of entry.transactions) {
+      const created = await client.transaction.create({
+        data: {
+          type: t.type,
+          ticker: entry.ticker,
+          shares: t.shares,
+          price: t.price,
+          fees: t.fees,
+          ratio: t.ratio,
+          lotMethod: t.lotMethod,
+          date: t.date,
+          notes: t.notes,
+          assetId: asset.id,
+          userId,
+        },
+      });
+      idMap.set(t.id, created.id);
+      restoredIds.set(t.id, created.id);
+    }
+
+    const selections = entry.transactions.flatMap((t) =>
+      t.lots.map((lot) => ({
+        saleId: idMap.get(t.id) as string,
+        lotId: idMap.get(lot.lotId),
+        shares: lot.shares,
+      })),
+    );
+    if (selections.some((selection) => !selection.lotId)) {
+      throw new LedgerError(`Backup for ${entry.ticker} selects a lot that is not in its ledger`);
+    }
+    await client.lotSelection.createMany({
+      data: selections.map((selection) => ({ ...selection, lotId: selection.lotId as string })),
+    });
+
+    if (entry.transactions.length > 0) {
+      await syncAssetPosition(client, asset.id);
+    }
+    transactions += entry.transactions.length;
+  }
+
+  // Backup option ID -> restored option ID, for premiums
+  const optionIds = new Map<string, string>();
+  for (const { id, account, transactionId, ...option } of backup.options) {
+    const portfolioId = portfolioIds.get(account ?? defaultName ?? '');
+    if (!portfolioId) {
+      throw new LedgerError(`Backup has a ${option.underlying} option in an account that is not in the backup`);
+    }
+    const exerciseId = transactionId ? restoredIds.get(transactionId) : null;
+    if (exerciseId === undefined) {
+      throw new LedgerError(`Backup has a ${option.underlying} option exercised by a trade that is not in its ledger`);
+    }
+    const created = await client.optionPosition.create({
+      data: { ...option, portfolioId, userId, transactionId: exerciseId },
+    });
+    optionIds.set(id, created.id);
+  }
+
+  const cash = backup.cash.map((c) => {
+    const portfolioId = portfolioIds.get(c.account ?? defaultName ?? '');
+    if (!portfolioId) {
+      throw new LedgerError('Backup has cash in an account that is not in the backup');
+    }
+    const transactionId = c.transactionId ? restoredIds.get(c.transactionId) : null;
+    if (transactionId === undefined) {
+      throw new LedgerError('Backup has cash settling a trade that is not in its ledger');
+    }
+    const optionId = c.optionId ? optionIds.get(c.optionId) : null;
+    if (optionId === undefined) {
+      throw new LedgerError('Backup has an option premium for an option that is not in the backup');
+    }
+    return {
+      type: c.type,
+      amount: c.amount,
+      ticker: c.ticker,
+      date: c.date,
+      notes: c.notes,
+      portfolioId,
+      userId,
+      transactionId,
+      optionId,
+    };
+  });
+  await client.cashTransaction.createMany({ data: cash });
+  for (const asset of trashed) {
+    await linkDividendCash(client, asset);
+  }
+
+  return { assets: backup.assets.length, transactions };
+}
@@ -0,0 +1,105 @@
+/**
+ * lib/portfolio/fund-holdings.ts
+ * Fund holdings - parses the holdings files ETF and mutual fund issuers
+ * publish and stores them for look-through analysis
+ */
+
+import { Prisma } from '@prisma/client';
+
+import { FundHoldingsInput, fundHoldingsSchema, tickerSchema } from '@/lib/validations';
+
+import { parseCsv, parseNumber } from './import';
+
+type FundHoldingField = 'ticker' | 'name' | 'weight' | 'sector';
+
+// Header names used by the common issuers' holdings files
+const HOLDING_COLUMNS: Record<FundHoldingField, string[]> = {
+  ticker: ['ticker', 'symbol', 'holding ticker'],
+  name: ['name', 'holding', 'holdings', 'security name', 'company'],
+  weight: ['weight', 'weight (%)', '% weight', '% of net assets', '% of funds', 'percent of fund', 'market value weight'],
+  sector: ['sector', 'gics sector'],
+};
+
+// Number of leading rows searched for a header (issuers prepend fund details)
+const HEADER_SEARCH_ROWS = 15;
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+// Cash and collateral lines carry currency codes in the ticker column
+const isCashLine = (...cells: (string | undefined)[]) =>
+  cells.some((cell) => /^cash\b/i.test(cell?.trim() ?? ''));
+
+/**
+ * Parses a fund holdings CSV. Weights are read as percentages ("6.1" or
+ * "6.1%"). Rows without a valid ticker or a positive weight, such as cash
+ * and futures lines, are skipped.
+ * @param text - Raw CSV text
+ * @returns Holdings with weights as fractions, and the number of rows skipped
+ * @throws Error if the file has no ticker and weight columns or its holdings are invalid
+ */
+export function parseFundHoldingsCsv(text: string): { holdings: FundHoldingsInput; skipped: number } {
+  const rows = parseCsv(text);
+  const headerIndex = rows
+    .slice(0, HEADER_SEARCH_ROWS)
+    .findIndex((row) => row.some((cell) => HOLDING_COLUMNS.ticker.includes(normalizeHeader(cell))));
+  const headers = (rows[headerIndex] ?? []).map(normalizeHeader);
+  const column = (field: FundHoldingField) => headers.findIndex((header) => HOLDING_COLUMNS[field].includes(header));
+
+  const tickerColumn = column('ticker');
+  const weightColumn = column('weight');
+  if (headerIndex === -1 || tickerColumn === -1 || weightColumn === -1) {
+    throw new Error('Holdings file needs a ticker and a weight column');
+  }
+  const nameColumn = column('name');
+  const sectorColumn = column('sector');
+
+  const holdings: FundHoldingsInput = [];
+  let skipped = 0;
+  for (const row of rows.slice(headerIndex + 1)) {
+    const ticker = tickerSchema.safeParse(row[tickerColumn] ?? '');
+    const weight = parseNumber(row[weightColumn]?.replace('%', ''));
+    const cashLine = isCashLine(row[nameColumn], row[sectorColumn]);
+    if (!ticker.success || weight === undefined || weight <= 0 || cashLine) {
+      skipped++;
+      continue;
+    }
+    holdings.push({
+      ticker: ticker.data,
+      name: (nameColumn !== -1 && row[nameColumn]) || undefined,
+      weight: weight / 100,
+      sector: (sectorColumn !== -1 && row[sectorColumn]) || undefined,
+    });
+  }
+
+  // A ticker listed twice (e.g. two share lines) is one holding
+  const merged = new Map<string, FundHoldingsInput[number]>();
+  for (const holding of holdings) {
+    const existing = merged.get(holding.ticker);
+    merged.set(holding.ticker, existing ? { ...existing, weight: existing.weight + holding.weight } : holding);
+  }
+
+  const validation = fundHoldingsSchema.safeParse([...merged.values()]);
+  if (!validation.success) {
+    throw new Error(validation.error.errors.map((e) => e.message).join(', '));
+  }
+  return { holdings: validation.data, skipped };
+}
+
+/**
+ * Replaces a fund's stored holdings
+ * @param client - Prisma client
+ * @param fundTicker - Fund the holdings belong to
+ * @param holdings - Validated holdings
+ * @param asOf - Date of the holdings file
+ */
+export async function saveFundHoldings(
+  client: Prisma.TransactionClient,
+  fundTicker: string,
+  holdings: FundHoldingsInput,
+  asOf: Date,
+): Promise<void> {
+  await client.fundHolding.deleteMany({ where: { fundTicker } });
+  await client.fundHolding.createMany({
+    data: holdings.map((holding) => ({ ...holding, fundTicker, asOf })),
+  });
+}
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { FxRateError } from './errors';
+import { FxRates, fxRate, historicalCost } from './fx';
+
+const rates: FxRates = new Map([
+  [
+    'EUR',
+    [
+      { dayKey: '2024-01-01', rate: 0.9 },
+      { dayKey: '2024-02-01', rate: 0.8 },
+    ],
+  ],
+  ['GBP', [{ dayKey: '2024-01-01', rate: 0.75 }]],
+]);
+
+describe('fxRate', () => {
+  test('uses the latest rate on or before the day', () => {
+    assert.equal(fxRate(rates, 'USD', 'EUR', '2024-01-15'), 0.9);
+    assert.equal(fxRate(rates, 'USD', 'EUR', '2024-03-01'), 0.8);
+  });
+
+  test('falls back to the earliest rate before the history starts', () => {
+    assert.equal(fxRate(rates, 'USD', 'EUR', '2023-06-01'), 0.9);
+  });
+
+  test('crosses two currencies through the dollar', () => {
+    assert.equal(fxRate(rates, 'GBP', 'EUR', '2024-02-01'), 0.8 / 0.75);
+    assert.equal(fxRate(rates, 'JPY', 'JPY'), 1);
+  });
+
+  test('rejects currencies without stored rates', () => {
+    assert.throws(() => fxRate(rates, 'USD', 'JPY', '2024-01-01'), FxRateError);
+  });
+});
+
+describe('historicalCost', () => {
+  test('converts each lot at the rate of the day it was acquired', () => {
+    const lots = [
+      { acquiredAt: new Date('2024-01-10'), costBasis: 900 },
+      { acquiredAt: new Date('2024-02-10'), costBasis: 800 },
+    ];
+    assert.equal(historicalCost(lots, rates, 'EUR', 'USD'), 2000);
+  });
+});
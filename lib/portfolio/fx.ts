@@ -0,0 +1,189 @@
+/**
+ * lib/portfolio/fx.ts
+ * Exchange rates - stored daily rates against the US dollar, conversion of
+ * amounts between currencies on a given day, and the user's base currency
+ */
+
+import { Prisma } from '@prisma/client';
+
+import { CURRENCIES, DEFAULT_CURRENCY, FX_CONFIG } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { Currency } from '@/types';
+
+import { FxRateError } from './errors';
+import { toDayKey } from './snapshots';
+
+/**
+ * Daily rates of one currency per US dollar, in ascending day order
+ */
+type RateSeries = Array<{ dayKey: string; rate: number }>;
+
+/**
+ * Stored rate history by currency
+ */
+export type FxRates = Map<string, RateSeries>;
+
+/**
+ * Loads the stored rate history of currencies. The US dollar needs none.
+ * @param currencies - Currencies to convert between
+ * @returns Rate history by currency; empty for currencies without rates
+ */
+export async function loadFxRates(currencies: Iterable<string>): Promise<FxRates> {
+  const wanted = [...new Set(currencies)].filter((currency) => currency !== FX_CONFIG.PIVOT_CURRENCY);
+  const rates: FxRates = new Map(wanted.map((currency) => [currency, []]));
+  if (wanted.length === 0) {
+    return rates;
+  }
+
+  const rows = await prisma.fxRate.findMany({
+    where: { currency: { in: wanted } },
+    select: { currency: true, date: true, rate: true },
+    orderBy: { date: 'asc' },
+  });
+  for (const row of rows) {
+    rates.get(row.currency)?.push({ dayKey: toDayKey(row.date), rate: row.rate });
+  }
+  return rates;
+}
+
+/**
+ * Rejects a currency amounts cannot be converted from, without loading its
+ * rate history
+ * @param client - Prisma transaction client
+ * @param currency - Currency to check
+ * @throws FxRateError if the currency has no stored rates
+ */
+export async function assertFxRates(client: Prisma.TransactionClient, currency: string): Promise<void> {
+  if (currency === FX_CONFIG.PIVOT_CURRENCY) {
+    return;
+  }
+  const stored = await client.fxRate.findFirst({ where: { currency }, select: { id: true } });
+  if (!stored) {
+    throw new FxRateError(currency);
+  }
+}
+
+/**
+ * Units of a currency per US dollar on a day: the latest rate on or before
+ * it, or the earliest stored rate for days before the history starts
+ * @throws FxRateError if the currency has no stored rates
+ */
+function dollarRate(rates: FxRates, currency: string, dayKey: string): number {
+  if (currency === FX_CONFIG.PIVOT_CURRENCY) {
+    return 1;
+  }
+  const series = rates.get(currency);
+  const first = series?.[0];
+  if (!series || !first) {
+    throw new FxRateError(currency);
+  }
+
+  let low = 0;
+  let high = series.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if ((series[mid]?.dayKey ?? '') <= dayKey) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return series[low]?.rate ?? first.rate;
+}
+
+/**
+ * Exchange rate between two currencies on a day
+ * @param rates - Loaded rate history of both currencies
+ * @param from - Currency converted from
+ * @param to - Currency converted to
+ * @param on - Day of the conversion (defaults to today)
+ * @returns Units of `to` per unit of `from`
+ * @throws FxRateError if either currency has no stored rates
+ */
+export function fxRate(
+  rates: FxRates,
+  from: string,
+  to: string,
+  on: Date | string = new Date(),
+): number {
+  if (from === to) {
+    return 1;
+  }
+  const dayKey = typeof on === 'string' ? on : toDayKey(on);
+  return dollarRate(rates, to, dayKey) / dollarRate(rates, from, dayKey);
+}
+
+/**
+ * Cost of open lots in another currency, each lot at the rate of the day
+ * it was acquired
+ * @param lots - Open lots with their cost in the asset's currency
+ * @param rates - Loaded rate history
+ * @param from - Currency of the asset
+ * @param to - Currency converted to
+ * @returns Historical cost in `to`
+ */
+export function historicalCost(
+  lots: Array<{ acquiredAt: Date; costBasis: number }>,
+  rates: FxRates,
+  from: string,
+  to: string,
+): number {
+  return lots.reduce((sum, lot) => sum + lot.costBasis * fxRate(rates, from, to, lot.acquiredAt), 0);
+}
+
+/**
+ * Gets the currency a user's values are reported in
+ * @param userId - User to look up
+ * @param client - Prisma client or transaction client
+ */
+export async function loadBaseCurrency(
+  userId: string,
+  client: Prisma.TransactionClient = prisma,
+): Promise<Currency> {
+  const user = await client.user.findUnique({
+    where: { id: userId },
+    select: { baseCurrency: true },
+  });
+  const currency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+  return (CURRENCIES as readonly string[]).includes(currency) ? (currency as Currency) : DEFAULT_CURRENCY;
+}
+
+/**
+ * Changes a user's base currency. The cash ledger is kept in the base
+ * currency, so every cash entry is converted at the rate of its date, and
+ * snapshots are discarded to be rebuilt in the new currency.
+ * @param client - Prisma transaction client
+ * @param userId - User whose base currency changes
+ * @param to - New base currency
+ * @throws FxRateError if either currency has no stored rates
+ */
+export async function changeBaseCurrency(
+  client: Prisma.TransactionClient,
+  userId: string,
+  to: Currency,
+): Promise<void> {
+  const from = await loadBaseCurrency(userId, client);
+  if (from === to) {
+    return;
+  }
+
+  const [rates, entries] = await Promise.all([
+    loadFxRates([from, to]),
+    client.cashTransaction.findMany({
+      where: { userId },
+      select: { id: true, amount: true, date: true },
+    }),
+  ]);
+  for (const entry of entries) {
+    await client.cashTransaction.update({
+      where: { id: entry.id },
+      data: { amount: entry.amount * fxRate(rates, from, to, entry.date) },
+    });
+  }
+
+  await client.portfolioSnapshot.deleteMany({ where: { userId } });
+  await client.user.update({
+    where: { id: userId },
+    data: { baseCurrency: to },
+  });
+}
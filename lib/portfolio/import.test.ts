@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { buildImportRows, detectColumns, parseCsv, parseImportDate, parseNumber } from './import';
+
+describe('parseCsv', () => {
+  test('handles a byte order mark, quoted fields, escaped quotes and CRLF line endings', () => {
+    const text = '\uFEFFSymbol,Description\r\n"AAPL","Apple, ""Inc."""\r\n\r\nMSFT, Microsoft \n';
+    assert.deepEqual(parseCsv(text), [
+      ['Symbol', 'Description'],
+      ['AAPL', 'Apple, "Inc."'],
+      ['MSFT', 'Microsoft'],
+    ]);
+  });
+});
+
+describe('parseNumber', () => {
+  test('reads currency, thousands separators and accounting negatives', () => {
+    assert.equal(parseNumber('$1,234.50'), 1234.5);
+    assert.equal(parseNumber('(12.00)'), -12);
+    assert.equal(parseNumber('-3'), -3);
+  });
+
+  test('returns undefined for empty or non-numeric cells', () => {
+    assert.equal(parseNumber(''), undefined);
+    assert.equal(parseNumber('n/a'), undefined);
+  });
+});
+
+describe('parseImportDate', () => {
+  test('reads ISO and US dates and ignores the time', () => {
+    assert.equal(parseImportDate('2024-01-31'), '2024-01-31');
+    assert.equal(parseImportDate('20240131;093000'), '2024-01-31');
+    assert.equal(parseImportDate('1/31/24 10:30 AM'), '2024-01-31');
+  });
+
+  test('rejects dates that do not exist', () => {
+    assert.equal(parseImportDate('02/30/2024'), undefined);
+    assert.equal(parseImportDate('31.01.2024'), undefined);
+  });
+});
+
+describe('detectColumns', () => {
+  test('skips leading account rows and prefers the matching broker', () => {
+    const rows = [
+      ['Account', 'Individual ...1234'],
+      ['Symbol', 'Quantity', 'Cost/Share', 'Fees & Comm', 'Open Date'],
+      ['AAPL', '10', '150', '1', '01/31/2024'],
+    ];
+    const { headerIndex, broker, mapping } = detectColumns(rows);
+
+    assert.equal(headerIndex, 1);
+    assert.equal(broker, 'Charles Schwab');
+    assert.deepEqual(mapping, {
+      ticker: 'Symbol',
+      shares: 'Quantity',
+      price: 'Cost/Share',
+      fees: 'Fees & Comm',
+      date: 'Open Date',
+    });
+  });
+});
+
+describe('buildImportRows', () => {
+  const headers = ['Ticker', 'Shares', 'Total', 'Fees', 'Date'];
+  const mapping = { ticker: 'Ticker', shares: 'Shares', totalCost: 'Total', fees: 'Fees', date: 'Date' };
+
+  test('derives the price from the total cost net of fees', () => {
+    const [row] = buildImportRows([['aapl', '10', '$1,510.00', '10', '2024-01-31']], headers, mapping, []);
+    assert.equal(row?.status, 'valid');
+    assert.equal(row?.data?.ticker, 'AAPL');
+    assert.equal(row?.data?.avgPrice, 150);
+    assert.equal(row?.data?.fees, 10);
+  });
+
+  test('flags repeated rows and purchases already recorded', () => {
+    const existing = [{ ticker: 'MSFT', shares: 5, price: 400, date: new Date('2024-02-01') }];
+    const rows = buildImportRows(
+      [
+        ['AAPL', '10', '1500', '', '2024-01-31'],
+        ['AAPL', '10', '1500', '', '2024-01-31'],
+        ['MSFT', '5', '2000', '', '2024-02-01'],
+      ],
+      headers,
+      mapping,
+      existing,
+    );
+    assert.deepEqual(rows.map((row) => row.status), ['valid', 'duplicate', 'duplicate']);
+  });
+
+  test('rejects sales and short positions exported with a negative quantity', () => {
+    const [row] = buildImportRows([['AAPL', '-10', '1500', '', '2024-01-31']], headers, mapping, []);
+    assert.equal(row?.status, 'invalid');
+    assert.equal(row?.data, undefined);
+    assert.ok(row?.errors.includes('Negative quantity -10: sales and short positions cannot be imported'));
+  });
+
+  test('reads a purchase exported as negative cash', () => {
+    const [row] = buildImportRows([['AAPL', '10', '(1,510.00)', '10', '2024-01-31']], headers, mapping, []);
+    assert.equal(row?.status, 'valid');
+    assert.equal(row?.data?.avgPrice, 150);
+  });
+
+  test('reports unreadable dates and missing fields with their file row', () => {
+    const rows = buildImportRows([['AAPL', '', '1500', '', 'yesterday']], headers, mapping, [], 5);
+    assert.equal(rows[0]?.row, 5);
+    assert.equal(rows[0]?.status, 'invalid');
+    assert.ok(rows[0]?.errors.includes('Unrecognized date "yesterday"'));
+    assert.ok(rows[0]?.errors.includes('shares is required'));
+  });
+});
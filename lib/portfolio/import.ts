@@ -0,0 +1,398 @@
+/**
+ * lib/portfolio/import.ts
+ * Broker CSV import - parses exports, maps columns to purchase fields,
+ * validates rows and flags duplicates of trades already recorded
+ */
+
+import { IMPORT_FIELDS } from '@/lib/constants';
+import { AddAssetInput, addAssetSchema } from '@/lib/validations';
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+/**
+ * Maps each import field to the CSV header it is read from
+ */
+export type ImportColumnMapping = Partial<Record<ImportField, string>>;
+
+/**
+ * Status of a parsed row: importable, failing validation, or already recorded
+ */
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+/**
+ * A CSV row after mapping and validation
+ */
+export interface ImportRow {
+  row: number; // 1-based row in the file, not counting blank lines
+  values: Partial<Record<ImportField, string>>;
+  data?: AddAssetInput;
+  errors: string[];
+  status: ImportRowStatus;
+}
+
+/**
+ * A purchase already in the ledger, used to flag duplicate rows
+ */
+export interface ExistingPurchase {
+  ticker: string;
+  shares: number;
+  price: number;
+  date: Date;
+}
+
+// ============================================
+// Broker Presets
+// ============================================
+
+interface BrokerPreset {
+  id: string;
+  name: string;
+  columns: Partial<Record<ImportField, string[]>>;
+}
+
+/**
+ * Header names used by common brokers' position and activity exports
+ * (matched case-insensitively)
+ */
+export const BROKER_PRESETS: BrokerPreset[] = [
+  {
+    id: 'fidelity',
+    name: 'Fidelity',
+    columns: {
+      ticker: ['symbol'],
+      shares: ['quantity'],
+      price: ['average cost basis', 'cost basis per share'],
+      totalCost: ['cost basis total', 'cost basis'],
+      date: ['date acquired', 'acquired'],
+      notes: ['description'],
+    },
+  },
+  {
+    id: 'schwab',
+    name: 'Charles Schwab',
+    columns: {
+      ticker: ['symbol'],
+      shares: ['quantity', 'qty (quantity)'],
+      price: ['cost/share', 'price'],
+      totalCost: ['cost basis'],
+      fees: ['fees & comm'],
+      date: ['date', 'open date'],
+      notes: ['description'],
+    },
+  },
+  {
+    id: 'robinhood',
+    name: 'Robinhood',
+    columns: {
+      ticker: ['instrument'],
+      shares: ['quantity'],
+      price: ['price'],
+      totalCost: ['amount'],
+      date: ['activity date', 'process date'],
+      notes: ['description'],
+    },
+  },
+  {
+    id: 'vanguard',
+    name: 'Vanguard',
+    columns: {
+      ticker: ['symbol'],
+      shares: ['shares', 'quantity'],
+      price: ['share price'],
+      totalCost: ['principal amount', 'net amount'],
+      fees: ['commissions and fees', 'commission fees'],
+      date: ['trade date', 'settlement date'],
+      notes: ['investment name'],
+    },
+  },
+  {
+    id: 'ibkr',
+    name: 'Interactive Brokers',
+    columns: {
+      ticker: ['symbol'],
+      shares: ['quantity'],
+      price: ['t. price', 'trade price'],
+      totalCost: ['basis', 'cost basis'],
+      fees: ['comm/fee', 'ibcommission'],
+      date: ['date/time', 'tradedate'],
+    },
+  },
+];
+
+// Fallback header names for files that match no broker
+const GENERIC_COLUMNS: Record<ImportField, string[]> = {
+  ticker: ['ticker', 'symbol', 'stock', 'instrument'],
+  shares: ['shares', 'quantity', 'qty', 'units'],
+  price: ['price', 'avg price', 'average price', 'avgprice', 'cost per share', 'purchase price'],
+  totalCost: ['total cost', 'cost basis', 'cost', 'amount'],
+  fees: ['fees', 'fee', 'commission', 'commissions', 'fees & comm'],
+  date: ['date', 'purchase date', 'purchasedate', 'trade date', 'acquired'],
+  notes: ['notes', 'note', 'description', 'memo'],
+};
+
+// Number of leading rows searched for a header (some brokers prepend account details)
+const HEADER_SEARCH_ROWS = 10;
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Parses CSV text into rows of cells, handling quoted fields, escaped
+ * quotes and CRLF line endings. Blank lines are dropped.
+ * @param text - Raw CSV text
+ * @returns Rows of trimmed cell values
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell.trim());
+    if (row.some((value) => value !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * Parses a broker-formatted number such as "$1,234.50" or "(12.00)"
+ * @param value - Cell value
+ * @returns Parsed number, or undefined if empty or not numeric
+ */
+export function parseNumber(value?: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const negative = /^\(.*\)$/.test(value) || value.startsWith('-');
+  const cleaned = value.replace(/[$,()\s+-]/g, '');
+  if (cleaned === '' || isNaN(Number(cleaned))) {
+    return undefined;
+  }
+  return negative ? -Number(cleaned) : Number(cleaned);
+}
+
+/**
+ * Parses ISO (2024-01-31) and US (01/31/2024) dates, ignoring any time part
+ * @param value - Cell value
+ * @returns ISO date string (YYYY-MM-DD), or undefined if unrecognized
+ */
+export function parseImportDate(value?: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const datePart = value.split(/[ ,T;]/)[0] ?? '';
+
+  const iso = datePart.match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+  const us = datePart.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+
+  let year: number, month: number, day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    const yearPart = us[3] ?? '';
+    year = Number(yearPart.length === 2 ? `20${yearPart}` : yearPart);
+    [month, day] = [Number(us[1]), Number(us[2])];
+  } else {
+    return undefined;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+// ============================================
+// Column Mapping
+// ============================================
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+/**
+ * Maps fields to the first header matching one of their known names
+ */
+function matchColumns(
+  headers: string[],
+  columns: Partial<Record<ImportField, string[]>>,
+): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const header = columns[field]
+      ?.map((name) => headers.find((h) => normalizeHeader(h) === name))
+      .find(Boolean);
+    if (header) {
+      mapping[field] = header;
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Locates the header row and guesses the column mapping, preferring the
+ * broker preset that recognizes the most columns
+ * @param rows - Parsed CSV rows
+ * @returns Header row index, headers, detected broker and mapping
+ */
+export function detectColumns(rows: string[][]): {
+  headerIndex: number;
+  headers: string[];
+  broker: string | null;
+  mapping: ImportColumnMapping;
+} {
+  const tickerNames = new Set(
+    [GENERIC_COLUMNS, ...BROKER_PRESETS.map((preset) => preset.columns)]
+      .flatMap((columns) => columns.ticker ?? []),
+  );
+  const found = rows
+    .slice(0, HEADER_SEARCH_ROWS)
+    .findIndex((row) => row.some((cell) => tickerNames.has(normalizeHeader(cell))));
+  const headerIndex = found === -1 ? 0 : found;
+  const headers = rows[headerIndex] ?? [];
+
+  let broker: BrokerPreset | null = null;
+  let mapping = matchColumns(headers, GENERIC_COLUMNS);
+
+  for (const preset of BROKER_PRESETS) {
+    const presetMapping = matchColumns(headers, preset.columns);
+    if (Object.keys(presetMapping).length > Object.keys(mapping).length) {
+      broker = preset;
+      mapping = presetMapping;
+    }
+  }
+
+  return { headerIndex, headers, broker: broker?.name ?? null, mapping };
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Key identifying a purchase of the same shares at the same price on the same day
+ */
+function purchaseKey(ticker: string, shares: number, price: number, date: Date | string) {
+  const day = new Date(date).toISOString().split('T')[0];
+  return `${ticker.toUpperCase()}|${shares.toFixed(6)}|${price.toFixed(2)}|${day}`;
+}
+
+/**
+ * Maps data rows to purchases, validates each with the add-asset schema and
+ * flags rows that repeat an earlier row or a purchase already recorded
+ * @param rows - Data rows (header excluded)
+ * @param headers - Header row
+ * @param mapping - Column mapping
+ * @param existing - Purchases already in the user's ledger
+ * @param firstRow - 1-based file row of the first data row
+ * @returns Mapped rows with status and errors
+ */
+export function buildImportRows(
+  rows: string[][],
+  headers: string[],
+  mapping: ImportColumnMapping,
+  existing: ExistingPurchase[],
+  firstRow = 2,
+): ImportRow[] {
+  const seen = new Set(existing.map((p) => purchaseKey(p.ticker, p.shares, p.price, p.date)));
+  const columnIndex = (field: ImportField) =>
+    mapping[field] ? headers.indexOf(mapping[field] as string) : -1;
+
+  return rows.map((cells, index) => {
+    const values: Partial<Record<ImportField, string>> = {};
+    for (const field of IMPORT_FIELDS) {
+      const column = columnIndex(field);
+      if (column !== -1 && cells[column]) {
+        values[field] = cells[column];
+      }
+    }
+
+    const shares = parseNumber(values.shares);
+    const totalCost = parseNumber(values.totalCost);
+    const fees = parseNumber(values.fees);
+    // A total cost includes the fees, which are recorded separately. Brokers
+    // export purchases as negative cash, so only its sign is dropped.
+    const price = parseNumber(values.price)
+      ?? (totalCost !== undefined && shares ? (Math.abs(totalCost) - (fees ?? 0)) / shares : undefined);
+    const date = parseImportDate(values.date);
+
+    const errors: string[] = [];
+    if (values.date && !date) {
+      errors.push(`Unrecognized date "${values.date}"`);
+    }
+    // A negative quantity is a sale or short position, not a purchase
+    if (shares !== undefined && shares < 0) {
+      errors.push(`Negative quantity ${values.shares}: sales and short positions cannot be imported`);
+    }
+
+    const validation = addAssetSchema.safeParse({
+      ticker: values.ticker ?? '',
+      shares,
+      avgPrice: price,
+      fees,
+      purchaseDate: date,
+      notes: values.notes,
+    });
+
+    if (!validation.success) {
+      errors.push(
+        ...validation.error.errors.map((e) =>
+          e.message === 'Required' ? `${e.path.join('.')} is required` : e.message,
+        ),
+      );
+    }
+
+    const row: ImportRow = {
+      row: firstRow + index,
+      values,
+      errors,
+      status: 'invalid',
+    };
+
+    if (validation.success && errors.length === 0) {
+      const data = validation.data;
+      const key = purchaseKey(data.ticker, data.shares, data.avgPrice, data.purchaseDate ?? new Date());
+      row.data = data;
+      row.status = seen.has(key) ? 'duplicate' : 'valid';
+      seen.add(key);
+    }
+
+    return row;
+  });
+}
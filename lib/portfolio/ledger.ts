@@ -0,0 +1,554 @@
+/**
+ * lib/portfolio/ledger.ts
+ * Transaction ledger - derives positions (shares, cost basis, realized P/L)
+ * from the recorded buys, sells, splits and transfers of a ticker
+ */
+
+import { Asset, AssetClass, LotMethod, Prisma, Transaction, TransactionType } from '@prisma/client';
+
+import { ASSET_CLASS_LABELS, ASSET_SYMBOL_RULES, DEFAULT_CURRENCY, VALIDATION } from '@/lib/constants';
+import { UpdateAssetInput } from '@/lib/validations';
+
+import { clearSnapshotsFrom, resolveTargetPortfolio } from './accounts';
+import { settleTradeCash } from './cash';
+import { LedgerError } from './errors';
+import { assertFxRates, fxRate, loadBaseCurrency, loadFxRates } from './fx';
+import { LEDGER_ENTRY_INCLUDE, LotLedgerEntry, replayLots, SHARE_EPSILON } from './lots';
+import { recordTradeValuation } from './valuations';
+import { refreshWashSales } from './wash-sales';
+
+/**
+ * Minimal shape of a ledger entry needed to derive a position
+ */
+export type LedgerEntry = LotLedgerEntry;
+
+/**
+ * Position state derived from a ledger
+ */
+export interface DerivedPosition {
+  shares: number;
+  costBasis: number;
+  avgPrice: number;
+  realizedProfitLoss: number;
+  disallowedLoss: number; // Losses on sales disallowed by wash sales
+  deferredLoss: number; // Disallowed losses carried in the open lots' basis
+  firstPurchaseDate: Date | null;
+  // Cost of open lots and the lots sold, for converting at historical rates
+  openLots: Array<{ acquiredAt: Date; costBasis: number }>;
+  closedLots: Array<{
+    acquiredAt: Date;
+    soldAt: Date;
+    proceeds: number;
+    costBasis: number;
+    disallowedLoss: number;
+  }>;
+}
+
+const OPENING_TYPES: TransactionType[] = ['BUY', 'TRANSFER_IN'];
+
+/**
+ * Replays a ledger through its tax lots. Cost basis is the basis of the
+ * lots still open, and realized P/L is the gain on every lot sold, with
+ * wash-sale losses deferred into their replacement lots.
+ * @param entries - Ledger entries for a single ticker
+ * @returns Derived position
+ * @throws LedgerError if a sell or transfer out exceeds the shares held
+ */
+export function derivePosition(entries: LedgerEntry[]): DerivedPosition {
+  const { lots, disposals } = replayLots(entries);
+
+  const shares = lots.reduce((sum, lot) => sum + lot.remainingShares, 0);
+  const costBasis = lots.reduce((sum, lot) => sum + lot.remainingShares * lot.costPerShare, 0);
+  const sales = disposals.filter((disposal) => disposal.type === 'SELL');
+  const realizedProfitLoss = sales.reduce((sum, disposal) => sum + disposal.gain, 0);
+
+  return {
+    shares,
+    costBasis,
+    avgPrice: shares > 0 ? costBasis / shares : 0,
+    realizedProfitLoss,
+    disallowedLoss: sales.reduce((sum, disposal) => sum + disposal.disallowedLoss, 0),
+    deferredLoss: lots.reduce((sum, lot) => sum + lot.remainingShares * (lot.washSaleAdjustment ?? 0), 0),
+    firstPurchaseDate: lots[0]?.acquiredAt ?? null,
+    openLots: lots
+      .filter((lot) => lot.remainingShares > SHARE_EPSILON)
+      .map((lot) => ({ acquiredAt: lot.acquiredAt, costBasis: lot.remainingShares * lot.costPerShare })),
+    closedLots: sales.map((sale) => ({
+      acquiredAt: sale.acquiredAt,
+      soldAt: sale.soldAt,
+      proceeds: sale.proceeds,
+      costBasis: sale.costBasis,
+      disallowedLoss: sale.disallowedLoss,
+    })),
+  };
+}
+
+/**
+ * Gets the position for an asset, falling back to the stored snapshot
+ * for assets created before the ledger existed
+ * @param asset - Asset, optionally with its transactions loaded
+ * @returns Derived position
+ */
+export function getAssetPosition(
+  asset: Asset & { transactions?: LedgerEntry[] },
+): DerivedPosition {
+  if (!asset.transactions || asset.transactions.length === 0) {
+    return {
+      shares: asset.shares,
+      costBasis: asset.shares * asset.avgPrice,
+      avgPrice: asset.avgPrice,
+      realizedProfitLoss: 0,
+      disallowedLoss: 0,
+      deferredLoss: 0,
+      firstPurchaseDate: asset.purchaseDate,
+      openLots: [{ acquiredAt: asset.purchaseDate, costBasis: asset.shares * asset.avgPrice }],
+      closedLots: [],
+    };
+  }
+
+  return derivePosition(asset.transactions);
+}
+
+/**
+ * Records an opening BUY for an asset that predates the ledger, so that
+ * later trades replay against its existing shares and average price
+ * @param client - Prisma transaction client
+ * @param asset - Asset to seed
+ * @returns The opening transaction, or null if none was needed
+ */
+export async function ensureOpeningTransaction(
+  client: Prisma.TransactionClient,
+  asset: Asset,
+): Promise<Transaction | null> {
+  const count = await client.transaction.count({ where: { assetId: asset.id } });
+  if (count > 0 || asset.shares <= 0) {
+    return null;
+  }
+
+  return client.transaction.create({
+    data: {
+      type: 'BUY',
+      ticker: asset.ticker,
+      shares: asset.shares,
+      price: asset.avgPrice,
+      date: asset.purchaseDate,
+      notes: 'Opening position',
+      assetId: asset.id,
+      userId: asset.userId,
+    },
+  });
+}
+
+/**
+ * Rewrites an asset's stored shares, average price, first purchase date
+ * and realized gain records from its ledger
+ */
+async function writeAssetPosition(
+  client: Prisma.TransactionClient,
+  assetId: string,
+): Promise<{ asset: Asset; position: DerivedPosition }> {
+  const transactions = await client.transaction.findMany({
+    where: { assetId },
+    include: LEDGER_ENTRY_INCLUDE,
+  });
+  const { disposals } = replayLots(transactions);
+  const position = derivePosition(transactions);
+
+  const asset = await client.asset.update({
+    where: { id: assetId },
+    data: {
+      shares: position.shares,
+      avgPrice: position.avgPrice,
+      ...(position.firstPurchaseDate && { purchaseDate: position.firstPurchaseDate }),
+    },
+  });
+
+  await client.realizedGain.deleteMany({ where: { assetId } });
+  await client.realizedGain.createMany({
+    data: disposals
+      .filter((disposal) => disposal.type === 'SELL')
+      .map((disposal) => ({
+        ticker: asset.ticker,
+        shares: disposal.shares,
+        acquiredAt: disposal.acquiredAt,
+        soldAt: disposal.soldAt,
+        proceeds: disposal.proceeds,
+        costBasis: disposal.costBasis,
+        gain: disposal.gain,
+        disallowedLoss: disposal.disallowedLoss,
+        term: disposal.term,
+        saleId: disposal.saleId,
+        lotId: disposal.lotId,
+        assetId,
+        userId: asset.userId,
+      })),
+  });
+
+  return { asset, position };
+}
+
+/**
+ * Recomputes an asset's stored shares, average price and first purchase
+ * date from its ledger, and rewrites its realized gain records. Wash sales
+ * of its ticker are re-detected, and other positions in the ticker's group
+ * whose basis or gains they change are rewritten too.
+ * @param client - Prisma transaction client
+ * @param assetId - Asset to resync
+ * @returns Updated asset and the derived position
+ * @throws LedgerError if the ledger is no longer consistent
+ */
+export async function syncAssetPosition(
+  client: Prisma.TransactionClient,
+  assetId: string,
+): Promise<{ asset: Asset; position: DerivedPosition }> {
+  const { userId, ticker } = await client.asset.findUniqueOrThrow({
+    where: { id: assetId },
+    select: { userId: true, ticker: true },
+  });
+
+  const related = await refreshWashSales(client, userId, [ticker]);
+  for (const id of related) {
+    if (id !== assetId) {
+      await writeAssetPosition(client, id);
+    }
+  }
+
+  return writeAssetPosition(client, assetId);
+}
+
+/**
+ * Re-detects the wash sales of tickers and rewrites every position in
+ * their groups, e.g. after a position is deleted or the groups change
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the positions
+ * @param tickers - Tickers whose wash sales may have changed
+ * @throws LedgerError if a ledger is no longer consistent
+ */
+export async function syncWashSales(
+  client: Prisma.TransactionClient,
+  userId: string,
+  tickers: string[],
+): Promise<void> {
+  for (const id of await refreshWashSales(client, userId, tickers)) {
+    await writeAssetPosition(client, id);
+  }
+}
+
+/**
+ * Input for recording a trade
+ */
+export interface RecordTradeInput {
+  portfolioId?: string; // Defaults to the user's default account
+  ticker: string;
+  assetClass?: AssetClass; // Class of a new position; defaults to a stock
+  type: TransactionType;
+  shares?: number;
+  price?: number;
+  fees?: number; // Commissions and fees of a buy or sell
+  ratio?: number;
+  lotMethod?: LotMethod;
+  lots?: Array<{ lotId: string; shares: number }>;
+  date?: Date;
+  notes?: string;
+  currency?: string; // Currency of the price; a new position's listing currency
+  settleCash?: boolean; // Pay buys from and credit sales to the account's cash
+}
+
+/**
+ * Records a trade in an account, creating the position on its first buy or
+ * transfer in, and resyncs the position snapshot. Sales without an
+ * explicit disposal method use the user's default. With `settleCash`, buys
+ * and sales also move the account's cash, converted into the base
+ * currency. A new position takes the trade's currency, or the stock's
+ * listing currency. Trades of manually priced assets also value them on
+ * the trade date. Snapshots from the trade date onward are discarded so
+ * they are rebuilt.
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the position
+ * @param input - Trade details
+ * @returns The created transaction, the updated asset and its position
+ * @throws LedgerError if the trade is inconsistent with the position
+ * @throws FxRateError if a new position's currency has no stored rates
+ */
+export async function recordTrade(
+  client: Prisma.TransactionClient,
+  userId: string,
+  input: RecordTradeInput,
+): Promise<{ transaction: Transaction; asset: Asset; position: DerivedPosition }> {
+  const ticker = input.ticker.toUpperCase();
+  const isDisposal = input.type === 'SELL' || input.type === 'TRANSFER_OUT';
+
+  const portfolio = await resolveTargetPortfolio(client, userId, input.portfolioId);
+
+  let asset = await client.asset.findFirst({
+    where: { ticker, userId, portfolioId: portfolio.id, deletedAt: null },
+  });
+  let lots = input.lots;
+
+  if (!asset) {
+    if (!OPENING_TYPES.includes(input.type)) {
+      throw new LedgerError(
+        `No ${ticker} position in ${portfolio.name} to apply a ${input.type.toLowerCase()} to`,
+      );
+    }
+    // Prices are in the stock's listing currency unless the trade says otherwise
+    const stock = input.currency
+      ? null
+      : await client.stock.findUnique({ where: { ticker }, select: { currency: true } });
+    const currency = input.currency ?? stock?.currency ?? DEFAULT_CURRENCY;
+    // A position in a currency without rates could not be valued
+    await assertFxRates(client, currency);
+    asset = await client.asset.create({
+      data: {
+        ticker,
+        shares: 0,
+        avgPrice: 0,
+        purchaseDate: input.date || new Date(),
+        notes: input.notes,
+        currency,
+        assetClass: input.assetClass ?? 'EQUITY',
+        userId,
+        portfolioId: portfolio.id,
+      },
+    });
+  } else {
+    if (input.currency && input.currency !== asset.currency) {
+      throw new LedgerError(
+        `${ticker} in ${portfolio.name} is held in ${asset.currency}; record its trades in ${asset.currency}`,
+      );
+    }
+    if (input.assetClass && input.assetClass !== asset.assetClass) {
+      throw new LedgerError(
+        `${ticker} in ${portfolio.name} is held as ${ASSET_CLASS_LABELS[asset.assetClass].toLowerCase()}, not ${ASSET_CLASS_LABELS[input.assetClass].toLowerCase()}`,
+      );
+    }
+    const opening = await ensureOpeningTransaction(client, asset);
+    // Positions from before the ledger expose their single lot under the asset ID
+    const legacyLotId = asset.id;
+    if (opening) {
+      lots = lots?.map((lot) => (lot.lotId === legacyLotId ? { ...lot, lotId: opening.id } : lot));
+    }
+  }
+
+  let lotMethod: LotMethod | null = null;
+  if (isDisposal) {
+    lotMethod = input.lotMethod ?? null;
+    if (!lotMethod) {
+      const user = await client.user.findUnique({
+        where: { id: userId },
+        select: { lotMethod: true },
+      });
+      lotMethod = user?.lotMethod ?? 'FIFO';
+    }
+    if (lotMethod === 'SPECIFIC') {
+      const lotIds = [...new Set((lots ?? []).map((lot) => lot.lotId))];
+      if (lotIds.length === 0) {
+        throw new LedgerError('Select the lots to sell from when using specific-lot disposal');
+      }
+      const found = await client.transaction.count({
+        where: { id: { in: lotIds }, assetId: asset.id, type: { in: OPENING_TYPES } },
+      });
+      if (found !== lotIds.length) {
+        throw new LedgerError(`Selected lots do not belong to the ${ticker} position`);
+      }
+    }
+  }
+
+  const transaction = await client.transaction.create({
+    data: {
+      type: input.type,
+      ticker,
+      shares: input.type === 'SPLIT' ? 0 : input.shares ?? 0,
+      price: input.type === 'SPLIT' ? 0 : input.price ?? 0,
+      fees: input.type === 'BUY' || input.type === 'SELL' ? input.fees ?? 0 : 0,
+      ratio: input.type === 'SPLIT' ? input.ratio : null,
+      lotMethod,
+      date: input.date || new Date(),
+      notes: input.notes,
+      assetId: asset.id,
+      userId,
+    },
+  });
+
+  if (lotMethod === 'SPECIFIC' && lots) {
+    await client.lotSelection.createMany({
+      data: lots.map((lot) => ({
+        saleId: transaction.id,
+        lotId: lot.lotId,
+        shares: lot.shares,
+      })),
+    });
+  }
+
+  // The cash ledger is in the base currency, converted at the trade date's rate
+  if (input.settleCash) {
+    const baseCurrency = await loadBaseCurrency(userId, client);
+    const rates = await loadFxRates([asset.currency, baseCurrency]);
+    const rate = fxRate(rates, asset.currency, baseCurrency, transaction.date);
+    await settleTradeCash(client, portfolio.id, transaction, rate);
+  }
+
+  if (asset.assetClass === 'MANUAL') {
+    await recordTradeValuation(client, asset.id, transaction);
+  }
+
+  const synced = await syncAssetPosition(client, asset.id);
+  await clearSnapshotsFrom(client, portfolio.id, transaction.date);
+
+  return { transaction, ...synced };
+}
+
+/**
+ * Corrects a position. A new ticker renames the position and its whole
+ * ledger, e.g. to fix a typo, along with its dividends, their cash and the
+ * account's options on the old ticker. Shares, price and purchase date can
+ * only be corrected while the position consists of a single opening buy;
+ * they are written to that trade, whose cash settlement is redone at the
+ * new amount and date. The price is the trade's, before fees; fees and
+ * wash-sale adjustments are added to the average cost when the position is
+ * resynced.
+ * Snapshots from the earlier of the old and new purchase dates on are
+ * discarded for rebuilding.
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the position
+ * @param assetId - Position to correct
+ * @param input - Fields to change
+ * @returns The updated asset
+ * @throws LedgerError if the position does not exist, the account already
+ * holds the new ticker or has it in the trash, a value is invalid for the asset's class, or the
+ * trade fields are changed on a position with several trades
+ */
+export async function updateAsset(
+  client: Prisma.TransactionClient,
+  userId: string,
+  assetId: string,
+  input: UpdateAssetInput,
+): Promise<Asset> {
+  const asset = await client.asset.findFirst({ where: { id: assetId, userId, deletedAt: null } });
+  if (!asset) {
+    throw new LedgerError('Asset not found');
+  }
+
+  const ticker = input.ticker && input.ticker !== asset.ticker ? input.ticker : undefined;
+  const editsTrade = input.shares !== undefined || input.avgPrice !== undefined || input.purchaseDate !== undefined;
+  let changedFrom: Date | undefined;
+
+  if (editsTrade) {
+    const isCrypto = asset.assetClass === 'CRYPTO';
+    if (!isCrypto && input.shares !== undefined
+      && (input.shares < VALIDATION.SHARES.MIN || input.shares > VALIDATION.SHARES.MAX)) {
+      throw new LedgerError(VALIDATION.SHARES.MESSAGE);
+    }
+    if (!isCrypto && input.avgPrice !== undefined
+      && (input.avgPrice < VALIDATION.PRICE.MIN || input.avgPrice > VALIDATION.PRICE.MAX)) {
+      throw new LedgerError(VALIDATION.PRICE.MESSAGE);
+    }
+    if (input.purchaseDate && input.purchaseDate > new Date()) {
+      throw new LedgerError('Purchase date cannot be in the future');
+    }
+
+    await ensureOpeningTransaction(client, asset);
+    const transactions = await client.transaction.findMany({
+      where: { assetId },
+      include: { cashEntry: true },
+    });
+    const opening = transactions[0];
+    if (transactions.length !== 1 || !opening || opening.type !== 'BUY') {
+      throw new LedgerError('Only a position with a single buy can be corrected here. Edit its transactions instead.');
+    }
+
+    const { cashEntry, ...trade } = opening;
+    const corrected = await client.transaction.update({
+      where: { id: trade.id },
+      data: {
+        ...(input.shares !== undefined && { shares: input.shares }),
+        ...(input.avgPrice !== undefined && { price: input.avgPrice }),
+        ...(input.purchaseDate && { date: input.purchaseDate }),
+      },
+    });
+
+    if (cashEntry) {
+      const baseCurrency = await loadBaseCurrency(userId, client);
+      const rates = await loadFxRates([asset.currency, baseCurrency]);
+      await client.cashTransaction.delete({ where: { id: cashEntry.id } });
+      await settleTradeCash(
+        client,
+        cashEntry.portfolioId,
+        corrected,
+        fxRate(rates, asset.currency, baseCurrency, corrected.date),
+      );
+    }
+    changedFrom = corrected.date < trade.date ? corrected.date : trade.date;
+  }
+
+  if (ticker) {
+    const rule = ASSET_SYMBOL_RULES[asset.assetClass];
+    if (!rule.PATTERN.test(ticker)) {
+      throw new LedgerError(rule.MESSAGE);
+    }
+    // Trashed positions count too, or they could not be restored
+    const held = await client.asset.findFirst({
+      where: { userId, ticker, portfolioId: asset.portfolioId },
+    });
+    if (held?.deletedAt) {
+      throw new LedgerError(
+        `${ticker} is in the trash for this account. Delete it permanently before renaming this position.`,
+      );
+    }
+    if (held) {
+      throw new LedgerError(`${ticker} is already held in this account. Record these trades there instead.`);
+    }
+
+    // Dividend and option cash, and options on the old ticker, belong to
+    // this position unless the account has another (trashed) one of it
+    const sharesOldTicker = await client.asset.count({
+      where: { userId, ticker: asset.ticker, portfolioId: asset.portfolioId, id: { not: asset.id } },
+    });
+    const accountId = sharesOldTicker === 0 ? asset.portfolioId : null;
+
+    await client.asset.update({ where: { id: asset.id }, data: { ticker } });
+    await client.transaction.updateMany({ where: { assetId }, data: { ticker } });
+    await client.dividend.updateMany({ where: { assetId }, data: { ticker } });
+    await client.cashTransaction.updateMany({
+      where: {
+        OR: [
+          { transaction: { assetId } },
+          ...(accountId ? [{ portfolioId: accountId, ticker: asset.ticker, transactionId: null }] : []),
+        ],
+      },
+      data: { ticker },
+    });
+    if (accountId) {
+      await client.optionPosition.updateMany({
+        where: { userId, portfolioId: accountId, underlying: asset.ticker },
+        data: { underlying: ticker },
+      });
+    }
+    // Wash sales are re-detected for the old ticker without the position
+    // and for the new one with it
+    await syncWashSales(client, userId, [asset.ticker, ticker]);
+
+    const firstTrade = await client.transaction.findFirst({
+      where: { assetId },
+      orderBy: { date: 'asc' },
+      select: { date: true },
+    });
+    const from = firstTrade?.date ?? asset.purchaseDate;
+    changedFrom = changedFrom && changedFrom < from ? changedFrom : from;
+  }
+
+  if (changedFrom) {
+    await syncAssetPosition(client, assetId);
+    if (asset.portfolioId) {
+      await clearSnapshotsFrom(client, asset.portfolioId, changedFrom);
+    }
+  }
+
+  return client.asset.update({
+    where: { id: assetId },
+    data: {
+      ...(input.notes !== undefined && { notes: input.notes }),
+      ...(input.tags !== undefined && { tags: input.tags }),
+    },
+  });
+}
@@ -0,0 +1,207 @@
+/**
+ * lib/portfolio/look-through.ts
+ * Look-through exposure - breaks held funds down into the companies they
+ * own, using stored fund holdings, to show true company and sector
+ * exposure and how much funds overlap
+ */
+
+import {
+  CHART_COLORS,
+  LOOK_THROUGH_CONFIG,
+  UNCLASSIFIED_LABEL,
+  UNLISTED_HOLDINGS_LABEL,
+} from '@/lib/constants';
+import prisma from '@/lib/db';
+import { AllocationData, FundOverlap, LookThroughHolding, LookThroughReport } from '@/types';
+
+import { loadClassifications } from './classification';
+import { loadBaseCurrency } from './fx';
+import { loadHoldingValues } from './positions';
+
+// Weight left over after a fund's listed holdings smaller than this is rounding
+const WEIGHT_EPSILON = 1e-4;
+
+/**
+ * Stored holding of a fund
+ */
+export interface FundConstituent {
+  ticker: string;
+  name: string | null;
+  weight: number;
+  sector: string | null;
+}
+
+/**
+ * Exposure to an underlying company before it is ranked
+ */
+interface Exposure {
+  name: string | null;
+  value: number;
+  direct: number;
+  funds: Set<string>;
+  sector: string | null; // From the holdings file, when given
+}
+
+// ============================================
+// Computation
+// ============================================
+
+/**
+ * Spreads each fund's value over its holdings by weight. Tickers that are
+ * not funds with holdings data are direct exposure; the part of a fund its
+ * holdings file does not list is pooled as unlisted holdings.
+ * @param values - Value of each held ticker
+ * @param funds - Holdings of the held funds that have data
+ * @returns Exposure by underlying ticker
+ */
+export function computeExposures(
+  values: Map<string, number>,
+  funds: Map<string, FundConstituent[]>,
+): Map<string, Exposure> {
+  const exposures = new Map<string, Exposure>();
+  const add = (ticker: string, value: number, via: string | null, constituent?: FundConstituent) => {
+    const exposure = exposures.get(ticker) ?? { name: null, value: 0, direct: 0, funds: new Set(), sector: null };
+    exposure.value += value;
+    if (via) {
+      exposure.funds.add(via);
+    } else {
+      exposure.direct += value;
+    }
+    exposure.name = exposure.name ?? constituent?.name ?? null;
+    exposure.sector = exposure.sector ?? constituent?.sector ?? null;
+    exposures.set(ticker, exposure);
+  };
+
+  for (const [ticker, value] of values) {
+    const holdings = funds.get(ticker);
+    if (!holdings) {
+      add(ticker, value, null);
+      continue;
+    }
+    for (const holding of holdings) {
+      add(holding.ticker, value * holding.weight, ticker, holding);
+    }
+    const unlisted = 1 - holdings.reduce((sum, holding) => sum + holding.weight, 0);
+    if (unlisted > WEIGHT_EPSILON) {
+      add(UNLISTED_HOLDINGS_LABEL, value * unlisted, ticker);
+    }
+  }
+
+  return exposures;
+}
+
+/**
+ * Overlap of every pair of funds: the sum, over holdings both own, of the
+ * smaller of the two weights. 100% means identical portfolios.
+ * @param funds - Holdings by fund
+ * @returns Pairs with any shared holding, most overlapping first
+ */
+export function computeOverlaps(funds: Map<string, FundConstituent[]>): FundOverlap[] {
+  const entries = [...funds].map(([fund, holdings]) => ({
+    fund,
+    weights: new Map(holdings.map((holding) => [holding.ticker, holding.weight])),
+  }));
+
+  const overlaps: FundOverlap[] = [];
+  entries.forEach((a, i) => {
+    for (const b of entries.slice(i + 1)) {
+      let overlap = 0;
+      let sharedHoldings = 0;
+      for (const [ticker, weight] of a.weights) {
+        const other = b.weights.get(ticker);
+        if (other !== undefined) {
+          overlap += Math.min(weight, other);
+          sharedHoldings++;
+        }
+      }
+      if (sharedHoldings > 0) {
+        overlaps.push({ funds: [a.fund, b.fund], overlap, sharedHoldings });
+      }
+    }
+  });
+
+  return overlaps.sort((a, b) => b.overlap - a.overlap);
+}
+
+// ============================================
+// Report
+// ============================================
+
+/**
+ * Builds the look-through report of a user's holdings. Values are in the
+ * base currency; cash is left out. Sectors come from the holdings files,
+ * then from the stocks table; only directly held stocks are looked up in
+ * company profiles.
+ * @param userId - Owner of the positions
+ * @param portfolioId - Account, or null for all accounts
+ * @returns Look-through report
+ */
+export async function loadLookThrough(
+  userId: string,
+  portfolioId: string | null,
+): Promise<LookThroughReport> {
+  const baseCurrency = await loadBaseCurrency(userId);
+  const values = await loadHoldingValues(userId, portfolioId, baseCurrency);
+  const totalValue = [...values.values()].reduce((sum, value) => sum + value, 0);
+
+  const rows = await prisma.fundHolding.findMany({
+    where: { fundTicker: { in: [...values.keys()] } },
+    orderBy: { weight: 'desc' },
+  });
+  const funds = new Map<string, FundConstituent[]>();
+  for (const row of rows) {
+    funds.set(row.fundTicker, [...(funds.get(row.fundTicker) ?? []), row]);
+  }
+
+  const exposures = computeExposures(values, funds);
+  const tickers = [...exposures.keys()].filter((ticker) => ticker !== UNLISTED_HOLDINGS_LABEL);
+  const [direct, constituents] = await Promise.all([
+    loadClassifications(tickers.filter((ticker) => !funds.has(ticker) && values.has(ticker))),
+    loadClassifications(tickers.filter((ticker) => !values.has(ticker) || funds.has(ticker)), false),
+  ]);
+
+  const percentage = (value: number) => (totalValue > 0 ? (value / totalValue) * 100 : 0);
+
+  const holdings: LookThroughHolding[] = [...exposures]
+    .filter(([ticker]) => ticker !== UNLISTED_HOLDINGS_LABEL)
+    .map(([ticker, exposure]) => ({
+      ticker,
+      name: exposure.name,
+      value: exposure.value,
+      percentage: percentage(exposure.value),
+      direct: exposure.direct,
+      funds: [...exposure.funds].sort(),
+    }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, LOOK_THROUGH_CONFIG.TOP_HOLDINGS);
+
+  const sectorValues = new Map<string, number>();
+  for (const [ticker, exposure] of exposures) {
+    const sector = ticker === UNLISTED_HOLDINGS_LABEL
+      ? UNLISTED_HOLDINGS_LABEL
+      : exposure.sector ?? (direct.get(ticker) ?? constituents.get(ticker))?.sector ?? UNCLASSIFIED_LABEL;
+    sectorValues.set(sector, (sectorValues.get(sector) ?? 0) + exposure.value);
+  }
+  const sectors: AllocationData[] = [...sectorValues]
+    .sort((a, b) => b[1] - a[1])
+    .map(([sector, value], index) => ({
+      sector,
+      name: sector,
+      value,
+      percentage: percentage(value),
+      color: CHART_COLORS.SECTORS[index % CHART_COLORS.SECTORS.length],
+    }));
+
+  const heldFunds = [...funds.keys()].sort((a, b) => (values.get(b) ?? 0) - (values.get(a) ?? 0));
+  const fundValue = heldFunds.reduce((sum, fund) => sum + (values.get(fund) ?? 0), 0);
+
+  return {
+    baseCurrency,
+    totalValue,
+    funds: heldFunds,
+    fundShare: totalValue > 0 ? fundValue / totalValue : 0,
+    holdings,
+    sectors,
+    overlaps: computeOverlaps(funds).slice(0, LOOK_THROUGH_CONFIG.MAX_OVERLAPS),
+  };
+}
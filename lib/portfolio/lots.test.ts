@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { LedgerError } from './errors';
+import { getHoldingTerm, LotLedgerEntry, orderLotsForDisposal, replayLots, TaxLot, tradeAmount } from './lots';
+
+function entry(fields: Partial<LotLedgerEntry> & Pick<LotLedgerEntry, 'id' | 'type' | 'date'>): LotLedgerEntry {
+  return { shares: 0, price: 0, fees: 0, ratio: null, lotMethod: null, ...fields };
+}
+
+const first = entry({ id: 'a', type: 'BUY', date: new Date('2023-01-10'), shares: 10, price: 100 });
+const second = entry({ id: 'b', type: 'BUY', date: new Date('2023-06-10'), shares: 10, price: 150 });
+const third = entry({ id: 'c', type: 'BUY', date: new Date('2024-01-10'), shares: 10, price: 120 });
+const buys = [first, second, third];
+
+describe('tradeAmount', () => {
+  test('adds fees to buys and deducts them from sales', () => {
+    assert.equal(tradeAmount({ type: 'BUY', shares: 10, price: 5, fees: 1 }), 51);
+    assert.equal(tradeAmount({ type: 'SELL', shares: 10, price: 5, fees: 1 }), 49);
+  });
+});
+
+describe('getHoldingTerm', () => {
+  test('is long-term only after more than a year', () => {
+    assert.equal(getHoldingTerm(new Date('2023-01-10'), new Date('2024-01-10')), 'SHORT');
+    assert.equal(getHoldingTerm(new Date('2023-01-10'), new Date('2024-01-11')), 'LONG');
+  });
+});
+
+describe('orderLotsForDisposal', () => {
+  const lots: TaxLot[] = replayLots(buys).lots;
+
+  test('orders by acquisition for FIFO and LIFO', () => {
+    assert.deepEqual(orderLotsForDisposal(lots, 'FIFO').map((lot) => lot.id), ['a', 'b', 'c']);
+    assert.deepEqual(orderLotsForDisposal(lots, 'LIFO').map((lot) => lot.id), ['c', 'b', 'a']);
+  });
+
+  test('orders by cost for HIFO', () => {
+    assert.deepEqual(orderLotsForDisposal(lots, 'HIFO').map((lot) => lot.id), ['b', 'c', 'a']);
+  });
+});
+
+describe('replayLots', () => {
+  const sale = entry({ id: 's', type: 'SELL', date: new Date('2024-03-01'), shares: 15, price: 130, fees: 3 });
+
+  test('draws a FIFO sale from the oldest lots and splits its fees', () => {
+    const { lots, disposals } = replayLots([...buys, sale]);
+
+    assert.deepEqual(lots.map((lot) => lot.remainingShares), [0, 5, 10]);
+    assert.deepEqual(disposals.map((d) => [d.lotId, d.shares, d.term]), [
+      ['a', 10, 'LONG'],
+      ['b', 5, 'SHORT'],
+    ]);
+    assert.deepEqual(disposals.map((d) => d.proceeds), [1300 - 2, 650 - 1]);
+    assert.deepEqual(disposals.map((d) => d.costBasis), [1000, 750]);
+    assert.deepEqual(disposals.map((d) => d.gain), [298, -101]);
+  });
+
+  test('uses the method recorded on the sale over the default', () => {
+    const { disposals } = replayLots([...buys, { ...sale, lotMethod: 'HIFO' }], 'FIFO');
+    assert.deepEqual(disposals.map((d) => [d.lotId, d.shares]), [
+      ['b', 10],
+      ['c', 5],
+    ]);
+  });
+
+  test('sells the selected lots for specific identification', () => {
+    const specific = {
+      ...sale,
+      lotMethod: 'SPECIFIC' as const,
+      lotSelections: [
+        { lotId: 'c', shares: 10 },
+        { lotId: 'a', shares: 5 },
+      ],
+    };
+    const { lots } = replayLots([...buys, specific]);
+    assert.deepEqual(lots.map((lot) => lot.remainingShares), [5, 10, 0]);
+  });
+
+  test('rejects selections that do not cover the sale', () => {
+    const specific = { ...sale, lotMethod: 'SPECIFIC' as const, lotSelections: [{ lotId: 'a', shares: 10 }] };
+    assert.throws(() => replayLots([...buys, specific]), LedgerError);
+  });
+
+  test('rejects sales of more shares than are held', () => {
+    assert.throws(() => replayLots([...buys, { ...sale, shares: 31 }]), /only 30 held/);
+  });
+
+  test('adds disallowed wash-sale losses to the replacement lot', () => {
+    const replacement = { ...third, washSaleReplacements: [{ disallowedLoss: 50 }] };
+    const { lots } = replayLots([first, second, replacement]);
+    assert.deepEqual(lots.map((lot) => lot.costPerShare), [100, 150, 125]);
+    assert.deepEqual(lots.map((lot) => lot.washSaleAdjustment), [undefined, undefined, 5]);
+  });
+
+  test('keeps the basis of each lot through a split', () => {
+    const split = entry({ id: 'x', type: 'SPLIT', date: new Date('2024-02-01'), ratio: 2 });
+    const { lots } = replayLots([first, split]);
+    assert.deepEqual(lots.map((lot) => [lot.remainingShares, lot.costPerShare]), [[20, 50]]);
+  });
+});
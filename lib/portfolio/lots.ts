@@ -0,0 +1,299 @@
+/**
+ * lib/portfolio/lots.ts
+ * Tax-lot engine - replays a ledger into open lots and lot disposals
+ * using FIFO, LIFO, HIFO or specific-lot selection, with wash-sale
+ * adjustments
+ */
+
+import { GainTerm, LotMethod, Prisma, Transaction } from '@prisma/client';
+
+import { LONG_TERM_HOLDING_YEARS } from '@/lib/constants';
+
+import { LedgerError } from './errors';
+
+/**
+ * Ledger entry shape needed to replay lots
+ */
+export type LotLedgerEntry = Pick<
+  Transaction,
+  'id' | 'type' | 'shares' | 'price' | 'fees' | 'ratio' | 'date' | 'lotMethod'
+> & {
+  createdAt?: Date;
+  lotSelections?: Array<{ lotId: string; shares: number }>;
+  washSales?: Array<{ lotId: string; disallowedLoss: number }>; // Losses of this sale disallowed
+  washSaleReplacements?: Array<{ disallowedLoss: number }>; // Losses added to this lot's basis
+};
+
+/**
+ * Relations to load with ledger entries so their lots replay with lot
+ * selections and wash-sale adjustments
+ */
+export const LEDGER_ENTRY_INCLUDE = {
+  lotSelections: true,
+  washSales: true,
+  washSaleReplacements: true,
+} satisfies Prisma.TransactionInclude;
+
+/**
+ * A lot opened by a BUY or TRANSFER_IN, identified by that transaction
+ */
+export interface TaxLot {
+  id: string;
+  acquiredAt: Date;
+  shares: number; // Split-adjusted quantity originally acquired
+  remainingShares: number;
+  costPerShare: number; // Split-adjusted, including fees and any wash-sale adjustment
+  washSaleAdjustment?: number; // Disallowed loss added to the cost, per share
+}
+
+/**
+ * Shares of one lot removed by a sale or transfer out
+ */
+export interface LotDisposal {
+  saleId: string;
+  lotId: string;
+  type: 'SELL' | 'TRANSFER_OUT';
+  shares: number;
+  acquiredAt: Date;
+  soldAt: Date;
+  proceeds: number; // Net of the sale's fees
+  costBasis: number;
+  gain: number; // Recognized: proceeds less cost, plus any disallowed loss
+  disallowedLoss: number;
+  term: GainTerm;
+}
+
+export interface LotReplay {
+  lots: TaxLot[];
+  disposals: LotDisposal[];
+}
+
+// Residual share counts below this are treated as zero
+export const SHARE_EPSILON = 1e-9;
+
+/**
+ * Cash a buy costs or a sale brings in: the shares' value plus the fees
+ * paid on a buy, or less the fees paid on a sale
+ * @param entry - Buy or sale
+ * @returns Positive amount
+ */
+export function tradeAmount(entry: Pick<Transaction, 'type' | 'shares' | 'price' | 'fees'>): number {
+  const value = entry.shares * entry.price;
+  return entry.type === 'BUY' || entry.type === 'TRANSFER_IN' ? value + entry.fees : value - entry.fees;
+}
+
+/**
+ * Sorts ledger entries chronologically, using creation time to break ties
+ * @param entries - Ledger entries
+ * @returns New sorted array
+ */
+export function sortLedger<T extends { date: Date; createdAt?: Date }>(entries: T[]): T[] {
+  return [...entries].sort((a, b) => {
+    const byDate = new Date(a.date).getTime() - new Date(b.date).getTime();
+    if (byDate !== 0) {
+      return byDate;
+    }
+    return (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0);
+  });
+}
+
+/**
+ * Classifies a holding period as short- or long-term
+ * @param acquiredAt - Date the lot was acquired
+ * @param disposedAt - Date the lot was sold (defaults to now)
+ * @returns LONG if held more than one year, otherwise SHORT
+ */
+export function getHoldingTerm(acquiredAt: Date, disposedAt: Date = new Date()): GainTerm {
+  const threshold = new Date(acquiredAt);
+  threshold.setFullYear(threshold.getFullYear() + LONG_TERM_HOLDING_YEARS);
+  return new Date(disposedAt) > threshold ? 'LONG' : 'SHORT';
+}
+
+/**
+ * Orders open lots in the sequence a disposal method draws from them
+ * @param lots - Open lots
+ * @param method - FIFO, LIFO or HIFO
+ * @returns New ordered array
+ */
+export function orderLotsForDisposal(
+  lots: TaxLot[],
+  method: Exclude<LotMethod, 'SPECIFIC'>,
+): TaxLot[] {
+  const byAcquired = (a: TaxLot, b: TaxLot) => a.acquiredAt.getTime() - b.acquiredAt.getTime();
+
+  switch (method) {
+    case 'LIFO':
+      return [...lots].sort((a, b) => byAcquired(b, a));
+    case 'HIFO':
+      return [...lots].sort((a, b) => b.costPerShare - a.costPerShare || byAcquired(a, b));
+    case 'FIFO':
+    default:
+      return [...lots].sort(byAcquired);
+  }
+}
+
+/**
+ * Picks the lots a sale draws from
+ */
+function pickLots(
+  entry: LotLedgerEntry,
+  openLots: TaxLot[],
+  method: LotMethod,
+): Array<{ lot: TaxLot; shares: number }> {
+  if (method === 'SPECIFIC') {
+    const selections = entry.lotSelections ?? [];
+    const selected = selections.reduce((sum, s) => sum + s.shares, 0);
+
+    if (Math.abs(selected - entry.shares) > SHARE_EPSILON) {
+      throw new LedgerError(
+        `Selected lots cover ${selected} shares but ${entry.shares} were sold`,
+      );
+    }
+
+    return selections.map((selection) => {
+      const lot = openLots.find((l) => l.id === selection.lotId);
+      if (!lot) {
+        throw new LedgerError(`Lot ${selection.lotId} is not open at the time of sale`);
+      }
+      if (selection.shares > lot.remainingShares + SHARE_EPSILON) {
+        throw new LedgerError(
+          `Lot ${selection.lotId} only has ${lot.remainingShares} shares remaining`,
+        );
+      }
+      return { lot, shares: selection.shares };
+    });
+  }
+
+  const picks: Array<{ lot: TaxLot; shares: number }> = [];
+  let toDispose = entry.shares;
+
+  for (const lot of orderLotsForDisposal(openLots, method)) {
+    if (toDispose <= SHARE_EPSILON) {
+      break;
+    }
+    const shares = Math.min(lot.remainingShares, toDispose);
+    picks.push({ lot, shares });
+    toDispose -= shares;
+  }
+
+  return picks;
+}
+
+/**
+ * Replays a ledger into tax lots
+ * @param entries - Ledger entries for a single ticker
+ * @param defaultMethod - Method for sales that do not record one
+ * @returns All lots (open and closed) and every disposal
+ * @throws LedgerError if a sale exceeds the shares held or selects invalid lots
+ */
+export function replayLots(
+  entries: LotLedgerEntry[],
+  defaultMethod: LotMethod = 'FIFO',
+): LotReplay {
+  const lots: TaxLot[] = [];
+  const disposals: LotDisposal[] = [];
+
+  for (const entry of sortLedger(entries)) {
+    const date = new Date(entry.date);
+
+    switch (entry.type) {
+      case 'BUY':
+      case 'TRANSFER_IN': {
+        // Fees, and losses disallowed by wash sales, are spread over the lot
+        const deferred = (entry.washSaleReplacements ?? []).reduce((sum, w) => sum + w.disallowedLoss, 0);
+        const washSaleAdjustment = entry.shares > 0 ? deferred / entry.shares : 0;
+        const feesPerShare = entry.shares > 0 ? entry.fees / entry.shares : 0;
+        lots.push({
+          id: entry.id,
+          acquiredAt: date,
+          shares: entry.shares,
+          remainingShares: entry.shares,
+          costPerShare: entry.price + feesPerShare + washSaleAdjustment,
+          ...(washSaleAdjustment > 0 && { washSaleAdjustment }),
+        });
+        break;
+      }
+
+      case 'SELL':
+      case 'TRANSFER_OUT': {
+        const openLots = lots.filter((lot) => lot.remainingShares > 0);
+        const held = openLots.reduce((sum, lot) => sum + lot.remainingShares, 0);
+
+        if (entry.shares > held + SHARE_EPSILON) {
+          throw new LedgerError(
+            `Cannot ${entry.type === 'SELL' ? 'sell' : 'transfer out'} ${entry.shares} shares on ` +
+              `${date.toISOString().split('T')[0]}: only ${held} held`,
+          );
+        }
+
+        const picks = pickLots(entry, openLots, entry.lotMethod ?? defaultMethod);
+
+        for (const { lot, shares } of picks) {
+          lot.remainingShares -= shares;
+          if (lot.remainingShares < SHARE_EPSILON) {
+            lot.remainingShares = 0;
+          }
+
+          const costBasis = shares * lot.costPerShare;
+          // A sale's fees reduce the proceeds of each lot in proportion to its shares
+          const proceeds = entry.type === 'SELL'
+            ? shares * entry.price - (entry.shares > 0 ? (entry.fees * shares) / entry.shares : 0)
+            : costBasis;
+          const disallowedLoss = (entry.washSales ?? [])
+            .filter((w) => w.lotId === lot.id)
+            .reduce((sum, w) => sum + w.disallowedLoss, 0);
+
+          disposals.push({
+            saleId: entry.id,
+            lotId: lot.id,
+            type: entry.type,
+            shares,
+            acquiredAt: lot.acquiredAt,
+            soldAt: date,
+            proceeds,
+            costBasis,
+            // Transfers move basis to another account without realizing a gain
+            gain: proceeds - costBasis + disallowedLoss,
+            disallowedLoss,
+            term: getHoldingTerm(lot.acquiredAt, date),
+          });
+        }
+        break;
+      }
+
+      case 'SPLIT': {
+        const ratio = entry.ratio;
+        if (!ratio || ratio <= 0) {
+          throw new LedgerError('Split transactions require a positive ratio');
+        }
+        // Splits keep each lot's basis and acquisition date, only the share count moves
+        for (const lot of lots) {
+          lot.shares *= ratio;
+          lot.remainingShares *= ratio;
+          lot.costPerShare /= ratio;
+          if (lot.washSaleAdjustment) {
+            lot.washSaleAdjustment /= ratio;
+          }
+        }
+        break;
+      }
+
+      case 'SPINOFF': {
+        const kept = entry.ratio;
+        if (kept === null || kept < 0 || kept > 1) {
+          throw new LedgerError('Spinoff transactions require the fraction of basis kept');
+        }
+        // The spun-off company takes part of each lot's basis; shares and dates stay
+        for (const lot of lots) {
+          lot.costPerShare *= kept;
+          if (lot.washSaleAdjustment) {
+            lot.washSaleAdjustment *= kept;
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  return { lots, disposals };
+}
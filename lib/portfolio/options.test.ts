@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { estimatePremium, formatOptionSymbol, intrinsicValue } from './options';
+
+const call = { type: 'CALL' as const, strike: 100 };
+const put = { type: 'PUT' as const, strike: 100 };
+
+describe('formatOptionSymbol', () => {
+  test('builds the OCC symbol from the contract terms', () => {
+    const symbol = formatOptionSymbol({
+      underlying: 'AAPL',
+      type: 'CALL',
+      side: 'LONG',
+      strike: 150,
+      expiry: new Date('2025-01-17'),
+    });
+    assert.equal(symbol, 'AAPL250117C00150000');
+  });
+});
+
+describe('intrinsicValue', () => {
+  test('is the in-the-money amount and never negative', () => {
+    assert.equal(intrinsicValue(call, 110), 10);
+    assert.equal(intrinsicValue(put, 110), 0);
+    assert.equal(intrinsicValue(put, 90), 10);
+  });
+});
+
+describe('estimatePremium', () => {
+  test('matches the Black-Scholes values of an at-the-money contract', () => {
+    assert.ok(Math.abs(estimatePremium(call, 100, 1, 0.2, 0.05) - 10.4506) < 1e-3);
+    assert.ok(Math.abs(estimatePremium(put, 100, 1, 0.2, 0.05) - 5.5735) < 1e-3);
+  });
+
+  test('never prices a contract below its intrinsic value', () => {
+    assert.equal(estimatePremium(put, 50, 1, 0.2, 0.05), 50);
+  });
+
+  test('is the intrinsic value without time left or a volatility', () => {
+    assert.equal(estimatePremium(call, 120, 0, 0.2, 0.05), 20);
+    assert.equal(estimatePremium(call, 120, 1, null, 0.05), 20);
+  });
+});
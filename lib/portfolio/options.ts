@@ -0,0 +1,621 @@
+/**
+ * lib/portfolio/options.ts
+ * Option contracts - opening, closing, expiry and exercise or assignment
+ * against the underlying position, and valuation from the underlying's
+ * price and historical volatility
+ */
+
+import { OptionPosition, OptionStatus, Prisma, TransactionType } from '@prisma/client';
+
+import realDataClient from '@/lib/api/real-data-client';
+import {
+  DEFAULT_CURRENCY,
+  OPTION_CONFIG,
+  OPTION_STATUS_LABELS,
+  RISK_CONFIG,
+  SNAPSHOT_LIMITS,
+} from '@/lib/constants';
+import prisma from '@/lib/db';
+import { OpenOptionInput } from '@/lib/validations';
+import { OptionPositionSummary, OptionsReport } from '@/types';
+
+import { clearSnapshotsFrom, invalidatePortfolioCache, resolveTargetPortfolio } from './accounts';
+import { signCashAmount } from './cash';
+import { LedgerError } from './errors';
+import { FxRates, fxRate, loadBaseCurrency, loadFxRates } from './fx';
+import { recordTrade } from './ledger';
+import { loadPositions } from './positions';
+import { loadDailyReturns, ReturnSeries } from './risk';
+import { toDayKey } from './snapshots';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type OptionTerms = Pick<OptionPosition, 'underlying' | 'type' | 'side' | 'strike' | 'expiry'>;
+
+/**
+ * Outcome of the option expiry job
+ */
+export interface OptionExpiryRun {
+  expired: number;
+  exercised: number;
+  failed: string[]; // IDs of options left open
+}
+
+// ============================================
+// Pricing
+// ============================================
+
+/**
+ * OCC-style symbol of a contract, e.g. AAPL250117C00150000
+ */
+export function formatOptionSymbol(option: OptionTerms): string {
+  const date = toDayKey(option.expiry).slice(2).replace(/-/g, '');
+  const strike = Math.round(option.strike * 1000).toString().padStart(8, '0');
+  return `${option.underlying}${date}${option.type === 'CALL' ? 'C' : 'P'}${strike}`;
+}
+
+/**
+ * Value per share of exercising a contract now
+ * @param option - Contract terms
+ * @param underlyingPrice - Price of the underlying
+ */
+export function intrinsicValue(option: Pick<OptionPosition, 'type' | 'strike'>, underlyingPrice: number): number {
+  return option.type === 'CALL'
+    ? Math.max(underlyingPrice - option.strike, 0)
+    : Math.max(option.strike - underlyingPrice, 0);
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz and Stegun 26.2.17)
+ */
+function normCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const density = Math.exp((-x * x) / 2) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return x >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Estimated premium per share: the Black-Scholes value, never less than
+ * the intrinsic value since listed equity options can be exercised early.
+ * Without time left or a volatility, the intrinsic value.
+ * @param option - Contract terms
+ * @param underlyingPrice - Price of the underlying
+ * @param years - Time to expiry in years
+ * @param volatility - Annualized volatility of the underlying
+ * @param riskFreeRate - Annual risk-free rate as a fraction
+ */
+export function estimatePremium(
+  option: Pick<OptionPosition, 'type' | 'strike'>,
+  underlyingPrice: number,
+  years: number,
+  volatility: number | null,
+  riskFreeRate: number,
+): number {
+  const intrinsic = intrinsicValue(option, underlyingPrice);
+  if (years <= 0 || !volatility || underlyingPrice <= 0 || option.strike <= 0) {
+    return intrinsic;
+  }
+
+  const spread = volatility * Math.sqrt(years);
+  const d1 = (Math.log(underlyingPrice / option.strike) + (riskFreeRate + volatility ** 2 / 2) * years) / spread;
+  const d2 = d1 - spread;
+  const discountedStrike = option.strike * Math.exp(-riskFreeRate * years);
+  const value = option.type === 'CALL'
+    ? underlyingPrice * normCdf(d1) - discountedStrike * normCdf(d2)
+    : discountedStrike * normCdf(-d2) - underlyingPrice * normCdf(-d1);
+
+  return Math.max(value, intrinsic);
+}
+
+/**
+ * Annualized volatility of daily returns, or null with fewer than two days
+ */
+function annualizedVolatility(returns: ReturnSeries): number | null {
+  const values = [...returns.values()];
+  if (values.length < 2) {
+    return null;
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance * RISK_CONFIG.TRADING_DAYS_PER_YEAR);
+}
+
+/**
+ * Calendar days from one day to an option's expiry, zero once expired
+ */
+function daysToExpiry(expiry: Date, now: Date): number {
+  const days = (Date.parse(toDayKey(expiry)) - Date.parse(toDayKey(now))) / DAY_MS;
+  return Math.max(Math.round(days), 0);
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Rate converting an option's currency into the user's base currency.
+ * Looking the rate up also rejects currencies that cannot be valued.
+ */
+async function loadCashRate(
+  client: Prisma.TransactionClient,
+  userId: string,
+  currency: string,
+  on: Date,
+): Promise<number> {
+  const baseCurrency = await loadBaseCurrency(userId, client);
+  const rates = await loadFxRates([currency, baseCurrency]);
+  return fxRate(rates, currency, baseCurrency, on);
+}
+
+/**
+ * Records a premium paid or received in the account's cash
+ * @param amount - Signed amount in the base currency
+ */
+async function recordPremiumCash(
+  client: Prisma.TransactionClient,
+  option: OptionPosition,
+  amount: number,
+  date: Date,
+): Promise<void> {
+  await client.cashTransaction.create({
+    data: {
+      type: 'OPTION_PREMIUM',
+      amount,
+      ticker: option.underlying,
+      date,
+      notes: formatOptionSymbol(option),
+      portfolioId: option.portfolioId,
+      userId: option.userId,
+      optionId: option.id,
+    },
+  });
+}
+
+/**
+ * Loads an open option of a user
+ * @throws LedgerError if the option does not exist or is no longer open
+ */
+async function findOpenOption(
+  client: Prisma.TransactionClient,
+  userId: string,
+  optionId: string,
+): Promise<OptionPosition> {
+  const option = await client.optionPosition.findFirst({ where: { id: optionId, userId } });
+  if (!option) {
+    throw new LedgerError('Option not found');
+  }
+  if (option.status !== 'OPEN') {
+    throw new LedgerError(`This option is already ${OPTION_STATUS_LABELS[option.status].toLowerCase()}`);
+  }
+  return option;
+}
+
+/**
+ * Whether an option's premiums were settled in cash when it was opened
+ */
+async function isCashSettled(client: Prisma.TransactionClient, optionId: string): Promise<boolean> {
+  return (await client.cashTransaction.count({ where: { optionId } })) > 0;
+}
+
+/**
+ * Opens an option position. With `settleCash`, the premium of bought
+ * contracts is paid from the account's cash and that of written contracts
+ * is credited to it, net of fees and converted into the base currency.
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the account
+ * @param input - Validated contract details
+ * @returns The created option
+ * @throws PortfolioError if the account is not the user's or the currency cannot be valued
+ */
+export async function openOption(
+  client: Prisma.TransactionClient,
+  userId: string,
+  input: OpenOptionInput,
+): Promise<OptionPosition> {
+  const portfolio = await resolveTargetPortfolio(client, userId, input.portfolioId);
+  const underlying = input.underlying.toUpperCase();
+  const openedAt = input.openedAt ?? new Date();
+
+  // Premiums are in the underlying's listing currency unless given
+  const stock = input.currency
+    ? null
+    : await client.stock.findUnique({ where: { ticker: underlying }, select: { currency: true } });
+  const currency = input.currency ?? stock?.currency ?? DEFAULT_CURRENCY;
+  const rate = await loadCashRate(client, userId, currency, openedAt);
+
+  const option = await client.optionPosition.create({
+    data: {
+      underlying,
+      type: input.type,
+      side: input.side,
+      strike: input.strike,
+      expiry: input.expiry,
+      multiplier: input.multiplier,
+      contracts: input.contracts,
+      premium: input.premium,
+      fees: input.fees ?? 0,
+      currency,
+      openedAt,
+      notes: input.notes,
+      portfolioId: portfolio.id,
+      userId,
+    },
+  });
+
+  if (input.settleCash) {
+    const premium = option.premium * option.contracts * option.multiplier;
+    const amount = (option.side === 'SHORT' ? premium : -premium) - option.fees;
+    await recordPremiumCash(client, option, amount * rate, openedAt);
+  }
+  await clearSnapshotsFrom(client, portfolio.id, openedAt);
+
+  return option;
+}
+
+/**
+ * Closes an open option before expiry: bought contracts are sold back and
+ * written ones bought back. The closing premium moves cash only if the
+ * opening premium did.
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the option
+ * @param optionId - Option to close
+ * @param close - Closing premium per share, fees and date
+ * @returns The closed option
+ * @throws LedgerError if the option is not open or the date precedes its opening
+ */
+export async function closeOption(
+  client: Prisma.TransactionClient,
+  userId: string,
+  optionId: string,
+  close: { premium: number; fees?: number; date?: Date },
+): Promise<OptionPosition> {
+  const option = await findOpenOption(client, userId, optionId);
+  const closedAt = close.date ?? new Date();
+  if (closedAt < option.openedAt) {
+    throw new LedgerError('An option cannot be closed before it was opened');
+  }
+  const fees = close.fees ?? 0;
+
+  if (await isCashSettled(client, option.id)) {
+    const rate = await loadCashRate(client, userId, option.currency, closedAt);
+    const premium = close.premium * option.contracts * option.multiplier;
+    const amount = (option.side === 'LONG' ? premium : -premium) - fees;
+    await recordPremiumCash(client, option, amount * rate, closedAt);
+  }
+
+  const closed = await client.optionPosition.update({
+    where: { id: option.id },
+    data: { status: 'CLOSED', closedAt, closePremium: close.premium, fees: option.fees + fees },
+  });
+  await clearSnapshotsFrom(client, option.portfolioId, closedAt);
+
+  return closed;
+}
+
+/**
+ * Marks an open option as expired worthless
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the option
+ * @param optionId - Option that expired
+ * @returns The expired option
+ * @throws LedgerError if the option is not open or has not reached expiry
+ */
+export async function expireOption(
+  client: Prisma.TransactionClient,
+  userId: string,
+  optionId: string,
+): Promise<OptionPosition> {
+  const option = await findOpenOption(client, userId, optionId);
+  if (toDayKey(option.expiry) > toDayKey(new Date())) {
+    throw new LedgerError(`${formatOptionSymbol(option)} does not expire until ${toDayKey(option.expiry)}`);
+  }
+
+  const expired = await client.optionPosition.update({
+    where: { id: option.id },
+    data: { status: 'EXPIRED', closedAt: option.expiry, closePremium: 0 },
+  });
+  await clearSnapshotsFrom(client, option.portfolioId, option.expiry);
+
+  return expired;
+}
+
+/**
+ * Exercises a bought option, or records the assignment of a written one,
+ * as a trade in the underlying position at the strike. Calls buy the
+ * shares and puts sell them (the other way round when written), and the
+ * premium net of fees is folded into the trade's price: it raises the cost
+ * of shares a bought call acquires, for instance, and raises the proceeds
+ * of shares a written call gives up. Cash moves by the strike only, the
+ * premium having been settled when the option was opened.
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the option
+ * @param optionId - Option to exercise
+ * @param date - Exercise date; defaults to today, or the expiry once passed
+ * @returns The exercised option and the underlying trade
+ * @throws LedgerError if the option is not open, or the trade is inconsistent
+ * with the underlying position (e.g. an uncovered call assigned without shares)
+ */
+export async function exerciseOption(
+  client: Prisma.TransactionClient,
+  userId: string,
+  optionId: string,
+  date?: Date,
+) {
+  const option = await findOpenOption(client, userId, optionId);
+  const now = new Date();
+  const exercisedAt = date ?? (option.expiry < now ? option.expiry : now);
+  if (exercisedAt < option.openedAt) {
+    throw new LedgerError('An option cannot be exercised before it was opened');
+  }
+
+  const shares = option.contracts * option.multiplier;
+  const buys = (option.type === 'CALL') === (option.side === 'LONG');
+  const type: TransactionType = buys ? 'BUY' : 'SELL';
+  // Premium per share paid on a bought option, or received on a written one
+  const netPremium = option.premium + (option.side === 'LONG' ? option.fees : -option.fees) / shares;
+  const buyAdjustment = option.side === 'LONG' ? netPremium : -netPremium;
+  const price = Math.max(buys ? option.strike + buyAdjustment : option.strike - buyAdjustment, 0);
+
+  const { transaction } = await recordTrade(client, userId, {
+    portfolioId: option.portfolioId,
+    ticker: option.underlying,
+    type,
+    shares,
+    price,
+    date: exercisedAt,
+    notes: `${option.side === 'LONG' ? 'Exercised' : 'Assigned'} ${formatOptionSymbol(option)}`,
+    currency: option.currency,
+  });
+
+  if (await isCashSettled(client, option.id)) {
+    const rate = await loadCashRate(client, userId, option.currency, exercisedAt);
+    await client.cashTransaction.create({
+      data: {
+        type,
+        amount: signCashAmount(type, shares * option.strike * rate),
+        ticker: option.underlying,
+        date: exercisedAt,
+        portfolioId: option.portfolioId,
+        userId,
+        transactionId: transaction.id,
+      },
+    });
+  }
+
+  const exercised = await client.optionPosition.update({
+    where: { id: option.id },
+    data: { status: 'EXERCISED', closedAt: exercisedAt, transactionId: transaction.id },
+  });
+
+  return { option: exercised, transaction };
+}
+
+/**
+ * Deletes an option with its premium cash entries
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the option
+ * @param optionId - Option to delete
+ * @throws LedgerError if the option does not exist, or its exercise trade
+ * is still recorded
+ */
+export async function deleteOption(
+  client: Prisma.TransactionClient,
+  userId: string,
+  optionId: string,
+): Promise<void> {
+  const option = await client.optionPosition.findFirst({ where: { id: optionId, userId } });
+  if (!option) {
+    throw new LedgerError('Option not found');
+  }
+  if (option.transactionId) {
+    throw new LedgerError(`Delete the ${option.underlying} trade made when this option was exercised first`);
+  }
+
+  await client.optionPosition.delete({ where: { id: option.id } });
+  await clearSnapshotsFrom(client, option.portfolioId, option.openedAt);
+}
+
+/**
+ * Settles every open option whose expiry day has passed, using the
+ * underlying's close on that day: options in the money are exercised or
+ * assigned, the others expire worthless. Options without a closing price,
+ * or whose assignment the underlying position cannot take, are left open
+ * for the next run.
+ * @param now - Time to settle options up to
+ * @returns Options expired, exercised and left open
+ */
+export async function settleExpiredOptions(now: Date = new Date()): Promise<OptionExpiryRun> {
+  const options = await prisma.optionPosition.findMany({
+    where: { status: 'OPEN', expiry: { lt: new Date(toDayKey(now)) } },
+    orderBy: { expiry: 'asc' },
+  });
+
+  const underlyings = [...new Set(options.map((option) => option.underlying))];
+  const histories = new Map(
+    await Promise.all(
+      underlyings.map(async (ticker) => {
+        const history = await realDataClient.getHistoricalData(ticker, SNAPSHOT_LIMITS.HISTORY_PERIOD).catch(() => []);
+        const bars = history
+          .map((bar) => ({ dayKey: toDayKey(bar.date), close: bar.close }))
+          .sort((a, b) => a.dayKey.localeCompare(b.dayKey));
+        return [ticker, bars] as const;
+      }),
+    ),
+  );
+
+  const run: OptionExpiryRun = { expired: 0, exercised: 0, failed: [] };
+  const userIds = new Set<string>();
+  for (const option of options) {
+    const expiryKey = toDayKey(option.expiry);
+    const close = histories
+      .get(option.underlying)
+      ?.filter((bar) => bar.dayKey <= expiryKey)
+      .at(-1)?.close;
+    if (!close) {
+      run.failed.push(option.id);
+      continue;
+    }
+
+    try {
+      if (intrinsicValue(option, close) > 0) {
+        await prisma.$transaction((tx) => exerciseOption(tx, option.userId, option.id, option.expiry), {
+          timeout: 60_000,
+        });
+        run.exercised++;
+      } else {
+        await prisma.$transaction((tx) => expireOption(tx, option.userId, option.id));
+        run.expired++;
+      }
+      userIds.add(option.userId);
+    } catch (error) {
+      console.error(`Option ${option.id} could not be settled:`, error);
+      run.failed.push(option.id);
+    }
+  }
+
+  await Promise.all([...userIds].map((userId) => invalidatePortfolioCache(userId)));
+  return run;
+}
+
+// ============================================
+// Report
+// ============================================
+
+/**
+ * Values an option. Open options are priced from the underlying's quote;
+ * settled ones carry their realized result.
+ */
+function valueOption(
+  option: OptionPosition,
+  market: {
+    underlyingPrice: number | null;
+    volatility: number | null;
+    riskFreeRate: number;
+    rates: FxRates;
+    baseCurrency: string;
+    now: Date;
+  },
+): Omit<OptionPositionSummary, 'covered'> {
+  const shares = option.contracts * option.multiplier;
+  const sign = option.side === 'LONG' ? 1 : -1;
+  const days = daysToExpiry(option.expiry, market.now);
+  const open = option.status === 'OPEN';
+  const { underlyingPrice } = market;
+
+  const intrinsic = underlyingPrice === null ? 0 : intrinsicValue(option, underlyingPrice);
+  let markPrice = option.closePremium ?? 0;
+  if (open) {
+    // Held at cost without a quote
+    markPrice = underlyingPrice === null
+      ? option.premium
+      : estimatePremium(option, underlyingPrice, days / OPTION_CONFIG.DAYS_PER_YEAR, market.volatility, market.riskFreeRate);
+  }
+
+  const toBase = (amount: number, on: Date) => amount * fxRate(market.rates, option.currency, market.baseCurrency, on);
+  const costBasis = toBase(sign * option.premium * shares + option.fees, option.openedAt);
+
+  let marketValue = 0;
+  let profitLoss = 0;
+  if (open) {
+    marketValue = toBase(sign * markPrice * shares, market.now);
+    profitLoss = marketValue - costBasis;
+  } else if (option.status !== 'EXERCISED') {
+    // An exercised option's premium is part of the underlying trade instead
+    profitLoss = toBase(sign * markPrice * shares, option.closedAt ?? option.expiry) - costBasis;
+  }
+
+  return {
+    ...option,
+    symbol: formatOptionSymbol(option),
+    shares,
+    daysToExpiry: days,
+    underlyingPrice,
+    intrinsicValue: intrinsic,
+    extrinsicValue: open ? Math.max(markPrice - intrinsic, 0) : 0,
+    markPrice,
+    marketValue,
+    costBasis: open ? costBasis : 0,
+    profitLoss,
+  };
+}
+
+/**
+ * Builds the options report of a user. Open options are valued with the
+ * Black-Scholes model from the underlying's quote, its historical
+ * volatility and the user's risk-free rate. Written calls are covered when
+ * the account holds the shares they could be assigned, nearest expiry first.
+ * @param userId - Owner of the options
+ * @param portfolioId - Account, or null for all accounts
+ * @returns Options report in the base currency
+ */
+export async function loadOptionsReport(userId: string, portfolioId: string | null): Promise<OptionsReport> {
+  const now = new Date();
+  const [options, baseCurrency, user] = await Promise.all([
+    prisma.optionPosition.findMany({
+      where: { userId, ...(portfolioId && { portfolioId }) },
+      orderBy: [{ expiry: 'asc' }, { createdAt: 'asc' }],
+    }),
+    loadBaseCurrency(userId),
+    prisma.user.findUnique({ where: { id: userId }, select: { riskFreeRate: true } }),
+  ]);
+  const openOptions = options.filter((option) => option.status === 'OPEN');
+  const riskFreeRate = user?.riskFreeRate ?? RISK_CONFIG.DEFAULT_RISK_FREE_RATE;
+
+  const underlyings = [...new Set(openOptions.map((option) => option.underlying))];
+  const sinceKey = toDayKey(new Date(now.getTime() - OPTION_CONFIG.VOLATILITY_LOOKBACK_DAYS * DAY_MS));
+  const [quotes, volatilities, positions, rates] = await Promise.all([
+    Promise.all(underlyings.map((ticker) => realDataClient.getQuote(ticker).catch(() => null))),
+    Promise.all(underlyings.map(async (ticker) => annualizedVolatility(await loadDailyReturns(ticker, sinceKey)))),
+    openOptions.length > 0 ? loadPositions(userId, portfolioId) : [],
+    loadFxRates([baseCurrency, ...options.map((option) => option.currency)]),
+  ]);
+  const prices = new Map(underlyings.map((ticker, i) => [ticker, quotes[i]?.price || null]));
+  const volatilityMap = new Map(underlyings.map((ticker, i) => [ticker, volatilities[i] ?? null]));
+
+  // Shares of each underlying per account not yet committed to a written call
+  const uncommitted = new Map<string, number>();
+  for (const position of positions) {
+    const key = `${position.portfolioId}:${position.ticker}`;
+    uncommitted.set(key, (uncommitted.get(key) ?? 0) + position.shares);
+  }
+
+  const valued = options.map((option): OptionPositionSummary => {
+    const summary = valueOption(option, {
+      underlyingPrice: prices.get(option.underlying) ?? null,
+      volatility: volatilityMap.get(option.underlying) ?? null,
+      riskFreeRate,
+      rates,
+      baseCurrency,
+      now,
+    });
+
+    let covered: boolean | null = null;
+    if (option.status === 'OPEN' && option.type === 'CALL' && option.side === 'SHORT') {
+      const key = `${option.portfolioId}:${option.underlying}`;
+      const available = uncommitted.get(key) ?? 0;
+      covered = available >= summary.shares;
+      uncommitted.set(key, Math.max(available - summary.shares, 0));
+    }
+    return { ...summary, covered };
+  });
+
+  const open = valued.filter((option) => option.status === 'OPEN');
+  const settledStatuses: OptionStatus[] = ['CLOSED', 'EXPIRED', 'EXERCISED'];
+  const settled = valued
+    .filter((option) => settledStatuses.includes(option.status))
+    .sort((a, b) => (b.closedAt?.getTime() ?? 0) - (a.closedAt?.getTime() ?? 0));
+
+  const totalValue = open.reduce((sum, option) => sum + option.marketValue, 0);
+  const totalCost = open.reduce((sum, option) => sum + option.costBasis, 0);
+
+  return {
+    baseCurrency,
+    open,
+    settled: settled.slice(0, OPTION_CONFIG.HISTORY_LIMIT),
+    totalValue,
+    totalCost,
+    unrealizedProfitLoss: totalValue - totalCost,
+    realizedProfitLoss: settled.reduce((sum, option) => sum + option.profitLoss, 0),
+  };
+}
@@ -0,0 +1,224 @@
+/**
+ * lib/portfolio/positions.ts
+ * Loads a user's positions from the ledger and enriches them with quotes,
+ * valued in the user's base currency
+ */
+
+import { Asset, Transaction } from '@prisma/client';
+
+import prisma from '@/lib/db';
+import { calculateProfitLoss } from '@/lib/utils';
+import { EnrichedAsset, StockQuote } from '@/types';
+
+import { loadAssetClassifications } from './classification';
+import { FxRates, fxRate, historicalCost, loadFxRates } from './fx';
+import { DerivedPosition, getAssetPosition } from './ledger';
+import { LEDGER_ENTRY_INCLUDE } from './lots';
+import { loadQuotes } from './valuations';
+
+/**
+ * Asset with its ledger-derived shares, average price and P/L, in the
+ * asset's currency
+ */
+export type Position = Asset & Pick<
+  DerivedPosition,
+  'costBasis' | 'realizedProfitLoss' | 'disallowedLoss' | 'deferredLoss' | 'openLots' | 'closedLots'
+> & {
+  openingPrice: number | null;
+};
+
+/**
+ * Price per share of a position's opening buy, before fees, while it is the
+ * position's only trade. Positions that predate the ledger open at their
+ * stored average price.
+ */
+function openingTradePrice(asset: Asset, transactions: Transaction[]): number | null {
+  const [opening] = transactions;
+  if (!opening) {
+    return asset.avgPrice;
+  }
+  return transactions.length === 1 && opening.type === 'BUY' ? opening.price : null;
+}
+
+/**
+ * Loads every position of a user, including closed ones, with shares and
+ * cost basis derived from the ledger
+ * @param userId - Owner of the positions
+ * @param portfolioId - Account to load, or null for all accounts
+ * @returns Positions, newest first
+ */
+export async function loadPositions(
+  userId: string,
+  portfolioId: string | null = null,
+): Promise<Position[]> {
+  const assetRows = await prisma.asset.findMany({
+    where: { userId, deletedAt: null, ...(portfolioId && { portfolioId }) },
+    include: { transactions: { include: LEDGER_ENTRY_INCLUDE } },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+
+  return assetRows.map(({ transactions, ...asset }) => {
+    const position = getAssetPosition({ ...asset, transactions });
+    return {
+      ...asset,
+      shares: position.shares,
+      avgPrice: position.avgPrice,
+      costBasis: position.costBasis,
+      realizedProfitLoss: position.realizedProfitLoss,
+      disallowedLoss: position.disallowedLoss,
+      deferredLoss: position.deferredLoss,
+      openLots: position.openLots,
+      closedLots: position.closedLots,
+      openingPrice: openingTradePrice(asset, transactions),
+    };
+  });
+}
+
+/**
+ * Realized P/L of a position in another currency, with proceeds and
+ * disallowed wash-sale losses at the rates of the sale dates and cost at
+ * the rates of the purchase dates
+ * @param position - Position in its own currency
+ * @param rates - Loaded rate history
+ * @param baseCurrency - Currency converted to
+ */
+export function convertRealizedProfitLoss(
+  position: Position,
+  rates: FxRates,
+  baseCurrency: string,
+): number {
+  if (position.currency === baseCurrency) {
+    return position.realizedProfitLoss;
+  }
+  return position.closedLots.reduce(
+    (sum, lot) =>
+      sum +
+      (lot.proceeds + lot.disallowedLoss) * fxRate(rates, position.currency, baseCurrency, lot.soldAt) -
+      lot.costBasis * fxRate(rates, position.currency, baseCurrency, lot.acquiredAt),
+    0,
+  );
+}
+
+/**
+ * Values an open position at a quote, in the base currency. Cost is
+ * converted at the rates of its lots' purchase dates and market value at
+ * today's rate, so the P/L splits into a price gain (the gain in the
+ * asset's currency, at today's rate) and an FX gain (the rest). Without a
+ * quote, market values are zero.
+ * @param position - Open position in its own currency
+ * @param quote - Quote in the asset's currency, if available
+ * @param rates - Loaded rate history
+ * @param baseCurrency - Currency values are reported in
+ * @returns Enriched asset without company details
+ */
+export function valuePosition(
+  position: Position,
+  quote: StockQuote | undefined,
+  rates: FxRates,
+  baseCurrency: string,
+): Omit<EnrichedAsset, 'companyName' | 'sector'> {
+  const { costBasis, openLots, closedLots: _closedLots, ...asset } = position;
+  const rate = fxRate(rates, asset.currency, baseCurrency);
+  const totalCost = Math.round(historicalCost(openLots, rates, asset.currency, baseCurrency) * 100) / 100;
+  const realizedProfitLoss = convertRealizedProfitLoss(position, rates, baseCurrency);
+
+  // Validate quote and price data
+  if (!quote || typeof quote.price !== 'number' || isNaN(quote.price) || quote.price === 0) {
+    return {
+      ...asset,
+      realizedProfitLoss,
+      currentPrice: 0,
+      totalValue: 0,
+      currentValue: 0,
+      totalCost,
+      profitLoss: 0,
+      profitLossPercent: 0,
+      priceProfitLoss: 0,
+      fxProfitLoss: 0,
+      fxRate: rate,
+      dayChange: 0,
+      dayChangePercent: 0,
+    };
+  }
+
+  const calculations = calculateProfitLoss(quote.price, asset.avgPrice, asset.shares);
+  const currentValue = Math.round(calculations.currentValue * rate * 100) / 100;
+  const profitLoss = currentValue - totalCost;
+  const priceProfitLoss = (calculations.currentValue - costBasis) * rate;
+
+  return {
+    ...asset,
+    realizedProfitLoss,
+    currentPrice: quote.price,
+    totalValue: currentValue, // Added for compatibility
+    currentValue,
+    totalCost,
+    profitLoss,
+    profitLossPercent: totalCost > 0 ? Math.round((profitLoss / totalCost) * 10000) / 100 : 0,
+    priceProfitLoss,
+    fxProfitLoss: profitLoss - priceProfitLoss,
+    fxRate: rate,
+    dayChange: (quote.change || 0) * asset.shares * rate,
+    dayChangePercent: quote.changePercent || 0,
+  };
+}
+
+/**
+ * Enriches open positions with real-time quotes, valued in the base
+ * currency, and their classification. Positions whose quote is unavailable
+ * are returned with zero market values.
+ * @param positions - Open positions
+ * @param baseCurrency - Currency values are reported in
+ * @returns Enriched assets
+ */
+export async function enrichPositions(
+  positions: Position[],
+  baseCurrency: string,
+): Promise<EnrichedAsset[]> {
+  // Fetch real-time quotes for all assets in parallel
+  const [quotes, rates, classifications] = await Promise.all([
+    loadQuotes(positions),
+    loadFxRates([baseCurrency, ...positions.map((position) => position.currency)]),
+    loadAssetClassifications(positions),
+  ]);
+
+  return positions.map((position) => {
+    const quote = quotes.get(position.id);
+    const valued = valuePosition(position, quote, rates, baseCurrency);
+    const classification = classifications.get(position.id);
+
+    return {
+      ...valued,
+      ...classification,
+      // If quote fetch failed or price is invalid, the asset has zero values
+      companyName: (valued.currentPrice !== 0 && quote?.name) || `${position.ticker} Corporation`,
+    };
+  });
+}
+
+/**
+ * Current market value of each open position in the base currency,
+ * combined by ticker across accounts. Positions without a quote are valued
+ * at cost.
+ * @param userId - Owner of the positions
+ * @param portfolioId - Account to load, or null for all accounts
+ * @param baseCurrency - Currency values are reported in
+ * @returns Value by ticker
+ */
+export async function loadHoldingValues(
+  userId: string,
+  portfolioId: string | null,
+  baseCurrency: string,
+): Promise<Map<string, number>> {
+  const positions = await loadPositions(userId, portfolioId);
+  const enriched = await enrichPositions(positions.filter((position) => position.shares > 0), baseCurrency);
+
+  const values = new Map<string, number>();
+  for (const asset of enriched) {
+    const value = asset.currentValue > 0 ? asset.currentValue : asset.totalCost;
+    values.set(asset.ticker, (values.get(asset.ticker) ?? 0) + value);
+  }
+  return values;
+}
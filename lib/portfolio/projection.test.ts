@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { FxRates } from './fx';
+import { monthlyBlocks, simulatePaths, toBaseReturns } from './projection';
+
+const options = {
+  startValue: 10000,
+  monthlyContribution: 500,
+  months: 24,
+  paths: 200,
+  blocks: [-0.05, 0, 0.02, 0.08],
+  goal: 25000,
+  seed: 42,
+};
+
+describe('monthlyBlocks', () => {
+  test('compounds every run of consecutive days', () => {
+    const blocks = monthlyBlocks([0.1, 0.1, -0.5], 2);
+    assert.deepEqual(blocks.map((r) => Math.round(r * 1e9) / 1e9), [0.21, -0.45]);
+  });
+
+  test('is empty when the history is shorter than a month', () => {
+    assert.deepEqual(monthlyBlocks([0.1], 2), []);
+  });
+});
+
+describe('simulatePaths', () => {
+  test('gives the same percentiles for the same seed', () => {
+    assert.deepEqual(simulatePaths(options), simulatePaths(options));
+    assert.notDeepEqual(simulatePaths({ ...options, seed: 43 }).points, simulatePaths(options).points);
+  });
+
+  test('keeps the percentiles of every month in order', () => {
+    const { points } = simulatePaths(options);
+
+    assert.equal(points.length, options.months + 1);
+    for (const point of points) {
+      assert.ok(point.p5 <= point.p25 && point.p25 <= point.p50 && point.p50 <= point.p75 && point.p75 <= point.p95);
+    }
+    assert.ok((points.at(-1)?.p5 ?? 0) < (points.at(-1)?.p95 ?? 0));
+  });
+
+  test('starts every path at the start value and adds contributions', () => {
+    const { points } = simulatePaths(options);
+
+    assert.deepEqual(points[0], { month: 0, p5: 10000, p25: 10000, p50: 10000, p75: 10000, p95: 10000, contributed: 10000 });
+    assert.equal(points.at(-1)?.contributed, 22000);
+  });
+
+  test('reports the fraction of paths reaching the goal', () => {
+    const { goalProbability } = simulatePaths(options);
+    assert.ok(goalProbability !== null && goalProbability > 0 && goalProbability < 1);
+
+    assert.equal(simulatePaths({ ...options, goal: 0 }).goalProbability, 1);
+    assert.equal(simulatePaths({ ...options, goal: null }).goalProbability, null);
+  });
+});
+
+describe('toBaseReturns', () => {
+  const rates: FxRates = new Map([
+    [
+      'EUR',
+      [
+        { dayKey: '2024-01-01', rate: 1 },
+        { dayKey: '2024-01-03', rate: 0.8 },
+      ],
+    ],
+  ]);
+  const returns = new Map([
+    ['2024-01-02', 0.01],
+    ['2024-01-03', 0.02],
+  ]);
+
+  test('compounds each day with the move of the exchange rate', () => {
+    const converted = toBaseReturns(returns, rates, 'EUR', 'USD');
+
+    assert.ok(Math.abs((converted.get('2024-01-02') ?? NaN) - 0.01) < 1e-9);
+    // The euro rises from $1 to $1.25
+    assert.ok(Math.abs((converted.get('2024-01-03') ?? NaN) - 0.275) < 1e-9);
+  });
+
+  test('leaves returns in the base currency alone', () => {
+    assert.equal(toBaseReturns(returns, rates, 'USD', 'USD'), returns);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * lib/portfolio/projection.ts
+ * Monte Carlo projection - simulates the portfolio's future value by
+ * bootstrapping months of historical returns of the current holdings, with
+ * monthly contributions, and the probability of reaching a goal
+ */
+
+import { PROJECTION_CONFIG } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { ProjectionQuery } from '@/lib/validations';
+import { ProjectionPoint, ProjectionResult } from '@/types';
+
+import { combineCashSummaries, loadCashSummaries } from './cash';
+import { FxRates, fxRate, loadBaseCurrency, loadFxRates } from './fx';
+import { loadHoldingValues } from './positions';
+import { loadDailyReturns, ReturnSeries, weightedReturns } from './risk';
+import { toDayKey } from './snapshots';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Simulated value percentiles by month, before dates are attached
+ */
+type SimulatedPoint = Omit<ProjectionPoint, 'date'>;
+
+// ============================================
+// Sampling
+// ============================================
+
+/**
+ * Seeded pseudo-random generator (mulberry32), so a projection is
+ * reproducible for the same inputs
+ * @returns Generator of numbers in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Compounds every run of consecutive daily returns into a monthly return.
+ * Drawing whole runs keeps the streaks and volatility clustering of the
+ * history that drawing single days would average away.
+ * @param daily - Daily returns in date order
+ * @param length - Trading days per month
+ * @returns Overlapping monthly returns
+ */
+export function monthlyBlocks(daily: number[], length: number): number[] {
+  const blocks: number[] = [];
+  for (let start = 0; start + length <= daily.length; start++) {
+    let growth = 1;
+    for (let i = start; i < start + length; i++) {
+      growth *= 1 + (daily[i] ?? 0);
+    }
+    blocks.push(growth - 1);
+  }
+  return blocks;
+}
+
+/**
+ * Linearly interpolated quantile of ascending values
+ */
+function quantile(sorted: Float64Array, q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const below = sorted[lower] ?? 0;
+  const above = sorted[lower + 1] ?? below;
+  return below + (above - below) * (position - lower);
+}
+
+/**
+ * Runs the simulation. Each month every path draws a historical monthly
+ * return, then receives the contribution at month end.
+ * @param options.blocks - Monthly returns to draw from
+ * @returns Percentiles by month and the fraction of paths ending at or above the goal
+ */
+export function simulatePaths(options: {
+  startValue: number;
+  monthlyContribution: number;
+  months: number;
+  paths: number;
+  blocks: number[];
+  goal: number | null;
+  seed: number;
+}): { points: SimulatedPoint[]; goalProbability: number | null } {
+  const { startValue, monthlyContribution, months, paths, blocks, goal } = options;
+  const random = createRandom(options.seed);
+  const values = new Float64Array(paths).fill(startValue);
+  const sorted = new Float64Array(paths);
+
+  const points: SimulatedPoint[] = [];
+  const record = (month: number) => {
+    sorted.set(values);
+    sorted.sort();
+    points.push({
+      month,
+      p5: quantile(sorted, 0.05),
+      p25: quantile(sorted, 0.25),
+      p50: quantile(sorted, 0.5),
+      p75: quantile(sorted, 0.75),
+      p95: quantile(sorted, 0.95),
+      contributed: startValue + monthlyContribution * month,
+    });
+  };
+
+  record(0);
+  for (let month = 1; month <= months; month++) {
+    for (let path = 0; path < paths; path++) {
+      const r = blocks[Math.floor(random() * blocks.length)] ?? 0;
+      values[path] = (values[path] ?? 0) * (1 + r) + monthlyContribution;
+    }
+    record(month);
+  }
+
+  let goalProbability: number | null = null;
+  if (goal !== null) {
+    let reached = 0;
+    for (const value of values) {
+      if (value >= goal) {
+        reached++;
+      }
+    }
+    goalProbability = reached / paths;
+  }
+
+  return { points, goalProbability };
+}
+
+/**
+ * Converts a holding's daily returns from its listing currency into the
+ * base currency, so exchange rate moves count as they do for the investor.
+ * Each day compounds the stock's return with the rate's move since the
+ * previous day.
+ * @param returns - Daily returns in the listing currency
+ * @param rates - Loaded rate history of both currencies
+ * @param currency - Currency of the listing
+ * @param baseCurrency - Currency returns are converted into
+ * @returns Daily returns in the base currency
+ * @throws FxRateError if either currency has no stored rates
+ */
+export function toBaseReturns(
+  returns: ReturnSeries,
+  rates: FxRates,
+  currency: string,
+  baseCurrency: string,
+): ReturnSeries {
+  if (currency === baseCurrency) {
+    return returns;
+  }
+
+  const days = [...returns.keys()].sort();
+  const converted: ReturnSeries = new Map();
+  let previousRate = days[0]
+    ? fxRate(rates, currency, baseCurrency, toDayKey(new Date(Date.parse(days[0]) - DAY_MS)))
+    : 1;
+  for (const day of days) {
+    const rate = fxRate(rates, currency, baseCurrency, day);
+    converted.set(day, (1 + (returns.get(day) ?? 0)) * (rate / previousRate) - 1);
+    previousRate = rate;
+  }
+  return converted;
+}
+
+// ============================================
+// Projection
+// ============================================
+
+/**
+ * Projects a user's portfolio. Holdings keep their current weights, taken
+ * from market value, and cash is assumed invested at the same weights.
+ * Holding returns are converted into the base currency at daily rates.
+ * @param userId - Owner of the positions
+ * @param portfolioId - Account, or null for all accounts
+ * @param query - Horizon, contribution, goal and number of paths
+ * @returns Projection, with no points when history is too short
+ */
+export async function loadProjection(
+  userId: string,
+  portfolioId: string | null,
+  query: ProjectionQuery,
+): Promise<ProjectionResult> {
+  const baseCurrency = await loadBaseCurrency(userId);
+  const [values, cashSummaries, listings] = await Promise.all([
+    loadHoldingValues(userId, portfolioId, baseCurrency),
+    loadCashSummaries(userId, portfolioId),
+    prisma.asset.findMany({
+      where: { userId, deletedAt: null, ...(portfolioId && { portfolioId }) },
+      select: { ticker: true, currency: true },
+      distinct: ['ticker'],
+    }),
+  ]);
+  const holdingsValue = [...values.values()].reduce((sum, value) => sum + value, 0);
+  const cash = combineCashSummaries(cashSummaries.values()).balance;
+
+  const tickers = [...values.keys()];
+  const currencies = new Map(listings.map((listing) => [listing.ticker, listing.currency]));
+  const [rates, localReturns] = await Promise.all([
+    loadFxRates([baseCurrency, ...currencies.values()]),
+    Promise.all(tickers.map((ticker) => loadDailyReturns(ticker, ''))),
+  ]);
+  const returns = localReturns.map((series, index) => {
+    const ticker = tickers[index] ?? '';
+    return toBaseReturns(series, rates, currencies.get(ticker) ?? baseCurrency, baseCurrency);
+  });
+  const portfolio = weightedReturns(
+    tickers.map((ticker, index) => ({
+      returns: returns[index] ?? new Map<string, number>(),
+      weight: holdingsValue > 0 ? (values.get(ticker) ?? 0) / holdingsValue : 0,
+    })),
+  );
+  const daily = [...portfolio.keys()].sort().map((day) => portfolio.get(day) ?? 0);
+
+  const result: ProjectionResult = {
+    baseCurrency,
+    startValue: holdingsValue + Math.max(cash, 0),
+    monthlyContribution: query.monthlyContribution,
+    years: query.years,
+    paths: query.paths,
+    goal: query.goal ?? null,
+    goalProbability: null,
+    historyDays: daily.length,
+    annualReturn: null,
+    annualVolatility: null,
+    points: [],
+  };
+
+  if (daily.length < PROJECTION_CONFIG.MIN_HISTORY_DAYS) {
+    return result;
+  }
+
+  const blocks = monthlyBlocks(daily, PROJECTION_CONFIG.TRADING_DAYS_PER_MONTH);
+  const meanLog = blocks.reduce((sum, r) => sum + Math.log(1 + r), 0) / blocks.length;
+  const mean = blocks.reduce((sum, r) => sum + r, 0) / blocks.length;
+  const variance = blocks.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (blocks.length - 1);
+
+  const { points, goalProbability } = simulatePaths({
+    startValue: result.startValue,
+    monthlyContribution: query.monthlyContribution,
+    months: query.years * 12,
+    paths: query.paths,
+    blocks,
+    goal: result.goal,
+    seed: PROJECTION_CONFIG.SEED,
+  });
+
+  const now = new Date();
+  return {
+    ...result,
+    goalProbability,
+    annualReturn: Math.exp(meanLog * 12) - 1,
+    annualVolatility: Math.sqrt(variance * 12),
+    points: points.map((point) => ({
+      ...point,
+      date: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + point.month, 1)).toISOString(),
+    })),
+  };
+}
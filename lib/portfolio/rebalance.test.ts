@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { AllocationTargets, RebalanceMode } from '@/types';
+
+import { planRebalance } from './rebalance';
+
+const prices = new Map([
+  ['AAPL', 100],
+  ['MSFT', 50],
+  ['TSLA', 200],
+]);
+
+function input(
+  holdings: Record<string, number>,
+  targets: AllocationTargets['targets'],
+  mode: RebalanceMode = 'FULL',
+  contribution = 0,
+) {
+  const allocationByAsset = Object.entries(holdings).map(([name, value]) => ({
+    name,
+    sector: name === 'Cash' ? 'Cash' : 'Technology',
+    value,
+    percentage: 0,
+  }));
+  return {
+    allocation: [],
+    allocationByAsset,
+    targets: { kind: 'TICKER' as const, fractionalShares: false, targets },
+    prices,
+    mode,
+    contribution,
+  };
+}
+
+const halves = [
+  { key: 'AAPL', weight: 0.5, band: 0.05, tickers: [] },
+  { key: 'MSFT', weight: 0.5, band: 0.05, tickers: [] },
+];
+
+describe('planRebalance', () => {
+  test('sells out-of-band overweight targets to buy the underweight ones', () => {
+    const plan = planRebalance(input({ AAPL: 6000, MSFT: 4000 }, halves));
+
+    assert.deepEqual(plan.trades.map((trade) => [trade.action, trade.ticker, trade.shares]), [
+      ['SELL', 'AAPL', 10],
+      ['BUY', 'MSFT', 20],
+    ]);
+    assert.equal(plan.cashAfter, 0);
+    assert.deepEqual(plan.drift.map((drift) => drift.outOfBand), [true, true]);
+  });
+
+  test('leaves targets within their band alone', () => {
+    const plan = planRebalance(input({ AAPL: 5200, MSFT: 4800 }, halves));
+    assert.deepEqual(plan.trades, []);
+  });
+
+  test('only buys with new money in NEW_MONEY mode', () => {
+    const plan = planRebalance(input({ AAPL: 6000, MSFT: 4000 }, halves, 'NEW_MONEY', 2000));
+
+    assert.deepEqual(plan.trades.map((trade) => [trade.action, trade.ticker, trade.shares]), [['BUY', 'MSFT', 40]]);
+    assert.equal(plan.totalValue, 12000);
+    assert.equal(plan.cashAfter, 0);
+  });
+
+  test('sells holdings no target covers', () => {
+    const plan = planRebalance(input({ AAPL: 5000, MSFT: 4000, TSLA: 1000 }, halves));
+
+    assert.deepEqual(plan.trades.map((trade) => [trade.action, trade.ticker, trade.group, trade.shares]), [
+      ['SELL', 'TSLA', 'Untargeted', 5],
+      ['BUY', 'MSFT', 'MSFT', 20],
+    ]);
+  });
+
+  test('keeps cash at its target and reports money it cannot place', () => {
+    const targets = [
+      { key: 'AAPL', weight: 0.4, band: 0.05, tickers: [] },
+      { key: 'NVDA', weight: 0.4, band: 0.05, tickers: [] },
+      { key: 'Cash', weight: 0.2, band: 0.05, tickers: [] },
+    ];
+    const plan = planRebalance(input({ AAPL: 4000, Cash: 6000 }, targets));
+
+    assert.deepEqual(plan.trades, []);
+    assert.deepEqual(plan.unplaced, [{ group: 'NVDA', amount: 4000 }]);
+  });
+
+  test('returns an empty plan without targets', () => {
+    const plan = planRebalance(input({ AAPL: 6000 }, []));
+    assert.deepEqual([plan.trades, plan.drift, plan.cashAfter], [[], [], 0]);
+  });
+});
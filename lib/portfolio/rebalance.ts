@@ -0,0 +1,405 @@
+/**
+ * lib/portfolio/rebalance.ts
+ * Rebalancing - compares the summary's allocation with the user's target
+ * weights and plans the trades that bring drifted targets back within bands
+ */
+
+import { Prisma, TargetKind } from '@prisma/client';
+
+import realDataClient from '@/lib/api/real-data-client';
+import { CASH_LABEL, DEFAULT_CURRENCY, REBALANCE_CONFIG, UNTARGETED_LABEL } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { AllocationTargetsInput } from '@/lib/validations';
+import {
+  AllocationData,
+  AllocationTargets,
+  RebalanceMode,
+  RebalancePlan,
+  RebalanceTrade,
+  TargetDrift,
+} from '@/types';
+
+import { fxRate, loadFxRates } from './fx';
+import { loadPortfolioSummary } from './summary';
+import { loadQuotes } from './valuations';
+
+// Tolerance for weight comparisons and share rounding
+const EPSILON = 1e-9;
+
+// Sells are listed first, as they fund the buys
+const ACTION_ORDER: Record<RebalanceTrade['action'], number> = { SELL: 0, BUY: 1 };
+
+export interface RebalanceInput {
+  allocation: AllocationData[]; // By sector, with a cash slice
+  allocationByAsset: AllocationData[]; // By ticker, with a cash slice
+  targets: AllocationTargets;
+  prices: Map<string, number>; // By ticker in the base currency, for held and targeted tickers
+  mode: RebalanceMode;
+  contribution: number;
+}
+
+interface TargetGroup {
+  key: string;
+  weight: number;
+  band: number;
+  value: number;
+  holdings: Array<{ ticker: string; value: number }>;
+  candidates: string[]; // Tickers to buy when nothing in the group is held
+}
+
+// ============================================
+// Planning
+// ============================================
+
+/**
+ * Tickers a target's trades can buy when nothing in it is held: the ticker
+ * itself or a bucket's tickers. Sectors have none.
+ */
+function targetCandidates(kind: TargetKind, target: AllocationTargets['targets'][number]): string[] {
+  if (kind === 'TICKER') {
+    return [target.key];
+  }
+  return kind === 'BUCKET' ? target.tickers : [];
+}
+
+/**
+ * Groups the summary's holdings by target. Holdings no target matches form
+ * an untargeted group with a zero weight.
+ */
+function buildGroups(input: RebalanceInput): { groups: TargetGroup[]; cash: number; cashTarget?: TargetGroup } {
+  const { targets } = input;
+  const groups = new Map<string, TargetGroup>(
+    targets.targets.map((target) => [
+      target.key,
+      {
+        key: target.key,
+        weight: target.weight,
+        band: target.band,
+        value: 0,
+        holdings: [],
+        candidates: targetCandidates(targets.kind, target),
+      },
+    ]),
+  );
+  const bucketOf = new Map(
+    targets.targets.flatMap((target) => target.tickers.map((ticker) => [ticker, target.key] as const)),
+  );
+
+  const cash = input.allocationByAsset.find((slice) => slice.name === CASH_LABEL)?.value ?? 0;
+  for (const slice of input.allocationByAsset) {
+    if (slice.name === CASH_LABEL) {
+      continue;
+    }
+    let key: string | undefined;
+    if (targets.kind === 'TICKER') {
+      key = slice.name;
+    } else if (targets.kind === 'SECTOR') {
+      key = slice.sector;
+    } else {
+      key = bucketOf.get(slice.name);
+    }
+    const group = (key && key !== CASH_LABEL ? groups.get(key) : undefined) ?? untargeted(groups);
+    group.holdings.push({ ticker: slice.name, value: slice.value });
+  }
+
+  // Group values come from the matching allocation, so drift agrees with the charts
+  for (const group of groups.values()) {
+    group.value = targets.kind === 'SECTOR' && group.key !== UNTARGETED_LABEL && group.key !== CASH_LABEL
+      ? input.allocation.find((slice) => slice.sector === group.key)?.value ?? 0
+      : group.holdings.reduce((sum, holding) => sum + holding.value, 0);
+  }
+
+  const cashTarget = groups.get(CASH_LABEL);
+  if (cashTarget) {
+    cashTarget.value = cash;
+    groups.delete(CASH_LABEL);
+  }
+  return { groups: [...groups.values()], cash, cashTarget };
+}
+
+function untargeted(groups: Map<string, TargetGroup>): TargetGroup {
+  let group = groups.get(UNTARGETED_LABEL);
+  if (!group) {
+    group = { key: UNTARGETED_LABEL, weight: 0, band: 0, value: 0, holdings: [], candidates: [] };
+    groups.set(UNTARGETED_LABEL, group);
+  }
+  return group;
+}
+
+/**
+ * Spends funds on groups' shortfalls, in proportion when funds run short
+ * @returns Funds left over
+ */
+function fillShortfalls(funds: number, shortfalls: Map<TargetGroup, number>, deltas: Map<TargetGroup, number>): number {
+  const needed = [...shortfalls.values()].reduce((sum, amount) => sum + amount, 0);
+  if (needed <= EPSILON || funds <= EPSILON) {
+    return funds;
+  }
+  const spend = Math.min(funds, needed);
+  for (const [group, amount] of shortfalls) {
+    deltas.set(group, (deltas.get(group) ?? 0) + amount * (spend / needed));
+  }
+  return funds - spend;
+}
+
+/**
+ * Rounds shares toward zero to the tradable increment
+ */
+function roundShares(shares: number, fractional: boolean): number {
+  const increment = fractional ? REBALANCE_CONFIG.FRACTIONAL_INCREMENT : 1;
+  const rounded = Math.floor(shares / increment + 1e-6) * increment;
+  return Number(rounded.toFixed(fractional ? 2 : 0));
+}
+
+/**
+ * Plans a rebalance. Out-of-band targets are traded back to their weight:
+ * overweight ones are sold (in FULL mode only) and the cash raised, plus any
+ * cash above the cash target and new money, buys underweight ones, the
+ * out-of-band first. Trades within a target are split across its holdings
+ * by value. In NEW_MONEY mode nothing is sold, so targets may stay out of
+ * band when the money runs out.
+ * @param input - Allocation, targets, prices and options
+ * @returns Rebalancing plan
+ */
+export function planRebalance(input: RebalanceInput): RebalancePlan {
+  const { targets, mode, contribution } = input;
+  const { groups, cash, cashTarget } = buildGroups(input);
+  const positionsValue = groups.reduce((sum, group) => sum + group.value, 0);
+  const currentTotal = positionsValue + cash;
+  const totalValue = currentTotal + contribution;
+  const cashBefore = cash + contribution;
+
+  const emptyPlan: RebalancePlan = {
+    kind: targets.kind,
+    mode,
+    fractionalShares: targets.fractionalShares,
+    contribution,
+    totalValue,
+    cashBefore,
+    cashAfter: cashBefore,
+    drift: [],
+    trades: [],
+    unplaced: [],
+  };
+  if (targets.targets.length === 0 || totalValue <= 0) {
+    return emptyPlan;
+  }
+
+  const weightOf = (value: number) => (currentTotal > 0 ? value / currentTotal : 0);
+  const isOutOfBand = (group: TargetGroup) =>
+    Math.abs(weightOf(group.value) - group.weight) > group.band + EPSILON;
+
+  // Money to invest: cash above its target, new money and, in FULL mode, sales
+  const deltas = new Map<TargetGroup, number>();
+  let funds = cashBefore - (cashTarget?.weight ?? 0) * totalValue;
+  if (mode === 'FULL') {
+    for (const group of groups) {
+      const excess = group.value - group.weight * totalValue;
+      if (excess > EPSILON && isOutOfBand(group)) {
+        deltas.set(group, -excess);
+        funds += excess;
+      }
+    }
+    // Cash below its target is raised from the remaining overweight targets
+    if (funds < -EPSILON) {
+      const excesses = groups
+        .filter((group) => !deltas.has(group))
+        .map((group) => [group, group.value - group.weight * totalValue] as const)
+        .filter(([, excess]) => excess > EPSILON);
+      const available = excesses.reduce((sum, [, excess]) => sum + excess, 0);
+      const raise = Math.min(-funds, available);
+      for (const [group, excess] of excesses) {
+        deltas.set(group, -excess * (raise / available));
+      }
+      funds += raise;
+    }
+  }
+
+  const shortfall = (group: TargetGroup) => group.weight * totalValue - group.value - (deltas.get(group) ?? 0);
+  const underweight = groups.filter((group) => shortfall(group) > EPSILON);
+  funds = fillShortfalls(
+    funds,
+    new Map(underweight.filter(isOutOfBand).map((group) => [group, shortfall(group)])),
+    deltas,
+  );
+  fillShortfalls(
+    funds,
+    new Map(underweight.filter((group) => !isOutOfBand(group)).map((group) => [group, shortfall(group)])),
+    deltas,
+  );
+
+  // Split each group's trade across its tickers and round to whole shares
+  const trades: RebalanceTrade[] = [];
+  const unplaced: RebalancePlan['unplaced'] = [];
+  for (const [group, delta] of deltas) {
+    const groupValue = group.holdings.reduce((sum, holding) => sum + holding.value, 0);
+    let legs: Array<{ ticker: string; amount: number }> = [];
+    if (groupValue > 0) {
+      legs = group.holdings.map((holding) => ({ ticker: holding.ticker, amount: delta * (holding.value / groupValue) }));
+    } else if (delta > 0) {
+      legs = group.candidates.map((ticker) => ({ ticker, amount: delta / group.candidates.length }));
+    }
+    if (legs.length === 0 && delta > EPSILON) {
+      unplaced.push({ group: group.key, amount: delta });
+    }
+
+    for (const leg of legs) {
+      const price = input.prices.get(leg.ticker) ?? 0;
+      if (price <= 0) {
+        unplaced.push({ group: group.key, amount: Math.abs(leg.amount) });
+        continue;
+      }
+      const shares = roundShares(Math.abs(leg.amount) / price, targets.fractionalShares);
+      if (shares > 0) {
+        trades.push({
+          ticker: leg.ticker,
+          group: group.key,
+          action: leg.amount > 0 ? 'BUY' : 'SELL',
+          shares,
+          price,
+          amount: shares * price,
+        });
+      }
+    }
+  }
+  trades.sort((a, b) => ACTION_ORDER[a.action] - ACTION_ORDER[b.action] || b.amount - a.amount);
+
+  const traded = new Map<string, number>();
+  for (const trade of trades) {
+    traded.set(trade.group, (traded.get(trade.group) ?? 0) + (trade.action === 'BUY' ? trade.amount : -trade.amount));
+  }
+  const cashAfter = cashBefore - [...traded.values()].reduce((sum, amount) => sum + amount, 0);
+
+  const drift: TargetDrift[] = [...groups, ...(cashTarget ? [cashTarget] : [])].map((group) => {
+    const currentWeight = weightOf(group.value);
+    const projectedValue = group === cashTarget ? cashAfter : group.value + (traded.get(group.key) ?? 0);
+    return {
+      key: group.key,
+      targetWeight: group.weight,
+      band: group.band,
+      currentValue: group.value,
+      currentWeight,
+      drift: currentWeight - group.weight,
+      outOfBand: isOutOfBand(group),
+      projectedWeight: projectedValue / totalValue,
+    };
+  });
+  drift.sort((a, b) => b.targetWeight - a.targetWeight);
+
+  return { ...emptyPlan, cashAfter, drift, trades, unplaced };
+}
+
+// ============================================
+// Loading
+// ============================================
+
+/**
+ * Loads a user's allocation targets
+ * @param userId - Owner of the targets
+ * @returns Target model, with an empty target list if none are saved
+ */
+export async function loadAllocationTargets(userId: string): Promise<AllocationTargets> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      targetKind: true,
+      fractionalShares: true,
+      allocationTargets: { orderBy: { weight: 'desc' } },
+    },
+  });
+
+  return {
+    kind: user?.targetKind ?? 'TICKER',
+    fractionalShares: user?.fractionalShares ?? false,
+    targets: (user?.allocationTargets ?? []).map(({ key, weight, band, tickers }) => ({ key, weight, band, tickers })),
+  };
+}
+
+/**
+ * Replaces a user's allocation targets
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the targets
+ * @param targets - Validated target model
+ */
+export async function saveAllocationTargets(
+  client: Prisma.TransactionClient,
+  userId: string,
+  targets: AllocationTargetsInput,
+): Promise<void> {
+  await client.allocationTarget.deleteMany({ where: { userId } });
+  await client.allocationTarget.createMany({
+    data: targets.targets.map((target) => ({ ...target, userId })),
+  });
+  await client.user.update({
+    where: { id: userId },
+    data: { targetKind: targets.kind, fractionalShares: targets.fractionalShares },
+  });
+}
+
+/**
+ * Plans a rebalance of an account, or of every account, toward the user's
+ * targets using current quotes, converted into the base currency
+ * @param userId - Owner of the portfolio
+ * @param portfolioId - Account, or null for all accounts
+ * @param mode - FULL to buy and sell, NEW_MONEY to only buy
+ * @param contribution - New money to invest
+ * @returns Rebalancing plan
+ */
+export async function loadRebalancePlan(
+  userId: string,
+  portfolioId: string | null,
+  mode: RebalanceMode,
+  contribution: number,
+): Promise<RebalancePlan> {
+  const [targets, summary] = await Promise.all([
+    loadAllocationTargets(userId),
+    loadPortfolioSummary(userId, portfolioId, 'ALL'),
+  ]);
+
+  const tickers = new Set(
+    summary.allocationByAsset.filter((slice) => slice.name !== CASH_LABEL).map((slice) => slice.name),
+  );
+  for (const target of targets.targets) {
+    if (targets.kind === 'TICKER' && target.key !== CASH_LABEL) {
+      tickers.add(target.key);
+    }
+    target.tickers.forEach((ticker) => tickers.add(ticker));
+  }
+  const held = await prisma.asset.findMany({
+    where: { userId, deletedAt: null, ticker: { in: [...tickers] } },
+    select: { id: true, ticker: true, assetClass: true, currency: true },
+    distinct: ['ticker'],
+  });
+  const heldTickers = new Set(held.map((asset) => asset.ticker));
+  const [heldQuotes, targetQuotes] = await Promise.all([
+    loadQuotes(held),
+    Promise.all([...tickers].filter((ticker) => !heldTickers.has(ticker)).map((ticker) => realDataClient.getQuote(ticker))),
+  ]);
+
+  // Held tickers are priced in the currency they were bought in, and
+  // manually priced assets at their latest valuation
+  const priced = [
+    ...held.flatMap((asset) => {
+      const quote = heldQuotes.get(asset.id);
+      return quote ? [{ ticker: asset.ticker, price: quote.price, currency: asset.currency }] : [];
+    }),
+    ...targetQuotes.map((quote) => ({
+      ticker: quote.ticker,
+      price: quote.price,
+      currency: quote.currency ?? DEFAULT_CURRENCY,
+    })),
+  ];
+  const rates = await loadFxRates([summary.baseCurrency, ...priced.map((quote) => quote.currency)]);
+
+  return planRebalance({
+    allocation: summary.allocation,
+    allocationByAsset: summary.allocationByAsset,
+    targets,
+    prices: new Map(priced.map(({ ticker, price, currency }) => [
+      ticker,
+      price * fxRate(rates, currency, summary.baseCurrency),
+    ])),
+    mode,
+    contribution,
+  });
+}
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { CashFlow, timeWeightedSeries, xirr } from './returns';
+
+const flow = (date: string, amount: number): CashFlow => ({ date: new Date(date), amount });
+
+describe('xirr', () => {
+  test('finds the rate of a single year', () => {
+    const rate = xirr([flow('2023-01-01', -1000), flow('2024-01-01', 1100)]);
+    assert.ok(Math.abs((rate ?? NaN) - 0.1) < 1e-6);
+  });
+
+  test('compounds flows over several years, in any order', () => {
+    const rate = xirr([
+      flow('2023-01-01', 2310),
+      flow('2021-01-01', -1000),
+      flow('2022-01-01', -1000),
+    ]);
+    assert.ok(Math.abs((rate ?? NaN) - 0.1) < 1e-6);
+  });
+
+  test('falls back to bisection when Newton steps past a total loss', () => {
+    // From 10%, the first Newton step lands far below -100%
+    const rate = xirr([flow('2023-01-01', -1000), flow('2024-01-01', 1)]);
+    assert.ok(Math.abs((rate ?? NaN) + 0.999) < 1e-6);
+  });
+
+  test('is null when every flow has the same sign', () => {
+    assert.equal(xirr([flow('2023-01-01', -1000), flow('2024-01-01', -500)]), null);
+    assert.equal(xirr([]), null);
+  });
+});
+
+describe('timeWeightedSeries', () => {
+  test('strips a deposit in the middle of the period out of the return', () => {
+    const series = timeWeightedSeries(
+      [
+        { date: '2024-01-02', positionsValue: 1000 },
+        { date: '2024-01-03', positionsValue: 1100 },
+        { date: '2024-01-04', positionsValue: 1710 },
+      ],
+      // A 500 buy on the last day: 1210 of the 1710 is growth
+      [flow('2024-01-04', -500)],
+    );
+
+    assert.deepEqual(series.map((point) => point.date), ['2024-01-02', '2024-01-03', '2024-01-04']);
+    assert.deepEqual(series.map((point) => Math.round(point.value * 1e6) / 1e6), [0, 0.1, 0.21]);
+  });
+
+  test('counts flows up to the first snapshot as part of its value', () => {
+    const series = timeWeightedSeries(
+      [
+        { date: '2024-01-02', positionsValue: 1000 },
+        { date: '2024-01-03', positionsValue: 1050 },
+      ],
+      [flow('2024-01-01', -1000)],
+    );
+    assert.ok(Math.abs((series[1]?.value ?? NaN) - 0.05) < 1e-9);
+  });
+});
@@ -0,0 +1,522 @@
+/**
+ * lib/portfolio/returns.ts
+ * Return calculations - time-weighted return and money-weighted return
+ * (XIRR) of positions and of the portfolio, over a period
+ */
+
+import { Transaction } from '@prisma/client';
+
+import prisma from '@/lib/db';
+import { ChartDataPoint, PerformanceRange, PositionReturns, ReturnMetrics } from '@/types';
+
+import { fxRate, loadBaseCurrency, loadFxRates } from './fx';
+import { LotLedgerEntry, SHARE_EPSILON, sortLedger, tradeAmount } from './lots';
+import { loadPerformance, rangeStart, toDayKey } from './snapshots';
+import { loadCloseHistories } from './valuations';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+const XIRR_TOLERANCE = 1e-7;
+const XIRR_MAX_ITERATIONS = 100;
+
+/**
+ * Money moving between the investor and an investment. Negative amounts
+ * are invested (buys), positive amounts are returned (sales, dividends and
+ * the closing value).
+ */
+export interface CashFlow {
+  date: Date;
+  amount: number;
+}
+
+// ============================================
+// Return Math
+// ============================================
+
+/**
+ * Net present value of cash flows at an annual rate, discounted to the
+ * first flow
+ */
+function presentValue(flows: CashFlow[], rate: number): number {
+  const origin = flows[0]?.date.getTime() ?? 0;
+  return flows.reduce((sum, flow) => {
+    const years = (flow.date.getTime() - origin) / DAY_MS / DAYS_PER_YEAR;
+    return sum + flow.amount / Math.pow(1 + rate, years);
+  }, 0);
+}
+
+/**
+ * Annual internal rate of return of irregularly dated cash flows
+ * (spreadsheet XIRR). Uses Newton's method, falling back to bisection.
+ * @param flows - Cash flows in any order
+ * @returns Annual rate as a fraction, or null if the flows are all of one
+ * sign or no rate is found
+ */
+export function xirr(flows: CashFlow[]): number | null {
+  const sorted = [...flows]
+    .filter((flow) => flow.amount !== 0)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  if (!sorted.some((flow) => flow.amount < 0) || !sorted.some((flow) => flow.amount > 0)) {
+    return null;
+  }
+
+  let rate = 0.1;
+  for (let i = 0; i < XIRR_MAX_ITERATIONS; i++) {
+    const value = presentValue(sorted, rate);
+    const step = 1e-6;
+    const slope = (presentValue(sorted, rate + step) - value) / step;
+    if (!Number.isFinite(slope) || slope === 0) {
+      break;
+    }
+    const next = rate - value / slope;
+    if (!Number.isFinite(next) || next <= -1) {
+      break;
+    }
+    if (Math.abs(next - rate) < XIRR_TOLERANCE) {
+      return next;
+    }
+    rate = next;
+  }
+
+  // Newton diverged: bisect between a near-total loss and a large gain
+  let low = -0.9999;
+  let high = 10;
+  let lowValue = presentValue(sorted, low);
+  if (lowValue * presentValue(sorted, high) > 0) {
+    return null;
+  }
+  for (let i = 0; i < XIRR_MAX_ITERATIONS * 2; i++) {
+    const mid = (low + high) / 2;
+    const midValue = presentValue(sorted, mid);
+    if (Math.abs(high - low) < XIRR_TOLERANCE) {
+      return mid;
+    }
+    if (lowValue * midValue <= 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Chains sub-period returns into a cumulative return
+ */
+function linkReturns(returns: number[]): number {
+  return returns.reduce((growth, r) => growth * (1 + r), 1) - 1;
+}
+
+/**
+ * Applies the reporting convention: periods longer than a year report
+ * annualized returns, shorter ones report the return over the period
+ * @param cumulativeTwr - Time-weighted return over the period
+ * @param annualMwr - XIRR (an annual rate)
+ * @param days - Length of the period
+ */
+function toReturnMetrics(cumulativeTwr: number | null, annualMwr: number | null, days: number): ReturnMetrics {
+  const annualized = days >= DAYS_PER_YEAR;
+  const years = Math.max(days, 1) / DAYS_PER_YEAR;
+
+  return {
+    timeWeighted: cumulativeTwr === null || !annualized
+      ? cumulativeTwr
+      : Math.pow(1 + cumulativeTwr, 1 / years) - 1,
+    moneyWeighted: annualMwr === null || annualized
+      ? annualMwr
+      : Math.pow(1 + annualMwr, years) - 1,
+    annualized,
+  };
+}
+
+// ============================================
+// Positions
+// ============================================
+
+/**
+ * Inputs for the returns of one position
+ */
+export interface PositionReturnInput {
+  ledger: LotLedgerEntry[];
+  dividends: CashFlow[];
+  start: Date | null; // Period start, or null since the first trade
+  startPrice: number | null; // Close before the period start
+  endValue: number; // Market value now
+}
+
+/**
+ * Computes a position's returns from its trades and dividends. The
+ * time-weighted return values the position at every trade, using the trade
+ * price, so it needs no price history beyond the period's opening close.
+ * @param input - Ledger, dividends, period and closing value
+ * @param now - End of the period
+ * @returns Returns, the trade and dividend flows within the period, and the
+ * position's value going into it
+ */
+export function computePositionReturns(
+  input: PositionReturnInput,
+  now: Date = new Date(),
+): { metrics: ReturnMetrics; flows: CashFlow[]; openingValue: number } {
+  const startTime = input.start?.getTime() ?? -Infinity;
+  const ledger = sortLedger(input.ledger);
+
+  // Shares held going into the period, valued at the opening close
+  let shares = 0;
+  let lastPrice: number | null = null;
+  for (const entry of ledger) {
+    if (new Date(entry.date).getTime() >= startTime) {
+      break;
+    }
+    shares = applyTrade(shares, entry);
+    if (entry.type === 'SPLIT') {
+      lastPrice = lastPrice !== null && entry.ratio ? lastPrice / entry.ratio : lastPrice;
+    } else if (entry.type === 'SPINOFF') {
+      lastPrice = lastPrice !== null ? lastPrice * (entry.ratio ?? 1) : lastPrice;
+    } else {
+      lastPrice = entry.price;
+    }
+  }
+
+  const flows: CashFlow[] = [];
+  const subReturns: number[] = [];
+  let base = 0; // Value after the last flow
+  let income = 0; // Dividends since the last flow
+
+  if (input.start && shares > SHARE_EPSILON) {
+    base = shares * (input.startPrice ?? lastPrice ?? 0);
+  }
+  const openingValue = base;
+
+  const events = [
+    ...ledger
+      .filter((entry) => new Date(entry.date).getTime() >= startTime)
+      .map((entry) => ({ date: new Date(entry.date), entry, dividend: 0 })),
+    ...input.dividends
+      .filter((dividend) => dividend.date.getTime() >= startTime)
+      .map((dividend) => ({ date: dividend.date, entry: null, dividend: dividend.amount })),
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  for (const { date, entry, dividend } of events) {
+    if (!entry) {
+      income += dividend;
+      flows.push({ date, amount: dividend });
+      continue;
+    }
+    if (entry.type === 'SPLIT') {
+      shares = applyTrade(shares, entry);
+      continue;
+    }
+    if (entry.type === 'SPINOFF') {
+      // Value handed to the spun-off company leaves the position like a sale
+      flows.push({ date, amount: entry.price });
+      base *= entry.ratio ?? 1;
+      continue;
+    }
+
+    // Fees are a cost of the position: a sale's come out of the value it
+    // ends the sub-period with, a buy's are part of what the next one starts from
+    const isOpening = entry.type === 'BUY' || entry.type === 'TRANSFER_IN';
+    if (base > 0) {
+      subReturns.push((shares * entry.price + income - (isOpening ? 0 : entry.fees)) / base - 1);
+    }
+    income = 0;
+
+    const amount = tradeAmount(entry);
+    flows.push({ date, amount: isOpening ? -amount : amount });
+    shares = applyTrade(shares, entry);
+    base = shares > SHARE_EPSILON ? shares * entry.price + (isOpening ? entry.fees : 0) : 0;
+  }
+
+  if (base > 0) {
+    subReturns.push((input.endValue + income) / base - 1);
+  }
+
+  const moneyFlows = withBoundaryValues(flows, input.start, openingValue, now, input.endValue);
+
+  return {
+    metrics: toReturnMetrics(
+      subReturns.length > 0 ? linkReturns(subReturns) : null,
+      xirr(moneyFlows),
+      periodDays(moneyFlows, now),
+    ),
+    flows,
+    openingValue,
+  };
+}
+
+/**
+ * Adds the value going into a period as an investment at its start and the
+ * value at its end as a final return
+ */
+function withBoundaryValues(
+  flows: CashFlow[],
+  start: Date | null,
+  openingValue: number,
+  now: Date,
+  endValue: number,
+): CashFlow[] {
+  return [
+    ...(start && openingValue > 0 ? [{ date: start, amount: -openingValue }] : []),
+    ...flows,
+    ...(endValue > 0 ? [{ date: now, amount: endValue }] : []),
+  ];
+}
+
+/**
+ * Days from the first cash flow to the end of the period
+ */
+function periodDays(flows: CashFlow[], now: Date): number {
+  const first = Math.min(...flows.map((flow) => flow.date.getTime()));
+  return Number.isFinite(first) ? (now.getTime() - first) / DAY_MS : 0;
+}
+
+/**
+ * Share count after a trade
+ */
+function applyTrade(shares: number, entry: LotLedgerEntry): number {
+  switch (entry.type) {
+    case 'BUY':
+    case 'TRANSFER_IN':
+      return shares + entry.shares;
+    case 'SELL':
+    case 'TRANSFER_OUT':
+      return Math.max(shares - entry.shares, 0);
+    case 'SPLIT':
+      return shares * (entry.ratio ?? 1);
+    default:
+      return shares;
+  }
+}
+
+// ============================================
+// Portfolio
+// ============================================
+
+/**
+ * Cumulative time-weighted return of the portfolio's positions at each
+ * daily snapshot. Each day's return strips out that day's trades and adds
+ * its dividends; flows up to the first snapshot are part of its value.
+ * @param snapshots - Daily positions values in ascending order
+ * @param flows - Position cash flows
+ * @returns Cumulative return since the first snapshot, by day
+ */
+export function timeWeightedSeries(
+  snapshots: Array<{ date: string; positionsValue: number }>,
+  flows: CashFlow[],
+): ChartDataPoint[] {
+  const byDay = [...flows].sort((a, b) => a.date.getTime() - b.date.getTime());
+  let cursor = 0;
+  let growth = 1;
+
+  return snapshots.map((snapshot, index) => {
+    let netFlow = 0;
+    for (let flow = byDay[cursor]; flow && toDayKey(flow.date) <= snapshot.date; flow = byDay[cursor]) {
+      netFlow += flow.amount;
+      cursor++;
+    }
+
+    const previous = snapshots[index - 1];
+    if (previous && previous.positionsValue > 0) {
+      growth *= (snapshot.positionsValue + netFlow) / previous.positionsValue;
+    }
+    return { date: snapshot.date, value: growth - 1 };
+  });
+}
+
+/**
+ * Index of the snapshot a period's return is measured from: the last one
+ * before the period starts, or the first one if history starts inside it
+ * @param snapshots - Daily snapshots in ascending order
+ * @param start - First day of the period, or null for all history
+ * @returns Snapshot index, or null if no snapshot falls in the period
+ */
+export function periodBaseIndex(snapshots: Array<{ date: string }>, start: Date | null): number | null {
+  if (snapshots.length === 0) {
+    return null;
+  }
+  if (!start) {
+    return 0;
+  }
+  const startKey = toDayKey(start);
+  const firstInPeriod = snapshots.findIndex((snapshot) => snapshot.date >= startKey);
+  return firstInPeriod < 0 ? null : Math.max(firstInPeriod - 1, 0);
+}
+
+/**
+ * Loads the cash flows of every position in scope: trades (from the
+ * investor's side, in the base currency at the rates of their dates) and
+ * dividends
+ * @param userId - Owner of the positions
+ * @param portfolioId - Account, or null for all accounts
+ * @returns Cash flows in no particular order
+ */
+export async function loadPositionFlows(userId: string, portfolioId: string | null): Promise<CashFlow[]> {
+  const [assets, dividends, baseCurrency] = await Promise.all([
+    prisma.asset.findMany({
+      where: { userId, deletedAt: null, ...(portfolioId && { portfolioId }) },
+      include: { transactions: true },
+    }),
+    prisma.cashTransaction.findMany({
+      where: { userId, type: 'DIVIDEND', ...(portfolioId && { portfolioId }) },
+      select: { amount: true, date: true },
+    }),
+    loadBaseCurrency(userId),
+  ]);
+  const rates = await loadFxRates([baseCurrency, ...assets.map((asset) => asset.currency)]);
+
+  const trades = assets.flatMap((asset): Array<Pick<Transaction, 'type' | 'shares' | 'price' | 'fees' | 'date'>> =>
+    (asset.transactions.length > 0
+      ? asset.transactions
+      : [{ type: 'BUY' as const, shares: asset.shares, price: asset.avgPrice, fees: 0, date: asset.purchaseDate }]
+    ).map((trade) => {
+      const rate = fxRate(rates, asset.currency, baseCurrency, trade.date);
+      return { ...trade, price: trade.price * rate, fees: trade.fees * rate };
+    }));
+
+  return [
+    ...trades
+      .filter((trade) => trade.type !== 'SPLIT')
+      .map((trade) => ({
+        date: trade.date,
+        amount: trade.type === 'SPINOFF'
+          ? trade.price // Basis handed to the spun-off company
+          : (trade.type === 'BUY' || trade.type === 'TRANSFER_IN' ? -1 : 1) * tradeAmount(trade),
+      })),
+    ...dividends,
+  ];
+}
+
+/**
+ * Computes the returns of every position in scope and of the portfolio
+ * as a whole. Idle cash is excluded: returns measure the money invested in
+ * positions, with dividends as income. Trades are converted into the base
+ * currency at the rates of their dates, so returns include FX gains.
+ * @param userId - Owner of the positions
+ * @param portfolioId - Account, or null for all accounts
+ * @param period - Period to measure
+ * @param currentValues - Market value of each open position by asset ID,
+ * in the base currency
+ * @returns Portfolio returns and the returns of each open position
+ */
+export async function loadReturns(
+  userId: string,
+  portfolioId: string | null,
+  period: PerformanceRange,
+  currentValues: Map<string, number>,
+): Promise<{ returns: ReturnMetrics; positionReturns: PositionReturns[] }> {
+  const now = new Date();
+  const start = rangeStart(period, now);
+
+  const [assets, dividends, performance, baseCurrency] = await Promise.all([
+    prisma.asset.findMany({
+      where: { userId, deletedAt: null, ...(portfolioId && { portfolioId }) },
+      include: { transactions: true },
+    }),
+    prisma.cashTransaction.findMany({
+      where: { userId, type: 'DIVIDEND', ...(portfolioId && { portfolioId }) },
+      select: { amount: true, date: true, ticker: true, portfolioId: true },
+    }),
+    loadPerformance(userId, portfolioId, 'ALL'),
+    loadBaseCurrency(userId),
+  ]);
+  const rates = await loadFxRates([baseCurrency, ...assets.map((asset) => asset.currency)]);
+
+  // Opening closes for positions held before the period start
+  const openingCloses = new Map<string, number>();
+  if (start) {
+    const startKey = toDayKey(start);
+    const heldAtStart = assets.filter((asset) =>
+      asset.transactions.length > 0
+        ? asset.transactions.some((entry) => entry.date < start)
+        : asset.purchaseDate < start,
+    );
+    const histories = await loadCloseHistories(heldAtStart);
+    for (const [assetId, history] of histories) {
+      const before = history.filter((bar) => toDayKey(bar.date) < startKey);
+      const close = before[before.length - 1]?.close;
+      if (close) {
+        openingCloses.set(assetId, close);
+      }
+    }
+  }
+
+  const allFlows: CashFlow[] = [];
+  let openingValue = 0;
+  let endValue = 0;
+  const positionReturns: PositionReturns[] = [];
+
+  for (const asset of assets) {
+    // Positions from before the ledger are a single buy on their purchase date
+    const localLedger: LotLedgerEntry[] = asset.transactions.length > 0
+      ? asset.transactions
+      : [{
+          id: asset.id,
+          type: 'BUY',
+          shares: asset.shares,
+          price: asset.avgPrice,
+          fees: 0,
+          ratio: null,
+          date: asset.purchaseDate,
+          lotMethod: null,
+        }];
+    const ledger = localLedger.map((entry) => {
+      const rate = fxRate(rates, asset.currency, baseCurrency, entry.date);
+      return { ...entry, price: entry.price * rate, fees: entry.fees * rate };
+    });
+    const openingClose = openingCloses.get(asset.id);
+    const positionValue = currentValues.get(asset.id) ?? 0;
+
+    const position = computePositionReturns(
+      {
+        ledger,
+        dividends: dividends
+          .filter((dividend) => dividend.ticker === asset.ticker && dividend.portfolioId === asset.portfolioId)
+          .map((dividend) => ({ date: dividend.date, amount: dividend.amount })),
+        start,
+        startPrice: openingClose && start
+          ? openingClose * fxRate(rates, asset.currency, baseCurrency, start)
+          : null,
+        endValue: positionValue,
+      },
+      now,
+    );
+
+    allFlows.push(...position.flows);
+    openingValue += position.openingValue;
+    endValue += positionValue;
+    if (currentValues.has(asset.id)) {
+      positionReturns.push({
+        assetId: asset.id,
+        ticker: asset.ticker,
+        portfolioId: asset.portfolioId,
+        ...position.metrics,
+      });
+    }
+  }
+
+  // Dividends not attributed to a held ticker still count as portfolio income
+  const tickers = new Set(assets.map((asset) => `${asset.portfolioId}:${asset.ticker}`));
+  for (const dividend of dividends) {
+    if (
+      !tickers.has(`${dividend.portfolioId}:${dividend.ticker}`) &&
+      (!start || dividend.date >= start)
+    ) {
+      allFlows.push({ date: dividend.date, amount: dividend.amount });
+    }
+  }
+
+  const base = periodBaseIndex(performance.snapshots, start);
+  const snapshots = base === null ? [] : performance.snapshots.slice(base);
+  const timeWeighted = snapshots.length > 1
+    ? timeWeightedSeries(snapshots, allFlows).pop()?.value ?? null
+    : null;
+
+  const moneyFlows = withBoundaryValues(allFlows, start, openingValue, now, endValue);
+
+  return {
+    returns: toReturnMetrics(timeWeighted, xirr(moneyFlows), periodDays(moneyFlows, now)),
+    positionReturns,
+  };
+}
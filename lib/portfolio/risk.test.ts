@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { computeRiskMetrics, ReturnSeries, weightedReturns } from './risk';
+
+const DAYS = ['2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05'];
+
+const series = (values: number[]): ReturnSeries =>
+  new Map(values.map((value, i) => [DAYS[i] ?? `day-${i}`, value]));
+
+const near = (actual: number | null, expected: number) =>
+  assert.ok(actual !== null && Math.abs(actual - expected) < 1e-4, `${actual} is not ${expected}`);
+
+// Mean 0.25%, sample variance 0.001475 / 3
+const returns = series([0.01, -0.02, 0.03, -0.01]);
+
+describe('computeRiskMetrics', () => {
+  test('annualizes volatility and the Sharpe and Sortino ratios', () => {
+    const metrics = computeRiskMetrics(returns, new Map(), 0);
+
+    near(metrics.volatility, 0.352); // sqrt(0.001475 / 3 * 252)
+    near(metrics.sharpe, 1.7898); // 0.0025 * 252 / volatility
+    near(metrics.sortino, 3.5496); // Downside deviation sqrt(0.0005 / 4 * 252)
+    assert.equal(metrics.observations, 4);
+  });
+
+  test('measures downside against the daily risk-free rate', () => {
+    near(computeRiskMetrics(returns, new Map(), 0.0252).sortino, 3.3873);
+  });
+
+  test('finds the largest peak-to-trough decline', () => {
+    // 1.01 falls to 0.9898 (-2%); the later 1.0195 to 1.0093 is only -1%
+    near(computeRiskMetrics(returns, new Map(), 0).maxDrawdown, -0.02);
+    assert.equal(computeRiskMetrics(series([0.01, 0.02]), new Map(), 0).maxDrawdown, 0);
+  });
+
+  test('takes Value at Risk from the interpolated 5% quantile', () => {
+    // Sorted -2%, -1%, 1%, 3%: 15% of the way from -2% to -1%
+    near(computeRiskMetrics(returns, new Map(), 0).valueAtRisk, 0.0185);
+    assert.equal(computeRiskMetrics(series([0.01, 0.02]), new Map(), 0).valueAtRisk, 0);
+  });
+
+  test('measures beta on the days both series have', () => {
+    const benchmark = series([0.005, -0.01, 0.015, -0.005]);
+    near(computeRiskMetrics(returns, benchmark, 0).beta, 2);
+
+    const partial = new Map([...benchmark].slice(0, 3));
+    near(computeRiskMetrics(returns, partial, 0).beta, 2);
+  });
+
+  test('has no beta against a benchmark that never varies', () => {
+    assert.equal(computeRiskMetrics(returns, series([0.01, 0.01, 0.01, 0.01]), 0).beta, null);
+  });
+
+  test('needs at least two returns', () => {
+    assert.deepEqual(computeRiskMetrics(series([0.01]), series([0.01]), 0), {
+      volatility: null,
+      beta: null,
+      sharpe: null,
+      sortino: null,
+      maxDrawdown: null,
+      valueAtRisk: null,
+      observations: 1,
+    });
+  });
+
+  test('has no ratios for a series that never varies or falls', () => {
+    const metrics = computeRiskMetrics(series([0.01, 0.01, 0.01]), new Map(), 0);
+    assert.deepEqual([metrics.volatility, metrics.sharpe, metrics.sortino], [0, null, null]);
+  });
+});
+
+describe('weightedReturns', () => {
+  test('weights each day by the holdings priced on it', () => {
+    const portfolio = weightedReturns([
+      { returns: series([0.01, 0.02]), weight: 0.75 },
+      { returns: series([0.03]), weight: 0.25 },
+    ]);
+
+    assert.deepEqual([...portfolio.keys()], DAYS.slice(0, 2));
+    near(portfolio.get('2024-01-02') ?? null, 0.015);
+    near(portfolio.get('2024-01-03') ?? null, 0.02);
+  });
+
+  test('leaves out days with no weight behind them', () => {
+    assert.equal(weightedReturns([{ returns: series([0.01]), weight: 0 }]).size, 0);
+  });
+});
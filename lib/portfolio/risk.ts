@@ -0,0 +1,239 @@
+/**
+ * lib/portfolio/risk.ts
+ * Risk analytics - volatility, beta, Sharpe and Sortino ratios, maximum
+ * drawdown and Value at Risk of each holding and of the weighted portfolio
+ */
+
+import realDataClient from '@/lib/api/real-data-client';
+import { RISK_CONFIG, SNAPSHOT_LIMITS } from '@/lib/constants';
+import { HoldingRisk, RiskMetrics, RiskReport } from '@/types';
+
+import { loadBaseCurrency } from './fx';
+import { loadHoldingValues } from './positions';
+import { toDayKey } from './snapshots';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Daily returns keyed by day (YYYY-MM-DD)
+ */
+export type ReturnSeries = Map<string, number>;
+
+// ============================================
+// Statistics
+// ============================================
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Sample covariance of two equally long series
+ */
+function covariance(a: number[], b: number[]): number {
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += ((a[i] ?? 0) - meanA) * ((b[i] ?? 0) - meanB);
+  }
+  return sum / (a.length - 1);
+}
+
+/**
+ * Linearly interpolated quantile of ascending values
+ */
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const below = sorted[lower] ?? 0;
+  const above = sorted[lower + 1] ?? below;
+  return below + (above - below) * (position - lower);
+}
+
+/**
+ * Largest peak-to-trough decline of the growth of a return series
+ * @returns Drawdown as a negative fraction, or 0 if value never fell
+ */
+function maxDrawdown(returns: number[]): number {
+  let growth = 1;
+  let peak = 1;
+  let worst = 0;
+  for (const r of returns) {
+    growth *= 1 + r;
+    peak = Math.max(peak, growth);
+    worst = Math.min(worst, growth / peak - 1);
+  }
+  return worst;
+}
+
+/**
+ * Computes risk metrics of a daily return series
+ * @param returns - Daily returns of the holding or portfolio
+ * @param benchmark - Daily returns of the benchmark, for beta
+ * @param riskFreeRate - Annual risk-free rate as a fraction
+ * @returns Annualized risk metrics
+ */
+export function computeRiskMetrics(
+  returns: ReturnSeries,
+  benchmark: ReturnSeries,
+  riskFreeRate: number,
+): RiskMetrics {
+  const days = [...returns.keys()].sort();
+  const values = days.map((day) => returns.get(day) ?? 0);
+  const n = values.length;
+
+  if (n < 2) {
+    return {
+      volatility: null,
+      beta: null,
+      sharpe: null,
+      sortino: null,
+      maxDrawdown: null,
+      valueAtRisk: null,
+      observations: n,
+    };
+  }
+
+  const perYear = RISK_CONFIG.TRADING_DAYS_PER_YEAR;
+  const volatility = Math.sqrt(covariance(values, values) * perYear);
+  const excessReturn = mean(values) * perYear - riskFreeRate;
+
+  // Downside deviation counts only days below the daily risk-free rate
+  const dailyRiskFree = riskFreeRate / perYear;
+  const downside = Math.sqrt(
+    (values.reduce((sum, r) => sum + Math.min(r - dailyRiskFree, 0) ** 2, 0) / n) * perYear,
+  );
+
+  const paired = days.filter((day) => benchmark.has(day));
+  const benchmarkValues = paired.map((day) => benchmark.get(day) ?? 0);
+  const benchmarkVariance = paired.length > 1 ? covariance(benchmarkValues, benchmarkValues) : 0;
+  const beta = benchmarkVariance > 0
+    ? covariance(paired.map((day) => returns.get(day) ?? 0), benchmarkValues) / benchmarkVariance
+    : null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+
+  return {
+    volatility,
+    beta,
+    sharpe: volatility > 0 ? excessReturn / volatility : null,
+    sortino: downside > 0 ? excessReturn / downside : null,
+    maxDrawdown: maxDrawdown(values),
+    valueAtRisk: Math.max(-quantile(sorted, 1 - RISK_CONFIG.VAR_CONFIDENCE), 0),
+    observations: n,
+  };
+}
+
+// ============================================
+// Price History
+// ============================================
+
+/**
+ * Daily returns of a ticker since a day, from adjusted closes where
+ * available so dividends count as return. Empty if history is unavailable.
+ */
+export async function loadDailyReturns(ticker: string, sinceKey: string): Promise<ReturnSeries> {
+  const history = await realDataClient.getHistoricalData(ticker, SNAPSHOT_LIMITS.HISTORY_PERIOD);
+  const bars = history
+    .map((bar) => ({ dayKey: toDayKey(bar.date), close: bar.adjustedClose ?? bar.close }))
+    .filter((bar) => bar.close > 0)
+    .sort((a, b) => a.dayKey.localeCompare(b.dayKey));
+
+  const returns: ReturnSeries = new Map();
+  for (let i = 1; i < bars.length; i++) {
+    const previous = bars[i - 1];
+    const bar = bars[i];
+    if (previous && bar && bar.dayKey >= sinceKey) {
+      returns.set(bar.dayKey, bar.close / previous.close - 1);
+    }
+  }
+  return returns;
+}
+
+/**
+ * Daily returns of a portfolio held at fixed weights. Days where some
+ * holdings have no price reweight across those that do.
+ * @param holdings - Return series and weight of each holding
+ * @returns Weighted daily returns
+ */
+export function weightedReturns(holdings: Array<{ returns: ReturnSeries; weight: number }>): ReturnSeries {
+  const totals = new Map<string, { sum: number; weight: number }>();
+  for (const { returns, weight } of holdings) {
+    for (const [day, r] of returns) {
+      const total = totals.get(day) ?? { sum: 0, weight: 0 };
+      total.sum += r * weight;
+      total.weight += weight;
+      totals.set(day, total);
+    }
+  }
+
+  const portfolio: ReturnSeries = new Map();
+  for (const [day, total] of totals) {
+    if (total.weight > 0) {
+      portfolio.set(day, total.sum / total.weight);
+    }
+  }
+  return portfolio;
+}
+
+// ============================================
+// Report
+// ============================================
+
+/**
+ * Builds the risk report of a user's open positions over the lookback
+ * window. Holdings of the same ticker across accounts are combined, and the
+ * portfolio is weighted by current market value (cost where no quote is
+ * available). Cash is excluded.
+ * @param userId - Owner of the positions
+ * @param portfolioId - Account, or null for all accounts
+ * @param benchmark - Ticker beta is measured against
+ * @param riskFreeRate - Annual risk-free rate as a fraction
+ * @returns Risk report
+ */
+export async function loadRiskReport(
+  userId: string,
+  portfolioId: string | null,
+  benchmark: string,
+  riskFreeRate: number,
+): Promise<RiskReport> {
+  const values = await loadHoldingValues(userId, portfolioId, await loadBaseCurrency(userId));
+  const totalValue = [...values.values()].reduce((sum, value) => sum + value, 0);
+
+  const sinceKey = toDayKey(new Date(Date.now() - RISK_CONFIG.LOOKBACK_DAYS * DAY_MS));
+  const tickers = [...values.keys()];
+  const [benchmarkReturns, ...holdingReturns] = await Promise.all(
+    [benchmark, ...tickers].map((ticker) => loadDailyReturns(ticker, sinceKey)),
+  );
+
+  const holdings = tickers.map((ticker, index) => {
+    const value = values.get(ticker) ?? 0;
+    return {
+      ticker,
+      value,
+      weight: totalValue > 0 ? value / totalValue : 0,
+      returns: holdingReturns[index] ?? new Map<string, number>(),
+    };
+  });
+
+  const benchmarkSeries = benchmarkReturns ?? new Map<string, number>();
+  const holdingRisks: HoldingRisk[] = holdings
+    .map(({ returns, ...holding }) => ({
+      ...holding,
+      ...computeRiskMetrics(returns, benchmarkSeries, riskFreeRate),
+    }))
+    .sort((a, b) => b.value - a.value);
+
+  return {
+    benchmark,
+    riskFreeRate,
+    confidence: RISK_CONFIG.VAR_CONFIDENCE,
+    lookbackDays: RISK_CONFIG.LOOKBACK_DAYS,
+    portfolio: {
+      value: totalValue,
+      ...computeRiskMetrics(weightedReturns(holdings), benchmarkSeries, riskFreeRate),
+    },
+    holdings: holdingRisks,
+  };
+}
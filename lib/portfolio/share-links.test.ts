@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { PortfolioSummary } from '@/types';
+
+import { toSharedSummary } from './share-links';
+
+// Every amount is this value, so a masked summary must not contain it anywhere
+const AMOUNT = 12345.67;
+
+const slice = { sector: 'Technology', name: 'AAPL', value: AMOUNT, percentage: 62.5 };
+
+const summary: PortfolioSummary = {
+  baseCurrency: 'USD',
+  totalValue: AMOUNT,
+  totalCost: AMOUNT,
+  totalProfitLoss: AMOUNT,
+  totalProfitLossPercent: 8.25,
+  priceProfitLoss: AMOUNT,
+  fxProfitLoss: AMOUNT,
+  realizedProfitLoss: AMOUNT,
+  dayChange: AMOUNT,
+  dayChangePercent: 0.75,
+  assetCount: 3,
+  cashBalance: AMOUNT,
+  netContributions: AMOUNT,
+  cashIncome: AMOUNT,
+  fees: { total: AMOUNT, byYear: [{ year: 2024, amount: AMOUNT }] },
+  optionsValue: AMOUNT,
+  optionCount: 1,
+  topGainers: [],
+  topLosers: [],
+  allocation: [slice],
+  allocationByAsset: [slice],
+  allocationByIndustry: [slice],
+  allocationByCountry: [slice],
+  allocationByMarketCap: [slice],
+  allocationByAssetClass: [slice],
+  allocationByAccount: [slice],
+  allocationByTag: [slice],
+  returnPeriod: '1Y',
+  returns: { timeWeighted: 0.12, moneyWeighted: 0.11, annualized: false },
+  positionReturns: [
+    { assetId: 'asset-1', ticker: 'AAPL', portfolioId: 'account-1', timeWeighted: 0.2, moneyWeighted: 0.19, annualized: false },
+  ],
+};
+
+describe('toSharedSummary', () => {
+  test('keeps no absolute amount on masked links', () => {
+    const shared = toSharedSummary(summary, true);
+
+    assert.equal(JSON.stringify(shared).includes(String(AMOUNT)), false);
+    assert.deepEqual(shared.fees, { total: 0, byYear: [] });
+    assert.deepEqual(shared.allocationByAccount, [{ ...slice, value: 0 }]);
+  });
+
+  test('keeps percentages and returns on masked links', () => {
+    const shared = toSharedSummary(summary, true);
+
+    assert.equal(shared.totalProfitLossPercent, 8.25);
+    assert.equal(shared.dayChangePercent, 0.75);
+    assert.deepEqual(shared.returns, summary.returns);
+    assert.deepEqual(shared.allocation.map((s) => s.percentage), [62.5]);
+  });
+
+  test('keeps every amount on unmasked links', () => {
+    const shared = toSharedSummary(summary, false);
+
+    assert.equal(shared.totalValue, AMOUNT);
+    assert.equal(shared.cashBalance, AMOUNT);
+    assert.deepEqual(shared.fees, summary.fees);
+    assert.deepEqual(shared.allocation, [slice]);
+  });
+
+  test('drops the internal IDs of position returns', () => {
+    for (const masked of [true, false]) {
+      assert.deepEqual(toSharedSummary(summary, masked).positionReturns, [
+        { ticker: 'AAPL', timeWeighted: 0.2, moneyWeighted: 0.19, annualized: false },
+      ]);
+    }
+  });
+});
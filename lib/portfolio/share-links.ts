@@ -0,0 +1,233 @@
+/**
+ * lib/portfolio/share-links.ts
+ * Read-only share links to a user's dashboard - creation, revocation and
+ * the views a link opens, with amounts masked on links that hide them
+ */
+
+import { randomBytes } from 'crypto';
+
+import { Prisma } from '@prisma/client';
+
+import { SHARE_LINK_CONFIG } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { CreateShareLinkInput } from '@/lib/validations';
+import {
+  AllocationData,
+  EnrichedAsset,
+  PortfolioSummary,
+  SharedHolding,
+  SharedPortfolio,
+  SharedSummary,
+  ShareLinkSummary,
+} from '@/types';
+
+import { PortfolioError } from './errors';
+import { loadBaseCurrency } from './fx';
+import { enrichPositions, loadPositions } from './positions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const SHARE_LINK_INCLUDE = { portfolio: { select: { name: true } } } as const;
+
+type ShareLinkWithAccount = Prisma.ShareLinkGetPayload<{ include: typeof SHARE_LINK_INCLUDE }>;
+
+function toSummary({ portfolio, ...link }: ShareLinkWithAccount): ShareLinkSummary {
+  return { ...link, accountName: portfolio?.name ?? null };
+}
+
+// Links that still open a dashboard
+const activeWhere = (now: Date) => ({ revokedAt: null, expiresAt: { gt: now } });
+
+/**
+ * Lists a user's active share links
+ * @param userId - Owner of the links
+ * @returns Unexpired, unrevoked links, newest first
+ */
+export async function listShareLinks(userId: string): Promise<ShareLinkSummary[]> {
+  const links = await prisma.shareLink.findMany({
+    where: { userId, ...activeWhere(new Date()) },
+    include: SHARE_LINK_INCLUDE,
+    orderBy: { createdAt: 'desc' },
+  });
+  return links.map(toSummary);
+}
+
+/**
+ * Creates a share link with a random token
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the dashboard
+ * @param input - Account shared, lifetime and masking
+ * @returns The created link
+ * @throws PortfolioError if the account is not the user's or the user has too
+ * many active links
+ */
+export async function createShareLink(
+  client: Prisma.TransactionClient,
+  userId: string,
+  input: CreateShareLinkInput,
+): Promise<ShareLinkSummary> {
+  const now = new Date();
+  const active = await client.shareLink.count({ where: { userId, ...activeWhere(now) } });
+  if (active >= SHARE_LINK_CONFIG.MAX_ACTIVE_LINKS) {
+    throw new PortfolioError(`At most ${SHARE_LINK_CONFIG.MAX_ACTIVE_LINKS} share links can be active`);
+  }
+
+  if (input.portfolioId) {
+    const portfolio = await client.portfolio.findFirst({ where: { id: input.portfolioId, userId } });
+    if (!portfolio) {
+      throw new PortfolioError('Account not found');
+    }
+  }
+
+  const link = await client.shareLink.create({
+    data: {
+      token: randomBytes(SHARE_LINK_CONFIG.TOKEN_BYTES).toString('base64url'),
+      name: input.name || null,
+      maskValues: input.maskValues,
+      expiresAt: new Date(now.getTime() + input.expiresInDays * DAY_MS),
+      portfolioId: input.portfolioId ?? null,
+      userId,
+    },
+    include: SHARE_LINK_INCLUDE,
+  });
+  return toSummary(link);
+}
+
+/**
+ * Revokes a share link; its dashboard stops opening immediately
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the link
+ * @param linkId - Link to revoke
+ * @throws PortfolioError if the link does not exist
+ */
+export async function revokeShareLink(
+  client: Prisma.TransactionClient,
+  userId: string,
+  linkId: string,
+): Promise<void> {
+  const link = await client.shareLink.findFirst({ where: { id: linkId, userId } });
+  if (!link) {
+    throw new PortfolioError('Share link not found');
+  }
+  if (!link.revokedAt) {
+    await client.shareLink.update({ where: { id: link.id }, data: { revokedAt: new Date() } });
+  }
+}
+
+/**
+ * Looks up the link a token belongs to, recording that it was viewed. The
+ * view time is only written once the stored one is VIEW_RECORD_MINUTES
+ * old, as every request for the link's dashboard resolves it.
+ * @param token - Token from the link's URL
+ * @returns The link, or null if it does not exist, expired or was revoked
+ */
+export async function resolveShareLink(token: string): Promise<ShareLinkSummary | null> {
+  const now = new Date();
+  const link = await prisma.shareLink.findUnique({ where: { token }, include: SHARE_LINK_INCLUDE });
+  if (!link || link.revokedAt || link.expiresAt <= now) {
+    return null;
+  }
+
+  const staleBefore = now.getTime() - SHARE_LINK_CONFIG.VIEW_RECORD_MINUTES * MINUTE_MS;
+  if (!link.lastViewedAt || link.lastViewedAt.getTime() <= staleBefore) {
+    await prisma.shareLink.update({ where: { id: link.id }, data: { lastViewedAt: now } });
+  }
+  return toSummary(link);
+}
+
+const maskAllocation = (allocation: AllocationData[]): AllocationData[] =>
+  allocation.map((slice) => ({ ...slice, value: 0 }));
+
+/**
+ * Portfolio summary as a share link shows it. Positions are left out, as
+ * they carry notes and tags, and position returns lose their IDs; on
+ * masked links every amount is zeroed and only percentages remain.
+ * @param summary - Owner's summary
+ * @param masked - Whether the link masks amounts
+ */
+export function toSharedSummary(summary: PortfolioSummary, masked: boolean): SharedSummary {
+  const shared = {
+    ...summary,
+    topGainers: [],
+    topLosers: [],
+    positionReturns: summary.positionReturns.map(
+      ({ assetId: _assetId, portfolioId: _portfolioId, ...returns }) => returns,
+    ),
+  };
+  if (!masked) {
+    return shared;
+  }
+
+  return {
+    ...shared,
+    totalValue: 0,
+    totalCost: 0,
+    totalProfitLoss: 0,
+    priceProfitLoss: 0,
+    fxProfitLoss: 0,
+    realizedProfitLoss: 0,
+    dayChange: 0,
+    cashBalance: 0,
+    netContributions: 0,
+    cashIncome: 0,
+    fees: { total: 0, byYear: [] },
+    optionsValue: 0,
+    allocation: maskAllocation(summary.allocation),
+    allocationByAsset: maskAllocation(summary.allocationByAsset),
+    allocationByIndustry: maskAllocation(summary.allocationByIndustry),
+    allocationByCountry: maskAllocation(summary.allocationByCountry),
+    allocationByMarketCap: maskAllocation(summary.allocationByMarketCap),
+    allocationByAssetClass: maskAllocation(summary.allocationByAssetClass),
+    allocationByAccount: maskAllocation(summary.allocationByAccount),
+    allocationByTag: maskAllocation(summary.allocationByTag),
+  };
+}
+
+/**
+ * Open positions as a share link shows them
+ * @param assets - Enriched open positions
+ * @param masked - Whether the link masks shares and amounts
+ * @returns Holdings, largest first
+ */
+export function toSharedHoldings(assets: EnrichedAsset[], masked: boolean): SharedHolding[] {
+  const totalValue = assets.reduce((sum, asset) => sum + asset.currentValue, 0);
+
+  return [...assets]
+    .sort((a, b) => b.currentValue - a.currentValue)
+    .map((asset) => ({
+      ticker: asset.ticker,
+      companyName: asset.companyName ?? asset.ticker,
+      assetClass: asset.assetClass,
+      sector: asset.sector,
+      currency: asset.currency,
+      currentPrice: asset.currentPrice,
+      shares: masked ? 0 : asset.shares,
+      currentValue: masked ? 0 : asset.currentValue,
+      profitLoss: masked ? 0 : asset.profitLoss,
+      profitLossPercent: asset.profitLossPercent,
+      dayChangePercent: asset.dayChangePercent,
+      weight: totalValue > 0 ? (asset.currentValue / totalValue) * 100 : 0,
+    }));
+}
+
+/**
+ * Loads the dashboard a share link opens
+ * @param link - Active link
+ */
+export async function loadSharedPortfolio(link: ShareLinkSummary): Promise<SharedPortfolio> {
+  const [positions, baseCurrency] = await Promise.all([
+    loadPositions(link.userId, link.portfolioId),
+    loadBaseCurrency(link.userId),
+  ]);
+  const assets = await enrichPositions(positions.filter((position) => position.shares > 0), baseCurrency);
+
+  return {
+    name: link.name,
+    accountName: link.accountName,
+    masked: link.maskValues,
+    baseCurrency,
+    expiresAt: link.expiresAt,
+    holdings: toSharedHoldings(assets, link.maskValues),
+  };
+}
@@ -0,0 +1,563 @@
+/**
+ * lib/portfolio/snapshots.ts
+ * Daily snapshots - the end-of-day value, cost and cash of each account,
+ * recorded once per trading day and backfilled from historical prices for
+ * days that were missed
+ */
+
+import { CashTransactionType } from '@prisma/client';
+
+import cache from '@/lib/cache';
+import { SNAPSHOT_LIMITS } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { ChartDataPoint, PerformanceData, PerformancePoint, PerformanceRange } from '@/types';
+
+import { ensureDefaultPortfolio, snapshotRefreshKey } from './accounts';
+import { ACTIVE_CASH_WHERE, loadCashSummaries } from './cash';
+import { fxRate, loadBaseCurrency, loadFxRates } from './fx';
+import { LEDGER_ENTRY_INCLUDE, LotLedgerEntry, replayLots, SHARE_EPSILON, sortLedger } from './lots';
+import { enrichPositions, loadPositions } from './positions';
+import { loadCloseHistories } from './valuations';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CONTRIBUTION_TYPES: CashTransactionType[] = ['DEPOSIT', 'WITHDRAWAL'];
+
+/**
+ * Snapshot values of one account on one day
+ */
+type SnapshotValues = Omit<PerformancePoint, 'date'>;
+
+/**
+ * Outcome of the daily snapshot job
+ */
+export interface SnapshotRun {
+  recorded: number;
+  failed: string[]; // IDs of users whose snapshots failed
+  nextCursor: string | null; // User the next run resumes after when the time budget ran out
+}
+
+// ============================================
+// Trading Days
+// ============================================
+
+/**
+ * Formats a date as its UTC day (YYYY-MM-DD)
+ */
+export function toDayKey(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+/**
+ * UTC midnight of a day
+ */
+function fromDayKey(dayKey: string): Date {
+  return new Date(`${dayKey}T00:00:00.000Z`);
+}
+
+/**
+ * Whether markets trade on a date. Exchange holidays are not modelled; a
+ * holiday's snapshot repeats the previous close.
+ */
+export function isTradingDay(date: Date): boolean {
+  const weekday = date.getUTCDay();
+  return weekday !== 0 && weekday !== 6;
+}
+
+/**
+ * Lists the trading days between two dates
+ * @param start - First day (inclusive)
+ * @param end - Last day (inclusive)
+ * @returns Day keys in ascending order
+ */
+export function tradingDaysBetween(start: Date, end: Date): string[] {
+  const days: string[] = [];
+  const last = fromDayKey(toDayKey(end)).getTime();
+
+  for (let time = fromDayKey(toDayKey(start)).getTime(); time <= last; time += DAY_MS) {
+    const day = new Date(time);
+    if (isTradingDay(day)) {
+      days.push(toDayKey(day));
+    }
+  }
+
+  return days;
+}
+
+// ============================================
+// Historical Reconstruction
+// ============================================
+
+/**
+ * Returns a lookup of the last entry of an ascending series on or before a
+ * day. Days must be looked up in ascending order.
+ */
+function seriesCursor<T extends { dayKey: string }>(series: T[]): (dayKey: string) => T | undefined {
+  let index = -1;
+  return (dayKey) => {
+    for (let next = series[index + 1]; next && next.dayKey <= dayKey; next = series[index + 1]) {
+      index++;
+    }
+    return series[index];
+  };
+}
+
+/**
+ * Replays a ledger day by day
+ * @param entries - Ledger entries for a single ticker
+ * @param lotCost - Converts the cost of a lot into the base currency
+ * @returns Shares and cost basis at the end of each day with activity
+ */
+function positionTimeline(
+  entries: LotLedgerEntry[],
+  lotCost: (lot: { acquiredAt: Date; costBasis: number }) => number,
+): Array<{ dayKey: string; shares: number; costBasis: number }> {
+  const sorted = sortLedger(entries);
+  const timeline: Array<{ dayKey: string; shares: number; costBasis: number }> = [];
+
+  sorted.forEach((entry, index) => {
+    const dayKey = toDayKey(entry.date);
+    const next = sorted[index + 1];
+    if (next && toDayKey(next.date) === dayKey) {
+      return;
+    }
+    const { lots } = replayLots(sorted.slice(0, index + 1));
+    timeline.push({
+      dayKey,
+      shares: lots.reduce((sum, lot) => sum + lot.remainingShares, 0),
+      costBasis: lots.reduce(
+        (sum, lot) => sum + lotCost({ acquiredAt: lot.acquiredAt, costBasis: lot.remainingShares * lot.costPerShare }),
+        0,
+      ),
+    });
+  });
+
+  return timeline;
+}
+
+/**
+ * Running cash balance and net contributions of an account
+ * @param entries - Cash entries in date order
+ * @returns Totals at the end of each day with activity
+ */
+function cashTimeline(
+  entries: Array<{ type: CashTransactionType; amount: number; date: Date }>,
+): Array<{ dayKey: string; balance: number; netContributions: number }> {
+  const timeline: Array<{ dayKey: string; balance: number; netContributions: number }> = [];
+  let balance = 0;
+  let netContributions = 0;
+
+  for (const entry of entries) {
+    balance += entry.amount;
+    if (CONTRIBUTION_TYPES.includes(entry.type)) {
+      netContributions += entry.amount;
+    }
+
+    const dayKey = toDayKey(entry.date);
+    const last = timeline[timeline.length - 1];
+    if (last?.dayKey === dayKey) {
+      last.balance = balance;
+      last.netContributions = netContributions;
+    } else {
+      timeline.push({ dayKey, balance, netContributions });
+    }
+  }
+
+  return timeline;
+}
+
+/**
+ * Rebuilds an account's values on past days from its ledger, its cash
+ * entries and historical closing prices. Holdings without a close on or
+ * before a day are valued at cost. Closes are converted into the base
+ * currency at each day's rate, and cost at the rates of the purchase dates.
+ * @param portfolioId - Account to rebuild
+ * @param days - Trading days in ascending order
+ * @param baseCurrency - Currency values are recorded in
+ * @returns Values for each day
+ */
+async function buildHistoricalSnapshots(
+  portfolioId: string,
+  days: string[],
+  baseCurrency: string,
+): Promise<Array<SnapshotValues & { dayKey: string }>> {
+  const [assets, cashEntries] = await Promise.all([
+    prisma.asset.findMany({
+      where: { portfolioId, deletedAt: null },
+      include: { transactions: { include: LEDGER_ENTRY_INCLUDE } },
+    }),
+    prisma.cashTransaction.findMany({
+      where: { portfolioId, ...ACTIVE_CASH_WHERE },
+      select: { type: true, amount: true, date: true },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    }),
+  ]);
+
+  const rates = await loadFxRates([baseCurrency, ...assets.map((asset) => asset.currency)]);
+  const histories = await loadCloseHistories(assets);
+
+  const holdings = assets.map((asset) => {
+    const lotCost = (lot: { acquiredAt: Date; costBasis: number }) =>
+      lot.costBasis * fxRate(rates, asset.currency, baseCurrency, lot.acquiredAt);
+    // Positions from before the ledger are a single buy on their purchase date
+    const timeline = asset.transactions.length > 0
+      ? positionTimeline(asset.transactions, lotCost)
+      : [{
+          dayKey: toDayKey(asset.purchaseDate),
+          shares: asset.shares,
+          costBasis: lotCost({ acquiredAt: asset.purchaseDate, costBasis: asset.shares * asset.avgPrice }),
+        }];
+    return {
+      currency: asset.currency,
+      positionOn: seriesCursor(timeline),
+      closeOn: seriesCursor(
+        (histories.get(asset.id) ?? []).map((bar) => ({ dayKey: toDayKey(bar.date), close: bar.close })),
+      ),
+    };
+  });
+  const cashOn = seriesCursor(cashTimeline(cashEntries));
+
+  return days.map((dayKey) => {
+    let positionsValue = 0;
+    let costBasis = 0;
+
+    for (const { currency, positionOn, closeOn } of holdings) {
+      const position = positionOn(dayKey);
+      const bar = closeOn(dayKey);
+      if (!position || position.shares <= SHARE_EPSILON) {
+        continue;
+      }
+      positionsValue += bar
+        ? position.shares * bar.close * fxRate(rates, currency, baseCurrency, dayKey)
+        : position.costBasis;
+      costBasis += position.costBasis;
+    }
+
+    const cash = cashOn(dayKey);
+    const cashBalance = cash?.balance ?? 0;
+
+    return {
+      dayKey,
+      positionsValue,
+      costBasis,
+      cashBalance,
+      netContributions: cash?.netContributions ?? 0,
+      totalValue: positionsValue + cashBalance,
+    };
+  });
+}
+
+/**
+ * Earliest dated activity (trade, position or cash entry) in an account
+ */
+async function firstActivityDate(portfolioId: string): Promise<Date | null> {
+  const [trades, assets, cash] = await Promise.all([
+    prisma.transaction.aggregate({ where: { asset: { portfolioId, deletedAt: null } }, _min: { date: true } }),
+    prisma.asset.aggregate({ where: { portfolioId, deletedAt: null }, _min: { purchaseDate: true } }),
+    prisma.cashTransaction.aggregate({ where: { portfolioId, ...ACTIVE_CASH_WHERE }, _min: { date: true } }),
+  ]);
+
+  const dates = [trades._min.date, assets._min.purchaseDate, cash._min.date]
+    .filter((date): date is Date => date !== null)
+    .map((date) => date.getTime());
+
+  return dates.length > 0 ? new Date(Math.min(...dates)) : null;
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Fills in an account's missing snapshots, from the day after its latest
+ * snapshot (or its first activity) through yesterday
+ * @param userId - Owner of the account
+ * @param portfolioId - Account to backfill
+ * @returns Number of snapshots created
+ */
+export async function backfillSnapshots(userId: string, portfolioId: string): Promise<number> {
+  const today = fromDayKey(toDayKey(new Date()));
+  const latest = await prisma.portfolioSnapshot.findFirst({
+    where: { portfolioId },
+    orderBy: { date: 'desc' },
+    select: { date: true },
+  });
+
+  let start = latest
+    ? new Date(latest.date.getTime() + DAY_MS)
+    : await firstActivityDate(portfolioId);
+  if (!start) {
+    return 0;
+  }
+
+  const earliest = new Date(today.getTime() - SNAPSHOT_LIMITS.MAX_BACKFILL_DAYS * DAY_MS);
+  if (start < earliest) {
+    start = earliest;
+  }
+
+  const days = tradingDaysBetween(start, new Date(today.getTime() - DAY_MS));
+  if (days.length === 0) {
+    return 0;
+  }
+
+  const snapshots = await buildHistoricalSnapshots(portfolioId, days, await loadBaseCurrency(userId));
+  const { count } = await prisma.portfolioSnapshot.createMany({
+    data: snapshots.map(({ dayKey, ...values }) => ({
+      ...values,
+      date: fromDayKey(dayKey),
+      portfolioId,
+      userId,
+    })),
+    skipDuplicates: true,
+  });
+
+  return count;
+}
+
+/**
+ * Records today's snapshot of each account from real-time quotes,
+ * replacing any earlier snapshot of the day. Does nothing on weekends.
+ * @param userId - Owner of the accounts
+ * @param portfolioIds - Accounts to snapshot
+ */
+export async function recordDailySnapshots(userId: string, portfolioIds: string[]): Promise<void> {
+  const now = new Date();
+  if (!isTradingDay(now)) {
+    return;
+  }
+  const date = fromDayKey(toDayKey(now));
+
+  const [positions, cashSummaries, baseCurrency] = await Promise.all([
+    loadPositions(userId),
+    loadCashSummaries(userId),
+    loadBaseCurrency(userId),
+  ]);
+  const assets = await enrichPositions(positions.filter((position) => position.shares > 0), baseCurrency);
+
+  for (const portfolioId of portfolioIds) {
+    const held = assets.filter((asset) => asset.portfolioId === portfolioId);
+    const cash = cashSummaries.get(portfolioId);
+    if (held.length === 0 && !cash) {
+      continue;
+    }
+
+    // Holdings without a quote are valued at cost rather than zero
+    const positionsValue = held.reduce(
+      (sum, asset) => sum + (asset.currentPrice > 0 ? asset.currentValue : asset.totalCost),
+      0,
+    );
+    const cashBalance = cash?.balance ?? 0;
+    const values: SnapshotValues = {
+      positionsValue,
+      costBasis: held.reduce((sum, asset) => sum + asset.totalCost, 0),
+      cashBalance,
+      netContributions: cash?.netContributions ?? 0,
+      totalValue: positionsValue + cashBalance,
+    };
+
+    await prisma.portfolioSnapshot.upsert({
+      where: { portfolioId_date: { portfolioId, date } },
+      create: { ...values, date, portfolioId, userId },
+      update: values,
+    });
+  }
+}
+
+/**
+ * Brings a user's snapshots up to date: backfills missed days in every
+ * account and records today's values. Runs at most once per refresh
+ * interval unless forced; writes to the portfolio reset the interval.
+ * @param userId - Owner of the accounts
+ * @param force - Refresh even if recently refreshed
+ */
+export async function recordSnapshots(userId: string, force = false): Promise<void> {
+  const refreshKey = snapshotRefreshKey(userId);
+  if (!force && (await cache.get(refreshKey))) {
+    return;
+  }
+
+  await ensureDefaultPortfolio(prisma, userId);
+  const portfolios = await prisma.portfolio.findMany({
+    where: { userId },
+    select: { id: true },
+  });
+  const portfolioIds = portfolios.map((portfolio) => portfolio.id);
+
+  for (const portfolioId of portfolioIds) {
+    await backfillSnapshots(userId, portfolioId);
+  }
+  await recordDailySnapshots(userId, portfolioIds);
+
+  await cache.set(refreshKey, true, SNAPSHOT_LIMITS.REFRESH_INTERVAL);
+}
+
+// Progress of the daily job through the users, kept between its runs
+const SNAPSHOT_CRON_KEY = 'cron:snapshots:progress';
+
+interface SnapshotCronProgress {
+  dayKey: string;
+  cursor: string | null; // Null once every user has been reached
+}
+
+/**
+ * Brings the snapshots of every user with positions or cash up to date, a
+ * batch of users at a time in ID order. Once the time budget is spent the
+ * run stops and saves the cursor, so the next scheduled run of the day
+ * resumes after the last user reached; runs after the last user has been
+ * reached do nothing until the next day.
+ * @param now - Time of the run
+ * @returns Users recorded, IDs of failed users and the cursor to resume from
+ */
+export async function recordAllSnapshots(now: Date = new Date()): Promise<SnapshotRun> {
+  const deadline = Date.now() + SNAPSHOT_LIMITS.CRON_TIME_BUDGET * 1000;
+  const run: SnapshotRun = { recorded: 0, failed: [], nextCursor: null };
+  const dayKey = toDayKey(now);
+
+  const progress = await cache.get<SnapshotCronProgress>(SNAPSHOT_CRON_KEY);
+  if (progress?.dayKey === dayKey && progress.cursor === null) {
+    return run;
+  }
+  let after = progress?.dayKey === dayKey ? progress.cursor : null;
+  let users: Array<{ id: string }>;
+
+  do {
+    users = await prisma.user.findMany({
+      where: {
+        ...(after && { id: { gt: after } }),
+        OR: [{ assets: { some: {} } }, { cashTransactions: { some: {} } }],
+      },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: SNAPSHOT_LIMITS.CRON_BATCH_SIZE,
+    });
+
+    const results = await Promise.allSettled(users.map(({ id }) => recordSnapshots(id, true)));
+    users.forEach(({ id }, i) => {
+      if (results[i]?.status === 'rejected') {
+        run.failed.push(id);
+      } else {
+        run.recorded++;
+      }
+    });
+
+    after = users[users.length - 1]?.id ?? after;
+    if (users.length === SNAPSHOT_LIMITS.CRON_BATCH_SIZE && Date.now() >= deadline) {
+      run.nextCursor = after;
+      break;
+    }
+  } while (users.length === SNAPSHOT_LIMITS.CRON_BATCH_SIZE);
+
+  const saved: SnapshotCronProgress = { dayKey, cursor: run.nextCursor };
+  await cache.set(SNAPSHOT_CRON_KEY, saved, SNAPSHOT_LIMITS.CRON_PROGRESS_TTL);
+  return run;
+}
+
+// ============================================
+// Performance History
+// ============================================
+
+/**
+ * First day of a performance range, or null for all history
+ */
+export function rangeStart(range: PerformanceRange, now: Date = new Date()): Date | null {
+  const start = fromDayKey(toDayKey(now));
+  switch (range) {
+    case '1M':
+      start.setUTCMonth(start.getUTCMonth() - 1);
+      return start;
+    case '3M':
+      start.setUTCMonth(start.getUTCMonth() - 3);
+      return start;
+    case 'YTD':
+      return new Date(Date.UTC(now.getUTCFullYear(), 0, 1));
+    case '1Y':
+      start.setUTCFullYear(start.getUTCFullYear() - 1);
+      return start;
+    case 'ALL':
+    default:
+      return null;
+  }
+}
+
+/**
+ * Monday of a day's week
+ */
+function weekOf(dayKey: string): string {
+  const date = fromDayKey(dayKey);
+  const offset = (date.getUTCDay() + 6) % 7;
+  return toDayKey(new Date(date.getTime() - offset * DAY_MS));
+}
+
+/**
+ * Keeps the last point of each period, e.g. each month's closing value
+ */
+function lastPerPeriod(
+  points: ChartDataPoint[],
+  periodOf: (dayKey: string) => string,
+): ChartDataPoint[] {
+  const periods = new Map<string, ChartDataPoint>();
+  for (const point of points) {
+    periods.set(periodOf(point.date), point);
+  }
+  return [...periods.values()];
+}
+
+/**
+ * Loads the snapshot history of an account, or of every account summed by
+ * day, over a range
+ * @param userId - Owner of the accounts
+ * @param portfolioId - Account to load, or null for all accounts
+ * @param range - Time range
+ * @returns Performance series
+ */
+export async function loadPerformance(
+  userId: string,
+  portfolioId: string | null,
+  range: PerformanceRange,
+): Promise<PerformanceData> {
+  const start = rangeStart(range);
+  const rows = await prisma.portfolioSnapshot.findMany({
+    where: {
+      userId,
+      ...(portfolioId && { portfolioId }),
+      ...(start && { date: { gte: start } }),
+    },
+    orderBy: { date: 'asc' },
+  });
+
+  const byDay = new Map<string, PerformancePoint>();
+  for (const row of rows) {
+    const date = toDayKey(row.date);
+    const point = byDay.get(date) ?? {
+      date,
+      totalValue: 0,
+      positionsValue: 0,
+      costBasis: 0,
+      cashBalance: 0,
+      netContributions: 0,
+    };
+    point.totalValue += row.totalValue;
+    point.positionsValue += row.positionsValue;
+    point.costBasis += row.costBasis;
+    point.cashBalance += row.cashBalance;
+    point.netContributions += row.netContributions;
+    byDay.set(date, point);
+  }
+
+  const snapshots = [...byDay.values()];
+  const daily = snapshots.map((point) => ({ date: point.date, value: point.totalValue }));
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  const change = first && last ? last.totalValue - first.totalValue : 0;
+
+  return {
+    range,
+    daily,
+    weekly: lastPerPeriod(daily, weekOf),
+    monthly: lastPerPeriod(daily, (dayKey) => dayKey.slice(0, 7)),
+    yearly: lastPerPeriod(daily, (dayKey) => dayKey.slice(0, 4)),
+    snapshots,
+    change,
+    changePercent: first && first.totalValue !== 0 ? change / Math.abs(first.totalValue) : 0,
+  };
+}
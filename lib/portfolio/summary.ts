@@ -0,0 +1,332 @@
+/**
+ * lib/portfolio/summary.ts
+ * Portfolio summary - totals, allocation and returns of an account or of
+ * every account, cached per user, account and period
+ */
+
+import { AssetClass } from '@prisma/client';
+
+import cache from '@/lib/cache';
+import { ASSET_CLASS_LABELS, CASH_LABEL, CHART_COLORS, UNCLASSIFIED_LABEL, UNTAGGED_LABEL } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { groupBy } from '@/lib/utils';
+import { AllocationData, Currency, EnrichedAsset, FeesSummary, PerformanceRange, PortfolioSummary } from '@/types';
+
+import { summaryCacheKey } from './accounts';
+import { combineCashSummaries, loadCashSummaries } from './cash';
+import { loadAssetClassifications } from './classification';
+import { fxRate, loadBaseCurrency, loadFxRates } from './fx';
+import { loadOptionsReport } from './options';
+import { convertRealizedProfitLoss, loadPositions, valuePosition } from './positions';
+import { loadReturns } from './returns';
+import { recordSnapshots } from './snapshots';
+import { loadQuotes } from './valuations';
+
+/**
+ * Adds up the commissions and fees paid on trades, in total and by year
+ * @param userId - Owner of the trades
+ * @param portfolioId - Account, or null for all accounts
+ * @param baseCurrency - Currency to convert the fees into
+ * @returns Fees paid, converted at the rates of the trade dates
+ */
+async function loadFeesPaid(
+  userId: string,
+  portfolioId: string | null,
+  baseCurrency: Currency,
+): Promise<FeesSummary> {
+  const trades = await prisma.transaction.findMany({
+    where: { userId, fees: { gt: 0 }, asset: { deletedAt: null, ...(portfolioId && { portfolioId }) } },
+    select: { fees: true, date: true, asset: { select: { currency: true } } },
+  });
+  const rates = await loadFxRates([baseCurrency, ...trades.map((trade) => trade.asset.currency)]);
+
+  const byYear = new Map<number, number>();
+  for (const trade of trades) {
+    const year = trade.date.getUTCFullYear();
+    const amount = trade.fees * fxRate(rates, trade.asset.currency, baseCurrency, trade.date);
+    byYear.set(year, (byYear.get(year) ?? 0) + amount);
+  }
+
+  return {
+    total: [...byYear.values()].reduce((sum, amount) => sum + amount, 0),
+    byYear: [...byYear]
+      .sort((a, b) => b[0] - a[0])
+      .map(([year, amount]) => ({ year, amount })),
+  };
+}
+
+/**
+ * Builds the portfolio summary, or returns the cached one. Values are in
+ * the user's base currency.
+ * @param userId - Owner of the portfolio
+ * @param portfolioId - Account, or null for all accounts
+ * @param period - Period covered by the returns
+ * @param readOnly - Skip recording due snapshots and caching the result, for
+ * viewers who do not own the portfolio such as share links
+ * @returns Portfolio summary
+ */
+export async function loadPortfolioSummary(
+  userId: string,
+  portfolioId: string | null,
+  period: PerformanceRange,
+  readOnly = false,
+): Promise<PortfolioSummary> {
+  // Try cache first (user, account and period specific)
+  const cacheKey = summaryCacheKey(userId, portfolioId, period);
+  const cached = await cache.get<PortfolioSummary>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+  
+  // Derive positions (including closed ones, for realized P/L) from the ledger
+  const [positions, cashByAccount, baseCurrency, options] = await Promise.all([
+    loadPositions(userId, portfolioId),
+    loadCashSummaries(userId, portfolioId),
+    loadBaseCurrency(userId),
+    loadOptionsReport(userId, portfolioId),
+  ]);
+  const fees = await loadFeesPaid(userId, portfolioId, baseCurrency);
+  const rates = await loadFxRates([baseCurrency, ...positions.map(p => p.currency)]);
+  const realizedProfitLoss = positions.reduce(
+    (sum, p) => sum + convertRealizedProfitLoss(p, rates, baseCurrency),
+    0,
+  ) + options.realizedProfitLoss;
+  const assets = positions.filter(asset => asset.shares > 0);
+  const cash = combineCashSummaries(cashByAccount.values());
+  const cashFields = {
+    cashBalance: cash.balance,
+    netContributions: cash.netContributions,
+    cashIncome: cash.income,
+    fees,
+    optionsValue: options.totalValue,
+    optionCount: options.open.length,
+  };
+  
+  if (assets.length === 0 && cash.balance === 0 && options.open.length === 0) {
+    const emptySummary: PortfolioSummary = {
+      baseCurrency,
+      totalValue: 0,
+      totalCost: 0,
+      totalProfitLoss: 0,
+      totalProfitLossPercent: 0,
+      priceProfitLoss: 0,
+      fxProfitLoss: 0,
+      realizedProfitLoss,
+      dayChange: 0,
+      dayChangePercent: 0,
+      assetCount: 0,
+      ...cashFields,
+      topGainers: [],
+      topLosers: [],
+      allocation: [],
+      allocationByAsset: [],
+      allocationByIndustry: [],
+      allocationByCountry: [],
+      allocationByMarketCap: [],
+      allocationByAssetClass: [],
+      allocationByAccount: [],
+      allocationByTag: [],
+      returnPeriod: period,
+      returns: { timeWeighted: null, moneyWeighted: null, annualized: false },
+      positionReturns: [],
+    };
+
+    // Cache empty summary for shorter time (1 minute) to ensure fresh data for new users
+    if (!readOnly) {
+      await cache.set(cacheKey, emptySummary, 60);
+    }
+    
+    return emptySummary;
+  }
+  
+  // Fetch real-time quotes and classifications for all assets
+  const [quotes, classifications] = await Promise.all([
+    loadQuotes(assets),
+    loadAssetClassifications(assets),
+  ]);
+
+  // Enrich assets with real-time data, converted into the base currency
+  const enrichedAssets: EnrichedAsset[] = assets.map((asset) => {
+    const quote = quotes.get(asset.id);
+    
+    return {
+      ...valuePosition(asset, quote, rates, baseCurrency),
+      ...classifications.get(asset.id),
+      companyName: quote?.name ?? asset.ticker,
+    };
+  });
+  
+  // Calculate totals. Cash counts toward value but not toward market gains.
+  // Open options count toward both, written ones at a negative value and
+  // cost; their gains are counted as price gains.
+  const positionsValue = enrichedAssets.reduce((sum, asset) => sum + asset.currentValue, 0);
+  const totalValue = positionsValue + options.totalValue + cash.balance;
+  const totalCost = enrichedAssets.reduce((sum, asset) => sum + asset.totalCost, 0) + options.totalCost;
+  const totalProfitLoss = positionsValue + options.totalValue - totalCost;
+  const totalProfitLossPercent = totalCost > 0 ? (totalProfitLoss / totalCost) : 0;
+  const priceProfitLoss = enrichedAssets.reduce((sum, asset) => sum + asset.priceProfitLoss, 0) +
+    options.unrealizedProfitLoss;
+  const fxProfitLoss = enrichedAssets.reduce((sum, asset) => sum + asset.fxProfitLoss, 0);
+  const dayChange = enrichedAssets.reduce((sum, asset) => sum + asset.dayChange, 0);
+  const dayChangePercent = totalValue > 0 ? (dayChange / (totalValue - dayChange)) : 0;
+  
+  // Get top gainers and losers
+  const sortedByReturn = [...enrichedAssets].sort(
+    (a, b) => b.profitLossPercent - a.profitLossPercent
+  );
+  const topGainers = sortedByReturn
+    .filter(a => a.profitLossPercent > 0)
+    .slice(0, 5);
+  const topLosers = sortedByReturn
+    .filter(a => a.profitLossPercent < 0)
+    .slice(-5)
+    .reverse();
+  
+  // Allocations are shares of what is held; a negative cash balance
+  // (buys recorded without deposits) gets no slice
+  const cashSlice = Math.max(cash.balance, 0);
+  const allocationTotal = positionsValue + cashSlice;
+  const cashAllocation: AllocationData[] = cashSlice > 0
+    ? [{
+        sector: CASH_LABEL,
+        name: CASH_LABEL,
+        value: cashSlice,
+        percentage: (cashSlice / allocationTotal) * 100,
+        color: CHART_COLORS.CASH,
+      }]
+    : [];
+
+  // Calculate allocation by sector, industry, country, market cap and
+  // asset class
+  const allocateBy = (
+    field: 'sector' | 'industry' | 'country' | 'marketCapRange' | 'assetClass',
+    labelOf: (key: string) => string = (key) => key || UNCLASSIFIED_LABEL,
+  ): AllocationData[] =>
+    Object.entries(groupBy(enrichedAssets, field)).map(
+      ([key, assets], index): AllocationData => {
+        const groupValue = assets.reduce((sum, asset) => sum + asset.currentValue, 0);
+        const label = labelOf(key);
+        return {
+          sector: label,
+          name: label,
+          value: groupValue,
+          percentage: (groupValue / allocationTotal) * 100, // Convert to percentage
+          color: CHART_COLORS.SECTORS[index % CHART_COLORS.SECTORS.length],
+        };
+      }
+    ).concat(cashAllocation).sort((a, b) => b.value - a.value);
+  const allocation = allocateBy('sector');
+  const allocationByIndustry = allocateBy('industry');
+  const allocationByCountry = allocateBy('country');
+  const allocationByMarketCap = allocateBy('marketCapRange');
+  const allocationByAssetClass = allocateBy('assetClass', (key) => ASSET_CLASS_LABELS[key as AssetClass]);
+  
+  // Alternative allocation by asset (a ticker held in several accounts
+  // counts once)
+  const byTicker = groupBy(enrichedAssets, 'ticker');
+  const allocationByAsset: AllocationData[] = Object.entries(byTicker)
+    .map(([ticker, assets], index): AllocationData => {
+      const tickerValue = assets.reduce((sum, asset) => sum + asset.currentValue, 0);
+      return {
+        sector: assets[0]?.sector || UNCLASSIFIED_LABEL,
+        name: ticker,
+        value: tickerValue,
+        percentage: (tickerValue / allocationTotal) * 100, // Convert to percentage
+        color: CHART_COLORS.SECTORS[index % CHART_COLORS.SECTORS.length],
+      };
+    })
+    .concat(cashAllocation)
+    .sort((a, b) => b.value - a.value);
+
+  // Allocation by tag. Shares of a position with several tags are counted
+  // in each, so tag percentages can add up to more than 100.
+  const tagValues = new Map<string, number>();
+  for (const asset of enrichedAssets) {
+    for (const tag of asset.tags.length > 0 ? asset.tags : [UNTAGGED_LABEL]) {
+      tagValues.set(tag, (tagValues.get(tag) ?? 0) + asset.currentValue);
+    }
+  }
+  const allocationByTag: AllocationData[] = [...tagValues]
+    .map(([tag, tagValue], index): AllocationData => ({
+      sector: tag,
+      name: tag,
+      value: tagValue,
+      percentage: (tagValue / allocationTotal) * 100, // Convert to percentage
+      color: CHART_COLORS.SECTORS[index % CHART_COLORS.SECTORS.length],
+    }))
+    .concat(cashAllocation)
+    .sort((a, b) => b.value - a.value);
+
+  // Allocation by account, when summarizing all accounts
+  let allocationByAccount: AllocationData[] = [];
+  if (portfolioId === null) {
+    const portfolios = await prisma.portfolio.findMany({
+      where: { userId: userId },
+      select: { id: true, name: true },
+    });
+    const byAccount = groupBy(enrichedAssets, 'portfolioId');
+    allocationByAccount = portfolios
+      .map(({ id, name }, index) => {
+        const accountValue = (byAccount[id] ?? []).reduce((sum, asset) => sum + asset.currentValue, 0) +
+          Math.max(cashByAccount.get(id)?.balance ?? 0, 0);
+        return {
+          sector: name,
+          name,
+          value: accountValue,
+          percentage: (accountValue / allocationTotal) * 100, // Convert to percentage
+          color: CHART_COLORS.SECTORS[index % CHART_COLORS.SECTORS.length],
+        };
+      })
+      .filter(account => account.value > 0)
+      .sort((a, b) => b.value - a.value);
+  }
+  
+  // Time- and money-weighted returns, valuing unquoted positions at cost
+  if (!readOnly) {
+    await recordSnapshots(userId);
+  }
+  const { returns, positionReturns } = await loadReturns(
+    userId,
+    portfolioId,
+    period,
+    new Map(enrichedAssets.map(asset => [
+      asset.id,
+      asset.currentPrice > 0 ? asset.currentValue : asset.totalCost,
+    ])),
+  );
+  
+  const summary: PortfolioSummary = {
+    baseCurrency,
+    totalValue,
+    totalCost,
+    totalProfitLoss,
+    totalProfitLossPercent,
+    priceProfitLoss,
+    fxProfitLoss,
+    realizedProfitLoss,
+    dayChange,
+    dayChangePercent,
+    assetCount: assets.length,
+    ...cashFields,
+    topGainers,
+    topLosers,
+    allocation, // By sector
+    allocationByAsset, // By individual asset
+    allocationByIndustry,
+    allocationByCountry,
+    allocationByMarketCap, // By MARKET_CAP_RANGES bucket
+    allocationByAssetClass, // By ASSET_CLASSES
+    allocationByAccount, // By account
+    allocationByTag, // By tag
+    returnPeriod: period,
+    returns,
+    positionReturns,
+  };
+  
+  // Cache the summary for 5 minutes
+  if (!readOnly) {
+    await cache.set(cacheKey, summary, 300);
+  }
+
+  return summary;
+}
@@ -0,0 +1,191 @@
+/**
+ * lib/portfolio/trash.ts
+ * Deleted positions - moving them to the trash, restoring them, and purging
+ * them for good once their retention period has passed
+ */
+
+import { Asset, Prisma } from '@prisma/client';
+
+import { TRASH_CONFIG } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { TrashedAsset } from '@/types';
+
+import { clearSnapshotsFrom, invalidatePortfolioCache } from './accounts';
+import { linkDividendCash } from './cash';
+import { AssetNotFoundError, PortfolioError } from './errors';
+import { syncAssetPosition, syncWashSales } from './ledger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Outcome of the trash purge job
+ */
+export interface TrashPurgeRun {
+  purged: number;
+  failed: string[]; // IDs of positions left in the trash
+}
+
+// Positions deleted before this time are due to be purged
+const purgeCutoff = (now: Date) => new Date(now.getTime() - TRASH_CONFIG.RETENTION_DAYS * DAY_MS);
+
+/**
+ * Clears the snapshots a position contributed to, from its first trade on
+ */
+async function clearPositionSnapshots(client: Prisma.TransactionClient, asset: Asset): Promise<void> {
+  if (!asset.portfolioId) {
+    return;
+  }
+  const firstTrade = await client.transaction.findFirst({
+    where: { assetId: asset.id },
+    orderBy: { date: 'asc' },
+    select: { date: true },
+  });
+  await clearSnapshotsFrom(client, asset.portfolioId, firstTrade?.date ?? asset.purchaseDate);
+}
+
+/**
+ * Moves a position to the trash. It is left out of holdings, history, cash
+ * and reports until it is restored, and losses it replaced in wash sales
+ * are allowed again.
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the position
+ * @param assetId - Position to delete
+ * @returns The trashed position
+ * @throws AssetNotFoundError if the position does not exist or is already in the trash
+ * @throws LedgerError if the wash sales of its group cannot be redetected
+ */
+export async function trashAsset(
+  client: Prisma.TransactionClient,
+  userId: string,
+  assetId: string,
+): Promise<Asset> {
+  const asset = await client.asset.findFirst({ where: { id: assetId, userId, deletedAt: null } });
+  if (!asset) {
+    throw new AssetNotFoundError();
+  }
+
+  const trashed = await client.asset.update({ where: { id: asset.id }, data: { deletedAt: new Date() } });
+  await linkDividendCash(client, asset);
+  await syncWashSales(client, userId, [asset.ticker]);
+  await clearPositionSnapshots(client, asset);
+  return trashed;
+}
+
+/**
+ * Restores a position from the trash with its trades, dividends and
+ * valuations
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the position
+ * @param assetId - Position to restore
+ * @returns The restored position
+ * @throws PortfolioError if the position is not in the trash, or its account
+ * holds the ticker again
+ */
+export async function restoreAsset(
+  client: Prisma.TransactionClient,
+  userId: string,
+  assetId: string,
+): Promise<Asset> {
+  const asset = await client.asset.findFirst({ where: { id: assetId, userId, deletedAt: { not: null } } });
+  if (!asset) {
+    throw new PortfolioError('Asset not found in the trash');
+  }
+
+  const held = await client.asset.findFirst({
+    where: { userId, ticker: asset.ticker, portfolioId: asset.portfolioId, deletedAt: null },
+  });
+  if (held) {
+    throw new PortfolioError(
+      `${asset.ticker} is held in this account again. Delete that position before restoring this one.`,
+    );
+  }
+
+  await client.asset.update({ where: { id: asset.id }, data: { deletedAt: null } });
+  const { asset: restored } = await syncAssetPosition(client, asset.id);
+  await clearPositionSnapshots(client, asset);
+  return restored;
+}
+
+/**
+ * Lists a user's trashed positions, purging those past their retention
+ * period first
+ * @param userId - Owner of the positions
+ * @returns Trashed positions, most recently deleted first
+ */
+export async function listTrash(userId: string): Promise<TrashedAsset[]> {
+  await purgeExpiredTrash(new Date(), userId);
+
+  const assets = await prisma.asset.findMany({
+    where: { userId, deletedAt: { not: null } },
+    include: { portfolio: { select: { name: true } } },
+    orderBy: { deletedAt: 'desc' },
+  });
+
+  return assets.flatMap(({ portfolio, ...asset }) =>
+    asset.deletedAt
+      ? [{
+          id: asset.id,
+          ticker: asset.ticker,
+          assetClass: asset.assetClass,
+          currency: asset.currency,
+          shares: asset.shares,
+          portfolioId: asset.portfolioId,
+          accountName: portfolio?.name ?? null,
+          deletedAt: asset.deletedAt,
+          purgeAt: new Date(asset.deletedAt.getTime() + TRASH_CONFIG.RETENTION_DAYS * DAY_MS),
+        }]
+      : [],
+  );
+}
+
+/**
+ * Deletes a trashed position for good, with its trades, dividends and
+ * valuations
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the position
+ * @param assetId - Position to purge
+ * @throws PortfolioError if the position is not in the trash
+ */
+export async function purgeAsset(
+  client: Prisma.TransactionClient,
+  userId: string,
+  assetId: string,
+): Promise<void> {
+  const asset = await client.asset.findFirst({ where: { id: assetId, userId, deletedAt: { not: null } } });
+  if (!asset) {
+    throw new PortfolioError('Asset not found in the trash');
+  }
+
+  await client.cashTransaction.deleteMany({ where: { assetId: asset.id } });
+  await client.asset.delete({ where: { id: asset.id } });
+  await syncWashSales(client, userId, [asset.ticker]);
+}
+
+/**
+ * Purges every position that has been in the trash longer than the
+ * retention period
+ * @param now - Time to purge up to
+ * @param userId - Only purge this user's trash; every user's by default
+ * @returns Positions purged and left in the trash
+ */
+export async function purgeExpiredTrash(now: Date = new Date(), userId?: string): Promise<TrashPurgeRun> {
+  const expired = await prisma.asset.findMany({
+    where: { ...(userId && { userId }), deletedAt: { lt: purgeCutoff(now) } },
+    select: { id: true, userId: true },
+  });
+
+  const run: TrashPurgeRun = { purged: 0, failed: [] };
+  const userIds = new Set<string>();
+  for (const asset of expired) {
+    try {
+      await prisma.$transaction((tx) => purgeAsset(tx, asset.userId, asset.id));
+      run.purged++;
+      userIds.add(asset.userId);
+    } catch {
+      run.failed.push(asset.id);
+    }
+  }
+
+  await Promise.all([...userIds].map(invalidatePortfolioCache));
+  return run;
+}
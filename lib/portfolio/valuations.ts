@@ -0,0 +1,270 @@
+/**
+ * lib/portfolio/valuations.ts
+ * Prices of every asset class - market quotes and closing prices for
+ * listed assets, and the valuations users enter for manually priced ones
+ */
+
+import { Asset, ManualValuation, Prisma, Transaction } from '@prisma/client';
+
+import realDataClient from '@/lib/api/real-data-client';
+import { SNAPSHOT_LIMITS } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { RecordValuationInput } from '@/lib/validations';
+import { StockQuote } from '@/types';
+
+import { clearSnapshotsFrom } from './accounts';
+import { LedgerError } from './errors';
+
+/**
+ * Asset fields needed to price it
+ */
+export type PricedAsset = Pick<Asset, 'id' | 'ticker' | 'assetClass' | 'currency'>;
+
+/**
+ * Closing price of an asset on a day
+ */
+export interface DailyClose {
+  date: Date;
+  close: number;
+}
+
+// UTC midnight of the day a time falls on
+const startOfDay = (date: Date) => new Date(date.toISOString().slice(0, 10));
+
+/**
+ * Symbol an asset is quoted under. Crypto recorded without a quote
+ * currency (BTC) is quoted against the asset's currency (BTC-USD).
+ * @param asset - Asset to quote
+ */
+export function quoteSymbol(asset: Pick<Asset, 'ticker' | 'assetClass' | 'currency'>): string {
+  if (asset.assetClass === 'CRYPTO' && !asset.ticker.includes('-')) {
+    return `${asset.ticker}-${asset.currency}`;
+  }
+  return asset.ticker;
+}
+
+/**
+ * Loads the valuations of manually priced assets
+ * @param assetIds - Assets to load
+ * @returns Valuations by asset, oldest first
+ */
+async function loadValuations(assetIds: string[]): Promise<Map<string, ManualValuation[]>> {
+  const valuations = assetIds.length > 0
+    ? await prisma.manualValuation.findMany({
+        where: { assetId: { in: assetIds } },
+        orderBy: { date: 'asc' },
+      })
+    : [];
+  const byAsset = new Map<string, ManualValuation[]>();
+  for (const valuation of valuations) {
+    byAsset.set(valuation.assetId, [...(byAsset.get(valuation.assetId) ?? []), valuation]);
+  }
+  return byAsset;
+}
+
+/**
+ * Quote of a manually priced asset at its latest valuation. It only has a
+ * day change when the latest valuation was entered for today.
+ */
+function valuationQuote(asset: PricedAsset, valuations: ManualValuation[]): StockQuote | undefined {
+  const latest = valuations[valuations.length - 1];
+  if (!latest) {
+    return undefined;
+  }
+  const previous = valuations[valuations.length - 2];
+  const isToday = latest.date.getTime() === startOfDay(new Date()).getTime();
+  const change = isToday && previous ? latest.price - previous.price : 0;
+  return {
+    ticker: asset.ticker,
+    name: asset.ticker,
+    price: latest.price,
+    change,
+    changePercent: previous && change ? (change / previous.price) * 100 : 0,
+    dayHigh: latest.price,
+    dayLow: latest.price,
+    open: latest.price - change,
+    previousClose: latest.price - change,
+    volume: 0,
+    currency: asset.currency,
+    timestamp: latest.date,
+  };
+}
+
+/**
+ * Current quote of each asset. Listed assets are quoted by the market data
+ * client; manually priced assets at their latest valuation, and without a
+ * quote until one is entered.
+ * @param assets - Assets to price
+ * @returns Quote by asset ID
+ */
+export async function loadQuotes(assets: PricedAsset[]): Promise<Map<string, StockQuote>> {
+  const manual = assets.filter((asset) => asset.assetClass === 'MANUAL');
+  const listed = assets.filter((asset) => asset.assetClass !== 'MANUAL');
+  const symbols = [...new Set(listed.map(quoteSymbol))];
+
+  const [valuations, quotes] = await Promise.all([
+    loadValuations(manual.map((asset) => asset.id)),
+    Promise.all(symbols.map(async (symbol) => [symbol, await realDataClient.getQuote(symbol)] as const)),
+  ]);
+  const quoteMap = new Map(quotes);
+
+  const result = new Map<string, StockQuote>();
+  for (const asset of listed) {
+    const quote = quoteMap.get(quoteSymbol(asset));
+    if (quote) {
+      result.set(asset.id, quote);
+    }
+  }
+  for (const asset of manual) {
+    const quote = valuationQuote(asset, valuations.get(asset.id) ?? []);
+    if (quote) {
+      result.set(asset.id, quote);
+    }
+  }
+  return result;
+}
+
+/**
+ * Daily closing prices of each asset over the snapshot history period.
+ * Manually priced assets close at their valuations, each holding until the
+ * next one.
+ * @param assets - Assets to load
+ * @returns Closes by asset ID, oldest first
+ */
+export async function loadCloseHistories(assets: PricedAsset[]): Promise<Map<string, DailyClose[]>> {
+  const manual = assets.filter((asset) => asset.assetClass === 'MANUAL');
+  const listed = assets.filter((asset) => asset.assetClass !== 'MANUAL');
+  const symbols = [...new Set(listed.map(quoteSymbol))];
+
+  const [valuations, histories] = await Promise.all([
+    loadValuations(manual.map((asset) => asset.id)),
+    Promise.all(
+      symbols.map(async (symbol) => {
+        const history = await realDataClient.getHistoricalData(symbol, SNAPSHOT_LIMITS.HISTORY_PERIOD);
+        const closes = history
+          .map((bar) => ({ date: bar.date, close: bar.close }))
+          .sort((a, b) => a.date.getTime() - b.date.getTime());
+        return [symbol, closes] as const;
+      }),
+    ),
+  ]);
+  const historyMap = new Map(histories);
+
+  return new Map([
+    ...listed.map((asset) => [asset.id, historyMap.get(quoteSymbol(asset)) ?? []] as const),
+    ...manual.map((asset) => [
+      asset.id,
+      (valuations.get(asset.id) ?? []).map((valuation) => ({ date: valuation.date, close: valuation.price })),
+    ] as const),
+  ]);
+}
+
+/**
+ * Loads a manually priced asset of a user
+ * @throws LedgerError if the asset does not exist or is priced by the market
+ */
+async function findManualAsset(client: Prisma.TransactionClient, userId: string, assetId: string): Promise<Asset> {
+  const asset = await client.asset.findFirst({ where: { id: assetId, userId, deletedAt: null } });
+  if (!asset) {
+    throw new LedgerError('Asset not found');
+  }
+  if (asset.assetClass !== 'MANUAL') {
+    throw new LedgerError(`${asset.ticker} is priced from market quotes and cannot be valued manually`);
+  }
+  return asset;
+}
+
+/**
+ * Lists the valuations of a manually priced asset
+ * @param userId - Owner of the asset
+ * @param assetId - Asset to list
+ * @returns Valuations, newest first
+ * @throws LedgerError if the asset does not exist or is priced by the market
+ */
+export async function listValuations(userId: string, assetId: string): Promise<ManualValuation[]> {
+  await findManualAsset(prisma, userId, assetId);
+  return prisma.manualValuation.findMany({ where: { assetId }, orderBy: { date: 'desc' } });
+}
+
+/**
+ * Values a manually priced asset on a day, replacing any valuation already
+ * entered for that day
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the asset
+ * @param assetId - Asset to value
+ * @param input - Price per unit, date and notes
+ * @returns The stored valuation
+ * @throws LedgerError if the asset does not exist, is priced by the market,
+ * or the date is in the future
+ */
+export async function recordValuation(
+  client: Prisma.TransactionClient,
+  userId: string,
+  assetId: string,
+  input: RecordValuationInput,
+): Promise<ManualValuation> {
+  const asset = await findManualAsset(client, userId, assetId);
+  const date = startOfDay(input.date);
+  if (date > new Date()) {
+    throw new LedgerError('Valuations cannot be dated in the future');
+  }
+
+  const valuation = await client.manualValuation.upsert({
+    where: { assetId_date: { assetId, date } },
+    create: { assetId, date, price: input.price, notes: input.notes },
+    update: { price: input.price, notes: input.notes },
+  });
+  if (asset.portfolioId) {
+    await clearSnapshotsFrom(client, asset.portfolioId, date);
+  }
+  return valuation;
+}
+
+/**
+ * Values a manually priced asset at the price of a trade, unless a
+ * valuation was already entered for the trade date
+ * @param client - Prisma transaction client
+ * @param assetId - Asset traded
+ * @param transaction - Trade of the asset
+ */
+export async function recordTradeValuation(
+  client: Prisma.TransactionClient,
+  assetId: string,
+  transaction: Transaction,
+): Promise<void> {
+  if (transaction.price <= 0) {
+    return;
+  }
+  const date = startOfDay(transaction.date);
+  await client.manualValuation.upsert({
+    where: { assetId_date: { assetId, date } },
+    create: { assetId, date, price: transaction.price, notes: `${transaction.type.toLowerCase()} price` },
+    update: {},
+  });
+}
+
+/**
+ * Deletes a valuation of a manually priced asset
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the asset
+ * @param assetId - Asset the valuation belongs to
+ * @param valuationId - Valuation to delete
+ * @throws LedgerError if the asset or valuation does not exist
+ */
+export async function deleteValuation(
+  client: Prisma.TransactionClient,
+  userId: string,
+  assetId: string,
+  valuationId: string,
+): Promise<void> {
+  const asset = await findManualAsset(client, userId, assetId);
+  const valuation = await client.manualValuation.findFirst({ where: { id: valuationId, assetId } });
+  if (!valuation) {
+    throw new LedgerError('Valuation not found');
+  }
+
+  await client.manualValuation.delete({ where: { id: valuation.id } });
+  if (asset.portfolioId) {
+    await clearSnapshotsFrom(client, asset.portfolioId, valuation.date);
+  }
+}
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { LotLedgerEntry } from './lots';
+import { detectWashSales, identicalTickerSets } from './wash-sales';
+
+function trade(id: string, type: 'BUY' | 'SELL', date: string, shares: number, price: number): LotLedgerEntry {
+  return { id, type, date: new Date(date), shares, price, fees: 0, ratio: null, lotMethod: null };
+}
+
+describe('identicalTickerSets', () => {
+  test('keeps ungrouped tickers apart and merges groups sharing a ticker', () => {
+    const groups = [
+      ['VOO', 'IVV'],
+      ['IVV', 'SPLG'],
+    ];
+    assert.deepEqual(identicalTickerSets(['VOO', 'AAPL', 'SPLG'], groups), [['VOO', 'IVV', 'SPLG'], ['AAPL']]);
+  });
+});
+
+describe('detectWashSales', () => {
+  const buy = trade('b1', 'BUY', '2024-01-02', 10, 100);
+  const loss = trade('s1', 'SELL', '2024-03-01', 10, 80);
+
+  test('disallows a loss replaced within the window', () => {
+    const entries = [buy, loss, trade('b2', 'BUY', '2024-03-20', 10, 85)];
+    assert.deepEqual(detectWashSales([{ currency: 'USD', entries }]), [
+      { saleId: 's1', lotId: 'b1', replacementId: 'b2', shares: 10, disallowedLoss: 200 },
+    ]);
+  });
+
+  test('disallows only the shares that were replaced', () => {
+    const entries = [buy, loss, trade('b2', 'BUY', '2024-02-15', 4, 90)];
+    const [match] = detectWashSales([{ currency: 'USD', entries }]);
+    assert.equal(match?.shares, 4);
+    assert.equal(match?.disallowedLoss, 80);
+  });
+
+  test('ignores purchases outside the window and sales at a gain', () => {
+    const late = [buy, loss, trade('b2', 'BUY', '2024-04-01', 10, 85)];
+    const gain = [buy, trade('s1', 'SELL', '2024-03-01', 10, 120), trade('b2', 'BUY', '2024-03-02', 10, 85)];
+    assert.deepEqual(detectWashSales([{ currency: 'USD', entries: late }]), []);
+    assert.deepEqual(detectWashSales([{ currency: 'USD', entries: gain }]), []);
+  });
+
+  test('matches purchases of an identical ticker in the same currency', () => {
+    const replacement = [trade('r1', 'BUY', '2024-03-05', 10, 82)];
+    const [match] = detectWashSales([
+      { currency: 'USD', entries: [buy, loss] },
+      { currency: 'USD', entries: replacement },
+    ]);
+    assert.equal(match?.replacementId, 'r1');
+    assert.deepEqual(detectWashSales([
+      { currency: 'USD', entries: [buy, loss] },
+      { currency: 'EUR', entries: replacement },
+    ]), []);
+  });
+});
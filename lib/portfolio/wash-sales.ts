@@ -0,0 +1,302 @@
+/**
+ * lib/portfolio/wash-sales.ts
+ * Wash-sale detection - losses realized within 30 days before or after a
+ * purchase of the same or a substantially identical ticker are disallowed
+ * and added to the basis of the replacement lot
+ */
+
+import { Prisma } from '@prisma/client';
+
+import { WASH_SALE_CONFIG } from '@/lib/constants';
+import prisma from '@/lib/db';
+import { WashSaleEntry } from '@/types';
+
+import { LotDisposal, LotLedgerEntry, replayLots, TaxLot } from './lots';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Losses smaller than this are rounding noise, not wash sales
+const LOSS_EPSILON = 1e-6;
+
+/**
+ * Ledger of one position in a group of identical tickers
+ */
+export interface WashSaleLedger {
+  currency: string;
+  entries: LotLedgerEntry[];
+}
+
+/**
+ * Part of a loss sale matched to replacement shares
+ */
+export interface WashSaleMatch {
+  saleId: string;
+  lotId: string;
+  replacementId: string;
+  shares: number;
+  disallowedLoss: number;
+}
+
+// ============================================
+// Detection
+// ============================================
+
+/**
+ * Splits tickers into groups of substantially identical tickers. A ticker
+ * in no configured group is only identical to itself, and groups sharing a
+ * ticker are merged.
+ * @param tickers - Tickers to group
+ * @param groups - User's configured groups
+ * @returns One list of identical tickers per group touched
+ */
+export function identicalTickerSets(tickers: string[], groups: string[][]): string[][] {
+  const sets: Array<Set<string>> = [];
+
+  for (const ticker of tickers) {
+    if (sets.some((set) => set.has(ticker))) {
+      continue;
+    }
+    const set = new Set([ticker]);
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const group of groups) {
+        if (group.some((t) => set.has(t)) && group.some((t) => !set.has(t))) {
+          group.forEach((t) => set.add(t));
+          grew = true;
+        }
+      }
+    }
+    sets.push(set);
+  }
+
+  return sets.map((set) => [...set]);
+}
+
+function dayNumber(date: Date): number {
+  return Math.floor(new Date(date).getTime() / DAY_MS);
+}
+
+function attachMatches(entries: LotLedgerEntry[], matches: WashSaleMatch[]): LotLedgerEntry[] {
+  return entries.map((entry) => ({
+    ...entry,
+    washSales: matches.filter((match) => match.saleId === entry.id),
+    washSaleReplacements: matches.filter((match) => match.replacementId === entry.id),
+  }));
+}
+
+/**
+ * Finds the wash sales among the ledgers of a group of identical tickers.
+ * Losses are checked in date order, since a disallowed loss raises the
+ * basis, and so the later gain or loss, of its replacement lot. Each loss
+ * is matched share for share to the earliest purchases within the window,
+ * excluding lots the same sale disposed of; a purchase replaces shares only
+ * once. Positions in other currencies are not treated as replacements.
+ * @param ledgers - Ledgers of every position in the group
+ * @returns Matched wash sales
+ * @throws LedgerError if a ledger cannot be replayed
+ */
+export function detectWashSales(ledgers: WashSaleLedger[]): WashSaleMatch[] {
+  const matches: WashSaleMatch[] = [];
+  const checked = new Set<string>();
+  const matchedShares = new Map<string, number>();
+  const purchases = new Set(
+    ledgers.flatMap((ledger) => ledger.entries.filter((entry) => entry.type === 'BUY').map((entry) => entry.id)),
+  );
+  const key = (disposal: LotDisposal) => `${disposal.saleId}:${disposal.lotId}`;
+
+  for (;;) {
+    const replays = ledgers.map((ledger) => ({
+      currency: ledger.currency,
+      ...replayLots(attachMatches(ledger.entries, matches)),
+    }));
+
+    let next: { disposal: LotDisposal; currency: string } | null = null;
+    for (const replay of replays) {
+      for (const disposal of replay.disposals) {
+        if (disposal.type !== 'SELL' || disposal.gain > -LOSS_EPSILON || checked.has(key(disposal))) {
+          continue;
+        }
+        if (!next || disposal.soldAt < next.disposal.soldAt) {
+          next = { disposal, currency: replay.currency };
+        }
+      }
+    }
+    if (!next) {
+      break;
+    }
+
+    const { disposal, currency } = next;
+    checked.add(key(disposal));
+
+    const soldBySale = new Set(
+      replays.flatMap((replay) =>
+        replay.disposals.filter((d) => d.saleId === disposal.saleId).map((d) => d.lotId),
+      ),
+    );
+    const soldDay = dayNumber(disposal.soldAt);
+    const replacements: TaxLot[] = replays
+      .filter((replay) => replay.currency === currency)
+      .flatMap((replay) => replay.lots)
+      .filter(
+        (lot) =>
+          purchases.has(lot.id) &&
+          !soldBySale.has(lot.id) &&
+          Math.abs(dayNumber(lot.acquiredAt) - soldDay) <= WASH_SALE_CONFIG.WINDOW_DAYS,
+      )
+      .sort((a, b) => a.acquiredAt.getTime() - b.acquiredAt.getTime());
+
+    const lossPerShare = -disposal.gain / disposal.shares;
+    let remaining = disposal.shares;
+    for (const lot of replacements) {
+      if (remaining <= LOSS_EPSILON) {
+        break;
+      }
+      const available = lot.shares - (matchedShares.get(lot.id) ?? 0);
+      if (available <= LOSS_EPSILON) {
+        continue;
+      }
+      const shares = Math.min(available, remaining);
+      matches.push({
+        saleId: disposal.saleId,
+        lotId: disposal.lotId,
+        replacementId: lot.id,
+        shares,
+        disallowedLoss: shares * lossPerShare,
+      });
+      matchedShares.set(lot.id, (matchedShares.get(lot.id) ?? 0) + shares);
+      remaining -= shares;
+    }
+  }
+
+  return matches;
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+/**
+ * Re-detects the wash sales of the groups the tickers belong to, across all
+ * of the user's accounts, and rewrites them. The positions' stored shares
+ * and gains are not updated here.
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the positions
+ * @param tickers - Tickers whose ledgers changed
+ * @returns IDs of every asset in the affected groups, to resync
+ * @throws LedgerError if a ledger cannot be replayed
+ */
+export async function refreshWashSales(
+  client: Prisma.TransactionClient,
+  userId: string,
+  tickers: string[],
+): Promise<string[]> {
+  const groups = await client.washSaleGroup.findMany({
+    where: { userId },
+    select: { tickers: true },
+  });
+
+  const assetIds: string[] = [];
+  for (const set of identicalTickerSets(tickers, groups.map((group) => group.tickers))) {
+    const ledgers = await client.asset.findMany({
+      where: { userId, ticker: { in: set } },
+      include: { transactions: { include: { lotSelections: true } } },
+    });
+    // Positions in the trash neither make nor replace wash sales, but their
+    // old matches are cleared with the rest
+    const transactionIds = ledgers.flatMap((asset) => asset.transactions.map((entry) => entry.id));
+    const assets = ledgers.filter((asset) => !asset.deletedAt);
+    const matches = detectWashSales(
+      assets.map((asset) => ({ currency: asset.currency, entries: asset.transactions })),
+    );
+
+    await client.washSale.deleteMany({
+      where: {
+        userId,
+        OR: [{ saleId: { in: transactionIds } }, { replacementId: { in: transactionIds } }],
+      },
+    });
+    if (matches.length > 0) {
+      await client.washSale.createMany({
+        data: matches.map((match) => ({ ...match, userId })),
+      });
+    }
+    assetIds.push(...assets.map((asset) => asset.id));
+  }
+
+  return assetIds;
+}
+
+/**
+ * Loads a user's groups of substantially identical tickers
+ */
+export async function loadWashSaleGroups(
+  userId: string,
+  client: Prisma.TransactionClient = prisma,
+): Promise<string[][]> {
+  const groups = await client.washSaleGroup.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  });
+  return groups.map((group) => group.tickers);
+}
+
+/**
+ * Replaces a user's groups of substantially identical tickers
+ * @param client - Prisma transaction client
+ * @param userId - Owner of the groups
+ * @param groups - New groups
+ * @returns Tickers of the old and new groups, whose wash sales may change
+ */
+export async function saveWashSaleGroups(
+  client: Prisma.TransactionClient,
+  userId: string,
+  groups: string[][],
+): Promise<string[]> {
+  const previous = await loadWashSaleGroups(userId, client);
+
+  await client.washSaleGroup.deleteMany({ where: { userId } });
+  if (groups.length > 0) {
+    await client.washSaleGroup.createMany({
+      data: groups.map((tickers) => ({ tickers, userId })),
+    });
+  }
+
+  return [...new Set([...previous, ...groups].flat())];
+}
+
+/**
+ * Loads the wash sales of a user's positions, newest sale first
+ * @param userId - Owner of the positions
+ * @param portfolioId - Account whose sales or replacements to list, or null for all accounts
+ * @returns Wash sales with the sold and replacement positions
+ */
+export async function loadWashSales(
+  userId: string,
+  portfolioId: string | null,
+): Promise<WashSaleEntry[]> {
+  const position = { select: { ticker: true, date: true, asset: { select: { currency: true, portfolioId: true } } } };
+  const washSales = await prisma.washSale.findMany({
+    where: {
+      userId,
+      ...(portfolioId && {
+        OR: [{ sale: { asset: { portfolioId } } }, { replacement: { asset: { portfolioId } } }],
+      }),
+    },
+    include: { sale: position, replacement: position },
+    orderBy: { sale: { date: 'desc' } },
+  });
+
+  return washSales.map((washSale) => ({
+    id: washSale.id,
+    ticker: washSale.sale.ticker,
+    soldAt: washSale.sale.date.toISOString(),
+    shares: washSale.shares,
+    disallowedLoss: washSale.disallowedLoss,
+    currency: washSale.sale.asset.currency,
+    portfolioId: washSale.sale.asset.portfolioId,
+    replacementTicker: washSale.replacement.ticker,
+    replacementDate: washSale.replacement.date.toISOString(),
+    replacementPortfolioId: washSale.replacement.asset.portfolioId,
+  }));
+}
@@ -18,7 +18,7 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 /**
- * Formats a number as currency (USD)
+ * Formats a number as currency (USD unless `options.currency` is given)
  * @param value - Number to format
  * @param options - Intl.NumberFormat options
  * @returns Formatted currency string
@@ -29,10 +29,10 @@ export function formatCurrency(
 ): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
     ...options,
+    currency: options.currency ?? 'USD',
   }).format(value);
 }
 
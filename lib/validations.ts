@@ -5,7 +5,41 @@
  */
 
 import { z } from 'zod';
-import { VALIDATION } from './constants';
+
+import {
+  ASSET_CLASSES,
+  ASSET_SYMBOL_RULES,
+  BENCHMARK_LIMITS,
+  CASH_LABEL,
+  CASH_TRANSACTION_TYPES,
+  CORPORATE_ACTION_LIMITS,
+  CORPORATE_ACTION_TRANSACTION_TYPES,
+  CORPORATE_ACTION_TYPES,
+  CORRELATION_WINDOWS,
+  CURRENCIES,
+  EXPORT_FORMATS,
+  IMPORT_FIELDS,
+  IMPORT_LIMITS,
+  LOOK_THROUGH_CONFIG,
+  LOT_METHODS,
+  MANUAL_CASH_TRANSACTION_TYPES,
+  OPTION_CONFIG,
+  OPTION_SIDES,
+  OPTION_STATUSES,
+  OPTION_TYPES,
+  PERFORMANCE_RANGES,
+  PORTFOLIO_LIMITS,
+  PROJECTION_CONFIG,
+  REBALANCE_CONFIG,
+  REBALANCE_MODES,
+  RISK_CONFIG,
+  SHARE_LINK_CONFIG,
+  TAG_LIMITS,
+  TARGET_KINDS,
+  TRANSACTION_TYPES,
+  VALIDATION,
+  WASH_SALE_CONFIG,
+} from './constants';
 
 // ============================================
 // Common Schemas
@@ -42,6 +76,23 @@ export const currencySchema = z
   .finite('Price must be finite')
   .transform((val) => Math.round(val * 100) / 100); // Round to 2 decimals
 
+/**
+ * ISO currency code validation
+ */
+export const currencyCodeSchema = z.enum(CURRENCIES, {
+  errorMap: () => ({ message: `Currency must be one of ${CURRENCIES.join(', ')}` }),
+});
+
+/**
+ * Trade commission and fee validation
+ */
+export const feesSchema = z
+  .number()
+  .min(0, 'Fees cannot be negative')
+  .max(VALIDATION.PRICE.MAX, 'Fees are too large')
+  .finite('Fees must be finite')
+  .transform((val) => Math.round(val * 100) / 100);
+
 /**
  * Share quantity validation
  */
@@ -51,6 +102,71 @@ export const sharesSchema = z
   .max(VALIDATION.SHARES.MAX, VALIDATION.SHARES.MESSAGE)
   .finite('Shares must be finite');
 
+/**
+ * Symbol of any asset class; the class decides which symbols are valid
+ */
+export const assetSymbolSchema = z
+  .string()
+  .trim()
+  .min(1, 'Symbol is required')
+  .max(VALIDATION.SYMBOL.MAX_LENGTH, 'Symbol is too long')
+  .transform((val) => val.toUpperCase());
+
+/**
+ * Asset class validation
+ */
+export const assetClassSchema = z.enum(ASSET_CLASSES);
+
+export type AssetClassInput = z.infer<typeof assetClassSchema>;
+
+/**
+ * Quantity of any asset class, down to a fraction of a coin
+ */
+export const unitsSchema = z
+  .number()
+  .min(VALIDATION.CRYPTO_UNITS.MIN, VALIDATION.CRYPTO_UNITS.MESSAGE)
+  .max(VALIDATION.CRYPTO_UNITS.MAX, VALIDATION.CRYPTO_UNITS.MESSAGE)
+  .finite('Quantity must be finite');
+
+/**
+ * Price per unit of any asset class, down to a fraction of a cent
+ */
+export const unitPriceSchema = z
+  .number()
+  .min(VALIDATION.CRYPTO_PRICE.MIN, VALIDATION.CRYPTO_PRICE.MESSAGE)
+  .max(VALIDATION.CRYPTO_PRICE.MAX, VALIDATION.CRYPTO_PRICE.MESSAGE)
+  .finite('Price must be finite');
+
+/**
+ * Checks a symbol, quantity and price against the rules of the asset's
+ * class. Crypto is traded in fractions of a coin at fractions of a cent;
+ * every other class keeps the share and price limits of stocks.
+ */
+function refineAssetClass(
+  data: { assetClass?: AssetClassInput; ticker: string; shares?: number; price?: number },
+  ctx: z.RefinementCtx,
+  pricePath: string,
+) {
+  const assetClass = data.assetClass ?? 'EQUITY';
+  const rule = ASSET_SYMBOL_RULES[assetClass];
+  if (!rule.PATTERN.test(data.ticker)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['ticker'], message: rule.MESSAGE });
+  }
+  if (assetClass === 'CRYPTO') {
+    return;
+  }
+  if (data.shares !== undefined && (data.shares < VALIDATION.SHARES.MIN || data.shares > VALIDATION.SHARES.MAX)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['shares'], message: VALIDATION.SHARES.MESSAGE });
+  }
+  if (data.price !== undefined && (data.price < VALIDATION.PRICE.MIN || data.price > VALIDATION.PRICE.MAX)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [pricePath], message: VALIDATION.PRICE.MESSAGE });
+  }
+}
+
+// Prices of everything but crypto are kept to the cent
+const roundUnitPrice = (price: number, assetClass: AssetClassInput = 'EQUITY') =>
+  assetClass === 'CRYPTO' ? price : Math.round(price * 100) / 100;
+
 /**
  * Optional date validation
  */
@@ -66,26 +182,697 @@ export const optionalDateSchema = z
 /**
  * Add asset to portfolio schema
  */
-export const addAssetSchema = z.object({
-  ticker: tickerSchema,
-  shares: sharesSchema,
-  avgPrice: currencySchema,
+export const addAssetSchema = z
+  .object({
+    portfolioId: z.string().cuid('Invalid account ID').optional(),
+    ticker: assetSymbolSchema,
+    assetClass: assetClassSchema.optional(), // Defaults to a stock
+    shares: unitsSchema,
+    avgPrice: unitPriceSchema,
+    fees: feesSchema.optional(), // Commissions and fees of the purchase
+    purchaseDate: optionalDateSchema,
+    notes: z.string().max(500, 'Notes too long').optional(),
+    currency: currencyCodeSchema.optional(), // Defaults to the stock's listing currency
+  })
+  .superRefine((data, ctx) => refineAssetClass({ ...data, price: data.avgPrice }, ctx, 'avgPrice'))
+  .transform((data) => ({ ...data, avgPrice: roundUnitPrice(data.avgPrice, data.assetClass) }));
+
+export type AddAssetInput = z.infer<typeof addAssetSchema>;
+
+/**
+ * Position tags, stored lowercase without duplicates
+ */
+export const tagsSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .toLowerCase()
+      .min(1, 'Tags cannot be empty')
+      .max(TAG_LIMITS.MAX_LENGTH, `Tags are at most ${TAG_LIMITS.MAX_LENGTH} characters`),
+  )
+  .max(TAG_LIMITS.MAX_TAGS, `At most ${TAG_LIMITS.MAX_TAGS} tags per position`)
+  .transform((tags) => Array.from(new Set(tags)));
+
+/**
+ * Update existing asset schema. The ticker renames the whole position;
+ * shares, average price and purchase date correct its opening trade.
+ * Limits that depend on the asset's class are checked against the stored
+ * position.
+ */
+export const updateAssetSchema = z.object({
+  ticker: assetSymbolSchema.optional(),
+  shares: unitsSchema.optional(),
+  avgPrice: unitPriceSchema.optional(), // Price of the opening buy, before fees
   purchaseDate: optionalDateSchema,
+  notes: z.string().max(500, 'Notes too long').optional().nullable(),
+  tags: tagsSchema.optional(),
+});
+
+export type UpdateAssetInput = z.infer<typeof updateAssetSchema>;
+
+/**
+ * User-entered valuation of a manually priced asset
+ */
+export const recordValuationSchema = z.object({
+  price: unitPriceSchema, // Per unit, in the asset's currency
+  date: z.coerce.date({ errorMap: () => ({ message: 'Date must be a valid date' }) }),
   notes: z.string().max(500, 'Notes too long').optional(),
 });
 
-export type AddAssetInput = z.infer<typeof addAssetSchema>;
+export type RecordValuationInput = z.infer<typeof recordValuationSchema>;
 
 /**
- * Update existing asset schema
+ * Portfolio account name
  */
-export const updateAssetSchema = z.object({
-  shares: sharesSchema.optional(),
-  avgPrice: currencySchema.optional(),
+export const accountNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Account name is required')
+  .max(50, 'Account name is too long');
+
+/**
+ * Create account schema
+ */
+export const createAccountSchema = z.object({
+  name: accountNameSchema,
+});
+
+/**
+ * Update account schema
+ */
+export const updateAccountSchema = z.object({
+  name: accountNameSchema.optional(),
+  isDefault: z.literal(true).optional(),
+});
+
+export type UpdateAccountInput = z.infer<typeof updateAccountSchema>;
+
+/**
+ * Record a trade in the transaction ledger
+ * Splits carry a ratio instead of shares and price
+ */
+export const recordTransactionSchema = z
+  .object({
+    portfolioId: z.string().cuid('Invalid account ID').optional(),
+    ticker: assetSymbolSchema,
+    assetClass: assetClassSchema.optional(), // Class of a new position; defaults to a stock
+    type: z.enum(TRANSACTION_TYPES),
+    shares: unitsSchema.optional(),
+    price: unitPriceSchema.optional(),
+    fees: feesSchema.optional(), // Commissions and fees, only for buys and sells
+    ratio: z.number().positive('Split ratio must be positive').finite().optional(),
+    lotMethod: z.enum(LOT_METHODS).optional(),
+    lots: z
+      .array(
+        z.object({
+          lotId: z.string().min(1, 'Lot ID is required'),
+          shares: unitsSchema,
+        }),
+      )
+      .optional(),
+    date: optionalDateSchema,
+    notes: z.string().max(500, 'Notes too long').optional(),
+    currency: currencyCodeSchema.optional(), // Currency of the price, for a new position
+    // Pay for buys from, and credit sale proceeds to, the account's cash
+    settleCash: z.boolean().default(true),
+  })
+  .superRefine((data, ctx) => {
+    refineAssetClass(data, ctx, 'price');
+    if (data.lotMethod === 'SPECIFIC') {
+      const selected = (data.lots ?? []).reduce((sum, lot) => sum + lot.shares, 0);
+      if (data.type !== 'SELL' && data.type !== 'TRANSFER_OUT') {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['lotMethod'],
+          message: 'Specific lots can only be selected for sells and transfers out',
+        });
+      } else if (data.shares !== undefined && Math.abs(selected - data.shares) > 1e-9) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['lots'],
+          message: 'Selected lot shares must add up to the shares sold',
+        });
+      }
+    }
+    if (data.fees && data.type !== 'BUY' && data.type !== 'SELL') {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['fees'],
+        message: 'Fees can only be recorded on buys and sells',
+      });
+    }
+    if (data.type === 'SPLIT') {
+      if (data.ratio === undefined || data.ratio === 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['ratio'],
+          message: 'Split ratio is required and cannot be 1',
+        });
+      }
+      return;
+    }
+    if (data.shares === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['shares'],
+        message: 'Shares are required',
+      });
+    }
+    if (data.price === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['price'],
+        message: 'Price is required',
+      });
+    }
+  })
+  .transform((data) => ({
+    ...data,
+    price: data.price === undefined ? undefined : roundUnitPrice(data.price, data.assetClass),
+  }));
+
+export type RecordTransactionInput = z.infer<typeof recordTransactionSchema>;
+
+/**
+ * Record a deposit, withdrawal, interest payment or dividend in an
+ * account's cash ledger. Amounts are positive; the type sets the direction.
+ */
+export const recordCashSchema = z.object({
+  portfolioId: z.string().cuid('Invalid account ID').optional(),
+  type: z.enum(MANUAL_CASH_TRANSACTION_TYPES),
+  amount: z
+    .number()
+    .positive('Amount must be greater than 0')
+    .max(1_000_000_000, 'Amount is too large')
+    .finite('Amount must be finite')
+    .transform((val) => Math.round(val * 100) / 100),
+  ticker: assetSymbolSchema.optional(), // Asset paying a dividend or interest
+  date: optionalDateSchema,
   notes: z.string().max(500, 'Notes too long').optional(),
 });
 
-export type UpdateAssetInput = z.infer<typeof updateAssetSchema>;
+export type RecordCashInput = z.infer<typeof recordCashSchema>;
+
+/**
+ * Option premium per share; zero for contracts bought or closed for nothing
+ */
+export const optionPremiumSchema = z
+  .number()
+  .min(0, 'Premium cannot be negative')
+  .max(VALIDATION.PRICE.MAX, VALIDATION.PRICE.MESSAGE)
+  .finite('Premium must be finite');
+
+/**
+ * Open an option position: contracts bought (LONG) or written (SHORT)
+ */
+export const openOptionSchema = z
+  .object({
+    portfolioId: z.string().cuid('Invalid account ID').optional(),
+    underlying: tickerSchema,
+    type: z.enum(OPTION_TYPES),
+    side: z.enum(OPTION_SIDES),
+    strike: currencySchema,
+    expiry: z.coerce.date({ errorMap: () => ({ message: 'Expiry must be a valid date' }) }),
+    multiplier: z
+      .number()
+      .int('Multiplier must be a whole number')
+      .positive('Multiplier must be positive')
+      .max(OPTION_CONFIG.MAX_MULTIPLIER, `Multiplier cannot exceed ${OPTION_CONFIG.MAX_MULTIPLIER}`)
+      .default(OPTION_CONFIG.DEFAULT_MULTIPLIER),
+    contracts: z
+      .number()
+      .int('Contracts must be a whole number')
+      .positive('Contracts must be positive')
+      .max(OPTION_CONFIG.MAX_CONTRACTS, `Contracts cannot exceed ${OPTION_CONFIG.MAX_CONTRACTS}`),
+    premium: optionPremiumSchema,
+    fees: feesSchema.optional(),
+    openedAt: optionalDateSchema,
+    currency: currencyCodeSchema.optional(), // Defaults to the underlying's listing currency
+    notes: z.string().max(500, 'Notes too long').optional(),
+    // Pay premiums of bought options from, and credit written ones to, the account's cash
+    settleCash: z.boolean().default(true),
+  })
+  .refine((data) => data.expiry >= (data.openedAt ?? new Date(0)), {
+    path: ['expiry'],
+    message: 'Expiry cannot be before the opening date',
+  });
+
+export type OpenOptionInput = z.infer<typeof openOptionSchema>;
+
+/**
+ * Settle an open option: close it at a premium, exercise it (or record its
+ * assignment if written), or let it expire worthless
+ */
+export const optionActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('CLOSE'),
+    premium: optionPremiumSchema,
+    fees: feesSchema.optional(),
+    date: optionalDateSchema,
+  }),
+  z.object({
+    action: z.literal('EXERCISE'),
+    date: optionalDateSchema,
+  }),
+  z.object({
+    action: z.literal('EXPIRE'),
+  }),
+]);
+
+export type OptionActionInput = z.infer<typeof optionActionSchema>;
+
+/**
+ * Broker CSV import request schema
+ * Without `commit` the file is only parsed and previewed
+ */
+export const importRequestSchema = z.object({
+  csv: z
+    .string()
+    .min(1, 'CSV file is empty')
+    .max(IMPORT_LIMITS.MAX_FILE_SIZE, 'CSV file is too large'),
+  portfolioId: z.string().cuid('Invalid account ID').optional(),
+  mapping: z.record(z.enum(IMPORT_FIELDS), z.string()).optional(),
+  commit: z.boolean().default(false),
+  includeDuplicates: z.boolean().default(false),
+});
+
+export type ImportRequestInput = z.infer<typeof importRequestSchema>;
+
+/**
+ * Export query schema
+ */
+export const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('csv'),
+});
+
+/**
+ * Performance history query schema
+ */
+export const performanceQuerySchema = z.object({
+  range: z.enum(PERFORMANCE_RANGES).default('1M'),
+});
+
+/**
+ * Portfolio summary query schema
+ */
+export const summaryQuerySchema = z.object({
+  period: z.enum(PERFORMANCE_RANGES).default('ALL'),
+});
+
+/**
+ * Benchmark list, shared by settings and the comparison query
+ */
+export const benchmarksSchema = z
+  .array(tickerSchema)
+  .min(1, 'Choose at least one benchmark')
+  .max(BENCHMARK_LIMITS.MAX_BENCHMARKS, `Compare against at most ${BENCHMARK_LIMITS.MAX_BENCHMARKS} benchmarks`)
+  .transform((tickers) => Array.from(new Set(tickers)));
+
+/**
+ * Benchmark comparison query schema
+ * Tickers arrive comma-separated; the saved benchmarks apply when omitted
+ */
+export const benchmarkQuerySchema = z.object({
+  range: z.enum(PERFORMANCE_RANGES).default('1M'),
+  tickers: z
+    .string()
+    .optional()
+    .transform((value) => value?.split(',').map((t) => t.trim()).filter(Boolean))
+    .pipe(benchmarksSchema.optional()),
+});
+
+/**
+ * Annual risk-free rate as a fraction (0.04 = 4%)
+ */
+export const riskFreeRateSchema = z
+  .number()
+  .min(0, 'Risk-free rate cannot be negative')
+  .max(RISK_CONFIG.MAX_RISK_FREE_RATE, `Risk-free rate cannot exceed ${RISK_CONFIG.MAX_RISK_FREE_RATE * 100}%`);
+
+/**
+ * Risk analytics query schema
+ * The first saved benchmark and the saved risk-free rate apply when omitted
+ */
+export const riskQuerySchema = z.object({
+  benchmark: tickerSchema.optional(),
+  riskFreeRate: z.coerce.number().pipe(riskFreeRateSchema).optional(),
+});
+
+/**
+ * Correlation matrix query schema
+ */
+export const correlationQuerySchema = z.object({
+  window: z.enum(CORRELATION_WINDOWS).default('1Y'),
+});
+
+/**
+ * Monte Carlo projection query schema
+ */
+export const projectionQuerySchema = z.object({
+  years: z.coerce
+    .number()
+    .int('Years must be a whole number')
+    .min(1, 'Project at least 1 year')
+    .max(PROJECTION_CONFIG.MAX_YEARS, `Project at most ${PROJECTION_CONFIG.MAX_YEARS} years`)
+    .default(PROJECTION_CONFIG.DEFAULT_YEARS),
+  monthlyContribution: z.coerce
+    .number()
+    .min(0, 'Monthly contribution cannot be negative')
+    .max(PROJECTION_CONFIG.MAX_CONTRIBUTION, 'Monthly contribution too large')
+    .default(0),
+  goal: z.coerce.number().positive('Goal must be positive').finite().optional(),
+  paths: z.coerce
+    .number()
+    .int()
+    .min(PROJECTION_CONFIG.MIN_PATHS, `Simulate at least ${PROJECTION_CONFIG.MIN_PATHS} paths`)
+    .max(PROJECTION_CONFIG.MAX_PATHS, `Simulate at most ${PROJECTION_CONFIG.MAX_PATHS} paths`)
+    .default(PROJECTION_CONFIG.DEFAULT_PATHS),
+});
+
+export type ProjectionQuery = z.infer<typeof projectionQuerySchema>;
+
+/**
+ * Allocation targets schema
+ * Replaces the whole target model. Weights are fractions summing to 1, or
+ * the list is empty to clear the targets.
+ */
+export const allocationTargetsSchema = z
+  .object({
+    kind: z.enum(TARGET_KINDS),
+    fractionalShares: z.boolean().default(false),
+    targets: z
+      .array(
+        z.object({
+          key: z.string().trim().min(1, 'Target name is required').max(50, 'Target name too long'),
+          weight: z.number().min(0, 'Weight cannot be negative').max(1, 'Weight cannot exceed 100%'),
+          band: z
+            .number()
+            .min(0, 'Band cannot be negative')
+            .max(REBALANCE_CONFIG.MAX_BAND, `Band cannot exceed ${REBALANCE_CONFIG.MAX_BAND * 100}%`)
+            .default(REBALANCE_CONFIG.DEFAULT_BAND),
+          tickers: z.array(assetSymbolSchema).max(PORTFOLIO_LIMITS.MAX_ASSETS).default([]),
+        }),
+      )
+      .max(PORTFOLIO_LIMITS.MAX_ASSETS, `At most ${PORTFOLIO_LIMITS.MAX_ASSETS} targets`),
+  })
+  .transform((data) => ({
+    ...data,
+    // Ticker targets are tickers; cash is matched by its label in every kind
+    targets: data.targets.map((target) => {
+      const isCash = target.key.toLowerCase() === CASH_LABEL.toLowerCase();
+      let key = data.kind === 'TICKER' ? target.key.toUpperCase() : target.key;
+      if (isCash) {
+        key = CASH_LABEL;
+      }
+      return {
+        ...target,
+        key,
+        tickers: data.kind === 'BUCKET' && !isCash ? Array.from(new Set(target.tickers)) : [],
+      };
+    }),
+  }))
+  .superRefine((data, ctx) => {
+    const total = data.targets.reduce((sum, target) => sum + target.weight, 0);
+    if (data.targets.length > 0 && Math.abs(total - 1) > REBALANCE_CONFIG.WEIGHT_TOLERANCE) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Target weights must add up to 100%' });
+    }
+
+    const keys = data.targets.map((target) => target.key.toLowerCase());
+    if (new Set(keys).size !== keys.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Each target can only be listed once' });
+    }
+
+    if (data.kind === 'TICKER') {
+      for (const target of data.targets) {
+        if (target.key !== CASH_LABEL && !VALIDATION.TICKER.PATTERN.test(target.key)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${target.key}: ${VALIDATION.TICKER.MESSAGE}` });
+        }
+      }
+    }
+
+    if (data.kind === 'BUCKET') {
+      const members = data.targets.flatMap((target) => target.tickers);
+      if (new Set(members).size !== members.length) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'A ticker can only belong to one bucket' });
+      }
+      for (const target of data.targets) {
+        if (target.key !== CASH_LABEL && target.tickers.length === 0) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Bucket ${target.key} needs at least one ticker` });
+        }
+      }
+    }
+  });
+
+export type AllocationTargetsInput = z.infer<typeof allocationTargetsSchema>;
+
+/**
+ * Fund holdings file schema. Weights are fractions of the fund.
+ */
+export const fundHoldingsSchema = z
+  .array(
+    z.object({
+      ticker: tickerSchema,
+      name: z.string().max(200).optional(),
+      weight: z.number().gt(0, 'Weight must be positive').max(1, 'Weight cannot exceed 100%'),
+      sector: z.string().max(100).optional(),
+    }),
+  )
+  .min(1, 'No holdings found')
+  .max(LOOK_THROUGH_CONFIG.MAX_FUND_HOLDINGS, `At most ${LOOK_THROUGH_CONFIG.MAX_FUND_HOLDINGS} holdings per fund`)
+  .refine(
+    (holdings) => holdings.reduce((sum, holding) => sum + holding.weight, 0) <= 1.01,
+    'Holding weights add up to more than 100%',
+  );
+
+export type FundHoldingsInput = z.infer<typeof fundHoldingsSchema>;
+
+/**
+ * Wash-sale groups schema
+ * Replaces the user's groups of substantially identical tickers
+ */
+export const washSaleGroupsSchema = z.object({
+  groups: z
+    .array(
+      z
+        .array(tickerSchema)
+        .transform((tickers) => Array.from(new Set(tickers)))
+        .pipe(
+          z
+            .array(z.string())
+            .min(2, 'A group needs at least two different tickers')
+            .max(WASH_SALE_CONFIG.MAX_GROUP_TICKERS, `At most ${WASH_SALE_CONFIG.MAX_GROUP_TICKERS} tickers per group`),
+        ),
+    )
+    .max(WASH_SALE_CONFIG.MAX_GROUPS, `At most ${WASH_SALE_CONFIG.MAX_GROUPS} groups`),
+});
+
+/**
+ * Rebalancing plan query schema
+ */
+export const rebalanceQuerySchema = z.object({
+  mode: z.enum(REBALANCE_MODES).default('FULL'),
+  contribution: z.coerce
+    .number()
+    .min(0, 'Contribution cannot be negative')
+    .max(REBALANCE_CONFIG.MAX_CONTRIBUTION, 'Contribution too large')
+    .default(0),
+});
+
+/**
+ * Portfolio backup schema (the JSON export format)
+ * Market values in the backup are informational and not restored
+ */
+export const portfolioBackupSchema = z.object({
+  version: z.union([z.literal(1), z.literal(2)]),
+  exportedAt: z.string().optional(),
+  settings: z.object({
+    lotMethod: z.enum(LOT_METHODS),
+    benchmarks: benchmarksSchema.optional(), // Absent in backups made before benchmarks
+    riskFreeRate: riskFreeRateSchema.optional(),
+    baseCurrency: currencyCodeSchema.optional(),
+  }),
+  targets: allocationTargetsSchema.optional(), // Absent in backups made before targets
+  washSaleGroups: washSaleGroupsSchema.shape.groups.optional(), // Absent in version 1 backups
+  accounts: z
+    .array(z.object({ name: accountNameSchema, isDefault: z.boolean() }))
+    .max(PORTFOLIO_LIMITS.MAX_ACCOUNTS)
+    .default([]),
+  assets: z
+    .array(
+      z.object({
+        account: accountNameSchema.optional(),
+        ticker: assetSymbolSchema,
+        assetClass: assetClassSchema.default('EQUITY'), // Absent in backups made before asset classes
+        shares: z.number().min(0).finite(),
+        avgPrice: z.number().min(0).finite(),
+        purchaseDate: z.coerce.date(),
+        notes: z.string().max(500, 'Notes too long').nullable(),
+        currency: currencyCodeSchema.optional(), // Absent in backups made before currencies
+        tags: tagsSchema.optional(), // Absent in backups made before tags
+        valuations: z
+          .array(
+            z.object({
+              price: unitPriceSchema,
+              date: z.coerce.date(),
+              notes: z.string().max(500, 'Notes too long').nullable(),
+            }),
+          )
+          .default([]),
+        deletedAt: z.coerce.date().nullable().default(null), // Absent in backups made before the trash
+        transactions: z.array(
+          z.object({
+            id: z.string().min(1),
+            type: z.enum([...TRANSACTION_TYPES, ...CORPORATE_ACTION_TRANSACTION_TYPES]),
+            shares: z.number().min(0).finite(),
+            price: z.number().min(0).finite(),
+            fees: z.number().min(0).finite().default(0), // Absent in backups made before fees
+            ratio: z.number().positive().finite().nullable(),
+            lotMethod: z.enum(LOT_METHODS).nullable(),
+            date: z.coerce.date(),
+            notes: z.string().max(500, 'Notes too long').nullable(),
+            lots: z.array(z.object({ lotId: z.string().min(1), shares: unitsSchema })).default([]),
+          }),
+        ),
+      }),
+    )
+    .max(PORTFOLIO_LIMITS.MAX_ASSETS, `Backups are limited to ${PORTFOLIO_LIMITS.MAX_ASSETS} positions`),
+  cash: z
+    .array(
+      z.object({
+        account: accountNameSchema.optional(),
+        type: z.enum(CASH_TRANSACTION_TYPES),
+        amount: z.number().finite(),
+        ticker: z.string().max(10).nullable(),
+        date: z.coerce.date(),
+        notes: z.string().max(500, 'Notes too long').nullable(),
+        transactionId: z.string().min(1).nullable(), // Settled trade, by its ID in the backup
+        optionId: z.string().min(1).nullable().default(null), // Option premium, by the option's ID in the backup
+      }),
+    )
+    .default([]),
+  options: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        account: accountNameSchema.optional(),
+        underlying: tickerSchema,
+        type: z.enum(OPTION_TYPES),
+        side: z.enum(OPTION_SIDES),
+        strike: z.number().positive().finite(),
+        expiry: z.coerce.date(),
+        multiplier: z.number().positive().finite(),
+        contracts: z.number().positive().finite(),
+        premium: z.number().min(0).finite(),
+        fees: z.number().min(0).finite(),
+        currency: currencyCodeSchema,
+        openedAt: z.coerce.date(),
+        status: z.enum(OPTION_STATUSES),
+        closedAt: z.coerce.date().nullable(),
+        closePremium: z.number().min(0).finite().nullable(),
+        notes: z.string().max(500, 'Notes too long').nullable(),
+        transactionId: z.string().min(1).nullable(), // Exercise trade, by its ID in the backup
+      }),
+    )
+    .default([]), // Absent in backups made before options
+});
+
+export type PortfolioBackupInput = z.infer<typeof portfolioBackupSchema>;
+
+/**
+ * Portfolio settings schema
+ */
+export const portfolioSettingsSchema = z
+  .object({
+    lotMethod: z.enum(LOT_METHODS).optional(),
+    benchmarks: benchmarksSchema.optional(),
+    riskFreeRate: riskFreeRateSchema.optional(),
+    baseCurrency: currencyCodeSchema.optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'No settings to update',
+  });
+
+export type PortfolioSettingsInput = z.infer<typeof portfolioSettingsSchema>;
+
+/**
+ * Share link schema. Without an account the link shares every account.
+ */
+export const createShareLinkSchema = z.object({
+  name: z.string().trim().max(100, 'Name must be at most 100 characters').optional(),
+  portfolioId: z.string().cuid('Invalid account ID').optional(),
+  expiresInDays: z
+    .number()
+    .int()
+    .refine((days) => (SHARE_LINK_CONFIG.EXPIRY_DAYS as readonly number[]).includes(days), {
+      message: `Links expire after ${SHARE_LINK_CONFIG.EXPIRY_DAYS.join(', ')} days`,
+    })
+    .default(SHARE_LINK_CONFIG.DEFAULT_EXPIRY_DAYS),
+  maskValues: z.boolean().default(false),
+});
+
+export type CreateShareLinkInput = z.infer<typeof createShareLinkSchema>;
+
+/**
+ * Corporate action announced for a stock. Splits carry new shares per old
+ * share; spinoffs carry the new ticker, spun-off shares per share held and
+ * the fraction of cost basis moving to it; symbol changes carry the new
+ * ticker.
+ */
+export const corporateActionSchema = z
+  .object({
+    type: z.enum(CORPORATE_ACTION_TYPES),
+    ticker: tickerSchema,
+    effectiveDate: z.coerce.date(),
+    ratio: z.number().positive('Ratio must be positive').finite().optional(),
+    newTicker: tickerSchema.optional(),
+    costAllocation: z
+      .number()
+      .min(0, 'Cost allocation cannot be negative')
+      .max(1, 'Cost allocation cannot exceed 1')
+      .optional(),
+    notes: z.string().max(500, 'Notes too long').optional(),
+  })
+  .superRefine((data, ctx) => {
+    const { MAX_RATIO } = CORPORATE_ACTION_LIMITS;
+    const issue = (path: string, message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+    switch (data.type) {
+      case 'SPLIT':
+        if (data.ratio === undefined || data.ratio <= 1 || data.ratio > MAX_RATIO) {
+          issue('ratio', `A split needs a ratio above 1 and at most ${MAX_RATIO}`);
+        }
+        break;
+      case 'REVERSE_SPLIT':
+        if (data.ratio === undefined || data.ratio >= 1 || data.ratio < 1 / MAX_RATIO) {
+          issue('ratio', `A reverse split needs a ratio below 1 and at least 1/${MAX_RATIO}`);
+        }
+        break;
+      case 'SPINOFF':
+        if (data.ratio === undefined) {
+          issue('ratio', 'A spinoff needs the spun-off shares per share held');
+        }
+        if (data.costAllocation === undefined) {
+          issue('costAllocation', 'A spinoff needs the fraction of cost basis moving to the new company');
+        }
+        break;
+    }
+    if (data.type === 'SPINOFF' || data.type === 'SYMBOL_CHANGE') {
+      if (!data.newTicker) {
+        issue('newTicker', 'The new ticker is required');
+      } else if (data.newTicker === data.ticker) {
+        issue('newTicker', 'The new ticker must differ from the ticker');
+      }
+    }
+  });
+
+export type CorporateActionInput = z.infer<typeof corporateActionSchema>;
+
+export const corporateActionBatchSchema = z
+  .array(corporateActionSchema)
+  .min(1, 'No corporate actions given')
+  .max(CORPORATE_ACTION_LIMITS.MAX_BATCH, `At most ${CORPORATE_ACTION_LIMITS.MAX_BATCH} actions per request`);
 
 /**
  * Delete asset schema (ID validation)
@@ -257,7 +1044,7 @@ export const cacheEntrySchema = z.object({
  * User preferences schema (for future use)
  */
 export const userPreferencesSchema = z.object({
-  currency: z.enum(['USD', 'EUR', 'GBP', 'JPY']).default('USD'),
+  currency: currencyCodeSchema.default('USD'),
   dateFormat: z.enum(['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD']).default('MM/DD/YYYY'),
   showDividends: z.boolean().default(true),
   defaultView: z.enum(['portfolio', 'dividends', 'screener']).default('portfolio'),
@@ -1,12 +1,28 @@
 import { withAuth } from 'next-auth/middleware'
 import { NextResponse } from 'next/server'
 
+// Read-only shared dashboards, reached without a session. Their token is the
+// only credential, so responses are kept out of search indexes, caches and
+// Referer headers.
+const PUBLIC_SHARE_PREFIXES = ['/share/', '/api/share/']
+
+const isPublicSharePath = (pathname: string) =>
+  PUBLIC_SHARE_PREFIXES.some((prefix) => pathname.startsWith(prefix))
+
 export default withAuth(
   function middleware(req) {
     const token = req.nextauth.token
     const isAuthPage = req.nextUrl.pathname.startsWith('/auth/')
     const pathname = req.nextUrl.pathname
 
+    if (isPublicSharePath(pathname)) {
+      const response = NextResponse.next()
+      response.headers.set('X-Robots-Tag', 'noindex, nofollow')
+      response.headers.set('Referrer-Policy', 'no-referrer')
+      response.headers.set('Cache-Control', 'private, no-store')
+      return response
+    }
+
     console.log('Middleware - pathname:', pathname, 'hasToken:', !!token, 'isAuthPage:', isAuthPage)
 
     // If user is authenticated and trying to access auth pages, redirect to dashboard
@@ -26,6 +42,11 @@ export default withAuth(
 
         console.log('Middleware authorized callback - pathname:', pathname, 'hasToken:', !!token, 'isAuthPage:', isAuthPage)
 
+        // Shared dashboards are authorized by their token, not a session
+        if (isPublicSharePath(pathname)) {
+          return true
+        }
+
         // Allow access to auth pages without token
         if (isAuthPage) {
           console.log('Middleware: Allowing access to auth page')
@@ -48,5 +69,7 @@ export const config = {
     '/api/dividends/:path*',
     '/api/screener/:path*',
     '/auth/:path*',
+    '/share/:path*',
+    '/api/share/:path*',
   ],
 }
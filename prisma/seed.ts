@@ -1,12 +1,13 @@
 // Database seed file - to be created in Phase 2
 /**
  * prisma/seed.ts
- * Database seeding script to populate stocks for screener
+ * Database seeding script to populate stocks for screener and exchange
+ * rate history
  * Run with: npm run db:seed
  */
 
 import { PrismaClient } from '@prisma/client';
-import { POPULAR_STOCKS } from '../lib/constants';
+import { FX_CONFIG, POPULAR_STOCKS } from '../lib/constants';
 
 const prisma = new PrismaClient();
 
@@ -132,6 +133,19 @@ const SP500_STOCKS = [
   { ticker: 'D', name: 'Dominion Energy Inc.', sector: 'Utilities', industry: 'Electric Utilities' },
 ];
 
+/**
+ * Foreign listings, quoted in their local currency
+ */
+const FOREIGN_STOCKS = [
+  { ticker: 'SAP.DE', name: 'SAP SE', sector: 'Technology', industry: 'Software', currency: 'EUR', country: 'Germany' },
+  { ticker: 'ASML.AS', name: 'ASML Holding N.V.', sector: 'Technology', industry: 'Semiconductors', currency: 'EUR', country: 'Netherlands' },
+  { ticker: 'SHEL.L', name: 'Shell plc', sector: 'Energy', industry: 'Oil & Gas Integrated', currency: 'GBP', country: 'United Kingdom' },
+  { ticker: 'AZN.L', name: 'AstraZeneca PLC', sector: 'Healthcare', industry: 'Drug Manufacturers', currency: 'GBP', country: 'United Kingdom' },
+  { ticker: 'SHOP.TO', name: 'Shopify Inc.', sector: 'Technology', industry: 'Software', currency: 'CAD', country: 'Canada' },
+  { ticker: 'NESN.SW', name: 'Nestle S.A.', sector: 'Consumer Defensive', industry: 'Packaged Foods', currency: 'CHF', country: 'Switzerland' },
+  { ticker: 'BHP.AX', name: 'BHP Group Limited', sector: 'Basic Materials', industry: 'Mining', currency: 'AUD', country: 'Australia' },
+];
+
 /**
  * Generate random but realistic stock data
  */
@@ -202,6 +216,7 @@ function generateStockData(stock: typeof SP500_STOCKS[0]) {
     name: stock.name,
     sector: stock.sector,
     industry: stock.industry,
+    country: 'United States',
     currentPrice: Number(price.toFixed(2)),
     peRatio: Number(peRatio.toFixed(2)),
     dividendYield: Number(dividendYield.toFixed(4)),
@@ -214,6 +229,28 @@ function generateStockData(stock: typeof SP500_STOCKS[0]) {
   };
 }
 
+/**
+ * Generate daily exchange rates for the configured history, a random walk
+ * back from each currency's reference rate so that today's rate is close
+ * to it
+ */
+function generateFxRates() {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+
+  return Object.entries(FX_CONFIG.REFERENCE_RATES).flatMap(([currency, reference]) => {
+    let rate = reference;
+    const rates = [];
+    for (let day = 0; day < FX_CONFIG.SEED_DAYS; day++) {
+      const date = new Date(today);
+      date.setUTCDate(today.getUTCDate() - day);
+      rates.push({ currency, date, rate: Number(rate.toPrecision(6)) });
+      rate *= 1 + (Math.random() - 0.5) * 0.01; // Up to 0.5% a day
+    }
+    return rates;
+  });
+}
+
 /**
  * Main seed function
  */
@@ -226,7 +263,10 @@ async function seed() {
     await prisma.stock.deleteMany();
     
     // Generate stock data
-    const stockData = SP500_STOCKS.map(generateStockData);
+    const stockData = [
+      ...SP500_STOCKS.map(generateStockData),
+      ...FOREIGN_STOCKS.map(({ currency, country, ...stock }) => ({ ...generateStockData(stock), currency, country })),
+    ];
     
     // Insert stocks in batches
     console.log(`📊 Inserting ${stockData.length} stocks...`);
@@ -245,6 +285,18 @@ async function seed() {
     const count = await prisma.stock.count();
     console.log(`✅ Successfully seeded ${count} stocks!`);
     
+    // Exchange rates are only added for missing days, so rates imported
+    // from a real source are kept
+    const fxRates = generateFxRates();
+    console.log(`💱 Inserting ${fxRates.length} exchange rates...`);
+    for (let i = 0; i < fxRates.length; i += 1000) {
+      await prisma.fxRate.createMany({
+        data: fxRates.slice(i, i + 1000),
+        skipDuplicates: true,
+      });
+    }
+    console.log(`✅ Exchange rates stored for ${Object.keys(FX_CONFIG.REFERENCE_RATES).join(', ')}`);
+    
     // Show sample stocks
     const samples = await prisma.stock.findMany({
       take: 5,
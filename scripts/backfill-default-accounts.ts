@@ -0,0 +1,62 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to move positions created before accounts existed into their
+ * owner's default account, creating it where needed. Run once after
+ * upgrading; accounts created later adopt such positions themselves.
+ *
+ * Usage: npm run db:backfill-accounts
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { DEFAULT_ACCOUNT_NAME } from '../lib/constants'
+
+const prisma = new PrismaClient()
+
+async function backfillDefaultAccounts() {
+  console.log('🗂️  Backfilling default accounts...')
+
+  try {
+    const owners = await prisma.asset.findMany({
+      where: { portfolioId: null },
+      select: { userId: true },
+      distinct: ['userId'],
+    })
+
+    let moved = 0
+    for (const { userId } of owners) {
+      const portfolio =
+        (await prisma.portfolio.findFirst({ where: { userId, isDefault: true } })) ??
+        (await prisma.portfolio.upsert({
+          where: { userId_name: { userId, name: DEFAULT_ACCOUNT_NAME } },
+          update: { isDefault: true },
+          create: { userId, name: DEFAULT_ACCOUNT_NAME, isDefault: true },
+        }))
+      const { count } = await prisma.asset.updateMany({
+        where: { userId, portfolioId: null },
+        data: { portfolioId: portfolio.id },
+      })
+      moved += count
+      console.log(`   ${userId}: ${count} positions into "${portfolio.name}"`)
+    }
+
+    console.log(`✅ Moved ${moved} positions for ${owners.length} users`)
+
+  } catch (error) {
+    console.error('❌ Error backfilling default accounts:', error)
+    throw error
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+// Run the backfill
+backfillDefaultAccounts()
+  .then(() => {
+    console.log('🎉 Backfill finished successfully!')
+    process.exit(0)
+  })
+  .catch((error) => {
+    console.error('💥 Backfill failed:', error)
+    process.exit(1)
+  })
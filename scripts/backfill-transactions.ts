@@ -0,0 +1,58 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to seed the transaction ledger for assets created before it existed
+ * Each such asset gets an opening BUY for its current shares and average price
+ */
+
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+async function backfillTransactions() {
+  console.log('📒 Backfilling transaction ledger...')
+  
+  try {
+    const assets = await prisma.asset.findMany({
+      where: {
+        transactions: { none: {} },
+        shares: { gt: 0 },
+      },
+    })
+    
+    for (const asset of assets) {
+      await prisma.transaction.create({
+        data: {
+          type: 'BUY',
+          ticker: asset.ticker,
+          shares: asset.shares,
+          price: asset.avgPrice,
+          date: asset.purchaseDate,
+          notes: 'Opening position',
+          assetId: asset.id,
+          userId: asset.userId,
+        },
+      })
+      console.log(`   ${asset.ticker}: ${asset.shares} shares @ $${asset.avgPrice}`)
+    }
+    
+    console.log(`✅ Created ${assets.length} opening transactions`)
+    
+  } catch (error) {
+    console.error('❌ Error backfilling transactions:', error)
+    throw error
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+// Run the backfill
+backfillTransactions()
+  .then(() => {
+    console.log('🎉 Backfill finished successfully!')
+    process.exit(0)
+  })
+  .catch((error) => {
+    console.error('💥 Backfill failed:', error)
+    process.exit(1)
+  })
@@ -0,0 +1,79 @@
+#!/usr/bin/env tsx
+
+/**
+ * Script to load fund holdings from CSV files for look-through analysis.
+ * Each file is named after its fund (e.g. VTI.csv) and replaces that fund's
+ * stored holdings; the file's modification date is recorded as its date.
+ *
+ * Usage: npm run db:fund-holdings [-- <file.csv> ...]
+ * Without arguments every CSV in data/fund-holdings is loaded.
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs'
+import path from 'path'
+import { PrismaClient } from '@prisma/client'
+import { LOOK_THROUGH_CONFIG } from '../lib/constants'
+import { parseFundHoldingsCsv, saveFundHoldings } from '../lib/portfolio/fund-holdings'
+import { tickerSchema } from '../lib/validations'
+
+const prisma = new PrismaClient()
+
+function holdingsFiles(): string[] {
+  const args = process.argv.slice(2)
+  if (args.length > 0) {
+    return args
+  }
+  const dir = LOOK_THROUGH_CONFIG.HOLDINGS_DIR
+  if (!existsSync(dir)) {
+    console.log(`⚠️  No ${dir} directory; pass CSV files as arguments instead`)
+    return []
+  }
+  return readdirSync(dir)
+    .filter((file) => file.toLowerCase().endsWith('.csv'))
+    .map((file) => path.join(dir, file))
+}
+
+async function loadFundHoldings() {
+  console.log('📂 Loading fund holdings...')
+
+  let loaded = 0
+  let failed = 0
+
+  try {
+    for (const file of holdingsFiles()) {
+      const fundTicker = tickerSchema.safeParse(path.basename(file, path.extname(file)))
+      if (!fundTicker.success) {
+        console.error(`❌ ${file}: file name is not a ticker`)
+        failed++
+        continue
+      }
+
+      try {
+        const { holdings, skipped } = parseFundHoldingsCsv(readFileSync(file, 'utf8'))
+        await prisma.$transaction((tx) =>
+          saveFundHoldings(tx, fundTicker.data, holdings, statSync(file).mtime)
+        )
+        console.log(`✅ ${fundTicker.data}: ${holdings.length} holdings (${skipped} rows skipped)`)
+        loaded++
+      } catch (error) {
+        console.error(`❌ ${file}:`, error instanceof Error ? error.message : error)
+        failed++
+      }
+    }
+
+    console.log(`📊 Loaded ${loaded} funds, ${failed} failed`)
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+// Run the loader
+loadFundHoldings()
+  .then(() => {
+    console.log('🎉 Fund holdings loaded!')
+    process.exit(0)
+  })
+  .catch((error) => {
+    console.error('💥 Loading fund holdings failed:', error)
+    process.exit(1)
+  })
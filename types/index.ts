@@ -4,7 +4,30 @@
  * Global TypeScript type definitions for STOCKLIO
  */
 
-import { Asset, Stock } from '@prisma/client';
+import {
+  Asset,
+  AssetClass,
+  CashTransaction,
+  CashTransactionType,
+  CorporateActionType,
+  GainTerm,
+  LotMethod,
+  ManualValuation,
+  OptionPosition,
+  OptionSide,
+  OptionStatus,
+  OptionType,
+  Portfolio,
+  RealizedGain,
+  ShareLink,
+  Stock,
+  TargetKind,
+  TransactionType,
+} from '@prisma/client';
+
+import type { CORRELATION_WINDOWS, CURRENCIES, PERFORMANCE_RANGES, REBALANCE_MODES } from '@/lib/constants';
+import type { CashSummary } from '@/lib/portfolio/cash';
+import type { ImportColumnMapping, ImportRow } from '@/lib/portfolio/import';
 
 // ============================================
 // API Response Types
@@ -54,6 +77,7 @@ export interface StockQuote {
   dividendYield?: number;
   week52High?: number;
   week52Low?: number;
+  currency?: string; // Listing currency, USD when absent
   timestamp: Date;
 }
 
@@ -65,6 +89,8 @@ export interface CompanyInfo {
   name: string;
   sector?: string;
   industry?: string;
+  country?: string; // Country of domicile
+  marketCap?: number;
   description?: string;
   website?: string;
   logo?: string;
@@ -107,33 +133,418 @@ export interface DividendInfo {
  */
 export interface EnrichedAsset extends Asset {
   name?: string;
-  currentPrice: number;
+  currentPrice: number; // In the asset's currency, like avgPrice
   totalValue: number;
-  currentValue: number;
-  totalCost: number;
+  currentValue: number; // Values and P/L are in the base currency
+  totalCost: number; // At the exchange rates of the purchase dates
   profitLoss: number;
   profitLossPercent: number;
+  priceProfitLoss: number; // Part of the P/L from the price in the asset's currency
+  fxProfitLoss: number; // Part of the P/L from exchange rate moves
+  fxRate: number; // Current base currency units per unit of the asset's currency
+  realizedProfitLoss: number;
+  disallowedLoss: number; // Losses on sales disallowed by wash sales, in the asset's currency
+  deferredLoss: number; // Disallowed losses in the open lots' basis, in the asset's currency
   dayChange: number;
   dayChangePercent: number;
   companyName?: string;
   sector?: string;
+  industry?: string;
+  country?: string;
+  marketCapRange?: string; // Label of the MARKET_CAP_RANGES bucket
+  openingPrice: number | null; // Price of the opening buy before fees, while it is the only trade
+}
+
+/**
+ * Portfolio account with its number of open positions
+ */
+export interface PortfolioAccount extends Portfolio {
+  assetCount: number;
+}
+
+/**
+ * Cash balance with the most recent cash transactions
+ */
+export interface CashReport extends CashSummary {
+  transactions: CashTransaction[];
+}
+
+/**
+ * User-entered price of a manually priced asset on a date
+ */
+export type AssetValuation = ManualValuation;
+
+/**
+ * Share link with the name of the account it shares
+ */
+export interface ShareLinkSummary extends ShareLink {
+  accountName: string | null; // Null when the link shares every account
+}
+
+/**
+ * Open position as shown on a shared dashboard. Shares and amounts are
+ * zero on links that mask them.
+ */
+export interface SharedHolding {
+  ticker: string;
+  companyName: string;
+  assetClass: AssetClass;
+  sector?: string;
+  currency: string;
+  currentPrice: number; // In the asset's currency
+  shares: number;
+  currentValue: number; // Value and P/L are in the base currency
+  profitLoss: number;
+  profitLossPercent: number;
+  dayChangePercent: number;
+  weight: number; // Percent of the positions' value
+}
+
+/**
+ * Read-only dashboard opened by a share link
+ */
+export interface SharedPortfolio {
+  name: string | null;
+  accountName: string | null; // Null when every account is shared
+  masked: boolean;
+  baseCurrency: Currency;
+  expiresAt: Date;
+  holdings: SharedHolding[]; // Largest first
+}
+
+/**
+ * Position in the trash, with the day it is deleted for good
+ */
+export interface TrashedAsset
+  extends Pick<Asset, 'id' | 'ticker' | 'assetClass' | 'currency' | 'shares' | 'portfolioId'> {
+  accountName: string | null;
+  deletedAt: Date;
+  purgeAt: Date;
+}
+
+/**
+ * Time- and money-weighted returns over a period, as fractions. Returns
+ * over periods longer than a year are annualized.
+ */
+export interface ReturnMetrics {
+  timeWeighted: number | null; // Null without enough valuation history
+  moneyWeighted: number | null; // XIRR; null if there are no flows or it does not converge
+  annualized: boolean;
+}
+
+/**
+ * Returns of a single position
+ */
+export interface PositionReturns extends ReturnMetrics {
+  assetId: string;
+  ticker: string;
+  portfolioId: string | null;
+}
+
+/**
+ * Commissions and fees paid on trades, by calendar year
+ */
+export interface FeesSummary {
+  total: number;
+  byYear: Array<{ year: number; amount: number }>; // Newest year first
 }
 
 /**
  * Portfolio summary statistics
  */
 export interface PortfolioSummary {
-  totalValue: number;
+  baseCurrency: Currency; // Currency of every amount
+  totalValue: number; // Positions plus cash
   totalCost: number;
   totalProfitLoss: number;
   totalProfitLossPercent: number;
+  priceProfitLoss: number; // Market gain from prices in each listing's currency
+  fxProfitLoss: number; // Market gain from exchange rate moves
+  realizedProfitLoss: number;
   dayChange: number;
   dayChangePercent: number;
   assetCount: number;
+  cashBalance: number;
+  netContributions: number; // Deposits less withdrawals
+  cashIncome: number; // Interest and dividends received
+  fees: FeesSummary; // Converted at the rates of the trade dates
+  optionsValue: number; // Open options; written contracts count as liabilities
+  optionCount: number; // Open option positions
   topGainers: EnrichedAsset[];
   topLosers: EnrichedAsset[];
   allocation: AllocationData[];
   allocationByAsset: AllocationData[];
+  allocationByIndustry: AllocationData[];
+  allocationByCountry: AllocationData[];
+  allocationByMarketCap: AllocationData[]; // By MARKET_CAP_RANGES bucket
+  allocationByAssetClass: AllocationData[]; // By ASSET_CLASSES
+  allocationByAccount: AllocationData[]; // Only populated for all accounts
+  allocationByTag: AllocationData[]; // A position with several tags counts toward each
+  returnPeriod: PerformanceRange;
+  returns: ReturnMetrics; // Of the positions, excluding idle cash
+  positionReturns: PositionReturns[]; // Open positions
+}
+
+/**
+ * Portfolio summary as a share link shows it, without the internal IDs of
+ * positions and accounts
+ */
+export type SharedSummary = Omit<PortfolioSummary, 'positionReturns'> & {
+  positionReturns: Array<Omit<PositionReturns, 'assetId' | 'portfolioId'>>;
+};
+
+/**
+ * Open tax lot of a position
+ */
+export interface TaxLotSummary {
+  id: string;
+  acquiredAt: Date;
+  shares: number;
+  remainingShares: number;
+  costPerShare: number;
+  costBasis: number;
+  term: GainTerm; // Term the lot would get if sold today
+}
+
+/**
+ * Tax lots and realized gains for a ticker
+ */
+export interface TickerLotReport {
+  ticker: string;
+  currency: string; // Lots and gains are in the position's currency
+  openLots: TaxLotSummary[];
+  realizedGains: RealizedGain[];
+  shortTermGain: number;
+  longTermGain: number;
+  totalGain: number;
+}
+
+/**
+ * Tax lot report across the portfolio
+ */
+export interface PortfolioLotReport {
+  lotMethod: LotMethod;
+  positions: TickerLotReport[];
+  shortTermGain: number;
+  longTermGain: number;
+  totalGain: number;
+}
+
+/**
+ * Parsed broker CSV awaiting confirmation
+ */
+export interface ImportPreview {
+  broker: string | null; // Detected broker, null for generic files
+  headers: string[];
+  mapping: ImportColumnMapping;
+  rows: ImportRow[];
+  validCount: number;
+  invalidCount: number;
+  duplicateCount: number;
+  newTickers: string[];
+  remainingAssetSlots: number;
+}
+
+/**
+ * Outcome of a committed import
+ */
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+  tickers: string[];
+}
+
+/**
+ * Loss on a sale disallowed because replacement shares were bought within
+ * the wash-sale window
+ */
+export interface WashSaleEntry {
+  id: string;
+  ticker: string;
+  soldAt: string;
+  shares: number; // Sold shares matched to replacement shares
+  disallowedLoss: number; // In the position's currency
+  currency: string;
+  portfolioId: string | null;
+  replacementTicker: string;
+  replacementDate: string;
+  replacementPortfolioId: string | null;
+}
+
+export interface WashSaleReport {
+  groups: string[][]; // Tickers treated as substantially identical
+  washSales: WashSaleEntry[];
+}
+
+/**
+ * Exposure to one underlying company, held directly or through funds
+ */
+export interface LookThroughHolding {
+  ticker: string;
+  name: string | null;
+  value: number; // In the base currency
+  percentage: number; // Of holdings value
+  direct: number; // Part held directly rather than through funds
+  funds: string[]; // Funds it is held through
+}
+
+/**
+ * Holdings two funds have in common
+ */
+export interface FundOverlap {
+  funds: [string, string];
+  overlap: number; // Sum of the smaller weight of each shared holding, as a fraction
+  sharedHoldings: number;
+}
+
+/**
+ * Holdings with funds broken down into the companies they hold
+ */
+export interface LookThroughReport {
+  baseCurrency: Currency;
+  totalValue: number; // Holdings, excluding cash
+  funds: string[]; // Held funds with holdings data, largest first
+  fundShare: number; // Fraction of holdings value in those funds
+  holdings: LookThroughHolding[]; // Largest underlying exposures
+  sectors: AllocationData[];
+  overlaps: FundOverlap[]; // Fund pairs with shared holdings, most overlapping first
+}
+
+/**
+ * Option position valued against its underlying. Per-share values are in
+ * the option's currency; totals are in the base currency and signed, so
+ * written contracts have a negative value and cost.
+ */
+export interface OptionPositionSummary extends OptionPosition {
+  symbol: string; // OCC-style contract symbol
+  shares: number; // Contracts times multiplier
+  daysToExpiry: number;
+  underlyingPrice: number | null; // Null when the quote is unavailable
+  intrinsicValue: number; // Per share
+  extrinsicValue: number; // Per share, from the estimated premium
+  markPrice: number; // Estimated premium per share
+  marketValue: number;
+  costBasis: number; // Premium paid, or less premium received, including fees
+  profitLoss: number; // Unrealized while open, realized once settled
+  covered: boolean | null; // Whether a written call is covered by shares held; null otherwise
+}
+
+/**
+ * Options of an account, or of every account
+ */
+export interface OptionsReport {
+  baseCurrency: Currency;
+  open: OptionPositionSummary[]; // Nearest expiry first
+  settled: OptionPositionSummary[]; // Closed, expired or exercised, most recent first
+  totalValue: number; // Of open options
+  totalCost: number; // Of open options
+  unrealizedProfitLoss: number;
+  realizedProfitLoss: number; // Of closed and expired options
+}
+
+/**
+ * Per-user portfolio settings
+ */
+export interface PortfolioSettings {
+  lotMethod: LotMethod;
+  benchmarks: string[];
+  riskFreeRate: number; // Annual, as a fraction
+  baseCurrency: Currency;
+}
+
+/**
+ * JSON portfolio backup, produced by the JSON export and accepted by restore
+ */
+export interface PortfolioBackup {
+  version: number;
+  exportedAt: string;
+  settings: PortfolioSettings;
+  targets: AllocationTargets;
+  washSaleGroups: string[][]; // Groups of substantially identical tickers
+  accounts: Array<{
+    name: string;
+    isDefault: boolean;
+  }>;
+  assets: Array<{
+    account: string;
+    ticker: string;
+    shares: number;
+    avgPrice: number;
+    purchaseDate: string;
+    notes: string | null;
+    currency: string;
+    tags: string[];
+    assetClass: AssetClass;
+    valuations: Array<{
+      price: number;
+      date: string;
+      notes: string | null;
+    }>;
+    deletedAt: string | null; // Set for positions in the trash
+    currentValue: number;
+    profitLoss: number;
+    transactions: Array<{
+      id: string;
+      type: TransactionType;
+      shares: number;
+      price: number;
+      fees: number;
+      ratio: number | null;
+      lotMethod: LotMethod | null;
+      date: string;
+      notes: string | null;
+      lots: Array<{ lotId: string; shares: number }>;
+    }>;
+  }>;
+  cash: Array<{
+    account: string;
+    type: CashTransactionType;
+    amount: number;
+    ticker: string | null;
+    date: string;
+    notes: string | null;
+    transactionId: string | null;
+    optionId: string | null;
+  }>;
+  options: Array<{
+    id: string;
+    account: string;
+    underlying: string;
+    type: OptionType;
+    side: OptionSide;
+    strike: number;
+    expiry: string;
+    multiplier: number;
+    contracts: number;
+    premium: number;
+    fees: number;
+    currency: string;
+    openedAt: string;
+    status: OptionStatus;
+    closedAt: string | null;
+    closePremium: number | null;
+    notes: string | null;
+    transactionId: string | null;
+  }>;
+}
+
+/**
+ * Corporate action applied to one of the user's positions
+ */
+export interface CorporateActionEntry {
+  id: string;
+  type: CorporateActionType;
+  ticker: string; // Position's ticker after the action
+  actionTicker: string; // Stock the action was announced for
+  effectiveDate: string;
+  description: string;
+  sharesBefore: number;
+  sharesAfter: number;
+  avgPriceBefore: number; // In the position's currency
+  avgPriceAfter: number;
+  currency: string;
+  portfolioId: string | null;
+  appliedAt: string;
 }
 
 /**
@@ -273,9 +684,12 @@ export interface AddAssetInput {
  * Update asset form data
  */
 export interface UpdateAssetInput {
+  ticker?: string;
   shares?: number;
   avgPrice?: number;
-  notes?: string;
+  purchaseDate?: Date | string;
+  notes?: string | null;
+  tags?: string[];
 }
 
 // ============================================
@@ -353,14 +767,209 @@ export interface ChartDataPoint {
   label?: string;
 }
 
+/**
+ * Time range of a performance chart
+ */
+export type PerformanceRange = (typeof PERFORMANCE_RANGES)[number];
+
+export type Currency = (typeof CURRENCIES)[number];
+
+/**
+ * End-of-day portfolio values, summed across the accounts in view
+ */
+export interface PerformancePoint {
+  date: string; // YYYY-MM-DD
+  totalValue: number;
+  positionsValue: number;
+  costBasis: number;
+  cashBalance: number;
+  netContributions: number;
+}
+
 /**
  * Portfolio performance data
+ * The series hold total value at the close of each day, week, month and
+ * year in the range
  */
 export interface PerformanceData {
+  range: PerformanceRange;
   daily: ChartDataPoint[];
   weekly: ChartDataPoint[];
   monthly: ChartDataPoint[];
   yearly: ChartDataPoint[];
+  snapshots: PerformancePoint[];
+  change: number; // Total value change over the range
+  changePercent: number; // Fraction of the starting value
+}
+
+/**
+ * Cumulative returns on one day of a benchmark comparison, as fractions of
+ * the range's starting value
+ */
+export interface BenchmarkPoint {
+  date: string; // YYYY-MM-DD
+  portfolio: number; // Time-weighted return of the positions
+  benchmarks: Record<string, number | null>; // By ticker, null without prices
+}
+
+/**
+ * Portfolio and benchmark returns over one performance range
+ */
+export interface BenchmarkPeriod {
+  range: PerformanceRange;
+  portfolio: number | null;
+  benchmarks: Array<{
+    ticker: string;
+    cumulativeReturn: number | null;
+    relative: number | null; // Portfolio return less the benchmark's
+  }>;
+}
+
+export interface BenchmarkComparison {
+  range: PerformanceRange;
+  tickers: string[];
+  series: BenchmarkPoint[];
+  periods: BenchmarkPeriod[];
+}
+
+/**
+ * Risk metrics computed from daily returns. Each is null when there is not
+ * enough price history to compute it.
+ */
+export interface RiskMetrics {
+  volatility: number | null; // Annualized standard deviation of daily returns
+  beta: number | null; // Against the report's benchmark
+  sharpe: number | null;
+  sortino: number | null;
+  maxDrawdown: number | null; // Largest peak-to-trough decline, as a negative fraction
+  valueAtRisk: number | null; // One-day loss not exceeded at the report's confidence, as a fraction
+  observations: number; // Daily returns behind the metrics
+}
+
+export interface HoldingRisk extends RiskMetrics {
+  ticker: string;
+  value: number;
+  weight: number; // Fraction of the positions' value
+}
+
+export type CorrelationWindow = (typeof CORRELATION_WINDOWS)[number];
+
+/**
+ * Holdings whose returns move together, linked by pairwise correlations at
+ * or above the high-correlation threshold
+ */
+export interface CorrelationCluster {
+  tickers: string[];
+  averageCorrelation: number;
+  weight: number; // Combined fraction of the positions' value
+  sectors: string[]; // More than one means the sector view hides the overlap
+}
+
+/**
+ * How much of a single holding's risk the portfolio diversifies away
+ */
+export interface DiversificationScore {
+  score: number; // 0 (one holding, or all perfectly correlated) to 100
+  averageCorrelation: number | null; // Value-weighted over holding pairs
+  effectiveHoldings: number; // Number of independent equal positions with the same risk
+}
+
+export interface CorrelationMatrix {
+  window: CorrelationWindow;
+  tickers: string[]; // Largest holding first
+  weights: number[]; // By ticker, fractions of the positions' value
+  matrix: Array<Array<number | null>>; // Pearson correlation of daily returns, null without enough shared days
+  diversification: DiversificationScore;
+  clusters: CorrelationCluster[];
+}
+
+export type RebalanceMode = (typeof REBALANCE_MODES)[number];
+
+/**
+ * Saved allocation target model
+ */
+export interface AllocationTargets {
+  kind: TargetKind;
+  fractionalShares: boolean;
+  targets: Array<{
+    key: string; // Ticker, sector or bucket name, or "Cash"
+    weight: number; // Fraction of total value
+    band: number; // Allowed drift either side of the weight
+    tickers: string[]; // Bucket members
+  }>;
+}
+
+/**
+ * Current and target weight of one target group
+ */
+export interface TargetDrift {
+  key: string;
+  targetWeight: number;
+  band: number;
+  currentValue: number;
+  currentWeight: number;
+  drift: number; // Current weight less the target weight
+  outOfBand: boolean;
+  projectedWeight: number; // Weight after the plan's trades
+}
+
+export interface RebalanceTrade {
+  ticker: string;
+  group: string; // Target the trade moves toward
+  action: 'BUY' | 'SELL';
+  shares: number;
+  price: number; // In the base currency
+  amount: number; // Shares times price
+}
+
+export interface RebalancePlan {
+  kind: TargetKind;
+  mode: RebalanceMode;
+  fractionalShares: boolean;
+  contribution: number; // New money added before trading
+  totalValue: number; // Positions and cash, including the contribution
+  cashBefore: number; // Cash including the contribution
+  cashAfter: number;
+  drift: TargetDrift[];
+  trades: RebalanceTrade[];
+  unplaced: Array<{ group: string; amount: number }>; // Buys with no ticker to buy, e.g. an empty sector
+}
+
+export interface RiskReport {
+  benchmark: string;
+  riskFreeRate: number;
+  confidence: number;
+  lookbackDays: number;
+  portfolio: RiskMetrics & { value: number };
+  holdings: HoldingRisk[];
+}
+
+/**
+ * Percentiles of simulated portfolio value at one month of a projection
+ */
+export interface ProjectionPoint {
+  month: number; // Months from today
+  date: string;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  contributed: number; // Starting value plus contributions to date
+}
+
+export interface ProjectionResult {
+  baseCurrency: Currency;
+  startValue: number; // Positions and cash
+  monthlyContribution: number;
+  years: number;
+  paths: number;
+  goal: number | null;
+  goalProbability: number | null; // Fraction of paths ending at or above the goal
+  historyDays: number; // Daily portfolio returns the months are drawn from
+  annualReturn: number | null; // Geometric mean of the sampled months, annualized
+  annualVolatility: number | null;
+  points: ProjectionPoint[]; // Empty when there is too little history
 }
 
 // ============================================